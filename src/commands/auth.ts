@@ -1,9 +1,15 @@
 import { createServer } from "node:http";
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import open from "open";
 import pc from "picocolors";
 import yoctoSpinner from "yocto-spinner";
 import { OAUTH_CALLBACK_PATH } from "../lib/constants.js";
+import {
+  CREDENTIAL_BACKENDS,
+  type CredentialBackendName,
+  getCredentialBackend,
+  migrateCredentials,
+} from "../lib/credential-store.js";
 import { graphqlRequest } from "../lib/graphql-client.js";
 import {
   buildAuthorizationUrl,
@@ -11,16 +17,32 @@ import {
   generateCodeChallenge,
   generateCodeVerifier,
   generateState,
+  parseAuthorizationResponse,
   registerClient,
   revokeToken,
 } from "../lib/oauth.js";
 import {
+  CREDENTIAL_SOURCE_LABELS,
   clearTokens,
+  getActiveProfile,
+  getCredentialSource,
   getValidAccessToken,
+  listProfiles,
+  loadCredentials,
   loadTokens,
+  NO_EXPIRY,
+  removeProfile,
+  type StoredTokens,
   saveTokens,
+  useProfile,
 } from "../lib/token-storage.js";
-import { printError, printRecord, printSuccess } from "../lib/utils.js";
+import {
+  printError,
+  printRecord,
+  printSuccess,
+  printTable,
+  prompt,
+} from "../lib/utils.js";
 
 const SUCCESS_HTML = `<!DOCTYPE html>
 <html>
@@ -112,6 +134,61 @@ const findAvailablePort = (): Promise<number> =>
     server.on("error", reject);
   });
 
+const authorizeInBrowser = async (
+  authUrl: string,
+  port: number,
+  state: string
+): Promise<string> => {
+  process.stderr.write(`\n  ${pc.bold("Opening browser to log in...")}\n`);
+  process.stderr.write(`  ${pc.dim(authUrl)}\n\n`);
+
+  await open(authUrl);
+
+  process.stderr.write(`  ${pc.dim("Waiting for authentication...")}\n`);
+
+  const { code } = await waitForCallback(port, state);
+  return code;
+};
+
+const authorizeByPaste = async (
+  authUrl: string,
+  state: string
+): Promise<string> => {
+  process.stderr.write(
+    `\n  ${pc.bold("Open this URL in a browser to log in:")}\n`
+  );
+  process.stderr.write(`  ${authUrl}\n\n`);
+  process.stderr.write(
+    `  ${pc.dim("After approving, the browser is redirected to a page that will not load.")}\n`
+  );
+  process.stderr.write(
+    `  ${pc.dim("Copy the URL from the address bar, or just its code, and paste it below.")}\n\n`
+  );
+
+  const input = await prompt(`  ${pc.bold("Redirect URL or code:")} `);
+  return parseAuthorizationResponse(input, state);
+};
+
+const CREDENTIAL_BACKEND_LABELS: Record<CredentialBackendName, string> = {
+  "encrypted-file": "Encrypted file",
+  file: "Plaintext file",
+  keychain: "System keychain",
+};
+
+const revokeStoredTokens = async (tokens: StoredTokens): Promise<void> => {
+  if (!tokens.refresh_token) {
+    return;
+  }
+  try {
+    await revokeToken({
+      clientId: tokens.client_id,
+      token: tokens.refresh_token,
+    });
+  } catch {
+    // Best-effort revocation
+  }
+};
+
 export const authCommand = new Command("auth")
   .usage("<command> [options]")
   .description("Manage OAuth authentication");
@@ -119,7 +196,11 @@ export const authCommand = new Command("auth")
 authCommand
   .command("login")
   .description("Authenticate with Memberstack via OAuth")
-  .action(async () => {
+  .option(
+    "--no-browser",
+    "Print the login URL and paste the redirect URL or code instead of opening a browser"
+  )
+  .action(async (opts: { browser: boolean }) => {
     try {
       const port = await findAvailablePort();
       const redirectUri = `http://127.0.0.1:${port}${OAUTH_CALLBACK_PATH}`;
@@ -137,14 +218,9 @@ authCommand
         state,
       });
 
-      process.stderr.write(`\n  ${pc.bold("Opening browser to log in...")}\n`);
-      process.stderr.write(`  ${pc.dim(authUrl)}\n\n`);
-
-      await open(authUrl);
-
-      process.stderr.write(`  ${pc.dim("Waiting for authentication...")}\n`);
-
-      const { code } = await waitForCallback(port, state);
+      const code = opts.browser
+        ? await authorizeInBrowser(authUrl, port, state)
+        : await authorizeByPaste(authUrl, state);
 
       const tokens = await exchangeCodeForTokens({
         clientId,
@@ -154,9 +230,12 @@ authCommand
       });
 
       await saveTokens(tokens, clientId);
+      const profile = await getActiveProfile();
 
       process.stderr.write("\n");
-      printSuccess("  Successfully authenticated with Memberstack!");
+      printSuccess(
+        `  Successfully authenticated with Memberstack! (profile: ${profile})`
+      );
       process.stderr.write("\n");
     } catch (error) {
       printError(
@@ -173,15 +252,8 @@ authCommand
     try {
       const tokens = await loadTokens();
 
-      if (tokens?.refresh_token) {
-        try {
-          await revokeToken({
-            clientId: tokens.client_id,
-            token: tokens.refresh_token,
-          });
-        } catch {
-          // Best-effort revocation
-        }
+      if (tokens) {
+        await revokeStoredTokens(tokens);
       }
 
       await clearTokens();
@@ -200,13 +272,26 @@ authCommand
   .description("Show current authentication status")
   .action(async () => {
     try {
-      const tokens = await loadTokens();
+      const source = getCredentialSource();
+      const tokens = await loadCredentials();
 
       process.stderr.write("\n");
+      process.stderr.write(
+        `  ${pc.bold("Source:")}       ${CREDENTIAL_SOURCE_LABELS[source]}\n`
+      );
+      if (source === "profile") {
+        const profile = await getActiveProfile();
+        const backend = await getCredentialBackend();
+        const storage = CREDENTIAL_BACKEND_LABELS[backend];
+        process.stderr.write(`  ${pc.bold("Profile:")}      ${profile}\n`);
+        process.stderr.write(
+          `  ${pc.bold("Storage:")}      ${backend === "file" ? pc.yellow(`${storage} (run auth migrate-storage)`) : storage}\n`
+        );
+      }
 
       if (!tokens) {
         process.stderr.write(
-          `  ${pc.bold("Status:")}  ${pc.yellow("Not logged in")}\n`
+          `  ${pc.bold("Status:")}       ${pc.yellow("Not logged in")}\n`
         );
         process.stderr.write(
           `\n  Run ${pc.cyan("memberstack auth login")} to authenticate.\n`
@@ -233,6 +318,10 @@ authCommand
         process.stderr.write(
           `  ${pc.bold("Access Token:")} ${pc.red("Expired")}\n`
         );
+      } else if (tokens.expires_at === NO_EXPIRY) {
+        process.stderr.write(
+          `  ${pc.bold("Expires in:")}   ${pc.dim("Unknown")}\n`
+        );
       } else {
         const minutes = Math.floor(expiresIn / 60);
         const hours = Math.floor(minutes / 60);
@@ -267,6 +356,95 @@ authCommand
     }
   });
 
+authCommand
+  .command("migrate-storage")
+  .description(
+    "Move stored credentials to the system keychain or an encrypted file"
+  )
+  .addOption(
+    new Option(
+      "--to <backend>",
+      "Target backend (default: keychain if available, else encrypted-file)"
+    ).choices(CREDENTIAL_BACKENDS)
+  )
+  .action(async (opts: { to?: CredentialBackendName }) => {
+    try {
+      const { from, to } = await migrateCredentials(opts.to);
+      printSuccess(
+        `Moved credentials from ${CREDENTIAL_BACKEND_LABELS[from]} to ${CREDENTIAL_BACKEND_LABELS[to]}.`
+      );
+    } catch (error) {
+      printError(
+        error instanceof Error ? error.message : "Failed to migrate storage"
+      );
+      process.exitCode = 1;
+    }
+  });
+
+const profilesCommand = authCommand
+  .command("profiles")
+  .usage("<command> [options]")
+  .description("Manage named auth profiles");
+
+profilesCommand
+  .command("list")
+  .description("List stored auth profiles")
+  .action(async () => {
+    try {
+      const profiles = await listProfiles();
+      const now = Math.floor(Date.now() / 1000);
+      printTable(
+        profiles.map(({ name, active, tokens }) => ({
+          active: active ? "*" : "",
+          name,
+          appId: tokens.app_id ?? "",
+          status:
+            tokens.expires_at > now || tokens.refresh_token
+              ? "Logged in"
+              : "Expired",
+        }))
+      );
+    } catch (error) {
+      printError(
+        error instanceof Error ? error.message : "Failed to list profiles"
+      );
+      process.exitCode = 1;
+    }
+  });
+
+profilesCommand
+  .command("use")
+  .description("Set the active auth profile")
+  .argument("<name>", "Profile name")
+  .action(async (name: string) => {
+    try {
+      await useProfile(name);
+      printSuccess(`Switched to profile "${name}".`);
+    } catch (error) {
+      printError(
+        error instanceof Error ? error.message : "Failed to switch profile"
+      );
+      process.exitCode = 1;
+    }
+  });
+
+profilesCommand
+  .command("remove")
+  .description("Remove an auth profile and revoke its tokens")
+  .argument("<name>", "Profile name")
+  .action(async (name: string) => {
+    try {
+      const tokens = await removeProfile(name);
+      await revokeStoredTokens(tokens);
+      printSuccess(`Removed profile "${name}".`);
+    } catch (error) {
+      printError(
+        error instanceof Error ? error.message : "Failed to remove profile"
+      );
+      process.exitCode = 1;
+    }
+  });
+
 authCommand
   .command("update-profile")
   .description("Update your profile (first name, last name, email)")
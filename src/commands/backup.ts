@@ -0,0 +1,37 @@
+import { Command } from "commander";
+import yoctoSpinner from "yocto-spinner";
+import { writeBackup } from "../lib/backup.js";
+import type { BackupOptions } from "../lib/types.js";
+import { printError, printSuccess, printTable } from "../lib/utils.js";
+
+export const backupCommand = new Command("backup")
+  .description(
+    "Back up app settings, config, members, and records to a single archive"
+  )
+  .option(
+    "--output <path>",
+    "Archive path (default: memberstack-backup-<appId>-<timestamp>.jsonl.gz)"
+  )
+  .action(async (options: BackupOptions) => {
+    const spinner = yoctoSpinner({ text: "Fetching app config..." }).start();
+    try {
+      const { counts, filePath } = await writeBackup(options.output, (text) => {
+        spinner.text = text;
+      });
+      spinner.stop();
+      printSuccess(`Backup written to ${filePath}`);
+      printTable([
+        { content: "members", count: counts.members },
+        ...Object.entries(counts.records).map(([table, count]) => ({
+          content: `records: ${table}`,
+          count,
+        })),
+      ]);
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
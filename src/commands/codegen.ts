@@ -0,0 +1,66 @@
+import { writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { Command } from "commander";
+import yoctoSpinner from "yocto-spinner";
+import { fetchAppConfig } from "../lib/app-config.js";
+import {
+  generateJsonSchema,
+  generateTypes,
+  generateZod,
+} from "../lib/codegen.js";
+import type { AppConfig, CodegenOptions } from "../lib/types.js";
+import { printError, printSuccess } from "../lib/utils.js";
+
+export const codegenCommand = new Command("codegen")
+  .usage("<command> [options]")
+  .description("Generate code from the app's plans, custom fields, and tables");
+
+const addTarget = (
+  name: string,
+  description: string,
+  defaultOutput: string,
+  generate: (config: AppConfig) => string
+) =>
+  codegenCommand
+    .command(name)
+    .description(description)
+    .option("--output <path>", "Output file path", defaultOutput)
+    .action(async (options: CodegenOptions) => {
+      const spinner = yoctoSpinner({ text: "Fetching app config..." }).start();
+      try {
+        const config = await fetchAppConfig();
+        const outputPath = resolve(options.output);
+        await writeFile(outputPath, generate(config));
+        spinner.stop();
+        printSuccess(
+          `Wrote ${name} for ${config.tables.length} table(s) to ${outputPath}`
+        );
+      } catch (error) {
+        spinner.stop();
+        printError(
+          error instanceof Error ? error.message : "An unknown error occurred"
+        );
+        process.exitCode = 1;
+      }
+    });
+
+addTarget(
+  "types",
+  "Generate TypeScript declarations for tables, custom fields, and plan and permission IDs",
+  "memberstack.d.ts",
+  generateTypes
+);
+
+addTarget(
+  "json-schema",
+  "Generate a JSON Schema for each table's record data",
+  "memberstack.schema.json",
+  generateJsonSchema
+);
+
+addTarget(
+  "zod",
+  "Generate Zod schemas for each table's record data",
+  "memberstack.zod.ts",
+  generateZod
+);
@@ -0,0 +1,103 @@
+import { writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { Command } from "commander";
+import pc from "picocolors";
+import yoctoSpinner from "yocto-spinner";
+import {
+  applyConfigChanges,
+  createApplyContext,
+  diffAppConfig,
+  fetchAppConfig,
+  printConfigChanges,
+  readAppConfig,
+} from "../lib/app-config.js";
+import type { ConfigPullOptions, ConfigPushOptions } from "../lib/types.js";
+import { confirm, printError, printSuccess } from "../lib/utils.js";
+
+const CONFIG_FILE = "memberstack.config.json";
+
+export const configCommand = new Command("config")
+  .usage("<command> [options]")
+  .description("Pull and push declarative app configuration");
+
+configCommand
+  .command("pull")
+  .description("Write the current app configuration to a file")
+  .option("--output <path>", "Output file path", CONFIG_FILE)
+  .action(async (options: ConfigPullOptions) => {
+    const spinner = yoctoSpinner({ text: "Fetching app config..." }).start();
+    try {
+      const config = await fetchAppConfig();
+      const outputPath = resolve(options.output);
+      await writeFile(outputPath, `${JSON.stringify(config, null, 2)}\n`);
+      spinner.stop();
+      printSuccess(
+        `Wrote config for ${config.app.name} (${config.app.id}) to ${outputPath}`
+      );
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
+
+configCommand
+  .command("push")
+  .description("Apply a configuration file to the current app")
+  .option("--file <path>", "Config file path", CONFIG_FILE)
+  .option("--prune", "Delete resources that are not in the config file")
+  .option("--dry-run", "Preview changes without applying them")
+  .option("-f, --force", "Skip the confirmation prompt for deletions")
+  .action(async (options: ConfigPushOptions) => {
+    const spinner = yoctoSpinner({ text: "Reading config..." }).start();
+    try {
+      const desired = await readAppConfig(resolve(options.file));
+      spinner.text = "Fetching app config...";
+      const current = await fetchAppConfig();
+
+      const changes = diffAppConfig(desired, current).filter(
+        (change) => options.prune || change.action !== "delete"
+      );
+      spinner.stop();
+      printConfigChanges(changes);
+
+      if (options.dryRun || changes.length === 0) {
+        return;
+      }
+
+      const deletions = changes.filter(
+        (change) => change.action === "delete"
+      ).length;
+      if (deletions > 0 && !options.force) {
+        const proceed = await confirm(
+          `  ${pc.bold(`Apply ${changes.length} change(s), including ${deletions} deletion(s)?`)} (y/n) `
+        );
+        if (!proceed) {
+          process.stderr.write("\n  Aborted.\n\n");
+          return;
+        }
+      }
+
+      spinner.start();
+      const { applied, failed } = await applyConfigChanges(
+        changes,
+        createApplyContext(current),
+        (index, total) => {
+          spinner.text = `Applying change ${index}/${total}...`;
+        }
+      );
+      spinner.stop();
+      printSuccess(`Push complete: ${applied} applied, ${failed} failed`);
+      if (failed > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
@@ -0,0 +1,67 @@
+import { resolve } from "node:path";
+import { Command } from "commander";
+import yoctoSpinner from "yocto-spinner";
+import {
+  diffAppConfig,
+  fetchAppConfig,
+  printConfigChanges,
+  readAppConfig,
+  selectSchemaSections,
+} from "../lib/app-config.js";
+import type { AppConfig, DiffOptions } from "../lib/types.js";
+import { printError } from "../lib/utils.js";
+
+const MODES = new Set(["sandbox", "live"]);
+
+const DIFF_LABELS = {
+  create: "missing",
+  update: "changed",
+  delete: "extra",
+} as const;
+
+const loadSource = async (source: string): Promise<AppConfig> => {
+  if (MODES.has(source)) {
+    return fetchAppConfig(source);
+  }
+  const config = await readAppConfig(resolve(source));
+  return {
+    version: config.version ?? 0,
+    app: config.app ?? { id: "", name: "" },
+    permissions: config.permissions ?? [],
+    plans: config.plans ?? [],
+    customFields: config.customFields ?? [],
+    tables: config.tables ?? [],
+    providers: config.providers ?? [],
+    ssoApps: config.ssoApps ?? [],
+  };
+};
+
+export const diffCommand = new Command("diff")
+  .description(
+    "Compare plans, prices, permissions, custom fields, and tables between modes or config snapshots"
+  )
+  .argument("[source]", "sandbox, live, or a config file path", "sandbox")
+  .argument("[target]", "sandbox, live, or a config file path", "live")
+  .option("--exit-code", "Exit with code 1 when differences are found")
+  .action(async (source: string, target: string, opts: DiffOptions) => {
+    const spinner = yoctoSpinner({ text: `Loading ${source}...` }).start();
+    try {
+      const from = await loadSource(source);
+      spinner.text = `Loading ${target}...`;
+      const to = await loadSource(target);
+      spinner.stop();
+
+      const changes = diffAppConfig(selectSchemaSections(from), to);
+      printConfigChanges(changes, DIFF_LABELS);
+
+      if (opts.exitCode && changes.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
@@ -1,12 +1,37 @@
 import { writeFile } from "node:fs/promises";
 import { resolve as resolvePath } from "node:path";
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import pc from "picocolors";
 import yoctoSpinner from "yocto-spinner";
-import { RATE_LIMIT_DELAY_MS } from "../lib/constants.js";
-import { readInputFile, writeOutputFile } from "../lib/csv.js";
+import {
+  formatBulkProgress,
+  parseConcurrency,
+  printBulkSummary,
+  runBulk,
+  setBulkExitCode,
+  settle,
+  writeBulkErrors,
+} from "../lib/bulk.js";
+import { DEFAULT_CONCURRENCY } from "../lib/constants.js";
+import { type InputRow, streamInputRows, toTextRow } from "../lib/csv.js";
 import { graphqlRequest } from "../lib/graphql-client.js";
+import { startJournal } from "../lib/journal.js";
+import { loadColumnMapping } from "../lib/mapping.js";
+import {
+  type SignupInput,
+  signupPasswordless,
+  signupWithGeneratedPassword,
+  signupWithPassword,
+} from "../lib/member-signup.js";
+import {
+  createOutputWriter,
+  EXPORT_FORMATS,
+  type OutputWriter,
+  resolveExportFormat,
+} from "../lib/output-writer.js";
+import { fetchMemberPages, MEMBER_FIELDS } from "../lib/pagination.js";
 import type {
+  ImportMode,
   Member,
   MembersBulkAddPlanOptions,
   MembersBulkUpdateOptions,
@@ -19,7 +44,6 @@ import type {
   PlanOptions,
 } from "../lib/types.js";
 import {
-  delay,
   parseJsonString,
   parseKeyValuePairs,
   printError,
@@ -27,28 +51,15 @@ import {
   printSuccess,
   printTable,
 } from "../lib/utils.js";
+import {
+  createMemberRowChecker,
+  IMPORT_MODES,
+  printValidationReport,
+  type ValidationIssue,
+} from "../lib/validation.js";
 
 const MEMBERS_OUTPUT_FILE = "members.json";
 
-const MEMBER_FIELDS = `
-  id
-  createdAt
-  lastLogin
-  auth { email }
-  customFields
-  metaData
-  json
-  loginRedirect
-  permissions { all }
-  planConnections {
-    id
-    status
-    type
-    active
-    plan { id name }
-  }
-`;
-
 const printMemberPreview = (member: Member): void => {
   process.stderr.write(`\n  ${pc.dim("Preview:")}\n`);
   process.stderr.write(`  ${pc.bold("ID:")}      ${member.id}\n`);
@@ -65,41 +76,13 @@ const fetchAllMembers = async (
   filters?: Record<string, unknown>
 ): Promise<{ members: Member[]; totalCount: number }> => {
   const allMembers: Member[] = [];
-  let cursor: string | undefined;
-  let totalCount = 0;
-
-  const pageSize = 200;
-
-  do {
-    const result = await graphqlRequest<{
-      getMembers: {
-        edges: { node: Member }[];
-        pageInfo: { endCursor: string | null };
-      };
-    }>({
-      query: `query($first: Int, $after: String, $filters: MemberFilter) {
-        getMembers(first: $first, after: $after, filters: $filters) {
-          edges { node { ${MEMBER_FIELDS} } }
-          pageInfo { endCursor }
-        }
-      }`,
-      variables: { first: pageSize, after: cursor, filters },
-    });
-
-    const { edges, pageInfo } = result.getMembers;
-    allMembers.push(...edges.map((e) => e.node));
 
-    if (edges.length === pageSize && pageInfo.endCursor) {
-      cursor = pageInfo.endCursor;
-      spinner.text = `Fetching members... (${allMembers.length} so far)`;
-    } else {
-      cursor = undefined;
-    }
-  } while (cursor);
-
-  totalCount = allMembers.length;
+  for await (const page of fetchMemberPages(filters)) {
+    allMembers.push(...page);
+    spinner.text = `Fetching members... (${allMembers.length} so far)`;
+  }
 
-  return { members: allMembers, totalCount };
+  return { members: allMembers, totalCount: allMembers.length };
 };
 
 const flattenMember = (member: Member): Record<string, unknown> => ({
@@ -156,18 +139,17 @@ const applyPrefixedFields = (
   }
 };
 
-const buildImportInput = (
-  row: Record<string, string>
-): Record<string, unknown> => {
-  const input: Record<string, unknown> = {
-    email: row.email,
-    password: row.password,
-  };
+const parsePlanIds = (value: string): string[] =>
+  value
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+const buildImportInput = (row: Record<string, string>): SignupInput => {
+  const input: SignupInput = { email: row.email };
 
   if (row.plans) {
-    input.plans = row.plans
-      .split(",")
-      .map((p: string) => ({ planId: p.trim() }));
+    input.plans = parsePlanIds(row.plans).map((planId) => ({ planId }));
   }
   if (row.loginRedirect) {
     input.loginRedirect = row.loginRedirect;
@@ -194,6 +176,203 @@ const buildUpdateInput = (
   return input;
 };
 
+const getMatchColumn = (match: string): string =>
+  match === "email" ? "email" : `customFields.${match}`;
+
+const getMemberMatchKey = (
+  member: Member,
+  match: string
+): string | undefined => {
+  if (match === "email") {
+    return member.auth.email.toLowerCase();
+  }
+  const value = member.customFields?.[match];
+  return value === undefined || value === null || value === ""
+    ? undefined
+    : String(value);
+};
+
+const getRowMatchKey = (
+  row: Record<string, string>,
+  match: string
+): string | undefined => {
+  const value = row[getMatchColumn(match)];
+  if (!value) {
+    return;
+  }
+  return match === "email" ? value.toLowerCase() : value;
+};
+
+const indexMembers = (
+  members: Member[],
+  match: string
+): Map<string, Member[]> => {
+  const index = new Map<string, Member[]>();
+  for (const member of members) {
+    const key = getMemberMatchKey(member, match);
+    if (key !== undefined) {
+      index.set(key, [...(index.get(key) ?? []), member]);
+    }
+  }
+  return index;
+};
+
+/** How each import mode creates a member. */
+const IMPORT_MODE_HANDLERS: Record<
+  ImportMode,
+  (input: SignupInput, row: Record<string, string>) => Promise<string>
+> = {
+  password: (input, row) => {
+    if (!row.password) {
+      throw new Error('Missing required field "password"');
+    }
+    return signupWithPassword({ ...input, password: row.password });
+  },
+  generate: signupWithGeneratedPassword,
+  passwordless: signupPasswordless,
+};
+
+const createMember = (
+  row: Record<string, string>,
+  defaultMode: ImportMode
+): Promise<string> => {
+  const mode = (row.mode?.trim() || defaultMode) as ImportMode;
+  if (!IMPORT_MODES.includes(mode)) {
+    throw new Error(
+      `Unknown mode "${mode}". Use one of: ${IMPORT_MODES.join(", ")}`
+    );
+  }
+  if (!row.email) {
+    throw new Error('Missing required field "email"');
+  }
+  return IMPORT_MODE_HANDLERS[mode](buildImportInput(row), row);
+};
+
+/**
+ * Makes a member's free plans match a comma-separated `plans` value. Paid
+ * plan connections are never removed because they are managed by billing.
+ */
+const reconcileFreePlans = async (
+  member: Member,
+  plans: string
+): Promise<void> => {
+  const desired = new Set(parsePlanIds(plans));
+  const current = new Set(member.planConnections.map((conn) => conn.plan.id));
+
+  for (const planId of desired) {
+    if (!current.has(planId)) {
+      await graphqlRequest<{ addFreePlan: { id: string; name: string } }>({
+        query:
+          "mutation($input: AddFreePlanInput!) { addFreePlan(input: $input) { id name } }",
+        variables: { input: { planId, memberId: member.id } },
+      });
+    }
+  }
+
+  for (const conn of member.planConnections) {
+    if (conn.type === "FREE" && !desired.has(conn.plan.id)) {
+      await graphqlRequest<{
+        removeFreePlan: { id: string; name: string };
+      }>({
+        query:
+          "mutation($input: RemoveFreePlanInput!) { removeFreePlan(input: $input) { id name } }",
+        variables: { input: { planId: conn.plan.id, memberId: member.id } },
+      });
+    }
+  }
+};
+
+const updateExistingMember = async (
+  member: Member,
+  row: Record<string, string>
+): Promise<void> => {
+  if (
+    row.email &&
+    row.email.toLowerCase() !== member.auth.email.toLowerCase()
+  ) {
+    await graphqlRequest<{ updateMemberAuth: Member }>({
+      query: `mutation($input: UpdateMemberAuthInput!) { updateMemberAuth(input: $input) { ${MEMBER_FIELDS} } }`,
+      variables: { input: { memberId: member.id, email: row.email } },
+    });
+  }
+
+  const input = buildUpdateInput(row, member.id);
+  if (Object.keys(input).length > 1) {
+    await graphqlRequest<{ updateMember: Member }>({
+      query: `mutation($input: UpdateMemberInput!) { updateMember(input: $input) { ${MEMBER_FIELDS} } }`,
+      variables: { input },
+    });
+  }
+
+  // A blank cell leaves plans alone, like every other blank column
+  if (row.plans?.trim()) {
+    await reconcileFreePlans(member, row.plans);
+  }
+};
+
+/**
+ * Loads the --map file for member rows. Member fields are all text, so JSON
+ * values are flattened after mapping (arrays become comma-separated lists).
+ */
+const loadMemberRowMapping = async (
+  path?: string
+): Promise<(row: InputRow) => Record<string, string>> => {
+  const mapRow = await loadColumnMapping(path);
+  return (row) => toTextRow(mapRow(row));
+};
+
+/**
+ * Checks an import file against the app without writing anything, reading it
+ * as a stream: plan IDs and custom field keys must exist, and under --upsert
+ * rows that match an existing member do not need credentials.
+ */
+const validateMemberImport = async (
+  mapRow: (row: InputRow) => Record<string, string>,
+  options: MembersImportOptions,
+  spinner: ReturnType<typeof yoctoSpinner>
+): Promise<void> => {
+  spinner.text = "Fetching plans and custom fields...";
+  const result = await graphqlRequest<{
+    getCustomFields: { key: string }[];
+    getPlans: { id: string }[];
+  }>({
+    query: `query($input: GetPlansInput) {
+  getPlans(input: $input) { id }
+  getCustomFields { key }
+}`,
+    variables: { input: { status: "ALL" } },
+  });
+
+  let existing = new Map<string, Member[]>();
+  if (options.upsert) {
+    const { members } = await fetchAllMembers(spinner);
+    existing = indexMembers(members, options.match);
+  }
+
+  spinner.text = "Checking rows...";
+  const existingRows = new Set<number>();
+  const check = createMemberRowChecker({
+    customFieldKeys: new Set(result.getCustomFields.map((field) => field.key)),
+    defaultMode: options.passwordMode,
+    existingRows,
+    planIds: new Set((result.getPlans ?? []).map((plan) => plan.id)),
+  });
+  const issues: ValidationIssue[] = [];
+  let rowCount = 0;
+  for await (const source of streamInputRows(options.file)) {
+    const row = settle(() => mapRow(source));
+    const key =
+      row instanceof Error ? undefined : getRowMatchKey(row, options.match);
+    if (key !== undefined && existing.get(key)?.length === 1) {
+      existingRows.add(rowCount);
+    }
+    issues.push(...check(row, rowCount++));
+  }
+
+  spinner.stop();
+  printValidationReport(issues, rowCount);
+};
+
 const collect = (value: string, previous: string[]): string[] => [
   ...previous,
   value,
@@ -576,25 +755,38 @@ membersCommand
 
 membersCommand
   .command("export")
-  .description("Export all members to CSV or JSON")
-  .option("--format <format>", "Output format (csv or json)", "json")
+  .description("Export all members to a file")
+  .addOption(
+    new Option(
+      "--format <format>",
+      "Output format (inferred from the --output extension, else json)"
+    ).choices(EXPORT_FORMATS)
+  )
   .option("--output <path>", "Output file path")
   .action(async (options: MembersExportOptions) => {
     const spinner = yoctoSpinner({ text: "Fetching members..." }).start();
+    let writer: OutputWriter | undefined;
     try {
-      const { members } = await fetchAllMembers(spinner);
-      spinner.text = "Writing file...";
+      const format = resolveExportFormat(options);
+      const outputPath = resolvePath(options.output ?? `members.${format}`);
+      writer = await createOutputWriter(outputPath, format, {
+        name: "members",
+      });
+      let exported = 0;
 
-      const outputPath = resolvePath(
-        options.output ?? `members.${options.format}`
-      );
-      const data = members.map((m) => flattenMember(m));
-      await writeOutputFile(outputPath, data, options.format);
+      for await (const page of fetchMemberPages()) {
+        await writer.write(page.map((m) => flattenMember(m)));
+        exported += page.length;
+        spinner.text = `Exporting members... (${exported} so far)`;
+      }
+      spinner.text = "Writing file...";
+      await writer.close();
 
       spinner.stop();
-      printSuccess(`Exported ${members.length} member(s) to ${outputPath}`);
+      printSuccess(`Exported ${exported} member(s) to ${outputPath}`);
     } catch (error) {
       spinner.stop();
+      await writer?.abort();
       printError(
         error instanceof Error ? error.message : "An unknown error occurred"
       );
@@ -604,52 +796,122 @@ membersCommand
 
 membersCommand
   .command("import")
-  .description("Import members from a CSV or JSON file")
-  .requiredOption("--file <path>", "Input file path (CSV or JSON)")
+  .description("Import members from a CSV, JSON or JSONL file")
+  .requiredOption("--file <path>", "Input file path (CSV, JSON or JSONL)")
+  .option("--map <file>", "YAML or JSON column mapping to apply to each row")
+  .option(
+    "--concurrency <n>",
+    "Number of rows to import in parallel",
+    parseConcurrency,
+    DEFAULT_CONCURRENCY
+  )
+  .option("--journal <path>", "Write the checkpoint journal to this path")
+  .option(
+    "--resume <journal>",
+    "Skip rows completed in an earlier run and retry failed ones"
+  )
+  .option(
+    "--errors-out <file>",
+    "Write failed rows with _row and _error columns to this file"
+  )
+  .addOption(
+    new Option(
+      "--password-mode <mode>",
+      "How to set passwords for rows without a mode column"
+    )
+      .choices(IMPORT_MODES)
+      .default("password")
+  )
+  .option(
+    "--upsert",
+    "Update members that already exist instead of failing on them"
+  )
+  .option(
+    "--match <field>",
+    'Field to match existing members on with --upsert: "email" or a custom field key',
+    "email"
+  )
+  .option(
+    "--validate-only",
+    "Check every row against the app and report problems without importing"
+  )
   .action(async (options: MembersImportOptions) => {
     const spinner = yoctoSpinner({ text: "Reading file..." }).start();
     try {
-      const rows = await readInputFile(options.file);
-      let created = 0;
-      let failed = 0;
+      const mapRow = await loadMemberRowMapping(options.map);
 
-      for (const [index, row] of rows.entries()) {
-        spinner.text = `Importing member ${index + 1}/${rows.length}...`;
+      if (options.validateOnly) {
+        await validateMemberImport(mapRow, options, spinner);
+        return;
+      }
 
-        if (!(row.email && row.password)) {
-          printError(
-            `Row ${index + 1}: Missing required field "email" or "password"`
-          );
-          failed++;
-          continue;
-        }
+      const { journal, resumed } = await startJournal(
+        "members import",
+        options
+      );
 
-        const input = buildImportInput(row);
+      let existing = new Map<string, Member[]>();
+      if (options.upsert) {
+        const { members } = await fetchAllMembers(spinner);
+        existing = indexMembers(members, options.match);
+      }
+      let updated = 0;
 
-        try {
-          await graphqlRequest<{
-            signupMemberEmailPassword: { member: Member };
-          }>({
-            query: `mutation($input: SignupMemberEmailPasswordInput!) {
-              signupMemberEmailPassword(input: $input) { member { ${MEMBER_FIELDS} } }
-            }`,
-            variables: { input },
-          });
-          created++;
-        } catch (error) {
-          printError(
-            `Row ${index + 1} (${row.email}): ${error instanceof Error ? error.message : "Unknown error"}`
-          );
-          failed++;
-        }
+      const progress = await runBulk(
+        streamInputRows(options.file),
+        async (source) => {
+          const row = mapRow(source);
+          if (!options.upsert) {
+            return createMember(row, options.passwordMode);
+          }
+
+          const key = getRowMatchKey(row, options.match);
+          if (key === undefined) {
+            throw new Error(
+              `Missing match field "${getMatchColumn(options.match)}"`
+            );
+          }
 
-        if (index < rows.length - 1) {
-          await delay(RATE_LIMIT_DELAY_MS);
+          const matches = existing.get(key) ?? [];
+          if (matches.length > 1) {
+            throw new Error(
+              `${matches.length} members match ${options.match} "${key}"`
+            );
+          }
+          if (matches.length === 0) {
+            return createMember(row, options.passwordMode);
+          }
+
+          await updateExistingMember(matches[0], row);
+          updated++;
+          return matches[0].id;
+        },
+        {
+          concurrency: options.concurrency,
+          journal,
+          label: (row, index) =>
+            row.email ? `Row ${index + 1} (${row.email})` : `Row ${index + 1}`,
+          skip: (_row, index) => resumed?.completedRows.has(index) ?? false,
+          onProgress: (progress) => {
+            spinner.text = formatBulkProgress("Importing members", progress);
+          },
         }
+      );
+
+      if (options.errorsOut) {
+        await writeBulkErrors(options.errorsOut, progress.failures);
       }
 
       spinner.stop();
-      printSuccess(`Import complete: ${created} created, ${failed} failed`);
+      const counts = options.upsert
+        ? `${progress.succeeded - updated} created, ${updated} updated`
+        : `${progress.succeeded} created`;
+      printBulkSummary(
+        `Import complete: ${counts}, ${progress.failed} failed`,
+        progress,
+        { errorsOut: options.errorsOut, journal }
+      );
+      setBulkExitCode(progress);
     } catch (error) {
       spinner.stop();
       printError(
@@ -790,35 +1052,51 @@ membersCommand
 
 membersCommand
   .command("bulk-update")
-  .description("Bulk update members from a CSV or JSON file")
+  .description("Bulk update members from a CSV, JSON or JSONL file")
   .requiredOption("--file <path>", "Input file with member updates")
+  .option("--map <file>", "YAML or JSON column mapping to apply to each row")
   .option("--dry-run", "Preview changes without applying them")
+  .option(
+    "--concurrency <n>",
+    "Number of rows to update in parallel",
+    parseConcurrency,
+    DEFAULT_CONCURRENCY
+  )
+  .option("--journal <path>", "Write the checkpoint journal to this path")
+  .option(
+    "--resume <journal>",
+    "Skip rows completed in an earlier run and retry failed ones"
+  )
+  .option(
+    "--errors-out <file>",
+    "Write failed rows with _row and _error columns to this file"
+  )
   .action(async (options: MembersBulkUpdateOptions) => {
     const spinner = yoctoSpinner({ text: "Reading file..." }).start();
     try {
-      const rows = await readInputFile(options.file);
-      let updated = 0;
-      let failed = 0;
+      const mapRow = await loadMemberRowMapping(options.map);
 
-      for (const [index, row] of rows.entries()) {
-        if (!row.id) {
-          printError(`Row ${index + 1}: Missing required "id" field`);
-          failed++;
-          continue;
-        }
+      const { journal, resumed } = await startJournal(
+        "members bulk-update",
+        options
+      );
 
-        if (options.dryRun) {
-          const input = buildUpdateInput(row, row.id);
-          process.stderr.write(
-            `  ${pc.dim(`[dry-run] Would update ${row.id}:`)} ${JSON.stringify(input)}\n`
-          );
-          updated++;
-          continue;
-        }
+      const progress = await runBulk(
+        streamInputRows(options.file),
+        async (source) => {
+          const row = mapRow(source);
+          if (!row.id) {
+            throw new Error('Missing required "id" field');
+          }
 
-        spinner.text = `Updating member ${index + 1}/${rows.length}...`;
+          if (options.dryRun) {
+            const input = buildUpdateInput(row, row.id);
+            process.stderr.write(
+              `  ${pc.dim(`[dry-run] Would update ${row.id}:`)} ${JSON.stringify(input)}\n`
+            );
+            return row.id;
+          }
 
-        try {
           if (row.email) {
             await graphqlRequest<{ updateMemberAuth: Member }>({
               query: `mutation($input: UpdateMemberAuthInput!) { updateMemberAuth(input: $input) { ${MEMBER_FIELDS} } }`,
@@ -836,24 +1114,33 @@ membersCommand
             });
           }
 
-          updated++;
-        } catch (error) {
-          printError(
-            `Row ${index + 1} (${row.id}): ${error instanceof Error ? error.message : "Unknown error"}`
-          );
-          failed++;
+          return row.id;
+        },
+        {
+          concurrency: options.dryRun ? 1 : options.concurrency,
+          journal,
+          label: (row, index) =>
+            row.id ? `Row ${index + 1} (${row.id})` : `Row ${index + 1}`,
+          rateLimit: !options.dryRun,
+          skip: (_row, index) => resumed?.completedRows.has(index) ?? false,
+          onProgress: (progress) => {
+            spinner.text = formatBulkProgress("Updating members", progress);
+          },
         }
+      );
 
-        if (index < rows.length - 1) {
-          await delay(RATE_LIMIT_DELAY_MS);
-        }
+      if (options.errorsOut) {
+        await writeBulkErrors(options.errorsOut, progress.failures);
       }
 
       spinner.stop();
       const prefix = options.dryRun ? "[dry-run] " : "";
-      printSuccess(
-        `${prefix}Bulk update complete: ${updated} updated, ${failed} failed`
+      printBulkSummary(
+        `${prefix}Bulk update complete: ${progress.succeeded} updated, ${progress.failed} failed`,
+        progress,
+        { errorsOut: options.errorsOut, journal }
       );
+      setBulkExitCode(progress);
     } catch (error) {
       spinner.stop();
       printError(
@@ -869,6 +1156,21 @@ membersCommand
   .requiredOption("--plan <planId>", "Plan ID to add (pln_...)")
   .requiredOption("--filter <filter>", "Member filter: no-plan or all")
   .option("--dry-run", "Preview without applying changes")
+  .option(
+    "--concurrency <n>",
+    "Number of members to update in parallel",
+    parseConcurrency,
+    DEFAULT_CONCURRENCY
+  )
+  .option("--journal <path>", "Write the checkpoint journal to this path")
+  .option(
+    "--resume <journal>",
+    "Skip members updated in an earlier run and retry failed ones"
+  )
+  .option(
+    "--errors-out <file>",
+    "Write failed members with _row and _error columns to this file"
+  )
   .action(async (options: MembersBulkAddPlanOptions) => {
     const spinner = yoctoSpinner({ text: "Fetching members..." }).start();
     try {
@@ -888,21 +1190,21 @@ membersCommand
         return;
       }
 
-      let added = 0;
-      let failed = 0;
-
-      for (const [index, member] of targets.entries()) {
-        if (options.dryRun) {
-          process.stderr.write(
-            `  ${pc.dim(`[dry-run] Would add plan ${options.plan} to ${member.id} (${member.auth.email})`)}\n`
-          );
-          added++;
-          continue;
-        }
+      const { journal, resumed } = await startJournal(
+        "members bulk-add-plan",
+        options
+      );
 
-        spinner.text = `Adding plan ${index + 1}/${targets.length}...`;
+      const progress = await runBulk(
+        targets,
+        async (member) => {
+          if (options.dryRun) {
+            process.stderr.write(
+              `  ${pc.dim(`[dry-run] Would add plan ${options.plan} to ${member.id} (${member.auth.email})`)}\n`
+            );
+            return member.id;
+          }
 
-        try {
           await graphqlRequest<{
             addFreePlan: { id: string; name: string };
           }>({
@@ -912,24 +1214,36 @@ membersCommand
               input: { planId: options.plan, memberId: member.id },
             },
           });
-          added++;
-        } catch (error) {
-          printError(
-            `${member.id} (${member.auth.email}): ${error instanceof Error ? error.message : "Unknown error"}`
-          );
-          failed++;
+          return member.id;
+        },
+        {
+          concurrency: options.dryRun ? 1 : options.concurrency,
+          journal,
+          label: (member) => `${member.id} (${member.auth.email})`,
+          rateLimit: !options.dryRun,
+          skip: (member) => resumed?.completedIds.has(member.id) ?? false,
+          onProgress: (progress) => {
+            spinner.text = formatBulkProgress("Adding plan", progress);
+          },
         }
+      );
 
-        if (index < targets.length - 1) {
-          await delay(RATE_LIMIT_DELAY_MS);
-        }
+      if (options.errorsOut) {
+        await writeBulkErrors(
+          options.errorsOut,
+          progress.failures,
+          flattenMember
+        );
       }
 
       spinner.stop();
       const prefix = options.dryRun ? "[dry-run] " : "";
-      printSuccess(
-        `${prefix}Bulk add-plan complete: ${added} added, ${failed} failed (${targets.length} targeted)`
+      printBulkSummary(
+        `${prefix}Bulk add-plan complete: ${progress.succeeded} added, ${progress.failed} failed (${targets.length} targeted)`,
+        progress,
+        { errorsOut: options.errorsOut, journal }
       );
+      setBulkExitCode(progress);
     } catch (error) {
       spinner.stop();
       printError(
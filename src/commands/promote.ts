@@ -0,0 +1,71 @@
+import { Command } from "commander";
+import pc from "picocolors";
+import yoctoSpinner from "yocto-spinner";
+import {
+  applyConfigChanges,
+  createApplyContext,
+  diffAppConfig,
+  fetchAppConfig,
+  printConfigChanges,
+  selectSchemaSections,
+} from "../lib/app-config.js";
+import type { PromoteOptions } from "../lib/types.js";
+import { confirm, printError, printSuccess } from "../lib/utils.js";
+
+export const promoteCommand = new Command("promote")
+  .description(
+    "Copy plans, prices, permissions, custom fields, and table schemas from sandbox to live"
+  )
+  .option("--prune", "Delete live resources that do not exist in sandbox")
+  .option("--dry-run", "Preview changes without applying them")
+  .option("-f, --force", "Skip confirmation prompt")
+  .action(async (opts: PromoteOptions) => {
+    const spinner = yoctoSpinner({
+      text: "Fetching sandbox config...",
+    }).start();
+    try {
+      const sandbox = await fetchAppConfig("sandbox");
+      spinner.text = "Fetching live config...";
+      const live = await fetchAppConfig("live");
+
+      const changes = diffAppConfig(selectSchemaSections(sandbox), live).filter(
+        (change) => opts.prune || change.action !== "delete"
+      );
+      spinner.stop();
+      printConfigChanges(changes);
+
+      if (opts.dryRun || changes.length === 0) {
+        return;
+      }
+
+      if (!opts.force) {
+        const proceed = await confirm(
+          `  ${pc.bold(`Apply ${changes.length} change(s) to live?`)} (y/n) `
+        );
+        if (!proceed) {
+          process.stderr.write("\n  Aborted.\n\n");
+          return;
+        }
+      }
+
+      spinner.start();
+      const { applied, failed } = await applyConfigChanges(
+        changes,
+        createApplyContext(live, "live"),
+        (index, total) => {
+          spinner.text = `Promoting change ${index}/${total}...`;
+        }
+      );
+      spinner.stop();
+      printSuccess(`Promotion complete: ${applied} applied, ${failed} failed`);
+      if (failed > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
@@ -1,31 +1,86 @@
 import { resolve } from "node:path";
-import { Command } from "commander";
+import { Command, InvalidArgumentError, Option } from "commander";
 import pc from "picocolors";
 import yoctoSpinner from "yocto-spinner";
-import { RATE_LIMIT_DELAY_MS } from "../lib/constants.js";
-import { readInputFile, writeOutputFile } from "../lib/csv.js";
+import {
+  type BulkProgress,
+  formatBulkProgress,
+  parseConcurrency,
+  printBulkSummary,
+  runBulk,
+  setBulkExitCode,
+  settle,
+  writeBulkErrors,
+} from "../lib/bulk.js";
+import { coerceRecordData, type FieldSchema } from "../lib/coerce.js";
+import { DEFAULT_CONCURRENCY } from "../lib/constants.js";
+import {
+  type InputRow,
+  streamInputRows,
+  streamJsonlRows,
+  toCellText,
+} from "../lib/csv.js";
 import { graphqlRequest } from "../lib/graphql-client.js";
+import { startJournal } from "../lib/journal.js";
+import { type JsonSchema, loadTableJsonSchema } from "../lib/json-schema.js";
+import { loadColumnMapping } from "../lib/mapping.js";
+import {
+  createOutputWriter,
+  EXPORT_FORMATS,
+  type OutputWriter,
+  resolveExportFormat,
+} from "../lib/output-writer.js";
+import {
+  DATA_RECORD_FIELDS,
+  fetchMemberPages,
+  fetchRecordPages,
+} from "../lib/pagination.js";
+import {
+  parseOrderBy,
+  parseRecordFilter,
+  parseSelect,
+  type RecordFilter,
+  sortRecords,
+  toRecordRow,
+} from "../lib/record-query.js";
+import {
+  collectReferencedTables,
+  getFieldTypes,
+  hasMemberReferences,
+  mapMemberReferences,
+  orderTablesByReferences,
+  remapRecordData,
+} from "../lib/references.js";
 import type {
   DataRecord,
+  FieldType,
+  RecordBundleEntry,
+  RecordBundleRecord,
+  RecordBundleTable,
   RecordDataOptions,
   RecordQueryOptions,
   RecordsBulkDeleteOptions,
   RecordsBulkUpdateOptions,
+  RecordsExportBundleOptions,
   RecordsExportOptions,
   RecordsFindOptions,
+  RecordsImportBundleOptions,
   RecordsImportOptions,
 } from "../lib/types.js";
 import {
-  delay,
   parseJsonString,
   parseKeyValuePairs,
-  parseWhereClause,
   printError,
   printJson,
   printRecord,
   printSuccess,
   printTable,
 } from "../lib/utils.js";
+import {
+  createRecordRowChecker,
+  printValidationReport,
+  type ValidationIssue,
+} from "../lib/validation.js";
 
 const collect = (value: string, previous: string[]): string[] => [
   ...previous,
@@ -40,21 +95,10 @@ const SKIP_COLUMNS = new Set([
   "internalOrder",
 ]);
 
-const DATA_RECORD_FIELDS = `
-  id
-  tableKey
-  data
-  createdAt
-  updatedAt
-  internalOrder
-`;
-
-const extractDataFields = (
-  row: Record<string, string>
-): Record<string, string> => {
-  const data: Record<string, string> = {};
+const extractDataFields = (row: InputRow): Record<string, unknown> => {
+  const data: Record<string, unknown> = {};
   for (const [key, value] of Object.entries(row)) {
-    if (SKIP_COLUMNS.has(key) || value === "") {
+    if (SKIP_COLUMNS.has(key) || value === "" || value === undefined) {
       continue;
     }
     // Strip "data." prefix if present (from export format)
@@ -67,44 +111,109 @@ const extractDataFields = (
 const fetchAllRecords = async (
   spinner: ReturnType<typeof yoctoSpinner>,
   tableId: string,
-  filter?: Record<string, unknown>
+  filter?: RecordFilter
 ): Promise<DataRecord[]> => {
   const allRecords: DataRecord[] = [];
-  let cursor: string | undefined;
-  const pageSize = 100;
-
-  do {
-    const result = await graphqlRequest<{
-      dataRecords: {
-        edges: { node: DataRecord }[];
-        pageInfo: { endCursor: string | null };
-      };
-    }>({
-      query: `query($tableId: ID!, $filter: DataRecordsFilterInput, $pagination: DataRecordsPaginationInput) {
-  dataRecords(tableId: $tableId, filter: $filter, pagination: $pagination) {
-    edges { node { ${DATA_RECORD_FIELDS} } }
-    pageInfo { endCursor }
+
+  for await (const page of fetchRecordPages(tableId, filter)) {
+    allRecords.push(...page);
+    spinner.text = `Fetching records... (${allRecords.length} so far)`;
   }
-}`,
-      variables: {
-        tableId,
-        filter,
-        pagination: { first: pageSize, after: cursor },
-      },
-    });
 
-    const { edges, pageInfo } = result.dataRecords;
-    allRecords.push(...edges.map((e) => e.node));
+  return allRecords;
+};
 
-    if (edges.length === pageSize && pageInfo.endCursor) {
-      cursor = pageInfo.endCursor;
-      spinner.text = `Fetching records... (${allRecords.length} so far)`;
-    } else {
-      cursor = undefined;
+const fetchTableSchema = async (
+  tableKey: string
+): Promise<{ fields?: FieldSchema[]; id: string; key?: string }> => {
+  const result = await graphqlRequest<{
+    dataTable: { fields?: FieldSchema[]; id: string; key?: string };
+  }>({
+    query:
+      "query($key: String!) { dataTable(key: $key) { id key fields { key type required } } }",
+    variables: { key: tableKey },
+  });
+  return result.dataTable;
+};
+
+const extractRowData = (row: InputRow): Record<string, unknown> => {
+  const data = extractDataFields(row);
+  if (Object.keys(data).length === 0) {
+    throw new Error("No data fields found");
+  }
+  return data;
+};
+
+/**
+ * Turns a mapped row into API-ready data, coercing values when the table's
+ * fields are known.
+ */
+const prepareRecordData = (
+  row: InputRow,
+  fields?: FieldSchema[]
+): Record<string, unknown> => {
+  const data = extractRowData(row);
+  return fields?.length ? coerceRecordData(data, fields) : data;
+};
+
+/**
+ * Checks an import file against the table without writing anything, reading
+ * it as a stream. Existing records are only fetched when the table has
+ * TEXT_UNIQUE fields to check.
+ */
+const validateRecordImport = async (
+  table: { fields?: FieldSchema[]; id: string },
+  filePath: string,
+  mapRow: (row: InputRow) => InputRow,
+  spinner: ReturnType<typeof yoctoSpinner>,
+  schema?: JsonSchema
+): Promise<void> => {
+  const fields = table.fields ?? [];
+  const uniqueKeys = fields
+    .filter((field) => field.type === "TEXT_UNIQUE")
+    .map((field) => field.key);
+
+  const existingUnique = new Map<string, Set<string>>();
+  if (uniqueKeys.length > 0) {
+    spinner.text = "Fetching records...";
+    const records = await fetchAllRecords(spinner, table.id);
+    for (const key of uniqueKeys) {
+      const values = records
+        .map((record) => record.data[key])
+        .filter((value) => value !== undefined && value !== null);
+      existingUnique.set(key, new Set(values.map(String)));
     }
-  } while (cursor);
+  }
 
-  return allRecords;
+  spinner.text = "Checking rows...";
+  const check = createRecordRowChecker(fields, existingUnique, schema);
+  const issues: ValidationIssue[] = [];
+  let rowCount = 0;
+  for await (const source of streamInputRows(filePath)) {
+    const data = settle(() => extractRowData(mapRow(source)));
+    issues.push(...check(data, rowCount++));
+  }
+
+  spinner.stop();
+  printValidationReport(issues, rowCount);
+};
+
+/**
+ * Reads a bulk-update file once to find the tables named by its `tableKey`
+ * column, so their schemas can be fetched before the update pass.
+ */
+const collectTableKeys = async (
+  filePath: string,
+  mapRow: (row: InputRow) => InputRow
+): Promise<Set<string>> => {
+  const keys = new Set<string>();
+  for await (const source of streamInputRows(filePath)) {
+    const row = settle(() => mapRow(source));
+    if (!(row instanceof Error) && row.tableKey) {
+      keys.add(toCellText(row.tableKey));
+    }
+  }
+  return keys;
 };
 
 const resolveTableId = async (tableKey: string): Promise<string> => {
@@ -115,6 +224,215 @@ const resolveTableId = async (tableKey: string): Promise<string> => {
   return result.dataTable.id;
 };
 
+const RECORD_BUNDLE_FILE = "records-bundle.jsonl";
+
+/** Every table's fields, with references reduced to the referenced table key. */
+const fetchReferenceSchemas = async (): Promise<
+  (RecordBundleTable & { id: string })[]
+> => {
+  const result = await graphqlRequest<{
+    dataTables: {
+      fields: {
+        key: string;
+        referencedTable: { key: string } | null;
+        type: FieldType;
+      }[];
+      id: string;
+      key: string;
+    }[];
+  }>({
+    query:
+      "query { dataTables { id key fields { key type referencedTable { key } } } }",
+  });
+  return result.dataTables.map((table) => ({
+    type: "table",
+    id: table.id,
+    key: table.key,
+    fields: table.fields.map((field) => ({
+      key: field.key,
+      type: field.type,
+      referencedTable: field.referencedTable?.key ?? null,
+    })),
+  }));
+};
+
+/** Maps every member's ID to their email, for MEMBER_REFERENCE values. */
+const fetchMemberEmails = async (): Promise<Map<string, string>> => {
+  const emails = new Map<string, string>();
+  for await (const page of fetchMemberPages()) {
+    for (const member of page) {
+      emails.set(member.id, member.auth.email);
+    }
+  }
+  return emails;
+};
+
+const readRecordBundle = async (
+  filePath: string
+): Promise<{ records: RecordBundleRecord[]; tables: RecordBundleTable[] }> => {
+  const tables: RecordBundleTable[] = [];
+  const records: RecordBundleRecord[] = [];
+  for await (const row of streamJsonlRows(filePath)) {
+    const entry = row as unknown as RecordBundleEntry;
+    if (entry.type === "table") {
+      tables.push(entry);
+    } else if (entry.type === "record") {
+      records.push(entry);
+    }
+  }
+  if (tables.length === 0) {
+    throw new Error(
+      `${filePath} has no table schemas. Create it with records export-bundle.`
+    );
+  }
+  return { records, tables };
+};
+
+interface BundleImportResult {
+  /** Records created; `progress` also counts the reference updates. */
+  created: number;
+  progress: BulkProgress;
+  unresolved: number;
+}
+
+/**
+ * Creates bundle records table by table in reference order. Member emails
+ * are looked up in the current app and record references are rewritten to
+ * the new IDs; references that cannot be resolved on create (self
+ * references, cycles) are set with an update once every record exists.
+ */
+const importRecordBundle = async (
+  tables: RecordBundleTable[],
+  records: RecordBundleRecord[],
+  options: RecordsImportBundleOptions,
+  spinner: ReturnType<typeof yoctoSpinner>
+): Promise<BundleImportResult> => {
+  const tableIds = new Map<string, string>();
+  for (const table of tables) {
+    spinner.text = `Resolving table ${table.key}...`;
+    tableIds.set(table.key, await resolveTableId(table.key));
+  }
+
+  let memberIds: Map<string, string> | undefined;
+  if (tables.some(hasMemberReferences)) {
+    spinner.text = "Fetching members...";
+    memberIds = new Map(
+      [...(await fetchMemberEmails())].map(([id, email]) => [
+        email.toLowerCase(),
+        id,
+      ])
+    );
+  }
+  const resolveMember = (value: string): string => {
+    if (!value.includes("@")) {
+      return value;
+    }
+    const id = memberIds?.get(value.toLowerCase());
+    if (!id) {
+      throw new Error(`No member with email "${value}"`);
+    }
+    return id;
+  };
+
+  const recordIds = new Map<string, string>();
+  const deferred: {
+    data: Record<string, unknown>;
+    id: string;
+    table: string;
+  }[] = [];
+  const fieldTypes = new Map(
+    tables.map((table) => [table.key, getFieldTypes(table)])
+  );
+  const progress: BulkProgress[] = [];
+  let created = 0;
+  let unresolved = 0;
+
+  for (const table of orderTablesByReferences(tables)) {
+    const types = fieldTypes.get(table.key) as Map<string, FieldType>;
+    const tableId = tableIds.get(table.key) as string;
+    const result = await runBulk(
+      records.filter((record) => record.table === table.key),
+      async (record) => {
+        const data = mapMemberReferences(record.data, types, resolveMember);
+        const remapped = remapRecordData(
+          data,
+          types,
+          { records: recordIds },
+          false
+        );
+        const response = await graphqlRequest<{ createDataRecord: DataRecord }>(
+          {
+            query:
+              "mutation($input: CreateDataRecordInput!) { createDataRecord(input: $input) { id } }",
+            variables: { input: { tableId, data: remapped.data } },
+          }
+        );
+        const id = response.createDataRecord.id;
+        recordIds.set(record.id, id);
+        if (Object.keys(remapped.deferred).length > 0) {
+          deferred.push({ id, table: table.key, data: remapped.deferred });
+        }
+        return id;
+      },
+      {
+        concurrency: options.concurrency,
+        label: (record) => `${table.key} ${record.id}`,
+        onProgress: (current) => {
+          spinner.text = formatBulkProgress(
+            `Creating ${table.key} records`,
+            current
+          );
+        },
+      }
+    );
+    progress.push(result);
+    created += result.succeeded;
+  }
+
+  const linked = await runBulk(
+    deferred,
+    async ({ data, id, table }) => {
+      const types = fieldTypes.get(table) as Map<string, FieldType>;
+      const remapped = remapRecordData(
+        data,
+        types,
+        { records: recordIds },
+        true
+      );
+      unresolved += remapped.missing;
+      await graphqlRequest<{ updateDataRecord: DataRecord }>({
+        query:
+          "mutation($input: UpdateDataRecordInput!) { updateDataRecord(input: $input) { id } }",
+        variables: { input: { id, data: remapped.data } },
+      });
+      return id;
+    },
+    {
+      concurrency: options.concurrency,
+      label: ({ id, table }) => `${table} ${id}`,
+      onProgress: (current) => {
+        spinner.text = formatBulkProgress("Linking references", current);
+      },
+    }
+  );
+  progress.push(linked);
+
+  return {
+    created,
+    progress: progress.reduce(
+      (total, current) => ({
+        completed: total.completed + current.completed,
+        failed: total.failed + current.failed,
+        skipped: total.skipped + current.skipped,
+        succeeded: total.succeeded + current.succeeded,
+        total: total.total + current.total,
+      }),
+      { completed: 0, failed: 0, skipped: 0, succeeded: 0, total: 0 }
+    ),
+    unresolved,
+  };
+};
+
 export const recordsCommand = new Command("records")
   .usage("<command> [options]")
   .description("Manage data table records");
@@ -272,55 +590,93 @@ recordsCommand
     }
   });
 
+const parseCount = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError("Must be a non-negative integer.");
+  }
+  return parsed;
+};
+
+/** Records `find` returns without --take or --all: one page, as before. */
+const FIND_DEFAULT_TAKE = 100;
+
+/** Most matching records `find --order-by` sorts in memory without --all. */
+const FIND_SORT_LIMIT = 10_000;
+
+/**
+ * Fetches the records `find` shows, paging only as far as skip + take.
+ * Pagination is cursor-based, so skipped records are fetched and dropped.
+ * dataRecords has no sort argument, so --order-by fetches every match (at
+ * most FIND_SORT_LIMIT unless --all is given) and sorts locally.
+ */
+const findRecords = async (
+  spinner: ReturnType<typeof yoctoSpinner>,
+  tableId: string,
+  filter: RecordFilter | undefined,
+  options: RecordsFindOptions
+): Promise<DataRecord[]> => {
+  const orders = options.orderBy ? parseOrderBy(options.orderBy) : [];
+  const skip = options.skip ?? 0;
+  const take = options.take ?? (options.all ? undefined : FIND_DEFAULT_TAKE);
+  let limit = take === undefined ? undefined : skip + take;
+  if (orders.length > 0) {
+    limit = options.all ? undefined : FIND_SORT_LIMIT + 1;
+  }
+  let records: DataRecord[] = [];
+
+  for await (const page of fetchRecordPages(tableId, filter, limit)) {
+    records.push(...page);
+    spinner.text = `Querying records... (${records.length} so far)`;
+  }
+
+  if (orders.length > 0) {
+    if (records.length > FIND_SORT_LIMIT) {
+      throw new Error(
+        `More than ${FIND_SORT_LIMIT} records match; narrow --where or pass --all to sort them all`
+      );
+    }
+    records = sortRecords(records, orders);
+  }
+  return records.slice(skip, take === undefined ? undefined : skip + take);
+};
+
 recordsCommand
   .command("find")
-  .description("Find records with friendly filter syntax")
+  .description("Find records with a query expression")
   .argument("<table_key>", "Table key or ID")
   .option(
-    "--where <clause>",
-    'Filter clause: "field operator value" (repeatable)',
+    "--where <expression>",
+    'Filter expression, e.g. \'status = "on hold" and (priority > 3 or owner in ["a", "b"])\' (repeatable; all must match)',
     collect,
     []
   )
-  .option("--take <n>", "Limit results")
+  .option(
+    "--order-by <fields>",
+    "Sort by comma-separated fields, each optionally suffixed with :asc or :desc"
+  )
+  .option("--skip <n>", "Skip the first n matching records", parseCount)
+  .option(
+    "--take <n>",
+    `Limit results (default ${FIND_DEFAULT_TAKE})`,
+    parseCount
+  )
+  .option(
+    "--all",
+    `Return every match and sort past ${FIND_SORT_LIMIT} records (fetches them all)`
+  )
+  .option("--select <fields>", "Comma-separated data fields to show")
   .action(async (tableKey: string, options: RecordsFindOptions) => {
     const spinner = yoctoSpinner({ text: "Querying records..." }).start();
     try {
+      // Parse before any request so syntax errors fail fast
+      const filter = parseRecordFilter(options.where ?? []);
+      const select = options.select ? parseSelect(options.select) : undefined;
       const tableId = await resolveTableId(tableKey);
-      const variables: Record<string, unknown> = { tableId };
-
-      if (options.where?.length) {
-        variables.filter = { fieldFilters: parseWhereClause(options.where) };
-      }
-      if (options.take) {
-        variables.pagination = { first: Number(options.take) };
-      }
-
-      const result = await graphqlRequest<{
-        dataRecords: {
-          edges: { node: DataRecord }[];
-          totalCount: number;
-        };
-      }>({
-        query: `query($tableId: ID!, $filter: DataRecordsFilterInput, $pagination: DataRecordsPaginationInput) {
-  dataRecords(tableId: $tableId, filter: $filter, pagination: $pagination) {
-    edges { node { ${DATA_RECORD_FIELDS} } }
-    totalCount
-  }
-}`,
-        variables,
-      });
+      const records = await findRecords(spinner, tableId, filter, options);
       spinner.stop();
-      const records = result.dataRecords.edges.map((e) => ({
-        id: e.node.id,
-        createdAt: e.node.createdAt,
-        updatedAt: e.node.updatedAt,
-        ...Object.fromEntries(
-          Object.entries(e.node.data ?? {}).map(([k, v]) => [`data.${k}`, v])
-        ),
-      }));
       printSuccess(`Found ${records.length} record(s)`);
-      printTable(records);
+      printTable(records.map((record) => toRecordRow(record, select)));
     } catch (error) {
       spinner.stop();
       printError(
@@ -334,39 +690,30 @@ recordsCommand
   .command("export")
   .description("Export all records from a data table")
   .argument("<table_key>", "Table key or ID")
-  .option("--format <format>", "Output format (csv or json)", "json")
+  .addOption(
+    new Option(
+      "--format <format>",
+      "Output format (inferred from the --output extension, else json)"
+    ).choices(EXPORT_FORMATS)
+  )
   .option("--output <path>", "Output file path")
   .action(async (tableKey: string, options: RecordsExportOptions) => {
     const spinner = yoctoSpinner({ text: "Fetching records..." }).start();
+    let writer: OutputWriter | undefined;
     try {
       const tableId = await resolveTableId(tableKey);
-      const allRecords: Record<string, unknown>[] = [];
-      let cursor: string | undefined;
-
-      do {
-        const pageSize = 100;
-        const result = await graphqlRequest<{
-          dataRecords: {
-            edges: { node: DataRecord }[];
-            pageInfo: { endCursor: string | null };
-          };
-        }>({
-          query: `query($tableId: ID!, $pagination: DataRecordsPaginationInput) {
-  dataRecords(tableId: $tableId, pagination: $pagination) {
-    edges { node { ${DATA_RECORD_FIELDS} } }
-    pageInfo { endCursor }
-  }
-}`,
-          variables: {
-            tableId,
-            pagination: { first: pageSize, after: cursor },
-          },
-        });
-
-        const { edges, pageInfo } = result.dataRecords;
+      const format = resolveExportFormat(options);
+      const outputPath = resolve(
+        options.output ?? `records-${tableKey}.${format}`
+      );
+      writer = await createOutputWriter(outputPath, format, {
+        name: tableKey,
+      });
+      let exported = 0;
 
-        for (const { node: record } of edges) {
-          allRecords.push({
+      for await (const page of fetchRecordPages(tableId)) {
+        await writer.write(
+          page.map((record) => ({
             id: record.id,
             createdAt: record.createdAt,
             updatedAt: record.updatedAt,
@@ -376,28 +723,19 @@ recordsCommand
                 v,
               ])
             ),
-          });
-        }
-
-        if (edges.length === pageSize && pageInfo.endCursor) {
-          cursor = pageInfo.endCursor;
-          spinner.text = `Fetching records... (${allRecords.length} so far)`;
-        } else {
-          cursor = undefined;
-        }
-      } while (cursor);
-
+          }))
+        );
+        exported += page.length;
+        spinner.text = `Exporting records... (${exported} so far)`;
+      }
       spinner.text = "Writing file...";
-
-      const outputPath = resolve(
-        options.output ?? `records-${tableKey}.${options.format}`
-      );
-      await writeOutputFile(outputPath, allRecords, options.format);
+      await writer.close();
 
       spinner.stop();
-      printSuccess(`Exported ${allRecords.length} record(s) to ${outputPath}`);
+      printSuccess(`Exported ${exported} record(s) to ${outputPath}`);
     } catch (error) {
       spinner.stop();
+      await writer?.abort();
       printError(
         error instanceof Error ? error.message : "An unknown error occurred"
       );
@@ -409,46 +747,200 @@ recordsCommand
   .command("import")
   .description("Import records into a data table from a file")
   .argument("<table_key>", "Table key or ID")
-  .requiredOption("--file <path>", "Input file path (CSV or JSON)")
+  .requiredOption("--file <path>", "Input file path (CSV, JSON or JSONL)")
+  .option("--map <file>", "YAML or JSON column mapping to apply to each row")
+  .option(
+    "--concurrency <n>",
+    "Number of rows to import in parallel",
+    parseConcurrency,
+    DEFAULT_CONCURRENCY
+  )
+  .option("--journal <path>", "Write the checkpoint journal to this path")
+  .option(
+    "--resume <journal>",
+    "Skip rows completed in an earlier run and retry failed ones"
+  )
+  .option(
+    "--errors-out <file>",
+    "Write failed rows with _row and _error columns to this file"
+  )
+  .option(
+    "--validate-only",
+    "Check every row against the table schema and report problems without importing"
+  )
+  .option(
+    "--schema <file>",
+    "With --validate-only, also check rows against a `codegen json-schema` file"
+  )
   .action(async (tableKey: string, options: RecordsImportOptions) => {
     const spinner = yoctoSpinner({ text: "Reading file..." }).start();
     try {
-      const tableId = await resolveTableId(tableKey);
-      const rows = await readInputFile(options.file);
-      let created = 0;
-      let failed = 0;
-
-      for (const [index, row] of rows.entries()) {
-        spinner.text = `Creating record ${index + 1}/${rows.length}...`;
-        const data = extractDataFields(row);
-
-        if (Object.keys(data).length === 0) {
-          printError(`Row ${index + 1}: No data fields found`);
-          failed++;
-          continue;
-        }
+      if (options.schema && !options.validateOnly) {
+        throw new Error("--schema can only be used with --validate-only");
+      }
+      const table = await fetchTableSchema(tableKey);
+      const schema = options.schema
+        ? await loadTableJsonSchema(options.schema, table.key ?? tableKey)
+        : undefined;
+      const mapRow = await loadColumnMapping(options.map);
+
+      if (options.validateOnly) {
+        await validateRecordImport(
+          table,
+          options.file,
+          mapRow,
+          spinner,
+          schema
+        );
+        return;
+      }
+
+      const { journal, resumed } = await startJournal(
+        "records import",
+        options
+      );
 
-        try {
-          await graphqlRequest<{ createDataRecord: DataRecord }>({
+      const progress = await runBulk(
+        streamInputRows(options.file),
+        async (source) => {
+          const data = prepareRecordData(mapRow(source), table.fields);
+          const result = await graphqlRequest<{
+            createDataRecord: DataRecord;
+          }>({
             query:
               "mutation($input: CreateDataRecordInput!) { createDataRecord(input: $input) { id } }",
-            variables: { input: { tableId, data } },
+            variables: { input: { tableId: table.id, data } },
           });
-          created++;
-        } catch (error) {
-          printError(
-            `Row ${index + 1}: ${error instanceof Error ? error.message : "Unknown error"}`
-          );
-          failed++;
+          return result.createDataRecord.id;
+        },
+        {
+          concurrency: options.concurrency,
+          journal,
+          skip: (_row, index) => resumed?.completedRows.has(index) ?? false,
+          onProgress: (progress) => {
+            spinner.text = formatBulkProgress("Creating records", progress);
+          },
         }
+      );
+
+      if (options.errorsOut) {
+        await writeBulkErrors(options.errorsOut, progress.failures);
+      }
+
+      spinner.stop();
+      printBulkSummary(
+        `Import complete: ${progress.succeeded} created, ${progress.failed} failed`,
+        progress,
+        { errorsOut: options.errorsOut, journal }
+      );
+      setBulkExitCode(progress);
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
+
+recordsCommand
+  .command("export-bundle")
+  .description(
+    "Export tables together with every table their references point at"
+  )
+  .argument("<table_keys...>", "Table keys to export")
+  .option("--output <path>", "Output file path", RECORD_BUNDLE_FILE)
+  .action(async (tableKeys: string[], options: RecordsExportBundleOptions) => {
+    const spinner = yoctoSpinner({ text: "Fetching table schemas..." }).start();
+    let writer: OutputWriter | undefined;
+    try {
+      const tables = collectReferencedTables(
+        tableKeys,
+        await fetchReferenceSchemas()
+      );
+      let emails = new Map<string, string>();
+      if (tables.some(hasMemberReferences)) {
+        spinner.text = "Fetching members...";
+        emails = await fetchMemberEmails();
+      }
+
+      const outputPath = resolve(options.output);
+      writer = await createOutputWriter(outputPath, "jsonl", {
+        name: "records",
+      });
+      await writer.write(
+        tables.map(({ fields, key }) => ({ type: "table", key, fields }))
+      );
+      let exported = 0;
 
-        if (index < rows.length - 1) {
-          await delay(RATE_LIMIT_DELAY_MS);
+      for (const table of tables) {
+        const types = getFieldTypes(table);
+        for await (const page of fetchRecordPages(table.id)) {
+          await writer.write(
+            page.map((record) => ({
+              type: "record",
+              table: table.key,
+              id: record.id,
+              data: mapMemberReferences(
+                record.data ?? {},
+                types,
+                (id) => emails.get(id) ?? id
+              ),
+            }))
+          );
+          exported += page.length;
+          spinner.text = `Exporting ${table.key} records... (${exported} so far)`;
         }
       }
+      await writer.close();
+
+      spinner.stop();
+      printSuccess(
+        `Exported ${exported} record(s) from ${tables.length} table(s) (${tables.map((t) => t.key).join(", ")}) to ${outputPath}`
+      );
+    } catch (error) {
+      spinner.stop();
+      await writer?.abort();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
+
+recordsCommand
+  .command("import-bundle")
+  .description(
+    "Import a records export-bundle file, rewriting references to the new record IDs"
+  )
+  .requiredOption("--file <path>", "Bundle file written by export-bundle")
+  .option(
+    "--concurrency <n>",
+    "Number of records to import in parallel",
+    parseConcurrency,
+    DEFAULT_CONCURRENCY
+  )
+  .action(async (options: RecordsImportBundleOptions) => {
+    const spinner = yoctoSpinner({ text: "Reading bundle..." }).start();
+    try {
+      const { records, tables } = await readRecordBundle(options.file);
+      const { created, progress, unresolved } = await importRecordBundle(
+        tables,
+        records,
+        options,
+        spinner
+      );
 
       spinner.stop();
-      printSuccess(`Import complete: ${created} created, ${failed} failed`);
+      printSuccess(
+        `Import complete: ${created} record(s) across ${tables.length} table(s), ${progress.failed} failed`
+      );
+      if (unresolved > 0) {
+        process.stderr.write(
+          `  ${pc.dim(`${unresolved} reference(s) pointed at records that were not imported and were cleared`)}\n`
+        );
+      }
+      setBulkExitCode(progress);
     } catch (error) {
       spinner.stop();
       printError(
@@ -460,62 +952,105 @@ recordsCommand
 
 recordsCommand
   .command("bulk-update")
-  .description("Bulk update records from a CSV or JSON file")
+  .description("Bulk update records from a CSV, JSON or JSONL file")
   .requiredOption(
     "--file <path>",
     "Input file with record updates (rows must include an id field)"
   )
+  .option(
+    "--table-key <key>",
+    "Table whose field types are used to coerce values (defaults to each row's tableKey column)"
+  )
+  .option("--map <file>", "YAML or JSON column mapping to apply to each row")
   .option("--dry-run", "Preview changes without applying them")
+  .option(
+    "--concurrency <n>",
+    "Number of rows to update in parallel",
+    parseConcurrency,
+    DEFAULT_CONCURRENCY
+  )
+  .option("--journal <path>", "Write the checkpoint journal to this path")
+  .option(
+    "--resume <journal>",
+    "Skip rows completed in an earlier run and retry failed ones"
+  )
+  .option(
+    "--errors-out <file>",
+    "Write failed rows with _row and _error columns to this file"
+  )
   .action(async (options: RecordsBulkUpdateOptions) => {
+    const getTableKey = (row: InputRow) =>
+      options.tableKey ?? (row.tableKey ? toCellText(row.tableKey) : undefined);
     const spinner = yoctoSpinner({ text: "Reading file..." }).start();
     try {
-      const rows = await readInputFile(options.file);
-      let updated = 0;
-      let failed = 0;
-
-      for (const [index, row] of rows.entries()) {
-        if (!row.id) {
-          printError(`Row ${index + 1}: Missing required "id" field`);
-          failed++;
-          continue;
-        }
+      const mapRow = await loadColumnMapping(options.map);
+      const tableKeys = options.tableKey
+        ? [options.tableKey]
+        : await collectTableKeys(options.file, mapRow);
 
-        const data = extractDataFields(row);
+      const schemas = new Map<string, FieldSchema[] | undefined>();
+      for (const key of tableKeys) {
+        spinner.text = `Fetching schema for ${key}...`;
+        schemas.set(key, (await fetchTableSchema(key)).fields);
+      }
 
-        if (options.dryRun) {
-          process.stderr.write(
-            `  ${pc.dim(`[dry-run] Would update ${row.id}:`)} ${JSON.stringify(data)}\n`
-          );
-          updated++;
-          continue;
-        }
+      const { journal, resumed } = await startJournal(
+        "records bulk-update",
+        options
+      );
 
-        spinner.text = `Updating record ${index + 1}/${rows.length}...`;
+      const progress = await runBulk(
+        streamInputRows(options.file),
+        async (source) => {
+          const row = mapRow(source);
+          if (!row.id) {
+            throw new Error('Missing required "id" field');
+          }
+          const key = getTableKey(row);
+          const update = {
+            data: prepareRecordData(row, key ? schemas.get(key) : undefined),
+            id: toCellText(row.id),
+          };
+
+          if (options.dryRun) {
+            process.stderr.write(
+              `  ${pc.dim(`[dry-run] Would update ${update.id}:`)} ${JSON.stringify(update.data)}\n`
+            );
+            return update.id;
+          }
 
-        try {
           await graphqlRequest<{ updateDataRecord: DataRecord }>({
             query:
               "mutation($input: UpdateDataRecordInput!) { updateDataRecord(input: $input) { id } }",
-            variables: { input: { id: row.id, data } },
+            variables: { input: update },
           });
-          updated++;
-        } catch (error) {
-          printError(
-            `Row ${index + 1} (${row.id}): ${error instanceof Error ? error.message : "Unknown error"}`
-          );
-          failed++;
+          return update.id;
+        },
+        {
+          concurrency: options.dryRun ? 1 : options.concurrency,
+          journal,
+          label: (row, index) =>
+            row.id ? `Row ${index + 1} (${row.id})` : `Row ${index + 1}`,
+          rateLimit: !options.dryRun,
+          skip: (_row, index) => resumed?.completedRows.has(index) ?? false,
+          onProgress: (progress) => {
+            spinner.text = formatBulkProgress("Updating records", progress);
+          },
         }
+      );
 
-        if (index < rows.length - 1) {
-          await delay(RATE_LIMIT_DELAY_MS);
-        }
+      if (options.errorsOut) {
+        await writeBulkErrors(options.errorsOut, progress.failures);
       }
 
       spinner.stop();
       const prefix = options.dryRun ? "[dry-run] " : "";
-      printSuccess(
-        `${prefix}Bulk update complete: ${updated} updated, ${failed} failed`
+      printBulkSummary(
+        `${prefix}Bulk update complete: ${progress.succeeded} updated, ${progress.failed} failed`,
+        progress,
+        { errorsOut: options.errorsOut, journal }
       );
+      setBulkExitCode(progress);
     } catch (error) {
       spinner.stop();
       printError(
@@ -530,19 +1065,32 @@ recordsCommand
   .description("Bulk delete records matching a filter")
   .argument("<table_key>", "Table key or ID")
   .option(
-    "--where <clause>",
-    'Filter clause: "field operator value" (repeatable)',
+    "--where <expression>",
+    "Filter expression, as for records find (repeatable; all must match)",
     collect,
     []
   )
   .option("--dry-run", "Preview deletions without applying them")
+  .option(
+    "--concurrency <n>",
+    "Number of records to delete in parallel",
+    parseConcurrency,
+    DEFAULT_CONCURRENCY
+  )
+  .option("--journal <path>", "Write the checkpoint journal to this path")
+  .option(
+    "--resume <journal>",
+    "Skip records deleted in an earlier run and retry failed ones"
+  )
+  .option(
+    "--errors-out <file>",
+    "Write failed records with _row and _error columns to this file"
+  )
   .action(async (tableKey: string, options: RecordsBulkDeleteOptions) => {
     const spinner = yoctoSpinner({ text: "Querying records..." }).start();
     try {
       const tableId = await resolveTableId(tableKey);
-      const filter = options.where?.length
-        ? { fieldFilters: parseWhereClause(options.where) }
-        : undefined;
+      const filter = parseRecordFilter(options.where ?? []);
 
       const targets = await fetchAllRecords(spinner, tableId, filter);
 
@@ -552,44 +1100,52 @@ recordsCommand
         return;
       }
 
-      let deleted = 0;
-      let failed = 0;
-
-      for (const [index, record] of targets.entries()) {
-        if (options.dryRun) {
-          process.stderr.write(
-            `  ${pc.dim(`[dry-run] Would delete ${record.id}`)}\n`
-          );
-          deleted++;
-          continue;
-        }
+      const { journal, resumed } = await startJournal(
+        "records bulk-delete",
+        options
+      );
 
-        spinner.text = `Deleting record ${index + 1}/${targets.length}...`;
+      const progress = await runBulk(
+        targets,
+        async (record) => {
+          if (options.dryRun) {
+            process.stderr.write(
+              `  ${pc.dim(`[dry-run] Would delete ${record.id}`)}\n`
+            );
+            return record.id;
+          }
 
-        try {
           await graphqlRequest<{ deleteDataRecord: string }>({
             query:
               "mutation($input: DeleteDataRecordInput!) { deleteDataRecord(input: $input) }",
             variables: { input: { id: record.id } },
           });
-          deleted++;
-        } catch (error) {
-          printError(
-            `${record.id}: ${error instanceof Error ? error.message : "Unknown error"}`
-          );
-          failed++;
+          return record.id;
+        },
+        {
+          concurrency: options.dryRun ? 1 : options.concurrency,
+          journal,
+          label: (record) => record.id,
+          rateLimit: !options.dryRun,
+          skip: (record) => resumed?.completedIds.has(record.id) ?? false,
+          onProgress: (progress) => {
+            spinner.text = formatBulkProgress("Deleting records", progress);
+          },
         }
+      );
 
-        if (index < targets.length - 1) {
-          await delay(RATE_LIMIT_DELAY_MS);
-        }
+      if (options.errorsOut) {
+        await writeBulkErrors(options.errorsOut, progress.failures);
       }
 
       spinner.stop();
       const prefix = options.dryRun ? "[dry-run] " : "";
-      printSuccess(
-        `${prefix}Bulk delete complete: ${deleted} deleted, ${failed} failed`
+      printBulkSummary(
+        `${prefix}Bulk delete complete: ${progress.succeeded} deleted, ${progress.failed} failed`,
+        progress,
+        { errorsOut: options.errorsOut, journal }
       );
+      setBulkExitCode(progress);
     } catch (error) {
       spinner.stop();
       printError(
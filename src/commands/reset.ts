@@ -1,26 +1,12 @@
 import { rm } from "node:fs/promises";
 import { resolve } from "node:path";
-import { createInterface } from "node:readline";
 import { Command } from "commander";
 import pc from "picocolors";
-import { clearTokens } from "../lib/token-storage.js";
-import { printError, printSuccess } from "../lib/utils.js";
+import { clearAllTokens } from "../lib/token-storage.js";
+import { confirm, printError, printSuccess } from "../lib/utils.js";
 
 const FILES_TO_DELETE = ["members.json", "members.csv"];
 
-const confirm = (message: string): Promise<boolean> =>
-  new Promise((resolve) => {
-    const rl = createInterface({
-      input: process.stdin,
-      output: process.stderr,
-    });
-    rl.question(message, (answer) => {
-      rl.close();
-      const normalized = answer.trim().toLowerCase();
-      resolve(normalized === "y" || normalized === "yes");
-    });
-  });
-
 const tryDelete = async (filePath: string): Promise<boolean> => {
   try {
     await rm(filePath);
@@ -40,7 +26,9 @@ export const resetCommand = new Command("reset")
       process.stderr.write(
         `    - Delete ${FILES_TO_DELETE.join(", ")} (if present)\n`
       );
-      process.stderr.write("    - Clear stored authentication tokens\n");
+      process.stderr.write(
+        "    - Clear stored authentication tokens for all profiles\n"
+      );
       process.stderr.write("\n");
 
       const proceed = await confirm(`  ${pc.bold("Continue?")} (y/n) `);
@@ -62,7 +50,7 @@ export const resetCommand = new Command("reset")
         }
       }
 
-      await clearTokens();
+      await clearAllTokens();
       results.push("Cleared authentication tokens");
 
       for (const result of results) {
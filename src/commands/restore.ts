@@ -0,0 +1,180 @@
+import { resolve } from "node:path";
+import { Command, Option } from "commander";
+import pc from "picocolors";
+import yoctoSpinner from "yocto-spinner";
+import {
+  type ApplyContext,
+  applyConfigChanges,
+  createApplyContext,
+  diffAppConfig,
+  fetchAppConfig,
+  printConfigChanges,
+} from "../lib/app-config.js";
+import {
+  readBackup,
+  restoreAppSettings,
+  restoreBackupData,
+} from "../lib/backup.js";
+import {
+  formatBulkProgress,
+  parseConcurrency,
+  setBulkExitCode,
+} from "../lib/bulk.js";
+import { DEFAULT_CONCURRENCY } from "../lib/constants.js";
+import type {
+  AppSettings,
+  ConfigChange,
+  RestoreOptions,
+  RestorePasswordMode,
+} from "../lib/types.js";
+import { confirm, printError, printSuccess } from "../lib/utils.js";
+
+const RESTORE_PASSWORD_MODES: RestorePasswordMode[] = [
+  "passwordless",
+  "generate",
+];
+
+/** Applies config changes and app settings, printing each failure. */
+const restoreConfig = async (
+  changes: ConfigChange[],
+  settings: AppSettings | undefined,
+  context: ApplyContext,
+  spinner: ReturnType<typeof yoctoSpinner>
+): Promise<{ applied: number; failed: number }> => {
+  let { applied, failed } = await applyConfigChanges(
+    changes,
+    context,
+    (index, total) => {
+      spinner.text = `Restoring config change ${index}/${total}...`;
+    }
+  );
+
+  if (settings) {
+    spinner.text = "Restoring app settings...";
+    try {
+      await restoreAppSettings(settings);
+      applied++;
+    } catch (error) {
+      printError(
+        `update app settings: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+      failed++;
+    }
+  }
+  return { applied, failed };
+};
+
+export const restoreCommand = new Command("restore")
+  .description(
+    "Restore a backup archive into the current app, remapping plan, table, member, and record IDs"
+  )
+  .argument("<archive>", "Archive written by the backup command")
+  .addOption(
+    new Option(
+      "--password-mode <mode>",
+      "How restored members sign in (passwords are not backed up)"
+    )
+      .choices(RESTORE_PASSWORD_MODES)
+      .default("passwordless")
+  )
+  .option(
+    "--concurrency <n>",
+    "Number of members or records to restore in parallel",
+    parseConcurrency,
+    DEFAULT_CONCURRENCY
+  )
+  .option("--dry-run", "Preview changes without applying them")
+  .option("-f, --force", "Skip confirmation prompt")
+  .action(async (archive: string, options: RestoreOptions) => {
+    const spinner = yoctoSpinner({ text: "Reading backup..." }).start();
+    try {
+      const filePath = resolve(archive);
+      const backup = await readBackup(filePath);
+      spinner.text = "Fetching app config...";
+      const current = await fetchAppConfig();
+
+      // A restore only adds to the target; nothing in it is deleted. Backups
+      // never hold provider secrets, so new providers are left for the user
+      const changes: ConfigChange[] = [];
+      const skippedProviders: string[] = [];
+      for (const change of diffAppConfig(backup.config, current)) {
+        if (change.action === "delete") {
+          continue;
+        }
+        if (change.resource === "provider" && change.action === "create") {
+          skippedProviders.push(change.key);
+          continue;
+        }
+        changes.push(change);
+      }
+      const recordCount = Object.values(backup.counts.records).reduce(
+        (sum, count) => sum + count,
+        0
+      );
+      spinner.stop();
+      printConfigChanges(changes);
+      if (skippedProviders.length > 0) {
+        process.stderr.write(
+          `  ${pc.dim(`Skipping provider(s) ${skippedProviders.join(", ")}: backups do not include client secrets, so set them up with "providers configure"`)}\n`
+        );
+      }
+      process.stderr.write(
+        `  ${pc.dim(`${backup.counts.members} member(s) and ${recordCount} record(s) to restore from ${backup.header.app.name} (${backup.header.createdAt})`)}\n\n`
+      );
+
+      if (options.dryRun) {
+        return;
+      }
+
+      if (!options.force) {
+        const proceed = await confirm(
+          `  ${pc.bold(`Restore into ${current.app.name} (${current.app.id})?`)} (y/n) `
+        );
+        if (!proceed) {
+          process.stderr.write("\n  Aborted.\n\n");
+          return;
+        }
+      }
+
+      const context = createApplyContext(current);
+      spinner.start();
+      const config = await restoreConfig(
+        changes,
+        backup.settings,
+        context,
+        spinner
+      );
+      const result = await restoreBackupData(filePath, backup.config, context, {
+        concurrency: options.concurrency,
+        passwordMode: options.passwordMode,
+        onProgress: (label, progress) => {
+          spinner.text = formatBulkProgress(label, progress);
+        },
+      });
+      spinner.stop();
+
+      const { members, records, references } = result;
+      printSuccess(
+        `Restore complete: ${config.applied} config change(s), ${members.succeeded} member(s) and ${records.succeeded} record(s) restored, ${config.failed + members.failed + records.failed + references.failed} failed`
+      );
+      if (result.unresolved > 0) {
+        process.stderr.write(
+          `  ${pc.dim(`${result.unresolved} reference(s) pointed at members or records that were not restored and were cleared`)}\n`
+        );
+      }
+      setBulkExitCode({
+        completed: 0,
+        failed:
+          config.failed + members.failed + records.failed + references.failed,
+        skipped: 0,
+        succeeded: config.applied + members.succeeded + records.succeeded,
+        total: 0,
+      });
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
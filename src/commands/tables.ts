@@ -1,8 +1,35 @@
-import { Command } from "commander";
+import { resolve } from "node:path";
+import { Command, InvalidArgumentError, Option } from "commander";
 import pc from "picocolors";
 import yoctoSpinner from "yocto-spinner";
+import {
+  type ApplyContext,
+  applyConfigChanges,
+  diffTableSchema,
+  printConfigChanges,
+} from "../lib/app-config.js";
+import { coerceValue } from "../lib/coerce.js";
 import { graphqlRequest } from "../lib/graphql-client.js";
+import { RECORD_REFERENCE_TYPES } from "../lib/references.js";
+import {
+  applyFieldOrder,
+  FIELD_TYPES,
+  fetchTableConfigs,
+  planFieldOrder,
+  readTableSchema,
+  toTableSchema,
+  updateFieldOrder,
+  writeTableSchema,
+} from "../lib/table-schema.js";
+import type {
+  FieldType,
+  TablesFieldAddOptions,
+  TablesFieldUpdateOptions,
+  TablesSchemaApplyOptions,
+  TablesSchemaExportOptions,
+} from "../lib/types.js";
 import {
+  confirm,
   printError,
   printRecord,
   printSuccess,
@@ -305,3 +332,426 @@ tablesCommand
       process.exitCode = 1;
     }
   });
+
+const DATA_FIELD_FIELDS = `
+  id
+  key
+  name
+  type
+  required
+  defaultValue
+  tableOrder
+  referencedTableId
+`;
+
+const parseTableOrder = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError("Must be a non-negative integer.");
+  }
+  return parsed;
+};
+
+const fetchTable = async (tableKey: string): Promise<DataTable> => {
+  const result = await graphqlRequest<{ dataTable: DataTable }>({
+    query: `query($key: String!) { dataTable(key: $key) { ${TABLE_FIELDS} } }`,
+    variables: { key: tableKey },
+  });
+  return result.dataTable;
+};
+
+const findField = (table: DataTable, fieldKey: string): TableField => {
+  const field = table.fields.find(
+    (f) => f.key === fieldKey || f.id === fieldKey
+  );
+  if (!field) {
+    throw new Error(`Field "${fieldKey}" not found in table "${table.key}"`);
+  }
+  return field;
+};
+
+/**
+ * Resolves --referenced-table to a table ID. REFERENCE and REFERENCE_MANY
+ * fields must point at a table; no other type may.
+ */
+const resolveReferencedTable = async (
+  type: FieldType,
+  referencedTable: string | undefined,
+  currentId: string | null = null
+): Promise<string | undefined> => {
+  if (!RECORD_REFERENCE_TYPES.has(type)) {
+    if (referencedTable) {
+      throw new Error(
+        "--referenced-table only applies to REFERENCE and REFERENCE_MANY fields"
+      );
+    }
+    return;
+  }
+  if (!referencedTable) {
+    if (currentId) {
+      return;
+    }
+    throw new Error(`--referenced-table is required for ${type} fields`);
+  }
+  const result = await graphqlRequest<{ dataTable: { id: string } }>({
+    query: "query($key: String!) { dataTable(key: $key) { id } }",
+    variables: { key: referencedTable },
+  });
+  return result.dataTable.id;
+};
+
+const parseDefaultValue = (value: string, type: FieldType): unknown => {
+  try {
+    return coerceValue(value, type);
+  } catch (error) {
+    throw new Error(
+      `Invalid --default-value: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
+const addFieldOptions = (command: Command, update: boolean): Command =>
+  command
+    .addOption(
+      new Option(
+        "--type <type>",
+        update ? "Change the field type" : "Field type"
+      )
+        .choices(FIELD_TYPES)
+        .makeOptionMandatory(!update)
+    )
+    .option("--required", "Require a value in every record")
+    .option("--no-required", "Make the field optional")
+    .option(
+      "--default-value <value>",
+      "Default value, parsed for the field type"
+    )
+    .option(
+      "--referenced-table <table_key>",
+      "Table key or ID that REFERENCE and REFERENCE_MANY fields point at"
+    )
+    .option(
+      "--table-order <n>",
+      "Column position (0 is first)",
+      parseTableOrder
+    );
+
+const fieldsCommand = tablesCommand
+  .command("fields")
+  .usage("<command> [options]")
+  .description("Manage table fields (columns)");
+
+addFieldOptions(
+  fieldsCommand
+    .command("add")
+    .description("Add a field to a data table")
+    .argument("<table_key>", "Table key or ID")
+    .requiredOption("--key <key>", "Field key (used in record data)")
+    .requiredOption("--name <name>", "Field name"),
+  false
+).action(async (tableKey: string, opts: TablesFieldAddOptions) => {
+  const spinner = yoctoSpinner({ text: "Adding field..." }).start();
+  try {
+    const table = await fetchTable(tableKey);
+    const input: Record<string, unknown> = {
+      tableId: table.id,
+      key: opts.key,
+      name: opts.name,
+      type: opts.type,
+    };
+    const referencedTableId = await resolveReferencedTable(
+      opts.type,
+      opts.referencedTable
+    );
+    if (referencedTableId) {
+      input.referencedTableId = referencedTableId;
+    }
+    if (opts.required !== undefined) {
+      input.required = opts.required;
+    }
+    if (opts.defaultValue !== undefined) {
+      input.defaultValue = parseDefaultValue(opts.defaultValue, opts.type);
+    }
+    if (opts.tableOrder !== undefined) {
+      input.tableOrder = opts.tableOrder;
+    }
+
+    const result = await graphqlRequest<{ createDataField: TableField }>({
+      query: `mutation($input: CreateDataFieldInput!) {
+  createDataField(input: $input) {
+    ${DATA_FIELD_FIELDS}
+  }
+}`,
+      variables: { input },
+    });
+    spinner.stop();
+    printSuccess("Field added successfully.");
+    printRecord(result.createDataField);
+  } catch (error) {
+    spinner.stop();
+    printError(
+      error instanceof Error ? error.message : "An unknown error occurred"
+    );
+    process.exitCode = 1;
+  }
+});
+
+addFieldOptions(
+  fieldsCommand
+    .command("update")
+    .description("Rename, retype, or change the settings of a field")
+    .argument("<table_key>", "Table key or ID")
+    .argument("<field_key>", "Field key or ID")
+    .option("--name <name>", "Field name"),
+  true
+).action(
+  async (
+    tableKey: string,
+    fieldKey: string,
+    opts: TablesFieldUpdateOptions
+  ) => {
+    const spinner = yoctoSpinner({ text: "Updating field..." }).start();
+    try {
+      const field = findField(await fetchTable(tableKey), fieldKey);
+      const type = opts.type ?? (field.type as FieldType);
+      const input: Record<string, unknown> = { id: field.id };
+
+      if (opts.name !== undefined) {
+        input.name = opts.name;
+      }
+      if (opts.type !== undefined) {
+        input.type = opts.type;
+      }
+      if (opts.type !== undefined || opts.referencedTable !== undefined) {
+        const referencedTableId = await resolveReferencedTable(
+          type,
+          opts.referencedTable,
+          field.referencedTableId
+        );
+        if (referencedTableId) {
+          input.referencedTableId = referencedTableId;
+        } else if (
+          !RECORD_REFERENCE_TYPES.has(type) &&
+          field.referencedTableId
+        ) {
+          // The field stops being a reference, so drop its target table
+          input.referencedTableId = null;
+        }
+      }
+      if (opts.required !== undefined) {
+        input.required = opts.required;
+      }
+      if (opts.defaultValue !== undefined) {
+        input.defaultValue = parseDefaultValue(opts.defaultValue, type);
+      }
+      if (opts.tableOrder !== undefined) {
+        input.tableOrder = opts.tableOrder;
+      }
+
+      if (Object.keys(input).length === 1) {
+        spinner.stop();
+        printError(
+          "No update options provided. Use --help to see available options."
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const result = await graphqlRequest<{ updateDataField: TableField }>({
+        query: `mutation($input: UpdateDataFieldInput!) {
+  updateDataField(input: $input) {
+    ${DATA_FIELD_FIELDS}
+  }
+}`,
+        variables: { input },
+      });
+      spinner.stop();
+      printSuccess("Field updated successfully.");
+      printRecord(result.updateDataField);
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  }
+);
+
+fieldsCommand
+  .command("remove")
+  .description("Delete a field and its values from every record")
+  .argument("<table_key>", "Table key or ID")
+  .argument("<field_key>", "Field key or ID")
+  .action(async (tableKey: string, fieldKey: string) => {
+    const spinner = yoctoSpinner({ text: "Removing field..." }).start();
+    try {
+      const field = findField(await fetchTable(tableKey), fieldKey);
+      await graphqlRequest<{ deleteDataField: string }>({
+        query: `mutation($input: DeleteDataFieldInput!) {
+  deleteDataField(input: $input)
+}`,
+        variables: { input: { id: field.id } },
+      });
+      spinner.stop();
+      printSuccess(`Field "${field.key}" removed.`);
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
+
+fieldsCommand
+  .command("reorder")
+  .description(
+    "Put fields first in the given order; the rest keep their order after them"
+  )
+  .argument("<table_key>", "Table key or ID")
+  .argument("<field_keys...>", "Field keys or IDs in their new order")
+  .action(async (tableKey: string, fieldKeys: string[]) => {
+    const spinner = yoctoSpinner({ text: "Reordering fields..." }).start();
+    try {
+      const table = await fetchTable(tableKey);
+      const listed = fieldKeys.map((key) => findField(table, key));
+      const listedIds = new Set(listed.map((field) => field.id));
+      if (listedIds.size !== listed.length) {
+        throw new Error("Each field can only be listed once");
+      }
+      const ordered = [
+        ...listed,
+        ...[...table.fields]
+          .sort((a, b) => a.tableOrder - b.tableOrder)
+          .filter((field) => !listedIds.has(field.id)),
+      ];
+
+      await updateFieldOrder(ordered);
+      spinner.stop();
+      printSuccess("Fields reordered successfully.");
+      printTable(
+        ordered.map((field, tableOrder) => ({
+          tableOrder,
+          key: field.key,
+          name: field.name,
+          type: field.type,
+        }))
+      );
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
+
+const schemaCommand = tablesCommand
+  .command("schema")
+  .usage("<command> [options]")
+  .description("Export and apply table schemas as YAML or JSON files");
+
+schemaCommand
+  .command("export")
+  .description("Write a table's schema (rules and ordered fields) to a file")
+  .argument("<table_key>", "Table key or ID")
+  .option(
+    "--output <path>",
+    "Output file; .yaml/.yml writes YAML, anything else JSON (default: <table_key>.schema.json)"
+  )
+  .action(async (tableKey: string, options: TablesSchemaExportOptions) => {
+    const spinner = yoctoSpinner({ text: "Fetching table..." }).start();
+    try {
+      const table = (await fetchTableConfigs()).find(
+        (t) => t.key === tableKey || t.id === tableKey
+      );
+      if (!table) {
+        throw new Error(`Table "${tableKey}" not found`);
+      }
+      const outputPath = resolve(options.output ?? `${table.key}.schema.json`);
+      await writeTableSchema(outputPath, toTableSchema(table));
+      spinner.stop();
+      printSuccess(
+        `Wrote schema for ${table.name} (${table.key}) to ${outputPath}`
+      );
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
+
+schemaCommand
+  .command("apply")
+  .description(
+    "Create or migrate a table to match a schema file, showing the planned changes first"
+  )
+  .argument("<file>", "YAML or JSON schema file")
+  .option("--dry-run", "Preview changes without applying them")
+  .option("-f, --force", "Skip confirmation prompt")
+  .action(async (file: string, options: TablesSchemaApplyOptions) => {
+    const spinner = yoctoSpinner({ text: "Reading schema..." }).start();
+    try {
+      const schema = await readTableSchema(resolve(file));
+      spinner.text = "Fetching tables...";
+      const tables = await fetchTableConfigs();
+      const current = tables.find((t) => t.key === schema.key);
+
+      const { version: _version, ...desired } = schema;
+      const changes = diffTableSchema(desired, current);
+      const fieldOrder = planFieldOrder(schema, current);
+      spinner.stop();
+      printConfigChanges(changes);
+      if (fieldOrder) {
+        process.stderr.write(
+          `  ${pc.dim(`Fields will be reordered: ${fieldOrder.join(", ")}`)}\n\n`
+        );
+      }
+
+      if (options.dryRun || (changes.length === 0 && !fieldOrder)) {
+        return;
+      }
+
+      if (!options.force) {
+        const proceed = await confirm(
+          `  ${pc.bold(`Apply schema to table "${schema.key}"?`)} (y/n) `
+        );
+        if (!proceed) {
+          process.stderr.write("\n  Aborted.\n\n");
+          return;
+        }
+      }
+
+      const context: ApplyContext = {
+        permissionIds: new Map(),
+        planIds: new Map(),
+        tableIds: new Map(tables.map((t) => [t.key, t.id as string])),
+      };
+      spinner.start();
+      const { applied, failed } = await applyConfigChanges(
+        changes,
+        context,
+        (index, total) => {
+          spinner.text = `Applying change ${index}/${total}...`;
+        }
+      );
+      if (fieldOrder && context.tableIds.has(schema.key)) {
+        spinner.text = "Reordering fields...";
+        await applyFieldOrder(schema.key, fieldOrder);
+      }
+      spinner.stop();
+      printSuccess(`Schema applied: ${applied} applied, ${failed} failed`);
+      if (failed > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      spinner.stop();
+      printError(
+        error instanceof Error ? error.message : "An unknown error occurred"
+      );
+      process.exitCode = 1;
+    }
+  });
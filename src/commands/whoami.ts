@@ -1,6 +1,11 @@
 import { Command } from "commander";
 import pc from "picocolors";
 import { graphqlRequest } from "../lib/graphql-client.js";
+import {
+  CREDENTIAL_SOURCE_LABELS,
+  getActiveProfile,
+  getCredentialSource,
+} from "../lib/token-storage.js";
 import { printError } from "../lib/utils.js";
 
 export const whoamiCommand = new Command("whoami")
@@ -17,7 +22,17 @@ export const whoamiCommand = new Command("whoami")
         }`,
       });
 
+      const source = getCredentialSource();
+
       process.stderr.write("\n");
+      if (source === "profile") {
+        const profile = await getActiveProfile();
+        process.stderr.write(`  ${pc.bold("Profile:")} ${profile}\n`);
+      } else {
+        process.stderr.write(
+          `  ${pc.bold("Source:")} ${CREDENTIAL_SOURCE_LABELS[source]}\n`
+        );
+      }
       process.stderr.write(
         `  ${pc.bold("App:")}   ${result.currentApp.name} (${result.currentApp.id})\n`
       );
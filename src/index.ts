@@ -5,14 +5,20 @@ if (process.argv.includes("--no-color") || process.env.NO_COLOR) {
 import pc from "picocolors";
 import { appsCommand } from "./commands/apps.js";
 import { authCommand } from "./commands/auth.js";
+import { backupCommand } from "./commands/backup.js";
+import { codegenCommand } from "./commands/codegen.js";
+import { configCommand } from "./commands/config.js";
 import { customFieldsCommand } from "./commands/custom-fields.js";
+import { diffCommand } from "./commands/diff.js";
 import { membersCommand } from "./commands/members.js";
 import { permissionsCommand } from "./commands/permissions.js";
 import { plansCommand } from "./commands/plans.js";
 import { pricesCommand } from "./commands/prices.js";
+import { promoteCommand } from "./commands/promote.js";
 import { providersCommand } from "./commands/providers.js";
 import { recordsCommand } from "./commands/records.js";
 import { resetCommand } from "./commands/reset.js";
+import { restoreCommand } from "./commands/restore.js";
 import { skillsCommand } from "./commands/skills.js";
 import { ssoCommand } from "./commands/sso.js";
 import { tablesCommand } from "./commands/tables.js";
@@ -72,6 +78,12 @@ program.addCommand(tablesCommand);
 program.addCommand(recordsCommand);
 program.addCommand(customFieldsCommand);
 program.addCommand(usersCommand);
+program.addCommand(configCommand);
+program.addCommand(promoteCommand);
+program.addCommand(diffCommand);
+program.addCommand(backupCommand);
+program.addCommand(restoreCommand);
+program.addCommand(codegenCommand);
 program.addCommand(providersCommand);
 program.addCommand(skillsCommand);
 program.addCommand(ssoCommand);
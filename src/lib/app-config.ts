@@ -0,0 +1,1203 @@
+import { readFile } from "node:fs/promises";
+import pc from "picocolors";
+import { graphqlRequest } from "./graphql-client.js";
+import { program } from "./program.js";
+import type {
+  AppConfig,
+  ConfigChange,
+  ConfigResource,
+  CustomFieldConfig,
+  DataTable,
+  PermissionConfig,
+  PlanConfig,
+  PriceConfig,
+  ProviderConfig,
+  SsoAppConfig,
+  TableConfig,
+  TableFieldConfig,
+} from "./types.js";
+import { compact, printError, printJson, printTable } from "./utils.js";
+
+export const APP_CONFIG_VERSION = 1;
+
+interface RemotePrice {
+  active: boolean;
+  amount: number;
+  currency: string;
+  expiration: { count: number; interval: string } | null;
+  freeTrial: { days: number; enabled: boolean } | null;
+  id: string;
+  interval: { count: number; type: string } | null;
+  name: string | null;
+  setupFee: { amount: number; enabled: boolean; name: string | null } | null;
+  type: string;
+}
+
+interface RemotePlan {
+  allowedDomains: string[] | null;
+  description: string | null;
+  icon: string | null;
+  id: string;
+  isPaid: boolean | null;
+  limitMembers: boolean | null;
+  memberLimit: number | null;
+  name: string;
+  permissions: { id: string }[] | null;
+  prices: RemotePrice[] | null;
+  priority: number | null;
+  redirects: Record<string, string | null> | null;
+  restrictToAdmin: boolean | null;
+  status: "ACTIVE" | "INACTIVE";
+  teamAccountInviteSignupLink: string | null;
+  teamAccountsEnabled: boolean | null;
+  teamAccountUpgradeLink: string | null;
+}
+
+interface RemoteCustomField {
+  hidden: boolean;
+  id: string;
+  key: string;
+  label: string;
+  restrictToAdmin: boolean;
+  tableHidden: boolean;
+  visibility: "PUBLIC" | "PRIVATE";
+}
+
+interface RemoteProvider {
+  clientId: string | null;
+  enabled: boolean;
+  id: string;
+  name: string;
+  providerType: string;
+}
+
+interface RemoteSsoApp {
+  id: string;
+  name: string;
+  redirectUris: string[];
+}
+
+interface RemoteAppConfig {
+  currentApp: { id: string; name: string };
+  dataTables: DataTable[];
+  getCustomFields: RemoteCustomField[];
+  getPermissions: { description: string | null; id: string; name: string }[];
+  getPlans: RemotePlan[];
+  getSSOApps: RemoteSsoApp[];
+  getSSOClients: RemoteProvider[];
+}
+
+const APP_CONFIG_QUERY = `query($plansInput: GetPlansInput) {
+  currentApp { id name }
+  getPermissions { id name description }
+  getPlans(input: $plansInput) {
+    id
+    name
+    icon
+    description
+    status
+    isPaid
+    priority
+    limitMembers
+    memberLimit
+    teamAccountsEnabled
+    teamAccountUpgradeLink
+    teamAccountInviteSignupLink
+    restrictToAdmin
+    allowedDomains
+    permissions { id }
+    redirects {
+      afterSignup
+      afterLogin
+      afterLogout
+      afterPurchase
+      afterCancel
+      afterReplace
+      verificationRequired
+    }
+    prices {
+      id
+      name
+      active
+      amount
+      type
+      currency
+      interval { type count }
+      freeTrial { enabled days }
+      setupFee { enabled name amount }
+      expiration { count interval }
+    }
+  }
+  getCustomFields { id key label hidden visibility restrictToAdmin tableHidden }
+  dataTables {
+    id
+    key
+    name
+    createRule
+    readRule
+    updateRule
+    deleteRule
+    fields {
+      id
+      key
+      name
+      type
+      required
+      defaultValue
+      tableOrder
+      referencedTableId
+      referencedTable { id key name }
+    }
+  }
+  getSSOClients { id providerType name enabled clientId }
+  getSSOApps { id name redirectUris }
+}`;
+
+const toPriceConfig = (price: RemotePrice): PriceConfig => ({
+  id: price.id,
+  name: price.name,
+  type: price.type,
+  amount: price.amount,
+  currency: price.currency,
+  active: price.active,
+  interval: price.interval,
+  freeTrial: price.freeTrial,
+  setupFee: price.setupFee,
+  expiration: price.expiration,
+});
+
+const toPlanConfig = (
+  plan: RemotePlan,
+  permissionNames: Map<string, string>
+): PlanConfig => ({
+  id: plan.id,
+  name: plan.name,
+  description: plan.description,
+  icon: plan.icon,
+  status: plan.status,
+  isPaid: plan.isPaid ?? false,
+  priority: plan.priority,
+  limitMembers: plan.limitMembers ?? false,
+  memberLimit: plan.memberLimit,
+  restrictToAdmin: plan.restrictToAdmin ?? false,
+  teamAccountsEnabled: plan.teamAccountsEnabled ?? false,
+  teamAccountUpgradeLink: plan.teamAccountUpgradeLink,
+  teamAccountInviteSignupLink: plan.teamAccountInviteSignupLink,
+  allowedDomains: plan.allowedDomains ?? [],
+  redirects: plan.redirects ?? {},
+  permissions: (plan.permissions ?? [])
+    .map((p) => permissionNames.get(p.id) ?? p.id)
+    .sort(),
+  prices: (plan.prices ?? []).map(toPriceConfig),
+});
+
+export const toTableConfig = (table: DataTable): TableConfig => ({
+  id: table.id,
+  key: table.key,
+  name: table.name,
+  createRule: table.createRule,
+  readRule: table.readRule,
+  updateRule: table.updateRule,
+  deleteRule: table.deleteRule,
+  fields: [...table.fields]
+    .sort((a, b) => a.tableOrder - b.tableOrder)
+    .map((field) => ({
+      id: field.id,
+      key: field.key,
+      name: field.name,
+      type: field.type,
+      required: field.required,
+      defaultValue: field.defaultValue ?? null,
+      referencedTable: field.referencedTable?.key ?? null,
+    })),
+});
+
+export const fetchAppConfig = async (mode?: string): Promise<AppConfig> => {
+  const result = await graphqlRequest<RemoteAppConfig>({
+    mode,
+    query: APP_CONFIG_QUERY,
+    variables: { plansInput: { status: "ALL" } },
+  });
+
+  const permissionNames = new Map(
+    result.getPermissions.map((p) => [p.id, p.name])
+  );
+
+  return {
+    version: APP_CONFIG_VERSION,
+    app: { id: result.currentApp.id, name: result.currentApp.name },
+    permissions: result.getPermissions.map((p) => ({
+      id: p.id,
+      name: p.name,
+      description: p.description,
+    })),
+    plans: (result.getPlans ?? []).map((plan) =>
+      toPlanConfig(plan, permissionNames)
+    ),
+    customFields: result.getCustomFields.map((field) => ({
+      id: field.id,
+      key: field.key,
+      label: field.label,
+      hidden: field.hidden,
+      visibility: field.visibility,
+      restrictToAdmin: field.restrictToAdmin,
+      tableHidden: field.tableHidden,
+    })),
+    tables: result.dataTables.map(toTableConfig),
+    providers: result.getSSOClients.map((p) => ({
+      id: p.id,
+      type: p.providerType,
+      name: p.name,
+      enabled: p.enabled,
+      clientId: p.clientId,
+    })),
+    ssoApps: result.getSSOApps.map((app) => ({
+      id: app.id,
+      name: app.name,
+      redirectUris: app.redirectUris,
+    })),
+  };
+};
+
+/**
+ * Restricts a config to the sections that are shared between modes:
+ * permissions, plans (with prices), custom fields, and table schemas.
+ */
+export const selectSchemaSections = (
+  config: Partial<AppConfig>
+): Partial<AppConfig> => ({
+  permissions: config.permissions ?? [],
+  plans: config.plans ?? [],
+  customFields: config.customFields ?? [],
+  tables: config.tables ?? [],
+});
+
+export const readAppConfig = async (
+  filePath: string
+): Promise<Partial<AppConfig>> => {
+  const content = await readFile(filePath, "utf-8");
+  let parsed: Partial<AppConfig>;
+  try {
+    parsed = JSON.parse(content) as Partial<AppConfig>;
+  } catch {
+    throw new Error(`Invalid config file: ${filePath} is not valid JSON`);
+  }
+  if (parsed.version !== APP_CONFIG_VERSION) {
+    throw new Error(
+      `Unsupported config version: ${String(parsed.version)}. Expected ${APP_CONFIG_VERSION}.`
+    );
+  }
+  return parsed;
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Props left out of the desired side are not managed by it, so they never
+ * count as changed; an explicit null still does.
+ */
+const changedFields = <T extends object>(
+  desired: T,
+  current: T,
+  fields: (keyof T & string)[]
+): string[] =>
+  fields.filter(
+    (field) =>
+      desired[field] !== undefined &&
+      stableStringify(desired[field]) !== stableStringify(current[field])
+  );
+
+const matchItems = <T extends { id?: string }>(
+  desired: T[],
+  current: T[],
+  keyOf: (item: T) => string
+): { extra: T[]; missing: T[]; pairs: [T, T][] } => {
+  const remaining = [...current];
+  const pairs: [T, T][] = [];
+  const missing: T[] = [];
+
+  for (const item of desired) {
+    let index = item.id ? remaining.findIndex((c) => c.id === item.id) : -1;
+    if (index === -1) {
+      index = remaining.findIndex((c) => keyOf(c) === keyOf(item));
+    }
+    if (index === -1) {
+      missing.push(item);
+    } else {
+      pairs.push([item, remaining.splice(index, 1)[0]]);
+    }
+  }
+
+  return { pairs, missing, extra: remaining };
+};
+
+const PERMISSION_PROPS: (keyof PermissionConfig & string)[] = [
+  "name",
+  "description",
+];
+
+const PLAN_PROPS: (keyof PlanConfig & string)[] = [
+  "name",
+  "description",
+  "icon",
+  "status",
+  "priority",
+  "limitMembers",
+  "memberLimit",
+  "restrictToAdmin",
+  "teamAccountUpgradeLink",
+  "teamAccountInviteSignupLink",
+  "allowedDomains",
+  "redirects",
+  "permissions",
+];
+
+const PRICE_PROPS: (keyof PriceConfig & string)[] = [
+  "name",
+  "type",
+  "amount",
+  "currency",
+  "active",
+  "interval",
+  "freeTrial",
+  "setupFee",
+  "expiration",
+];
+
+const CUSTOM_FIELD_PROPS: (keyof CustomFieldConfig & string)[] = [
+  "label",
+  "hidden",
+  "visibility",
+  "restrictToAdmin",
+  "tableHidden",
+];
+
+const TABLE_PROPS: (keyof TableConfig & string)[] = [
+  "name",
+  "createRule",
+  "readRule",
+  "updateRule",
+  "deleteRule",
+];
+
+const TABLE_FIELD_PROPS: (keyof TableFieldConfig & string)[] = [
+  "name",
+  "type",
+  "required",
+  "defaultValue",
+  "referencedTable",
+];
+
+const PROVIDER_PROPS: (keyof ProviderConfig & string)[] = [
+  "name",
+  "enabled",
+  "clientId",
+];
+
+const SSO_APP_PROPS: (keyof SsoAppConfig & string)[] = ["redirectUris"];
+
+const priceKey = (price: PriceConfig): string =>
+  price.name ?? `${price.type}:${price.amount}:${price.currency}`;
+
+interface ConfigDiff {
+  deletes: ConfigChange[];
+  upserts: ConfigChange[];
+}
+
+const diffList = <T extends { id?: string }>(
+  resource: ConfigResource,
+  desired: T[],
+  current: T[],
+  keyOf: (item: T) => string,
+  props: (keyof T & string)[],
+  parent?: string
+): ConfigDiff & { pairs: [T, T][] } => {
+  const { pairs, missing, extra } = matchItems(desired, current, keyOf);
+  const upserts: ConfigChange[] = missing.map((item) => ({
+    resource,
+    action: "create",
+    key: keyOf(item),
+    parent,
+    fields: [],
+    desired: item,
+  }));
+  for (const [want, have] of pairs) {
+    const fields = changedFields(want, have, props);
+    if (fields.length > 0) {
+      upserts.push({
+        resource,
+        action: "update",
+        key: keyOf(want),
+        parent,
+        fields,
+        desired: want,
+        current: have,
+      });
+    }
+  }
+  const deletes: ConfigChange[] = extra.map((item) => ({
+    resource,
+    action: "delete",
+    key: keyOf(item),
+    parent,
+    fields: [],
+    current: item,
+  }));
+  return { pairs, upserts, deletes };
+};
+
+interface ChildSpec<P, C> {
+  childrenOf: (parent: P) => C[] | undefined;
+  keyOf: (item: C) => string;
+  props: (keyof C & string)[];
+  resource: ConfigResource;
+}
+
+const diffWithChildren = <P extends { id?: string }, C extends { id?: string }>(
+  parentDiff: ConfigDiff & { pairs: [P, P][] },
+  parentKeyOf: (item: P) => string,
+  child: ChildSpec<P, C>
+): ConfigDiff => {
+  const upserts: ConfigChange[] = [];
+  const deletes: ConfigChange[] = [];
+  const diffChildren = (want: P, have: C[]) =>
+    diffList(
+      child.resource,
+      child.childrenOf(want) ?? [],
+      have,
+      child.keyOf,
+      child.props,
+      parentKeyOf(want)
+    );
+
+  for (const change of parentDiff.upserts) {
+    if (change.action === "create") {
+      upserts.push(...diffChildren(change.desired as P, []).upserts);
+    }
+  }
+  for (const [want, have] of parentDiff.pairs) {
+    const diff = diffChildren(want, child.childrenOf(have) ?? []);
+    upserts.push(...diff.upserts);
+    deletes.push(...diff.deletes);
+  }
+
+  return {
+    upserts: [...parentDiff.upserts, ...upserts],
+    deletes: [...deletes, ...parentDiff.deletes],
+  };
+};
+
+const tableKey = (table: TableConfig) => table.key;
+
+const diffTables = (desired: TableConfig[], current: TableConfig[]) =>
+  diffWithChildren(
+    diffList("table", desired, current, tableKey, TABLE_PROPS),
+    tableKey,
+    {
+      resource: "tableField",
+      childrenOf: (t) => t.fields,
+      keyOf: (f) => f.key,
+      props: TABLE_FIELD_PROPS,
+    }
+  );
+
+/**
+ * Compares one table schema against the existing table with the same key
+ * (or none, to create it). Fields missing from `desired` are deleted.
+ */
+export const diffTableSchema = (
+  desired: TableConfig,
+  current: TableConfig | undefined
+): ConfigChange[] => {
+  const diff = diffTables([desired], current ? [current] : []);
+  return [...diff.upserts, ...diff.deletes];
+};
+
+/**
+ * Compares a desired config against the current app config. Sections that
+ * are missing from the desired config are left out of the comparison.
+ * Creates and updates are ordered so dependencies are applied first;
+ * deletes follow in reverse dependency order.
+ */
+export const diffAppConfig = (
+  desired: Partial<AppConfig>,
+  current: AppConfig
+): ConfigChange[] => {
+  const diffs: ConfigDiff[] = [];
+
+  if (desired.permissions) {
+    diffs.push(
+      diffList(
+        "permission",
+        desired.permissions,
+        current.permissions,
+        (p) => p.name,
+        PERMISSION_PROPS
+      )
+    );
+  }
+  if (desired.plans) {
+    const planKey = (p: PlanConfig) => p.name;
+    diffs.push(
+      diffWithChildren(
+        diffList("plan", desired.plans, current.plans, planKey, PLAN_PROPS),
+        planKey,
+        {
+          resource: "price",
+          childrenOf: (p) => p.prices,
+          keyOf: priceKey,
+          props: PRICE_PROPS,
+        }
+      )
+    );
+  }
+  if (desired.customFields) {
+    diffs.push(
+      diffList(
+        "customField",
+        desired.customFields,
+        current.customFields,
+        (f) => f.key,
+        CUSTOM_FIELD_PROPS
+      )
+    );
+  }
+  if (desired.tables) {
+    diffs.push(diffTables(desired.tables, current.tables));
+  }
+  if (desired.providers) {
+    diffs.push(
+      diffList(
+        "provider",
+        desired.providers,
+        current.providers,
+        (p) => p.type,
+        PROVIDER_PROPS
+      )
+    );
+  }
+  if (desired.ssoApps) {
+    diffs.push(
+      diffList(
+        "ssoApp",
+        desired.ssoApps,
+        current.ssoApps,
+        (a) => a.name,
+        SSO_APP_PROPS
+      )
+    );
+  }
+
+  return [
+    ...diffs.flatMap((d) => d.upserts),
+    ...diffs.reverse().flatMap((d) => d.deletes),
+  ];
+};
+
+export interface ApplyContext {
+  mode?: string;
+  permissionIds: Map<string, string>;
+  planIds: Map<string, string>;
+  tableIds: Map<string, string>;
+}
+
+export const createApplyContext = (
+  current: AppConfig,
+  mode?: string
+): ApplyContext => ({
+  mode,
+  permissionIds: new Map(
+    current.permissions.map((p) => [p.name, p.id as string])
+  ),
+  planIds: new Map(current.plans.map((p) => [p.name, p.id as string])),
+  tableIds: new Map(current.tables.map((t) => [t.key, t.id as string])),
+});
+
+const resolveId = (ids: Map<string, string>, name: string, label: string) => {
+  const id = ids.get(name);
+  if (!id) {
+    throw new Error(`Unknown ${label} "${name}"`);
+  }
+  return id;
+};
+
+const buildPlanUpdateInput = (
+  plan: PlanConfig,
+  planId: string,
+  context: ApplyContext
+): Record<string, unknown> =>
+  compact({
+    planId,
+    name: plan.name,
+    description: plan.description,
+    icon: plan.icon,
+    status: plan.status,
+    limitMembers: plan.limitMembers,
+    memberLimit: plan.memberLimit,
+    restrictToAdmin: plan.restrictToAdmin,
+    teamAccountUpgradeLink: plan.teamAccountUpgradeLink,
+    teamAccountInviteSignupLink: plan.teamAccountInviteSignupLink,
+    allowedDomains: plan.allowedDomains,
+    redirects: compact(plan.redirects ?? {}),
+    permissionIds: (plan.permissions ?? []).map((name) =>
+      resolveId(context.permissionIds, name, "permission")
+    ),
+  });
+
+const buildPriceInput = (price: PriceConfig): Record<string, unknown> =>
+  compact({
+    name: price.name,
+    amount: price.amount,
+    type: price.type,
+    currency: price.currency,
+    intervalType: price.interval?.type,
+    intervalCount: price.interval?.count,
+    setupFeeEnabled: price.setupFee?.enabled,
+    setupFeeName: price.setupFee?.name,
+    setupFeeAmount: price.setupFee?.amount,
+    freeTrialEnabled: price.freeTrial?.enabled,
+    freeTrialDays: price.freeTrial?.days,
+    expirationCount: price.expiration?.count,
+    expirationInterval: price.expiration?.interval,
+  });
+
+/** A null reference only clears a current one; otherwise it is left out. */
+const resolveReferencedTableId = (
+  field: TableFieldConfig,
+  context: ApplyContext,
+  current?: TableFieldConfig
+): string | null | undefined => {
+  if (field.referencedTable) {
+    return resolveId(context.tableIds, field.referencedTable, "table");
+  }
+  return field.referencedTable === null && current?.referencedTable
+    ? null
+    : undefined;
+};
+
+const buildFieldInput = (
+  field: TableFieldConfig,
+  context: ApplyContext,
+  current?: TableFieldConfig
+): Record<string, unknown> =>
+  compact({
+    key: field.key,
+    name: field.name,
+    type: field.type,
+    required: field.required,
+    defaultValue: field.defaultValue,
+    referencedTableId: resolveReferencedTableId(field, context, current),
+  });
+
+const setPriceActive = async (
+  priceId: string,
+  active: boolean,
+  context: ApplyContext
+) => {
+  const mutation = active ? "reactivatePrice" : "deactivatePrice";
+  const inputType = active ? "ReactivatePriceInput" : "DeactivatePriceInput";
+  await graphqlRequest({
+    mode: context.mode,
+    query: `mutation($input: ${inputType}!) { ${mutation}(input: $input) { id } }`,
+    variables: { input: { priceId } },
+  });
+};
+
+const applyPermissionChange = async (
+  change: ConfigChange,
+  context: ApplyContext
+): Promise<void> => {
+  const permission = change.desired as PermissionConfig;
+  if (change.action === "delete") {
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: DeletePermissionInput!) { deletePermission(input: $input) { id } }",
+      variables: { input: { permissionId: change.current?.id } },
+    });
+    return;
+  }
+  if (change.action === "create") {
+    const result = await graphqlRequest<{ createPermission: { id: string } }>({
+      mode: context.mode,
+      query:
+        "mutation($input: CreatePermissionInput!) { createPermission(input: $input) { id } }",
+      variables: {
+        input: compact({
+          name: permission.name,
+          description: permission.description,
+        }),
+      },
+    });
+    context.permissionIds.set(permission.name, result.createPermission.id);
+    return;
+  }
+  await graphqlRequest({
+    mode: context.mode,
+    query:
+      "mutation($input: UpdatePermissionInput!) { updatePermission(input: $input) { id } }",
+    variables: {
+      input: compact({
+        permissionId: change.current?.id,
+        name: permission.name,
+        description: permission.description,
+      }),
+    },
+  });
+  context.permissionIds.set(permission.name, change.current?.id as string);
+};
+
+const applyPlanChange = async (
+  change: ConfigChange,
+  context: ApplyContext
+): Promise<void> => {
+  const plan = change.desired as PlanConfig;
+  if (change.action === "delete") {
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: DeletePlanInput!) { deletePlan(input: $input) { id } }",
+      variables: { input: { planId: change.current?.id } },
+    });
+    return;
+  }
+
+  let planId = change.current?.id as string;
+  if (change.action === "create") {
+    const result = await graphqlRequest<{ createPlan: { id: string } }>({
+      mode: context.mode,
+      query:
+        "mutation($input: CreatePlanInput!) { createPlan(input: $input) { id } }",
+      variables: {
+        input: compact({
+          name: plan.name,
+          description: plan.description ?? "",
+          icon: plan.icon,
+          isPaid: plan.isPaid,
+          teamAccountsEnabled: plan.teamAccountsEnabled,
+          teamAccountInviteSignupLink: plan.teamAccountInviteSignupLink,
+          teamAccountUpgradeLink: plan.teamAccountUpgradeLink,
+        }),
+      },
+    });
+    planId = result.createPlan.id;
+  }
+  context.planIds.set(plan.name, planId);
+
+  await graphqlRequest({
+    mode: context.mode,
+    query:
+      "mutation($input: UpdatePlanInput!) { updatePlan(input: $input) { id } }",
+    variables: { input: buildPlanUpdateInput(plan, planId, context) },
+  });
+
+  if (
+    plan.priority !== null &&
+    plan.priority !== undefined &&
+    (change.action === "create" || change.fields.includes("priority"))
+  ) {
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: OrderPlansInput!) { orderPlans(input: $input) { id } }",
+      variables: {
+        input: { orders: [{ planId, priority: plan.priority }] },
+      },
+    });
+  }
+};
+
+const applyPriceChange = async (
+  change: ConfigChange,
+  context: ApplyContext
+): Promise<void> => {
+  const price = change.desired as PriceConfig;
+  if (change.action === "delete") {
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: DeletePriceInput!) { deletePrice(input: $input) { id } }",
+      variables: { input: { priceId: change.current?.id } },
+    });
+    return;
+  }
+
+  if (change.action === "create") {
+    const planId = resolveId(context.planIds, change.parent ?? "", "plan");
+    const result = await graphqlRequest<{ createPrice: { id: string } }>({
+      mode: context.mode,
+      query:
+        "mutation($input: CreatePriceInput!) { createPrice(input: $input) { id } }",
+      variables: { input: { planId, ...buildPriceInput(price) } },
+    });
+    if (price.active === false) {
+      await setPriceActive(result.createPrice.id, false, context);
+    }
+    return;
+  }
+
+  const priceId = change.current?.id as string;
+  const valueFields = change.fields.filter((f) => f !== "active");
+  if (valueFields.length > 0) {
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: UpdatePriceInput!) { updatePrice(input: $input) { id } }",
+      variables: { input: { priceId, ...buildPriceInput(price) } },
+    });
+  }
+  if (change.fields.includes("active")) {
+    await setPriceActive(priceId, price.active, context);
+  }
+};
+
+const applyCustomFieldChange = async (
+  change: ConfigChange,
+  context: ApplyContext
+): Promise<void> => {
+  const field = change.desired as CustomFieldConfig;
+  if (change.action === "delete") {
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: DeleteCustomFieldInput!) { deleteCustomField(input: $input) }",
+      variables: { input: { customFieldId: change.current?.id } },
+    });
+    return;
+  }
+
+  let customFieldId = change.current?.id;
+  if (change.action === "create") {
+    const result = await graphqlRequest<{
+      createCustomField: { id: string };
+    }>({
+      mode: context.mode,
+      query:
+        "mutation($input: CreateCustomFieldInput!) { createCustomField(input: $input) { id } }",
+      variables: {
+        input: compact({
+          key: field.key,
+          label: field.label,
+          hidden: field.hidden,
+          visibility: field.visibility,
+          restrictToAdmin: field.restrictToAdmin,
+        }),
+      },
+    });
+    if (!field.tableHidden) {
+      return;
+    }
+    customFieldId = result.createCustomField.id;
+  }
+
+  await graphqlRequest({
+    mode: context.mode,
+    query:
+      "mutation($input: UpdateCustomFieldInput!) { updateCustomField(input: $input) { id } }",
+    variables: {
+      input: compact({
+        customFieldId,
+        label: field.label,
+        hidden: field.hidden,
+        tableHidden: field.tableHidden,
+        visibility: field.visibility,
+        restrictToAdmin: field.restrictToAdmin,
+      }),
+    },
+  });
+};
+
+const applyTableChange = async (
+  change: ConfigChange,
+  context: ApplyContext
+): Promise<void> => {
+  const table = change.desired as TableConfig;
+  if (change.action === "delete") {
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: DeleteDataTableInput!) { deleteDataTable(input: $input) }",
+      variables: { input: { id: change.current?.id } },
+    });
+    return;
+  }
+
+  const rules = {
+    createRule: table.createRule,
+    readRule: table.readRule,
+    updateRule: table.updateRule,
+    deleteRule: table.deleteRule,
+  };
+
+  if (change.action === "create") {
+    const result = await graphqlRequest<{ createDataTable: { id: string } }>({
+      mode: context.mode,
+      query:
+        "mutation($input: CreateDataTableInput!) { createDataTable(input: $input) { id } }",
+      variables: {
+        input: compact({ name: table.name, key: table.key, ...rules }),
+      },
+    });
+    context.tableIds.set(table.key, result.createDataTable.id);
+    return;
+  }
+
+  await graphqlRequest({
+    mode: context.mode,
+    query:
+      "mutation($input: UpdateDataTableInput!) { updateDataTable(input: $input) { id } }",
+    variables: {
+      input: compact({ id: change.current?.id, name: table.name, ...rules }),
+    },
+  });
+};
+
+const applyTableFieldChange = async (
+  change: ConfigChange,
+  context: ApplyContext
+): Promise<void> => {
+  if (change.action === "delete") {
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: DeleteDataFieldInput!) { deleteDataField(input: $input) }",
+      variables: { input: { id: change.current?.id } },
+    });
+    return;
+  }
+
+  const field = change.desired as TableFieldConfig;
+  const input = buildFieldInput(
+    field,
+    context,
+    change.current as TableFieldConfig | undefined
+  );
+
+  if (change.action === "create") {
+    const tableId = resolveId(context.tableIds, change.parent ?? "", "table");
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: CreateDataFieldInput!) { createDataField(input: $input) { id } }",
+      variables: { input: { tableId, ...input } },
+    });
+    return;
+  }
+
+  const { key: _key, ...updates } = input;
+  await graphqlRequest({
+    mode: context.mode,
+    query:
+      "mutation($input: UpdateDataFieldInput!) { updateDataField(input: $input) { id } }",
+    variables: { input: { id: change.current?.id, ...updates } },
+  });
+};
+
+const applyProviderChange = async (
+  change: ConfigChange,
+  context: ApplyContext
+): Promise<void> => {
+  if (change.action === "delete") {
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: RemoveSSOClientInput!) { removeSSOClient(input: $input) }",
+      variables: { input: { id: change.current?.id } },
+    });
+    return;
+  }
+
+  const provider = change.desired as ProviderConfig;
+  // updateSSOClient creates missing providers, which need their secret
+  if (change.action === "create" && !provider.clientSecret) {
+    throw new Error(
+      `Provider "${provider.type}" needs a clientSecret in the config file to be created`
+    );
+  }
+  await graphqlRequest({
+    mode: context.mode,
+    query:
+      "mutation($input: UpdateSSOClientInput!) { updateSSOClient(input: $input) { id } }",
+    variables: {
+      input: compact({
+        provider: provider.type.toLowerCase(),
+        name: provider.name,
+        clientId: provider.clientId,
+        clientSecret: provider.clientSecret,
+        enabled: provider.enabled,
+      }),
+    },
+  });
+};
+
+const applySsoAppChange = async (
+  change: ConfigChange,
+  context: ApplyContext
+): Promise<void> => {
+  if (change.action === "delete") {
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: DeleteSSOAppInput!) { deleteSSOApp(input: $input) }",
+      variables: { input: { id: change.current?.id } },
+    });
+    return;
+  }
+
+  const app = change.desired as SsoAppConfig;
+  if (change.action === "create") {
+    await graphqlRequest({
+      mode: context.mode,
+      query:
+        "mutation($input: CreateSSOAppInput!) { createSSOApp(input: $input) { id } }",
+      variables: { input: { name: app.name, redirectUris: app.redirectUris } },
+    });
+    return;
+  }
+
+  await graphqlRequest({
+    mode: context.mode,
+    query:
+      "mutation($input: UpdateSSOAppInput!) { updateSSOApp(input: $input) { id } }",
+    variables: {
+      input: {
+        id: change.current?.id,
+        name: app.name,
+        redirectUris: app.redirectUris,
+      },
+    },
+  });
+};
+
+export const applyConfigChange = async (
+  change: ConfigChange,
+  context: ApplyContext
+): Promise<void> => {
+  switch (change.resource) {
+    case "permission":
+      await applyPermissionChange(change, context);
+      break;
+    case "plan":
+      await applyPlanChange(change, context);
+      break;
+    case "price":
+      await applyPriceChange(change, context);
+      break;
+    case "customField":
+      await applyCustomFieldChange(change, context);
+      break;
+    case "table":
+      await applyTableChange(change, context);
+      break;
+    case "tableField":
+      await applyTableFieldChange(change, context);
+      break;
+    case "provider":
+      await applyProviderChange(change, context);
+      break;
+    case "ssoApp":
+      await applySsoAppChange(change, context);
+      break;
+    default:
+      throw new Error(`Unknown resource: ${String(change.resource)}`);
+  }
+};
+
+export const describeChange = (change: ConfigChange): string =>
+  change.parent ? `${change.parent} / ${change.key}` : change.key;
+
+/**
+ * Applies changes in order. A failed change is printed and counted, and the
+ * rest are still applied; `onProgress` gets the 1-based index of each change.
+ */
+export const applyConfigChanges = async (
+  changes: ConfigChange[],
+  context: ApplyContext,
+  onProgress?: (index: number, total: number) => void
+): Promise<{ applied: number; failed: number }> => {
+  let applied = 0;
+  let failed = 0;
+
+  for (const [index, change] of changes.entries()) {
+    onProgress?.(index + 1, changes.length);
+    try {
+      await applyConfigChange(change, context);
+      applied++;
+    } catch (error) {
+      printError(
+        `${change.action} ${change.resource} ${describeChange(change)}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+      failed++;
+    }
+  }
+  return { applied, failed };
+};
+
+const ACTION_COLORS: Record<ConfigChange["action"], (s: string) => string> = {
+  create: pc.green,
+  update: pc.yellow,
+  delete: pc.red,
+};
+
+/**
+ * The values a change replaces and writes: the changed fields of an update,
+ * or the whole item that is created or deleted. Provider secrets are left
+ * out so they never reach the output.
+ */
+const changeValues = (
+  change: ConfigChange
+): { after: unknown; before: unknown } => {
+  const values = (item?: object): Record<string, unknown> | null => {
+    if (!item) {
+      return null;
+    }
+    const record = item as Record<string, unknown>;
+    if (change.action === "update") {
+      return Object.fromEntries(
+        change.fields.map((field) => [field, record[field] ?? null])
+      );
+    }
+    const { clientSecret: _clientSecret, ...rest } = record;
+    return rest;
+  };
+  return { before: values(change.current), after: values(change.desired) };
+};
+
+export const printConfigChanges = (
+  changes: ConfigChange[],
+  labels?: Record<ConfigChange["action"], string>
+): void => {
+  const rows = changes.map((change) => ({
+    action: labels?.[change.action] ?? change.action,
+    resource: change.resource,
+    name: describeChange(change),
+    fields: change.fields.join(", "),
+  }));
+  if (program.opts().json) {
+    printJson(
+      rows.map((row, index) => ({ ...row, ...changeValues(changes[index]) }))
+    );
+    return;
+  }
+  if (rows.length === 0) {
+    process.stderr.write(`\n  ${pc.dim("No changes.")}\n\n`);
+    return;
+  }
+  printTable(
+    rows.map((row, index) => ({
+      ...row,
+      action: ACTION_COLORS[changes[index].action](row.action),
+    }))
+  );
+};
@@ -0,0 +1,482 @@
+import { once } from "node:events";
+import { createReadStream, createWriteStream } from "node:fs";
+import { rm } from "node:fs/promises";
+import { resolve } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { createGunzip, createGzip } from "node:zlib";
+import { fetchAppConfig } from "./app-config.js";
+import { type BulkProgress, runBulk } from "./bulk.js";
+import { graphqlRequest } from "./graphql-client.js";
+import {
+  type SignupInput,
+  signupPasswordless,
+  signupWithGeneratedPassword,
+} from "./member-signup.js";
+import { fetchMemberPages, fetchRecordPages } from "./pagination.js";
+import {
+  getFieldTypes,
+  orderTablesByReferences,
+  remapRecordData,
+} from "./references.js";
+import type {
+  AppConfig,
+  AppSettings,
+  BackupEntry,
+  BackupHeader,
+  FieldType,
+  Member,
+  RestorePasswordMode,
+} from "./types.js";
+import { compact } from "./utils.js";
+
+export const BACKUP_VERSION = 1;
+
+/** Members or records handed to runBulk at a time during a restore. */
+const RESTORE_BATCH_SIZE = 500;
+
+/** The app settings that `apps update` can write back. */
+export const APP_SETTINGS_FIELDS: (keyof AppSettings)[] = [
+  "captchaEnabled",
+  "preventDisposableEmails",
+  "requireUser2FA",
+  "disableConcurrentLogins",
+  "memberSessionDurationDays",
+  "allowMemberSelfDelete",
+];
+
+type MemberEntry = Extract<BackupEntry, { type: "member" }>;
+type RecordEntry = Extract<BackupEntry, { type: "record" }>;
+
+export interface BackupCounts {
+  members: number;
+  records: Record<string, number>;
+}
+
+export interface BackupContents {
+  config: AppConfig;
+  counts: BackupCounts;
+  header: BackupHeader;
+  settings?: AppSettings;
+}
+
+export interface RestoreTarget {
+  planIds: Map<string, string>;
+  tableIds: Map<string, string>;
+}
+
+export interface RestoreDataOptions {
+  concurrency: number;
+  onProgress?: (label: string, progress: BulkProgress) => void;
+  passwordMode: RestorePasswordMode;
+}
+
+export interface RestoreResult {
+  members: BulkProgress;
+  records: BulkProgress;
+  references: BulkProgress;
+  /** Member and record IDs that pointed at something not in the target. */
+  unresolved: number;
+}
+
+export const defaultBackupPath = (appId: string, date = new Date()): string =>
+  `memberstack-backup-${appId}-${date.toISOString().replace(/[:.]/g, "-")}.jsonl.gz`;
+
+const fetchAppSettings = async (): Promise<AppSettings> => {
+  const result = await graphqlRequest<{ currentApp: AppSettings }>({
+    query: `query { currentApp { ${APP_SETTINGS_FIELDS.join(" ")} } }`,
+  });
+  return result.currentApp;
+};
+
+interface BackupWriter {
+  close: () => Promise<void>;
+  write: (entry: BackupEntry) => Promise<void>;
+}
+
+const createBackupWriter = (filePath: string): BackupWriter => {
+  const gzip = createGzip();
+  const done = pipeline(gzip, createWriteStream(filePath));
+  // Surfaced by close(); write() fails through the destroyed gzip stream
+  done.catch(() => undefined);
+
+  return {
+    write: async (entry) => {
+      if (!gzip.write(`${JSON.stringify(entry)}\n`)) {
+        await once(gzip, "drain");
+      }
+    },
+    close: async () => {
+      gzip.end();
+      await done;
+    },
+  };
+};
+
+const parseEntry = (line: string, lineNumber: number): BackupEntry => {
+  try {
+    return JSON.parse(line) as BackupEntry;
+  } catch {
+    throw new Error(
+      `Invalid backup archive: line ${lineNumber} is not valid JSON`
+    );
+  }
+};
+
+/** Yields the entries of a backup archive one line at a time. */
+export async function* readBackupEntries(
+  filePath: string
+): AsyncGenerator<BackupEntry> {
+  const source = createReadStream(filePath);
+  const gunzip = createGunzip();
+  source.on("error", (error) => gunzip.destroy(error));
+  source.pipe(gunzip).setEncoding("utf-8");
+
+  let buffer = "";
+  let lineNumber = 0;
+  try {
+    for await (const chunk of gunzip) {
+      const lines = `${buffer}${chunk as string}`.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        lineNumber++;
+        if (line.trim()) {
+          yield parseEntry(line, lineNumber);
+        }
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "Z_DATA_ERROR") {
+      throw new Error(
+        `Invalid backup archive: ${filePath} is not gzip-compressed`
+      );
+    }
+    throw error;
+  } finally {
+    source.destroy();
+  }
+  if (buffer.trim()) {
+    yield parseEntry(buffer, lineNumber + 1);
+  }
+}
+
+/**
+ * Writes app settings, the app config (plans, prices, permissions, custom
+ * fields, tables, providers and SSO apps, without secrets), every member and
+ * every record to a gzip-compressed JSONL archive. Records are written
+ * table by table in reference order so a restore can stream them back.
+ */
+export const writeBackup = async (
+  output: string | undefined,
+  onProgress: (text: string) => void = () => undefined
+): Promise<{ counts: BackupCounts; filePath: string }> => {
+  const config = await fetchAppConfig();
+  const settings = await fetchAppSettings();
+  const filePath = resolve(output ?? defaultBackupPath(config.app.id));
+  const counts: BackupCounts = { members: 0, records: {} };
+  const writer = createBackupWriter(filePath);
+
+  try {
+    await writer.write({
+      type: "header",
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      app: config.app,
+    });
+    await writer.write({ type: "settings", data: settings });
+    await writer.write({ type: "config", data: config });
+
+    for await (const page of fetchMemberPages()) {
+      for (const member of page) {
+        await writer.write({ type: "member", data: member });
+      }
+      counts.members += page.length;
+      onProgress(`Backing up members (${counts.members})...`);
+    }
+
+    for (const table of orderTablesByReferences(config.tables)) {
+      counts.records[table.key] = 0;
+      for await (const page of fetchRecordPages(table.id as string)) {
+        for (const record of page) {
+          await writer.write({
+            type: "record",
+            table: table.key,
+            data: record,
+          });
+        }
+        counts.records[table.key] += page.length;
+        onProgress(
+          `Backing up ${table.key} records (${counts.records[table.key]})...`
+        );
+      }
+    }
+
+    await writer.close();
+  } catch (error) {
+    await writer.close().catch(() => undefined);
+    await rm(filePath, { force: true });
+    throw error;
+  }
+  return { counts, filePath };
+};
+
+/**
+ * Reads a whole archive to check it and count what a restore would create,
+ * without keeping members or records in memory.
+ */
+export const readBackup = async (filePath: string): Promise<BackupContents> => {
+  let header: BackupHeader | undefined;
+  let config: AppConfig | undefined;
+  let settings: AppSettings | undefined;
+  const counts: BackupCounts = { members: 0, records: {} };
+
+  for await (const entry of readBackupEntries(filePath)) {
+    if (!header) {
+      if (entry.type !== "header") {
+        throw new Error(`Invalid backup archive: ${filePath} has no header`);
+      }
+      if (entry.version !== BACKUP_VERSION) {
+        throw new Error(
+          `Unsupported backup version: ${String(entry.version)}. Expected ${BACKUP_VERSION}.`
+        );
+      }
+      header = entry;
+    } else if (entry.type === "config") {
+      config = entry.data;
+    } else if (entry.type === "settings") {
+      settings = entry.data;
+    } else if (entry.type === "member") {
+      counts.members++;
+    } else if (entry.type === "record") {
+      counts.records[entry.table] = (counts.records[entry.table] ?? 0) + 1;
+    }
+  }
+
+  if (!(header && config)) {
+    throw new Error(`Invalid backup archive: ${filePath} has no app config`);
+  }
+  return { config, counts, header, settings };
+};
+
+const hasKeys = (value: Record<string, unknown> | undefined): boolean =>
+  Object.keys(value ?? {}).length > 0;
+
+export const restoreAppSettings = async (
+  settings: AppSettings
+): Promise<void> => {
+  // Settings the source app never set come back as null; leave them alone
+  const input = Object.fromEntries(
+    Object.entries(settings).filter(([, v]) => v !== null && v !== undefined)
+  );
+  if (!hasKeys(input)) {
+    return;
+  }
+  await graphqlRequest<{ updateApp: { id: string } }>({
+    query:
+      "mutation($input: UpdateAppInput!) { updateApp(input: $input) { id } }",
+    variables: { input },
+  });
+};
+
+/**
+ * Signs a member up again. Passwords are never part of a backup, so members
+ * either sign in passwordless or get a reset email for a generated password.
+ * Only free plans are reconnected; paid plans belong to billing.
+ */
+const restoreMember = async (
+  member: Member,
+  planIds: Map<string, string>,
+  passwordMode: RestorePasswordMode
+): Promise<string> => {
+  const plans = member.planConnections
+    .filter((conn) => conn.type === "FREE")
+    .flatMap((conn) => planIds.get(conn.plan.name) ?? [])
+    .map((planId) => ({ planId }));
+  const input: SignupInput = {
+    email: member.auth.email,
+    ...compact({
+      customFields: hasKeys(member.customFields)
+        ? member.customFields
+        : undefined,
+      metaData: hasKeys(member.metaData) ? member.metaData : undefined,
+      loginRedirect: member.loginRedirect ?? undefined,
+      plans: plans.length > 0 ? plans : undefined,
+    }),
+  };
+
+  const signup =
+    passwordMode === "generate"
+      ? signupWithGeneratedPassword
+      : signupPasswordless;
+  const id = await signup(input);
+
+  if (hasKeys(member.json)) {
+    await graphqlRequest<{ updateMember: { id: string } }>({
+      query:
+        "mutation($input: UpdateMemberInput!) { updateMember(input: $input) { id } }",
+      variables: { input: { memberId: id, json: member.json } },
+    });
+  }
+  return id;
+};
+
+const emptyProgress = (): BulkProgress => ({
+  completed: 0,
+  failed: 0,
+  skipped: 0,
+  succeeded: 0,
+  total: 0,
+});
+
+const sumProgress = (
+  base: BulkProgress,
+  progress: BulkProgress
+): BulkProgress => ({
+  completed: base.completed + progress.completed,
+  failed: base.failed + progress.failed,
+  skipped: base.skipped + progress.skipped,
+  succeeded: base.succeeded + progress.succeeded,
+  total: base.total + progress.total,
+});
+
+const entryBatchKey = (entry: MemberEntry | RecordEntry): string =>
+  entry.type === "member" ? "member" : `record:${entry.table}`;
+
+/**
+ * Streams members and records from an archive into the target app. Members
+ * go first so member references can be rewritten; records follow table by
+ * table in the order they were backed up, and record references that could
+ * not be resolved on create are written with an update at the end.
+ */
+export const restoreBackupData = async (
+  filePath: string,
+  config: AppConfig,
+  target: RestoreTarget,
+  { concurrency, onProgress, passwordMode }: RestoreDataOptions
+): Promise<RestoreResult> => {
+  const ids = {
+    members: new Map<string, string>(),
+    records: new Map<string, string>(),
+  };
+  const fieldTypes = new Map(
+    config.tables.map((table) => [table.key, getFieldTypes(table)])
+  );
+  const deferred: {
+    data: Record<string, unknown>;
+    id: string;
+    table: string;
+  }[] = [];
+  const result: RestoreResult = {
+    members: emptyProgress(),
+    records: emptyProgress(),
+    references: emptyProgress(),
+    unresolved: 0,
+  };
+
+  const restoreMembers = async (batch: MemberEntry[]) => {
+    const base = { ...result.members };
+    const outcome = await runBulk(
+      batch,
+      async ({ data: member }) => {
+        const id = await restoreMember(member, target.planIds, passwordMode);
+        ids.members.set(member.id, id);
+        return id;
+      },
+      {
+        concurrency,
+        label: ({ data: member }) => member.auth.email,
+        onProgress: (progress) =>
+          onProgress?.("Restoring members", sumProgress(base, progress)),
+      }
+    );
+    result.members = sumProgress(result.members, outcome);
+  };
+
+  const restoreRecords = async (batch: RecordEntry[]) => {
+    const table = batch[0].table;
+    const tableId = target.tableIds.get(table);
+    const types = fieldTypes.get(table) ?? new Map<string, FieldType>();
+    const base = { ...result.records };
+    const outcome = await runBulk(
+      batch,
+      async ({ data: record }) => {
+        if (!tableId) {
+          throw new Error(`Unknown table "${table}"`);
+        }
+        const remapped = remapRecordData(record.data, types, ids, false);
+        const created = await graphqlRequest<{
+          createDataRecord: { id: string };
+        }>({
+          query:
+            "mutation($input: CreateDataRecordInput!) { createDataRecord(input: $input) { id } }",
+          variables: { input: { tableId, data: remapped.data } },
+        });
+        const id = created.createDataRecord.id;
+        ids.records.set(record.id, id);
+        result.unresolved += remapped.missing;
+        if (hasKeys(remapped.deferred)) {
+          deferred.push({ id, table, data: remapped.deferred });
+        }
+        return id;
+      },
+      {
+        concurrency,
+        label: ({ data: record }) => `${table} ${record.id}`,
+        onProgress: (progress) =>
+          onProgress?.(
+            `Restoring ${table} records`,
+            sumProgress(base, progress)
+          ),
+      }
+    );
+    result.records = sumProgress(result.records, outcome);
+  };
+
+  let batch: (MemberEntry | RecordEntry)[] = [];
+  const flush = async () => {
+    if (batch[0]?.type === "member") {
+      await restoreMembers(batch as MemberEntry[]);
+    } else if (batch[0]?.type === "record") {
+      await restoreRecords(batch as RecordEntry[]);
+    }
+    batch = [];
+  };
+
+  for await (const entry of readBackupEntries(filePath)) {
+    if (entry.type !== "member" && entry.type !== "record") {
+      continue;
+    }
+    if (
+      batch.length >= RESTORE_BATCH_SIZE ||
+      (batch.length > 0 && entryBatchKey(batch[0]) !== entryBatchKey(entry))
+    ) {
+      await flush();
+    }
+    batch.push(entry);
+  }
+  await flush();
+
+  if (deferred.length > 0) {
+    const outcome = await runBulk(
+      deferred,
+      async ({ data, id, table }) => {
+        const types = fieldTypes.get(table) ?? new Map<string, FieldType>();
+        const remapped = remapRecordData(data, types, ids, true);
+        result.unresolved += remapped.missing;
+        await graphqlRequest<{ updateDataRecord: { id: string } }>({
+          query:
+            "mutation($input: UpdateDataRecordInput!) { updateDataRecord(input: $input) { id } }",
+          variables: { input: { id, data: remapped.data } },
+        });
+        return id;
+      },
+      {
+        concurrency,
+        label: ({ id, table }) => `${table} ${id}`,
+        onProgress: (progress) => onProgress?.("Linking references", progress),
+      }
+    );
+    result.references = sumProgress(result.references, outcome);
+  }
+
+  return result;
+};
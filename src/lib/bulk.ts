@@ -0,0 +1,283 @@
+import { resolve } from "node:path";
+import { InvalidArgumentError } from "commander";
+import pc from "picocolors";
+import {
+  DEFAULT_CONCURRENCY,
+  EXIT_PARTIAL_FAILURE,
+  EXIT_TOTAL_FAILURE,
+  MAX_CONCURRENCY,
+} from "./constants.js";
+import {
+  ERROR_COLUMN,
+  getFileFormat,
+  ROW_COLUMN,
+  writeOutputFile,
+} from "./csv.js";
+import type { Journal, JournalEntry } from "./journal.js";
+import { createRateLimiter } from "./rate-limiter.js";
+import { printError, printSuccess } from "./utils.js";
+
+export interface BulkProgress {
+  completed: number;
+  failed: number;
+  skipped: number;
+  succeeded: number;
+  total: number;
+}
+
+export interface BulkFailure<T> {
+  error: string;
+  index: number;
+  item: T;
+}
+
+export interface BulkResult<T> extends BulkProgress {
+  failures: BulkFailure<T>[];
+}
+
+interface BulkRunOptions<T> {
+  concurrency?: number;
+  journal?: Journal;
+  label?: (item: T, index: number) => string;
+  onProgress?: (progress: BulkProgress) => void;
+  rateLimit?: boolean;
+  skip?: (item: T, index: number) => boolean;
+  /** Row count of a streamed input when known, for progress totals. */
+  total?: number;
+}
+
+interface PendingItem<T> {
+  index: number;
+  item: T;
+}
+
+export const parseConcurrency = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_CONCURRENCY) {
+    throw new InvalidArgumentError(
+      `Must be an integer between 1 and ${MAX_CONCURRENCY}.`
+    );
+  }
+  return parsed;
+};
+
+/**
+ * Runs a synchronous per-row preparation step and keeps its error instead of
+ * throwing, so every row can be checked before any mutation is sent.
+ */
+export const settle = <T>(prepare: () => T): T | Error => {
+  try {
+    return prepare();
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+};
+
+export const formatBulkProgress = (
+  label: string,
+  { completed, failed, total }: BulkProgress
+): string =>
+  `${label} ${completed}/${total}${failed > 0 ? ` (${failed} failed)` : ""}...`;
+
+export const printBulkSummary = (
+  message: string,
+  { failed, skipped }: BulkProgress,
+  { errorsOut, journal }: { errorsOut?: string; journal?: Journal } = {}
+): void => {
+  printSuccess(skipped > 0 ? `${message}, ${skipped} skipped` : message);
+  if (errorsOut) {
+    process.stderr.write(
+      `  ${pc.dim(`Failed rows (${failed}): ${resolve(errorsOut)}`)}\n`
+    );
+  }
+  if (journal) {
+    process.stderr.write(`  ${pc.dim(`Journal: ${journal.path}`)}\n`);
+  }
+};
+
+/**
+ * Exits 0 when every row succeeded, EXIT_PARTIAL_FAILURE when some rows
+ * failed and EXIT_TOTAL_FAILURE when none succeeded. Rows skipped by
+ * `--resume` count as successes.
+ */
+export const setBulkExitCode = ({
+  failed,
+  skipped,
+  succeeded,
+}: BulkProgress): void => {
+  if (failed === 0) {
+    return;
+  }
+  process.exitCode =
+    succeeded + skipped > 0 ? EXIT_PARTIAL_FAILURE : EXIT_TOTAL_FAILURE;
+};
+
+/**
+ * Writes failed rows in input order with added `_row` and `_error` columns,
+ * in the format of the report's own extension. Input readers drop those
+ * columns, so the file can be fixed up and fed back into the same command.
+ */
+export const writeBulkErrors = async <T>(
+  filePath: string,
+  failures: BulkFailure<T>[],
+  toRow: (item: T) => Record<string, unknown> = (item) =>
+    item as Record<string, unknown>
+): Promise<void> => {
+  const rows = [...failures]
+    .sort((a, b) => a.index - b.index)
+    .map(({ error, index, item }) => ({
+      ...toRow(item),
+      [ROW_COLUMN]: index + 1,
+      [ERROR_COLUMN]: error,
+    }));
+  await writeOutputFile(resolve(filePath), rows, getFileFormat(filePath));
+};
+
+const runItem = async <T>(
+  item: T,
+  index: number,
+  task: (item: T, index: number) => Promise<string | undefined>,
+  label: (item: T, index: number) => string
+): Promise<{ entry: JournalEntry; error?: string }> => {
+  try {
+    const id = await task(item, index);
+    return { entry: { id, row: index, status: "succeeded" } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    printError(`${label(item, index)}: ${message}`);
+    return {
+      entry: { error: message, row: index, status: "failed" },
+      error: message,
+    };
+  }
+};
+
+/**
+ * Numbers the rows of a streamed input as they are read and leaves out those
+ * matched by `skip`, keeping the skipped count and the total in `progress`.
+ */
+async function* streamPending<T>(
+  items: AsyncIterable<T>,
+  progress: BulkProgress,
+  total: number,
+  skip?: (item: T, index: number) => boolean
+): AsyncGenerator<PendingItem<T>> {
+  let index = 0;
+  for await (const item of items) {
+    const current = index++;
+    const skipped = skip?.(item, current) ?? false;
+    if (skipped) {
+      progress.skipped++;
+    }
+    progress.total = Math.max(total, index) - progress.skipped;
+    if (!skipped) {
+      yield { index: current, item };
+    }
+  }
+}
+
+/**
+ * Runs `task` for every item with up to `concurrency` in flight, pacing
+ * request starts with an adaptive rate limiter unless `rateLimit` is false.
+ * A task resolves with the ID of the member or record it touched, or throws
+ * to fail the row; the error is printed with the row's `label` and recorded
+ * in the journal alongside successes. Items matched by `skip` (rows finished
+ * in a resumed run) are not processed and do not count towards the total.
+ *
+ * `items` may be an async iterable such as `streamInputRows()`: rows are then
+ * read only as workers free up, so an import holds the rows in flight rather
+ * than the whole file. Pass `total` if the row count is known; otherwise the
+ * total grows as rows are read.
+ *
+ * If the journal cannot be written or the input cannot be read, no new rows
+ * are started and the run rejects once the rows in flight finish: continuing
+ * would leave `--resume` unable to tell which rows already succeeded.
+ */
+export const runBulk = async <T>(
+  items: T[] | AsyncIterable<T>,
+  task: (item: T, index: number) => Promise<string | undefined>,
+  {
+    concurrency = DEFAULT_CONCURRENCY,
+    journal,
+    label = (_item, index) => `Row ${index + 1}`,
+    onProgress,
+    rateLimit = true,
+    skip,
+    total = 0,
+  }: BulkRunOptions<T> = {}
+): Promise<BulkResult<T>> => {
+  const progress: BulkProgress = {
+    completed: 0,
+    failed: 0,
+    skipped: 0,
+    succeeded: 0,
+    total,
+  };
+  let source: Iterator<PendingItem<T>> | AsyncIterator<PendingItem<T>>;
+  let workers = concurrency;
+  if (Array.isArray(items)) {
+    const pending = items
+      .map((item, index) => ({ index, item }))
+      .filter(({ index, item }) => !skip?.(item, index));
+    progress.skipped = items.length - pending.length;
+    progress.total = pending.length;
+    source = pending.values();
+    workers = Math.max(1, Math.min(concurrency, pending.length));
+  } else {
+    source = streamPending(items, progress, total, skip);
+  }
+  const failures: BulkFailure<T>[] = [];
+  const limiter = createRateLimiter(concurrency);
+  let stopError: Error | undefined;
+  const stop = (error: unknown) => {
+    stopError ??= error instanceof Error ? error : new Error(String(error));
+  };
+
+  const worker = async (): Promise<void> => {
+    while (!stopError) {
+      let next: IteratorResult<PendingItem<T>>;
+      try {
+        next = await source.next();
+      } catch (readError) {
+        stop(readError);
+        return;
+      }
+      if (next.done || stopError) {
+        return;
+      }
+      const { index, item } = next.value;
+      if (rateLimit) {
+        await limiter.acquire();
+      }
+
+      const { entry, error } = await runItem(item, index, task, label);
+      if (error === undefined) {
+        progress.succeeded++;
+        limiter.recover();
+      } else {
+        progress.failed++;
+        failures.push({ error, index, item });
+      }
+      progress.completed++;
+      onProgress?.({ ...progress });
+      try {
+        await journal?.record(entry);
+      } catch (writeError) {
+        stop(writeError);
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: workers }, worker));
+  } finally {
+    limiter.dispose();
+    await journal?.close();
+  }
+  if (stopError) {
+    throw new Error(
+      `${stopError.message}. Stopped after ${progress.completed} of ${progress.total} row(s) (${progress.succeeded} succeeded, ${progress.failed} failed)`
+    );
+  }
+  return { ...progress, failures };
+};
@@ -0,0 +1,326 @@
+import type { JsonSchema, JsonSchemaType } from "./json-schema.js";
+import type { AppConfig, FieldType, TableConfig } from "./types.js";
+
+type Field = TableConfig["fields"][number];
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const WORD_SEPARATOR = /[^A-Za-z0-9]+/;
+const LEADING_DIGIT = /^\d/;
+
+const SCALAR_TYPES: Partial<Record<FieldType, string>> = {
+  TEXT: "string",
+  TEXT_UNIQUE: "string",
+  EMAIL: "string",
+  URL: "string",
+  DATE: "string",
+  NUMBER: "number",
+  DECIMAL: "number",
+  BOOLEAN: "boolean",
+};
+
+/** Quotes object keys that are not valid identifiers. */
+export const propertyName = (key: string): string =>
+  IDENTIFIER.test(key) ? key : JSON.stringify(key);
+
+/** Turns a table key such as `blog_posts` into `BlogPosts`. */
+export const toTypeName = (key: string): string => {
+  const name = key
+    .split(WORD_SEPARATOR)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  if (name === "") {
+    return "Table";
+  }
+  return LEADING_DIGIT.test(name) ? `Table${name}` : name;
+};
+
+/**
+ * Gives every table a distinct type name; keys that collapse to the same
+ * name (`blog-posts` and `blog_posts`) get a numeric suffix.
+ */
+export const tableTypeNames = (tables: TableConfig[]): Map<string, string> => {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  for (const table of tables) {
+    const base = toTypeName(table.key);
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    used.add(name);
+    names.set(table.key, name);
+  }
+  return names;
+};
+
+const docComment = (lines: string[], indent = ""): string[] => {
+  const text = lines.map((line) => line.replaceAll("*/", "*\\/"));
+  if (text.length === 1) {
+    return [`${indent}/** ${text[0]} */`];
+  }
+  return [
+    `${indent}/**`,
+    ...text.map((line) => `${indent} * ${line}`),
+    `${indent} */`,
+  ];
+};
+
+const literalUnion = (values: string[]): string =>
+  values.length === 0
+    ? "never"
+    : values.map((value) => JSON.stringify(value)).join(" | ");
+
+/**
+ * Emits a name-to-ID map (`interface Plans { "Pro": "pln_1" }`) and a union
+ * of every ID. Only the first of several items with the same name is mapped.
+ */
+const idUnion = (
+  mapName: string,
+  idName: string,
+  label: string,
+  items: { id?: string; name: string }[]
+): string[] => {
+  const withIds = items.filter((item) => item.id);
+  const byName = new Map<string, string>();
+  for (const item of withIds) {
+    if (!byName.has(item.name)) {
+      byName.set(item.name, item.id as string);
+    }
+  }
+  return [
+    ...docComment([`${label} IDs by name.`]),
+    `export interface ${mapName} {`,
+    ...[...byName].map(
+      ([name, id]) => `  ${JSON.stringify(name)}: ${JSON.stringify(id)};`
+    ),
+    "}",
+    "",
+    `export type ${idName} = ${literalUnion(withIds.map((item) => item.id as string))};`,
+    "",
+  ];
+};
+
+const fieldType = (field: Field, names: Map<string, string>): string => {
+  const scalar = SCALAR_TYPES[field.type];
+  if (scalar) {
+    return scalar;
+  }
+  const isMany = field.type.endsWith("_MANY");
+  const tableName = names.get(field.referencedTable ?? "");
+  let referenced = tableName ? `${tableName}RecordId` : "string";
+  if (field.type.startsWith("MEMBER_")) {
+    referenced = "MemberId";
+  }
+  return isMany ? `${referenced}[]` : referenced;
+};
+
+const fieldDoc = (field: Field): string[] => {
+  const lines = [field.name];
+  if (field.defaultValue !== null && field.defaultValue !== undefined) {
+    lines.push(`@default ${JSON.stringify(field.defaultValue)}`);
+  }
+  return lines;
+};
+
+const tableTypes = (table: TableConfig, names: Map<string, string>) => {
+  const name = names.get(table.key) as string;
+  return [
+    ...docComment([
+      `ID of a record in the ${table.key} table (branded; cast API strings).`,
+    ]),
+    `export type ${name}RecordId = string & { readonly __table: ${JSON.stringify(table.key)} };`,
+    "",
+    ...docComment([`Record data for ${table.name} (${table.key}).`]),
+    `export interface ${name}Data {`,
+    ...table.fields.flatMap((field) => [
+      ...docComment(fieldDoc(field), "  "),
+      field.required
+        ? `  ${propertyName(field.key)}: ${fieldType(field, names)};`
+        : `  ${propertyName(field.key)}?: ${fieldType(field, names)} | null;`,
+    ]),
+    "}",
+    "",
+    `export interface ${name}Record {`,
+    "  createdAt: string;",
+    `  data: ${name}Data;`,
+    `  id: ${name}RecordId;`,
+    "  updatedAt: string;",
+    "}",
+    "",
+  ];
+};
+
+/**
+ * Generates a `.d.ts` module for an app: plan and permission ID unions,
+ * member custom fields, and record types for every data table. REFERENCE
+ * fields use the referenced table's branded ID type, so a link to the wrong
+ * table does not type-check.
+ */
+export const generateTypes = (config: AppConfig): string => {
+  const names = tableTypeNames(config.tables);
+  const lines = [
+    `// Generated by \`memberstack codegen types\` from ${config.app.name} (${config.app.id}).`,
+    "// Do not edit; run the command again after changing plans, fields or tables.",
+    "",
+    ...idUnion("Plans", "PlanId", "Plan", config.plans),
+    ...idUnion("Permissions", "PermissionId", "Permission", config.permissions),
+    "export type MemberId = string;",
+    "",
+    "export interface MemberCustomFields {",
+    ...config.customFields.flatMap((field) => [
+      ...docComment([field.label], "  "),
+      `  ${propertyName(field.key)}?: string;`,
+    ]),
+    "}",
+    "",
+    ...config.tables.flatMap((table) => tableTypes(table, names)),
+    ...docComment(["Record data types by table key."]),
+    "export interface Tables {",
+    ...config.tables.map(
+      (table) =>
+        `  ${propertyName(table.key)}: ${names.get(table.key) as string}Data;`
+    ),
+    "}",
+  ];
+  return `${lines.join("\n")}\n`;
+};
+
+const JSON_SCHEMA_TYPES: Record<
+  FieldType,
+  Pick<JsonSchema, "format"> & { type: JsonSchemaType }
+> = {
+  TEXT: { type: "string" },
+  TEXT_UNIQUE: { type: "string" },
+  EMAIL: { type: "string", format: "email" },
+  URL: { type: "string", format: "uri" },
+  DATE: { type: "string", format: "date-time" },
+  NUMBER: { type: "integer" },
+  DECIMAL: { type: "number" },
+  BOOLEAN: { type: "boolean" },
+  REFERENCE: { type: "string" },
+  REFERENCE_MANY: { type: "string" },
+  MEMBER_REFERENCE: { type: "string" },
+  MEMBER_REFERENCE_MANY: { type: "string" },
+};
+
+const referenceDescription = (field: Field): string | undefined => {
+  if (field.type.startsWith("MEMBER_")) {
+    return "Member ID";
+  }
+  return field.referencedTable
+    ? `Record ID in the ${field.referencedTable} table`
+    : undefined;
+};
+
+const fieldJsonSchema = (field: Field): JsonSchema => {
+  const { type, format } = JSON_SCHEMA_TYPES[field.type];
+  const isMany = field.type.endsWith("_MANY");
+  const valueType: JsonSchemaType = isMany ? "array" : type;
+  const schema: JsonSchema = {
+    title: field.name,
+    description: referenceDescription(field),
+    type: field.required ? valueType : [valueType, "null"],
+    format: isMany ? undefined : format,
+    items: isMany ? { type } : undefined,
+    default: field.defaultValue ?? undefined,
+  };
+  return Object.fromEntries(
+    Object.entries(schema).filter(([, value]) => value !== undefined)
+  ) as JsonSchema;
+};
+
+/** The JSON Schema for one table's record data. Unknown fields are rejected. */
+export const tableJsonSchema = (table: TableConfig): JsonSchema => ({
+  title: table.name,
+  type: "object",
+  properties: Object.fromEntries(
+    table.fields.map((field) => [field.key, fieldJsonSchema(field)])
+  ),
+  required: table.fields
+    .filter((field) => field.required)
+    .map((field) => field.key),
+  additionalProperties: false,
+});
+
+/**
+ * Generates one JSON Schema document with each table's record data schema
+ * under `$defs`, keyed by table key. `records import --validate-only
+ * --schema` reads the same file.
+ */
+export const generateJsonSchema = (config: AppConfig): string => {
+  const document: JsonSchema = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    $comment: `Generated by \`memberstack codegen json-schema\` from ${config.app.name} (${config.app.id}). Do not edit.`,
+    title: `${config.app.name} data tables`,
+    $defs: Object.fromEntries(
+      config.tables.map((table) => [table.key, tableJsonSchema(table)])
+    ),
+  };
+  return `${JSON.stringify(document, null, 2)}\n`;
+};
+
+const ZOD_TYPES: Record<FieldType, string> = {
+  TEXT: "z.string()",
+  TEXT_UNIQUE: "z.string()",
+  EMAIL: "z.string().email()",
+  URL: "z.string().url()",
+  DATE: "z.string().datetime()",
+  NUMBER: "z.number().int()",
+  DECIMAL: "z.number()",
+  BOOLEAN: "z.boolean()",
+  REFERENCE: "z.string()",
+  REFERENCE_MANY: "z.array(z.string())",
+  MEMBER_REFERENCE: "z.string()",
+  MEMBER_REFERENCE_MANY: "z.array(z.string())",
+};
+
+const zodField = (field: Field): string => {
+  let schema = ZOD_TYPES[field.type];
+  if (!field.required) {
+    schema += ".nullish()";
+  }
+  if (field.defaultValue !== null && field.defaultValue !== undefined) {
+    schema += `.default(${JSON.stringify(field.defaultValue)})`;
+  }
+  return schema;
+};
+
+/**
+ * Generates a TypeScript module with a Zod object schema per table
+ * (`<Name>DataSchema`), its inferred type, and a `tableSchemas` map by key.
+ */
+export const generateZod = (config: AppConfig): string => {
+  const names = tableTypeNames(config.tables);
+  const lines = [
+    `// Generated by \`memberstack codegen zod\` from ${config.app.name} (${config.app.id}).`,
+    "// Do not edit; run the command again after changing tables.",
+    "",
+    'import { z } from "zod";',
+    "",
+    ...config.tables.flatMap((table) => {
+      const name = names.get(table.key) as string;
+      return [
+        ...docComment([`Record data for ${table.name} (${table.key}).`]),
+        `export const ${name}DataSchema = z`,
+        "  .object({",
+        ...table.fields.map(
+          (field) => `    ${propertyName(field.key)}: ${zodField(field)},`
+        ),
+        "  })",
+        "  .strict();",
+        "",
+        `export type ${name}Data = z.infer<typeof ${name}DataSchema>;`,
+        "",
+      ];
+    }),
+    ...docComment(["Record data schemas by table key."]),
+    "export const tableSchemas = {",
+    ...config.tables.map(
+      (table) =>
+        `  ${propertyName(table.key)}: ${names.get(table.key) as string}DataSchema,`
+    ),
+    "};",
+  ];
+  return `${lines.join("\n")}\n`;
+};
@@ -0,0 +1,180 @@
+import type { FieldType, TableField } from "./types.js";
+
+export type FieldSchema = Pick<TableField, "key" | "type"> &
+  Partial<Pick<TableField, "required">>;
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0"]);
+const LIST_TYPES = new Set<FieldType>([
+  "REFERENCE_MANY",
+  "MEMBER_REFERENCE_MANY",
+]);
+
+const parseList = (value: string): string[] => {
+  if (value.startsWith("[")) {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) {
+      throw new Error("expected a list");
+    }
+    return parsed.map(String);
+  }
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+};
+
+const parseText = (value: string, type: FieldType): unknown => {
+  const trimmed = value.trim();
+  switch (type) {
+    case "NUMBER": {
+      const parsed = Number(trimmed);
+      if (trimmed === "" || !Number.isInteger(parsed)) {
+        throw new Error(`expected an integer, got "${value}"`);
+      }
+      return parsed;
+    }
+    case "DECIMAL": {
+      const parsed = Number(trimmed);
+      if (trimmed === "" || !Number.isFinite(parsed)) {
+        throw new Error(`expected a number, got "${value}"`);
+      }
+      return parsed;
+    }
+    case "BOOLEAN": {
+      const lower = trimmed.toLowerCase();
+      if (TRUE_VALUES.has(lower)) {
+        return true;
+      }
+      if (FALSE_VALUES.has(lower)) {
+        return false;
+      }
+      throw new Error(`expected true or false, got "${value}"`);
+    }
+    case "DATE": {
+      const date = new Date(trimmed);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`expected a date, got "${value}"`);
+      }
+      return date.toISOString();
+    }
+    default:
+      if (LIST_TYPES.has(type)) {
+        try {
+          return parseList(trimmed);
+        } catch {
+          throw new Error(`expected a list of IDs, got "${value}"`);
+        }
+      }
+      return value;
+  }
+};
+
+const EXPECTED: Partial<Record<FieldType, string>> = {
+  NUMBER: "an integer",
+  DECIMAL: "a number",
+  BOOLEAN: "true or false",
+  DATE: "a date",
+  REFERENCE_MANY: "a list of IDs",
+  MEMBER_REFERENCE_MANY: "a list of IDs",
+};
+
+// JSON values accepted as-is for typed fields; dates must be strings
+const TYPE_CHECKS: Partial<Record<FieldType, (value: unknown) => boolean>> = {
+  NUMBER: Number.isInteger,
+  DECIMAL: (value) => typeof value === "number" && Number.isFinite(value),
+  BOOLEAN: (value) => typeof value === "boolean",
+  DATE: () => false,
+};
+
+const isScalar = (value: unknown): value is boolean | number | string =>
+  typeof value === "string" ||
+  typeof value === "number" ||
+  typeof value === "boolean";
+
+/**
+ * Checks a JSON value that is not a string. Values that already have the
+ * field's type pass through; text fields also take numbers and booleans.
+ */
+const checkTyped = (value: unknown, type: FieldType): unknown => {
+  const check = TYPE_CHECKS[type];
+  if (LIST_TYPES.has(type)) {
+    if (Array.isArray(value) && value.every(isScalar)) {
+      return value.map(String);
+    }
+  } else if (check) {
+    if (check(value)) {
+      return value;
+    }
+  } else if (isScalar(value)) {
+    return String(value);
+  }
+  throw new Error(
+    `expected ${EXPECTED[type] ?? "text"}, got ${JSON.stringify(value)}`
+  );
+};
+
+/**
+ * Converts one input value to the JSON type the API expects for a field.
+ * CSV cells (and JSON strings) are parsed; other JSON values are checked and
+ * kept, and null clears the field. Throws a short reason (without the column
+ * name) when the value does not fit.
+ */
+export const coerceValue = (value: unknown, type: FieldType): unknown => {
+  if (value === null) {
+    return null;
+  }
+  return typeof value === "string"
+    ? parseText(value, type)
+    : checkTyped(value, type);
+};
+
+export interface CoercionIssue {
+  column: string;
+  message: string;
+}
+
+/**
+ * Coerces every column of a record against the table's fields, collecting a
+ * reason for each column that does not fit. Columns that are not fields of
+ * the table are reported too, since the API would drop or refuse them.
+ */
+export const coerceRecordFields = (
+  data: Record<string, unknown>,
+  fields: FieldSchema[]
+): { data: Record<string, unknown>; issues: CoercionIssue[] } => {
+  const types = new Map(fields.map((field) => [field.key, field.type]));
+  const result: Record<string, unknown> = {};
+  const issues: CoercionIssue[] = [];
+
+  for (const [column, value] of Object.entries(data)) {
+    const type = types.get(column);
+    if (!type) {
+      issues.push({ column, message: "not a field of this table" });
+      continue;
+    }
+    try {
+      result[column] = coerceValue(value, type);
+    } catch (error) {
+      issues.push({
+        column,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return { data: result, issues };
+};
+
+/** Like coerceRecordFields, but throws one error listing every bad column. */
+export const coerceRecordData = (
+  data: Record<string, unknown>,
+  fields: FieldSchema[]
+): Record<string, unknown> => {
+  const { data: result, issues } = coerceRecordFields(data, fields);
+  if (issues.length > 0) {
+    throw new Error(
+      issues.map(({ column, message }) => `"${column}": ${message}`).join("; ")
+    );
+  }
+  return result;
+};
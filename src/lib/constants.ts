@@ -1,4 +1,13 @@
 export const RATE_LIMIT_DELAY_MS = 100;
+export const RATE_LIMIT_MAX_DELAY_MS = 5000;
+export const DEFAULT_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 50;
+export const EXIT_TOTAL_FAILURE = 1;
+export const EXIT_PARTIAL_FAILURE = 2;
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_TIMEOUT_SECONDS = 30;
+export const RETRY_BASE_DELAY_MS = 500;
+export const RETRY_MAX_DELAY_MS = 30_000;
 
 export const OAUTH_ISSUER = "https://mcp.memberstack.com";
 export const OAUTH_AUTHORIZATION_ENDPOINT =
@@ -12,4 +21,8 @@ export const OAUTH_CALLBACK_PATH = "/callback";
 export const OAUTH_RESOURCE = "https://mcp.memberstack.com/mcp";
 export const TOKEN_STORAGE_DIR = ".memberstack";
 export const TOKEN_STORAGE_FILE = "auth.json";
+export const ENCRYPTED_TOKEN_STORAGE_FILE = "auth.enc";
+export const CREDENTIAL_STORE_CONFIG_FILE = "storage.json";
+export const JOURNAL_DIR = "journals";
+export const KEYCHAIN_SERVICE = "memberstack-cli";
 export const GRAPHQL_BASE_URL = "https://v2-api.memberstack.com/graphql";
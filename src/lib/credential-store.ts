@@ -0,0 +1,355 @@
+import { spawn } from "node:child_process";
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import {
+  CREDENTIAL_STORE_CONFIG_FILE,
+  ENCRYPTED_TOKEN_STORAGE_FILE,
+  KEYCHAIN_SERVICE,
+  TOKEN_STORAGE_DIR,
+  TOKEN_STORAGE_FILE,
+} from "./constants.js";
+import { promptSecret } from "./utils.js";
+
+export type CredentialBackendName = "encrypted-file" | "file" | "keychain";
+
+export const CREDENTIAL_BACKENDS: CredentialBackendName[] = [
+  "keychain",
+  "encrypted-file",
+  "file",
+];
+
+interface CredentialBackend {
+  clear(): Promise<void>;
+  isAvailable(): Promise<boolean>;
+  read(): Promise<string | null>;
+  write(content: string): Promise<void>;
+}
+
+interface StoreConfig {
+  backend?: CredentialBackendName;
+}
+
+interface EncryptedPayload {
+  data: string;
+  iv: string;
+  salt: string;
+  tag: string;
+  version: number;
+}
+
+interface SecretToolResult {
+  code: number | null;
+  stderr: string;
+  stdout: string;
+}
+
+const BACKEND_ENV = "MEMBERSTACK_CREDENTIAL_STORE";
+const PASSPHRASE_ENV = "MEMBERSTACK_PASSPHRASE";
+const ENCRYPTION_VERSION = 1;
+const KEYCHAIN_ATTRIBUTES = ["service", KEYCHAIN_SERVICE, "account", "tokens"];
+
+let cachedPassphrase: string | undefined;
+// Resolved once per process: probing spawns secret-tool and reading the
+// encrypted file runs scrypt, so neither should happen per request
+let cachedBackend: Promise<CredentialBackendName> | undefined;
+let cachedContent: Promise<string | null> | undefined;
+
+const getStorageDir = (): string => join(homedir(), TOKEN_STORAGE_DIR);
+
+const getStoragePath = (file: string): string => join(getStorageDir(), file);
+
+const writePrivateFile = async (file: string, content: string) => {
+  await mkdir(getStorageDir(), { recursive: true, mode: 0o700 });
+  await writeFile(getStoragePath(file), content, { mode: 0o600 });
+};
+
+const readOptionalFile = async (file: string): Promise<string | null> => {
+  try {
+    return await readFile(getStoragePath(file), "utf-8");
+  } catch {
+    return null;
+  }
+};
+
+const removeFile = async (file: string): Promise<void> => {
+  try {
+    await rm(getStoragePath(file));
+  } catch {
+    // File may not exist, that's fine
+  }
+};
+
+const fileBackend: CredentialBackend = {
+  clear: () => removeFile(TOKEN_STORAGE_FILE),
+  isAvailable: () => Promise.resolve(true),
+  read: () => readOptionalFile(TOKEN_STORAGE_FILE),
+  write: (content) => writePrivateFile(TOKEN_STORAGE_FILE, content),
+};
+
+const getPassphrase = async (isNew: boolean): Promise<string> => {
+  const fromEnv = process.env[PASSPHRASE_ENV];
+  if (fromEnv) {
+    return fromEnv;
+  }
+  if (cachedPassphrase) {
+    return cachedPassphrase;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      `Set ${PASSPHRASE_ENV} to unlock encrypted credentials in a non-interactive session.`
+    );
+  }
+
+  const passphrase = await promptSecret("Credential passphrase: ");
+  if (!passphrase) {
+    throw new Error("A passphrase is required for encrypted credentials.");
+  }
+  if (isNew && (await promptSecret("Confirm passphrase: ")) !== passphrase) {
+    throw new Error("Passphrases do not match.");
+  }
+  cachedPassphrase = passphrase;
+  return passphrase;
+};
+
+const deriveKey = (passphrase: string, salt: Buffer): Buffer =>
+  scryptSync(passphrase, salt, 32);
+
+/** Encrypts credentials with AES-256-GCM using a scrypt-derived key. */
+export const encryptCredentials = (
+  content: string,
+  passphrase: string
+): string => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(content, "utf-8"), cipher.final()]);
+  const payload: EncryptedPayload = {
+    version: ENCRYPTION_VERSION,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+export const decryptCredentials = (
+  content: string,
+  passphrase: string
+): string => {
+  const payload = JSON.parse(content) as EncryptedPayload;
+  if (payload.version !== ENCRYPTION_VERSION) {
+    throw new Error(
+      `Unsupported encrypted credential version: ${payload.version}`
+    );
+  }
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      deriveKey(passphrase, Buffer.from(payload.salt, "base64")),
+      Buffer.from(payload.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(payload.tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(payload.data, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    throw new Error("Could not decrypt credentials. Check your passphrase.");
+  }
+};
+
+const encryptedFileBackend: CredentialBackend = {
+  clear: () => removeFile(ENCRYPTED_TOKEN_STORAGE_FILE),
+  isAvailable: () => Promise.resolve(true),
+  read: async () => {
+    const content = await readOptionalFile(ENCRYPTED_TOKEN_STORAGE_FILE);
+    if (!content) {
+      return null;
+    }
+    return decryptCredentials(content, await getPassphrase(false));
+  },
+  write: async (content) => {
+    const existing = await readOptionalFile(ENCRYPTED_TOKEN_STORAGE_FILE);
+    const passphrase = await getPassphrase(existing === null);
+    await writePrivateFile(
+      ENCRYPTED_TOKEN_STORAGE_FILE,
+      encryptCredentials(content, passphrase)
+    );
+  },
+};
+
+const runSecretTool = (
+  args: string[],
+  input?: string
+): Promise<SecretToolResult> =>
+  new Promise((resolve, reject) => {
+    const child = spawn("secret-tool", args, {
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString("utf-8");
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString("utf-8");
+    });
+    child.on("error", reject);
+    child.on("close", (code) => resolve({ code, stdout, stderr }));
+    child.stdin.end(input);
+  });
+
+const keychainBackend: CredentialBackend = {
+  clear: async () => {
+    await runSecretTool(["clear", ...KEYCHAIN_ATTRIBUTES]);
+  },
+  isAvailable: async () => {
+    if (process.platform !== "linux") {
+      return false;
+    }
+    try {
+      // A lookup miss exits 1 silently; a missing secret service writes to stderr
+      const result = await runSecretTool(["lookup", ...KEYCHAIN_ATTRIBUTES]);
+      return result.code === 0 || !result.stderr.trim();
+    } catch {
+      return false;
+    }
+  },
+  read: async () => {
+    const result = await runSecretTool(["lookup", ...KEYCHAIN_ATTRIBUTES]);
+    if (result.code !== 0) {
+      return null;
+    }
+    return result.stdout || null;
+  },
+  write: async (content) => {
+    const result = await runSecretTool(
+      ["store", "--label=Memberstack CLI", ...KEYCHAIN_ATTRIBUTES],
+      content
+    );
+    if (result.code !== 0) {
+      throw new Error(
+        `Failed to store credentials in the system keychain: ${result.stderr.trim()}`
+      );
+    }
+  },
+};
+
+const BACKENDS: Record<CredentialBackendName, CredentialBackend> = {
+  "encrypted-file": encryptedFileBackend,
+  file: fileBackend,
+  keychain: keychainBackend,
+};
+
+const isBackendName = (value: unknown): value is CredentialBackendName =>
+  CREDENTIAL_BACKENDS.includes(value as CredentialBackendName);
+
+const readStoreConfig = async (): Promise<StoreConfig> => {
+  const content = await readOptionalFile(CREDENTIAL_STORE_CONFIG_FILE);
+  try {
+    return content ? (JSON.parse(content) as StoreConfig) : {};
+  } catch {
+    return {};
+  }
+};
+
+const getDefaultBackend = async (): Promise<CredentialBackendName> =>
+  (await keychainBackend.isAvailable()) ? "keychain" : "encrypted-file";
+
+const resolveBackend = async (): Promise<CredentialBackendName> => {
+  const fromEnv = process.env[BACKEND_ENV];
+  if (fromEnv) {
+    if (!isBackendName(fromEnv)) {
+      throw new Error(
+        `Invalid ${BACKEND_ENV}: ${fromEnv}. Expected one of ${CREDENTIAL_BACKENDS.join(", ")}.`
+      );
+    }
+    return fromEnv;
+  }
+
+  const config = await readStoreConfig();
+  if (isBackendName(config.backend)) {
+    return config.backend;
+  }
+  if ((await readOptionalFile(TOKEN_STORAGE_FILE)) !== null) {
+    return "file";
+  }
+  return getDefaultBackend();
+};
+
+/**
+ * Resolves the backend from MEMBERSTACK_CREDENTIAL_STORE, the recorded
+ * choice, a legacy plaintext auth.json, or the best available default.
+ * The answer is kept for the rest of the process.
+ */
+export const getCredentialBackend = (): Promise<CredentialBackendName> => {
+  cachedBackend ??= resolveBackend().catch((error: unknown) => {
+    cachedBackend = undefined;
+    throw error;
+  });
+  return cachedBackend;
+};
+
+const recordBackend = (backend: CredentialBackendName): Promise<void> =>
+  writePrivateFile(
+    CREDENTIAL_STORE_CONFIG_FILE,
+    JSON.stringify({ backend }, null, 2)
+  );
+
+/** Reads the stored credentials once and serves later reads from memory. */
+export const readCredentials = (): Promise<string | null> => {
+  cachedContent ??= getCredentialBackend()
+    .then((backend) => BACKENDS[backend].read())
+    .catch((error: unknown) => {
+      cachedContent = undefined;
+      throw error;
+    });
+  return cachedContent;
+};
+
+export const writeCredentials = async (content: string): Promise<void> => {
+  const backend = await getCredentialBackend();
+  await BACKENDS[backend].write(content);
+  await recordBackend(backend);
+  cachedContent = Promise.resolve(content);
+};
+
+export const clearCredentials = async (): Promise<void> => {
+  await BACKENDS[await getCredentialBackend()].clear();
+  await removeFile(CREDENTIAL_STORE_CONFIG_FILE);
+  // With the recorded choice gone, the next write picks a backend afresh
+  cachedBackend = undefined;
+  cachedContent = Promise.resolve(null);
+};
+
+/** Moves stored credentials to another backend and removes the old copy. */
+export const migrateCredentials = async (
+  target?: CredentialBackendName
+): Promise<{ from: CredentialBackendName; to: CredentialBackendName }> => {
+  const from = await getCredentialBackend();
+  const to = target ?? (await getDefaultBackend());
+
+  if (from === to) {
+    throw new Error(`Credentials are already stored in ${to}.`);
+  }
+  if (!(await BACKENDS[to].isAvailable())) {
+    throw new Error(`Credential backend ${to} is not available.`);
+  }
+
+  const content = await BACKENDS[from].read();
+  if (content) {
+    await BACKENDS[to].write(content);
+  }
+  await recordBackend(to);
+  cachedBackend = Promise.resolve(to);
+  await BACKENDS[from].clear();
+  return { from, to };
+};
@@ -1,32 +1,187 @@
+import { createReadStream } from "node:fs";
 import { readFile, writeFile } from "node:fs/promises";
 import { extname } from "node:path";
+import { createInterface } from "node:readline";
 import Papa from "papaparse";
 
-export const readCsvFile = async (
-  filePath: string
-): Promise<Record<string, string>[]> => {
-  const content = await readFile(filePath, "utf-8");
-  const result = Papa.parse<Record<string, string>>(content, {
+/** A parsed input row: CSV cells are strings, JSON values keep their type. */
+export type InputRow = Record<string, unknown>;
+type Row = InputRow;
+
+export type FileFormat = "csv" | "json" | "jsonl";
+
+/**
+ * Columns an `--errors-out` report adds to each failed row: the error and
+ * the row's 1-based data row in the input. Input readers drop both, so a
+ * report can be fixed and fed back into any command as-is.
+ */
+export const ERROR_COLUMN = "_error";
+export const ROW_COLUMN = "_row";
+
+/** Rows the CSV parser may buffer before it is paused for the consumer. */
+const STREAM_BUFFER_ROWS = 1000;
+
+/**
+ * Yields CSV rows as Papa parses them from a file stream. Reading pauses
+ * while the consumer falls behind, so memory stays flat for any file size.
+ */
+export async function* streamCsvRows(filePath: string): AsyncGenerator<Row> {
+  const input = createReadStream(filePath, "utf-8");
+  const queue: Row[] = [];
+  let done = false;
+  let failure: Error | undefined;
+  let wake: (() => void) | undefined;
+  const notify = () => {
+    wake?.();
+    wake = undefined;
+  };
+
+  Papa.parse<Row>(input, {
     header: true,
     skipEmptyLines: true,
+    step: (result, parser) => {
+      if (result.errors.length > 0) {
+        failure ??= new Error(`CSV parse error: ${result.errors[0].message}`);
+        parser.abort();
+      } else {
+        queue.push(result.data);
+        // Papa's own pause loses its place in stream mode; pausing the file
+        // stream instead caps the queue at one chunk past the limit
+        if (queue.length >= STREAM_BUFFER_ROWS) {
+          input.pause();
+        }
+      }
+      notify();
+    },
+    complete: () => {
+      done = true;
+      notify();
+    },
+    error: (error: Error) => {
+      failure ??= error;
+      done = true;
+      notify();
+    },
+  });
+
+  try {
+    while (true) {
+      const row = queue.shift();
+      if (row) {
+        yield row;
+      } else if (failure) {
+        throw failure;
+      } else if (done) {
+        return;
+      } else {
+        const waiting = new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        input.resume();
+        await waiting;
+      }
+    }
+  } finally {
+    input.destroy();
+  }
+}
+
+/** Yields one object per non-blank line of a newline-delimited JSON file. */
+export async function* streamJsonlRows(filePath: string): AsyncGenerator<Row> {
+  const lines = createInterface({
+    input: createReadStream(filePath, "utf-8"),
+    crlfDelay: Number.POSITIVE_INFINITY,
   });
-  if (result.errors.length > 0) {
-    throw new Error(`CSV parse error: ${result.errors[0].message}`);
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === "") {
+      continue;
+    }
+    let row: Row;
+    try {
+      row = JSON.parse(line) as Row;
+    } catch (error) {
+      throw new Error(
+        `JSONL parse error on line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    yield row;
   }
-  return result.data;
+}
+
+export const getFileFormat = (filePath: string): FileFormat => {
+  const extension = extname(filePath).toLowerCase();
+  if (extension === ".json") {
+    return "json";
+  }
+  return extension === ".jsonl" || extension === ".ndjson" ? "jsonl" : "csv";
 };
 
-export const readInputFile = async (
-  filePath: string
-): Promise<Record<string, string>[]> => {
-  const ext = extname(filePath).toLowerCase();
-  if (ext === ".json") {
-    const content = await readFile(filePath, "utf-8");
-    return JSON.parse(content) as Record<string, string>[];
+async function* readRows(filePath: string): AsyncGenerator<Row> {
+  const format = getFileFormat(filePath);
+  if (format === "json") {
+    const rows: unknown = JSON.parse(await readFile(filePath, "utf-8"));
+    if (!Array.isArray(rows)) {
+      throw new Error(
+        `Invalid input file: expected a JSON array of rows in ${filePath}`
+      );
+    }
+    yield* rows as Row[];
+    return;
+  }
+  yield* format === "jsonl"
+    ? streamJsonlRows(filePath)
+    : streamCsvRows(filePath);
+}
+
+/**
+ * Yields the rows of a CSV, JSONL or JSON file, without any `--errors-out`
+ * report columns. CSV and JSONL are streamed; a JSON array has to be parsed
+ * whole.
+ */
+export async function* streamInputRows(filePath: string): AsyncGenerator<Row> {
+  for await (const row of readRows(filePath)) {
+    const { [ERROR_COLUMN]: _error, [ROW_COLUMN]: _row, ...rest } = row;
+    yield rest;
+  }
+}
+
+/**
+ * Renders one JSON input value the way it would appear in a CSV cell: lists
+ * are comma-separated and null is empty.
+ */
+export const toCellText = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(toCellText).join(", ");
   }
-  return readCsvFile(filePath);
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
 };
 
+/** Turns every value of an input row into CSV-style text. */
+export const toTextRow = (row: InputRow): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [key, toCellText(value)])
+  );
+
+const collectRows = async (rows: AsyncIterable<Row>): Promise<Row[]> => {
+  const result: Row[] = [];
+  for await (const row of rows) {
+    result.push(row);
+  }
+  return result;
+};
+
+export const readCsvFile = (filePath: string): Promise<Row[]> =>
+  collectRows(streamCsvRows(filePath));
+
+export const readInputFile = (filePath: string): Promise<Row[]> =>
+  collectRows(streamInputRows(filePath));
+
 export const flattenObject = (
   obj: Record<string, unknown>,
   prefix = ""
@@ -58,6 +213,11 @@ export const writeOutputFile = async (
     const flattened = data.map((row) => flattenObject(row));
     const csv = Papa.unparse(flattened);
     await writeFile(filePath, `${csv}\n`);
+  } else if (format === "jsonl") {
+    await writeFile(
+      filePath,
+      data.map((row) => `${JSON.stringify(row)}\n`).join("")
+    );
   } else {
     await writeFile(filePath, `${JSON.stringify(data, null, 2)}\n`);
   }
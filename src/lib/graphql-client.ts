@@ -1,8 +1,17 @@
-import { GRAPHQL_BASE_URL } from "./constants.js";
+import {
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_TIMEOUT_SECONDS,
+  GRAPHQL_BASE_URL,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+} from "./constants.js";
 import { program } from "./program.js";
+import { reportThrottle } from "./rate-limiter.js";
 import { getAppId, getValidAccessToken } from "./token-storage.js";
+import { delay } from "./utils.js";
 
 interface GraphqlRequestOptions {
+  mode?: string;
   query: string;
   variables?: Record<string, unknown>;
 }
@@ -16,6 +25,146 @@ interface GraphqlResponse<T> {
   errors?: GraphqlError[];
 }
 
+interface RetryOptions {
+  /**
+   * Queries can be sent again after any transient failure. Mutations may
+   * already have been applied, so they are only retried when the server
+   * refused them (429) or the connection was never made.
+   */
+  idempotent: boolean;
+  maxRetries: number;
+  timeoutMs: number;
+}
+
+const TOO_MANY_REQUESTS = 429;
+const SERVICE_UNAVAILABLE = 503;
+
+const MUTATION = /^\s*mutation\b/;
+
+// Connection failures that happen before any of the request is sent
+const CONNECT_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+const isConnectError = (error: unknown): boolean => {
+  const cause =
+    error instanceof Error
+      ? (error.cause as { code?: string } | undefined)
+      : undefined;
+  return CONNECT_ERROR_CODES.has(cause?.code ?? "");
+};
+
+const isRetryableStatus = (status: number, options: RetryOptions): boolean =>
+  status === TOO_MANY_REQUESTS || (options.idempotent && status >= 500);
+
+const isRetryableError = (error: unknown, options: RetryOptions): boolean =>
+  options.idempotent || isConnectError(error);
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Returns the wait before retry `attempt` (0-based): the Retry-After header
+ * when present, otherwise exponential backoff with jitter.
+ */
+export const getRetryDelay = (
+  attempt: number,
+  retryAfter: string | null = null
+): number => {
+  const requested = parseRetryAfter(retryAfter);
+  if (requested !== undefined) {
+    return Math.min(requested, RETRY_MAX_DELAY_MS);
+  }
+  const backoff = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** attempt,
+    RETRY_MAX_DELAY_MS
+  );
+  return backoff / 2 + Math.random() * (backoff / 2);
+};
+
+const toRequestError = (
+  error: unknown,
+  { timeoutMs }: RetryOptions,
+  attempts: number
+): Error => {
+  const suffix = attempts > 1 ? ` after ${attempts} attempts` : "";
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new Error(`Request timed out (${timeoutMs / 1000}s)${suffix}`);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new Error(`Network error${suffix}: ${message}`);
+};
+
+/**
+ * Builds the error for a failed response. Proxies and gateways answer with
+ * HTML or plain text, so the body is only used when it is GraphQL JSON.
+ */
+const toHttpError = async (response: Response): Promise<Error> => {
+  let body: GraphqlResponse<unknown> | undefined;
+  try {
+    body = JSON.parse(await response.text()) as GraphqlResponse<unknown>;
+  } catch {
+    body = undefined;
+  }
+  if (body?.errors?.length) {
+    const messages = body.errors.map((e) => e.message).join("; ");
+    return new Error(`GraphQL error (${response.status}): ${messages}`);
+  }
+  return new Error(`GraphQL request failed with status ${response.status}`);
+};
+
+const fetchWithRetry = async (
+  endpoint: string,
+  init: RequestInit,
+  options: RetryOptions
+): Promise<Response> => {
+  let attempt = 0;
+  while (true) {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        ...init,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error, options)) {
+        throw toRequestError(error, options, attempt + 1);
+      }
+      await delay(getRetryDelay(attempt));
+      attempt++;
+      continue;
+    }
+
+    if (
+      response.status === TOO_MANY_REQUESTS ||
+      response.status === SERVICE_UNAVAILABLE
+    ) {
+      reportThrottle(parseRetryAfter(response.headers.get("retry-after")));
+    }
+    if (
+      !isRetryableStatus(response.status, options) ||
+      attempt >= options.maxRetries
+    ) {
+      return response;
+    }
+    await response.body?.cancel();
+    await delay(getRetryDelay(attempt, response.headers.get("retry-after")));
+    attempt++;
+  }
+};
+
 export const graphqlRequest = async <T>(
   options: GraphqlRequestOptions
 ): Promise<T> => {
@@ -35,7 +184,8 @@ export const graphqlRequest = async <T>(
     );
   }
 
-  const mode: string = program.opts().mode;
+  const globalOpts = program.opts();
+  const mode: string = options.mode ?? globalOpts.mode;
   const endpoint = `${GRAPHQL_BASE_URL}?mode=${mode}`;
 
   const headers: Record<string, string> = {
@@ -45,22 +195,26 @@ export const graphqlRequest = async <T>(
     "ms-mode": mode,
   };
 
-  const response = await fetch(endpoint, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({ query, variables }),
-  });
-
-  const body = (await response.json()) as GraphqlResponse<T>;
+  const response = await fetchWithRetry(
+    endpoint,
+    {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ query, variables }),
+    },
+    {
+      idempotent: !MUTATION.test(query),
+      maxRetries: globalOpts.maxRetries ?? DEFAULT_MAX_RETRIES,
+      timeoutMs: (globalOpts.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000,
+    }
+  );
 
   if (!response.ok) {
-    if (body.errors?.length) {
-      const messages = body.errors.map((e) => e.message).join("; ");
-      throw new Error(`GraphQL error (${response.status}): ${messages}`);
-    }
-    throw new Error(`GraphQL request failed with status ${response.status}`);
+    throw await toHttpError(response);
   }
 
+  const body = (await response.json()) as GraphqlResponse<T>;
+
   if (body.errors?.length) {
     const messages = body.errors.map((e) => e.message).join("; ");
     throw new Error(`GraphQL error: ${messages}`);
@@ -0,0 +1,188 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { JOURNAL_DIR, TOKEN_STORAGE_DIR } from "./constants.js";
+
+export type JournalStatus = "failed" | "succeeded";
+
+export interface JournalHeader {
+  command: string;
+  file?: string;
+  startedAt: string;
+}
+
+export interface JournalEntry {
+  error?: string;
+  id?: string;
+  row: number;
+  status: JournalStatus;
+}
+
+export interface Journal {
+  close(): Promise<void>;
+  readonly path: string;
+  /** Resolves once the entry is written; rejects if the journal cannot be written. */
+  record(entry: JournalEntry): Promise<void>;
+}
+
+export interface JournalState {
+  completedIds: Set<string>;
+  completedRows: Set<number>;
+  failedRows: Set<number>;
+  header: JournalHeader;
+}
+
+interface JournalOptions {
+  dryRun?: boolean;
+  file?: string;
+  journal?: string;
+  resume?: string;
+}
+
+const getDefaultJournalPath = (command: string): string => {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return join(
+    homedir(),
+    TOKEN_STORAGE_DIR,
+    JOURNAL_DIR,
+    `${command.replace(/\s+/g, "-")}-${timestamp}.jsonl`
+  );
+};
+
+/**
+ * Opens an append-only JSONL journal. Entries are written in the order they
+ * are recorded so a crash leaves at most one truncated trailing line. After
+ * a failed write every later entry is rejected with the same error, so the
+ * journal never skips a line and carries on.
+ */
+export const openJournal = async (
+  path: string,
+  header?: JournalHeader
+): Promise<Journal> => {
+  await mkdir(dirname(path), { recursive: true });
+  let pending = Promise.resolve();
+  let failure: Error | undefined;
+  const append = (line: object): Promise<void> => {
+    const write = pending
+      .then(() => {
+        if (failure) {
+          throw failure;
+        }
+        return appendFile(path, `${JSON.stringify(line)}\n`);
+      })
+      .catch((error: unknown) => {
+        failure ??= new Error(
+          `Could not write journal ${path}: ${error instanceof Error ? error.message : String(error)}`
+        );
+        throw failure;
+      });
+    pending = write.catch(() => undefined);
+    return write;
+  };
+  if (header) {
+    await append(header);
+  }
+
+  return {
+    path,
+    record: append,
+    close: () => pending,
+  };
+};
+
+const parseJournalLines = (content: string, path: string) => {
+  const lines = content.split("\n").filter((line) => line.trim());
+  const parsed: unknown[] = [];
+  for (const [index, line] of lines.entries()) {
+    try {
+      parsed.push(JSON.parse(line));
+    } catch {
+      // A crash can truncate the final line; anything earlier is corrupt.
+      if (index < lines.length - 1) {
+        throw new Error(`Invalid journal ${path}: line ${index + 1}`);
+      }
+    }
+  }
+  return parsed;
+};
+
+/**
+ * Reads a journal and returns which rows finished. When a row appears more
+ * than once (because of an earlier resume) its latest status wins.
+ */
+export const readJournal = async (path: string): Promise<JournalState> => {
+  const [header, ...entries] = parseJournalLines(
+    await readFile(path, "utf-8"),
+    path
+  ) as [JournalHeader | undefined, ...JournalEntry[]];
+  if (!header?.command) {
+    throw new Error(`Invalid journal ${path}: missing header`);
+  }
+
+  const latest = new Map<number, JournalEntry>();
+  for (const entry of entries) {
+    latest.set(entry.row, entry);
+  }
+
+  const state: JournalState = {
+    completedIds: new Set(),
+    completedRows: new Set(),
+    failedRows: new Set(),
+    header,
+  };
+  for (const entry of latest.values()) {
+    if (entry.status === "succeeded") {
+      state.completedRows.add(entry.row);
+      if (entry.id) {
+        state.completedIds.add(entry.id);
+      }
+    } else {
+      state.failedRows.add(entry.row);
+    }
+  }
+  return state;
+};
+
+/**
+ * Sets up journaling for a bulk command. A new journal is created unless
+ * `--resume` points at an existing one, in which case its state is returned
+ * and new entries are appended to it so it can be resumed again. Dry runs
+ * read but never write.
+ */
+export const startJournal = async (
+  command: string,
+  options: JournalOptions
+): Promise<{ journal?: Journal; resumed?: JournalState }> => {
+  const file = options.file ? resolve(options.file) : undefined;
+  let resumed: JournalState | undefined;
+
+  if (options.resume) {
+    resumed = await readJournal(options.resume);
+    if (resumed.header.command !== command) {
+      throw new Error(
+        `Journal ${options.resume} was written by "${resumed.header.command}", not "${command}"`
+      );
+    }
+    if (resumed.header.file && file && resumed.header.file !== file) {
+      throw new Error(
+        `Journal ${options.resume} was written for ${resumed.header.file}, not ${file}`
+      );
+    }
+  }
+
+  if (options.dryRun) {
+    return { resumed };
+  }
+
+  if (options.resume) {
+    return { journal: await openJournal(options.resume), resumed };
+  }
+
+  const path = options.journal ?? getDefaultJournalPath(command);
+  const journal = await openJournal(path, {
+    command,
+    file,
+    startedAt: new Date().toISOString(),
+  });
+  return { journal };
+};
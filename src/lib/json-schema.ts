@@ -0,0 +1,153 @@
+import { readFile } from "node:fs/promises";
+
+export type JsonSchemaType =
+  | "array"
+  | "boolean"
+  | "integer"
+  | "null"
+  | "number"
+  | "object"
+  | "string";
+
+/** The subset of JSON Schema that `codegen json-schema` writes. */
+export interface JsonSchema {
+  $comment?: string;
+  $defs?: Record<string, JsonSchema>;
+  $schema?: string;
+  additionalProperties?: boolean;
+  default?: unknown;
+  description?: string;
+  format?: "date-time" | "email" | "uri";
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  title?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+}
+
+export interface SchemaIssue {
+  message: string;
+  /** Top-level property the issue belongs to, or "" for the whole value. */
+  path: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const matchesType = (value: unknown, type: JsonSchemaType): boolean => {
+  switch (type) {
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "null":
+      return value === null;
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    default:
+      return typeof value === type;
+  }
+};
+
+const matchesFormat = (value: string, format: JsonSchema["format"]) => {
+  switch (format) {
+    case "email":
+      return EMAIL_PATTERN.test(value);
+    case "uri":
+      return URL.canParse(value);
+    case "date-time":
+      return !Number.isNaN(Date.parse(value));
+    default:
+      return true;
+  }
+};
+
+const checkProperties = (
+  value: Record<string, unknown>,
+  schema: JsonSchema
+): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined) {
+      issues.push({ path: key, message: "required" });
+    }
+  }
+  for (const [key, item] of Object.entries(value)) {
+    const property = schema.properties?.[key];
+    if (property) {
+      issues.push(
+        ...validateJsonSchema(item, property).map((issue) => ({
+          ...issue,
+          path: key,
+        }))
+      );
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: key, message: "not allowed by the schema" });
+    }
+  }
+  return issues;
+};
+
+/**
+ * Validates a value against the schema subset above: types, string formats,
+ * array items, required properties and `additionalProperties: false`.
+ */
+export const validateJsonSchema = (
+  value: unknown,
+  schema: JsonSchema
+): SchemaIssue[] => {
+  const types =
+    schema.type === undefined
+      ? undefined
+      : ([] as JsonSchemaType[]).concat(schema.type);
+  if (types && !types.some((type) => matchesType(value, type))) {
+    return [{ path: "", message: `expected ${types.join(" or ")}` }];
+  }
+  if (
+    typeof value === "string" &&
+    schema.format &&
+    !matchesFormat(value, schema.format)
+  ) {
+    return [{ path: "", message: `expected ${schema.format} format` }];
+  }
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    return value.flatMap((item, index) =>
+      validateJsonSchema(item, items).map((issue) => ({
+        ...issue,
+        message: `item ${index + 1}: ${issue.message}`,
+      }))
+    );
+  }
+  if (matchesType(value, "object") && (schema.properties || schema.required)) {
+    return checkProperties(value as Record<string, unknown>, schema);
+  }
+  return [];
+};
+
+/**
+ * Loads the schema for one table from a `codegen json-schema` file, which
+ * keeps each table under `$defs`. A file holding a single object schema is
+ * used as-is.
+ */
+export const loadTableJsonSchema = async (
+  filePath: string,
+  tableKey: string
+): Promise<JsonSchema> => {
+  const content = await readFile(filePath, "utf-8");
+  let document: JsonSchema;
+  try {
+    document = JSON.parse(content) as JsonSchema;
+  } catch {
+    throw new Error(`Invalid schema file: ${filePath} is not valid JSON`);
+  }
+  const schema =
+    document.$defs?.[tableKey] ?? (document.properties ? document : undefined);
+  if (!schema) {
+    throw new Error(`Schema file ${filePath} has no schema for "${tableKey}"`);
+  }
+  return schema;
+};
@@ -0,0 +1,154 @@
+import { readFile } from "node:fs/promises";
+import { parse } from "yaml";
+import type { InputRow as Row } from "./csv.js";
+
+export type ColumnTransform =
+  | "date"
+  | "lowercase"
+  | "trim"
+  | "uppercase"
+  | { join?: string; split: string };
+
+export interface ColumnMapping {
+  drop?: string[];
+  rename?: Record<string, string>;
+  set?: Record<string, boolean | number | string>;
+  transforms?: Record<string, ColumnTransform[]>;
+}
+
+const MAPPING_KEYS = new Set(["drop", "rename", "set", "transforms"]);
+const NAMED_TRANSFORMS = new Set(["date", "lowercase", "trim", "uppercase"]);
+const DEFAULT_LIST_SEPARATOR = ",";
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const validateTransform = (column: string, transform: unknown): void => {
+  if (typeof transform === "string" && NAMED_TRANSFORMS.has(transform)) {
+    return;
+  }
+  if (isPlainObject(transform) && typeof transform.split === "string") {
+    return;
+  }
+  throw new Error(
+    `Invalid transform for "${column}": ${JSON.stringify(transform)}. Use trim, lowercase, uppercase, date or { split, join }.`
+  );
+};
+
+/**
+ * Checks the shape of a parsed mapping file so mistakes surface once, before
+ * any rows are processed, rather than as a failure on every row.
+ */
+export const parseColumnMapping = (raw: unknown): ColumnMapping => {
+  if (!isPlainObject(raw)) {
+    throw new Error("Mapping must be an object");
+  }
+  for (const key of Object.keys(raw)) {
+    if (!MAPPING_KEYS.has(key)) {
+      throw new Error(
+        `Unknown mapping key "${key}". Use ${[...MAPPING_KEYS].join(", ")}.`
+      );
+    }
+  }
+
+  const { drop, rename, set, transforms } = raw;
+  if (drop !== undefined && !Array.isArray(drop)) {
+    throw new Error('"drop" must be a list of column names');
+  }
+  for (const [name, value] of Object.entries({ rename, set, transforms })) {
+    if (value !== undefined && !isPlainObject(value)) {
+      throw new Error(`"${name}" must map column names to values`);
+    }
+  }
+  for (const [column, steps] of Object.entries(transforms ?? {})) {
+    if (!Array.isArray(steps)) {
+      throw new Error(`Transforms for "${column}" must be a list`);
+    }
+    for (const step of steps) {
+      validateTransform(column, step);
+    }
+  }
+  return raw as ColumnMapping;
+};
+
+const applyTransform = (
+  value: string,
+  transform: ColumnTransform,
+  column: string
+): string => {
+  switch (transform) {
+    case "trim":
+      return value.trim();
+    case "lowercase":
+      return value.toLowerCase();
+    case "uppercase":
+      return value.toUpperCase();
+    case "date": {
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`Column "${column}": invalid date "${value}"`);
+      }
+      return date.toISOString();
+    }
+    default:
+      return value
+        .split(transform.split)
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .join(transform.join ?? DEFAULT_LIST_SEPARATOR);
+  }
+};
+
+/**
+ * Reshapes one input row: drops columns, renames the rest, sets constants,
+ * then runs each column's transforms in order. Transforms work on text, so
+ * empty values (which would fail date parsing) and JSON values that are not
+ * strings are left alone.
+ */
+export const applyColumnMapping = (row: Row, mapping: ColumnMapping): Row => {
+  const drop = new Set(mapping.drop ?? []);
+  const result: Row = {};
+
+  for (const [column, value] of Object.entries(row)) {
+    if (!drop.has(column)) {
+      result[mapping.rename?.[column] ?? column] = value;
+    }
+  }
+  for (const [column, value] of Object.entries(mapping.set ?? {})) {
+    result[column] = String(value);
+  }
+  for (const [column, steps] of Object.entries(mapping.transforms ?? {})) {
+    const current = result[column];
+    if (typeof current !== "string" || current === "") {
+      continue;
+    }
+    let value = current;
+    for (const step of steps) {
+      value = applyTransform(value, step, column);
+    }
+    result[column] = value;
+  }
+  return result;
+};
+
+/**
+ * Loads a YAML or JSON mapping file (JSON is valid YAML) and returns a row
+ * mapper. Without a path the mapper returns rows unchanged.
+ */
+export const loadColumnMapping = async (
+  filePath?: string
+): Promise<(row: Row) => Row> => {
+  if (!filePath) {
+    return (row) => row;
+  }
+
+  let mapping: ColumnMapping;
+  try {
+    mapping = parseColumnMapping(parse(await readFile(filePath, "utf-8")));
+  } catch (error) {
+    throw new Error(
+      `Invalid mapping file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return (row) => applyColumnMapping(row, mapping);
+};
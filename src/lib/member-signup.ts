@@ -0,0 +1,67 @@
+import { randomBytes } from "node:crypto";
+import { graphqlRequest } from "./graphql-client.js";
+import { printWarning } from "./utils.js";
+
+/** Signup input: email plus plans, custom fields, metadata and redirect. */
+export type SignupInput = Record<string, unknown> & { email: string };
+
+/**
+ * Signs a member up with the `password` in the input and returns the new
+ * member's ID.
+ */
+export const signupWithPassword = async (
+  input: SignupInput
+): Promise<string> => {
+  const result = await graphqlRequest<{
+    signupMemberEmailPassword: { member: { id: string } };
+  }>({
+    query: `mutation($input: SignupMemberEmailPasswordInput!) {
+      signupMemberEmailPassword(input: $input) { member { id } }
+    }`,
+    variables: { input },
+  });
+  return result.signupMemberEmailPassword.member.id;
+};
+
+/**
+ * Signs a member up with a random password and sends them a reset email.
+ * The password is never shown or stored; members set their own instead.
+ * A failed email only warns: the member exists, so failing the row would
+ * make `--resume` sign them up again.
+ */
+export const signupWithGeneratedPassword = async (
+  input: SignupInput
+): Promise<string> => {
+  const id = await signupWithPassword({
+    ...input,
+    password: randomBytes(24).toString("base64url"),
+  });
+  try {
+    await graphqlRequest<{ sendMemberResetPasswordEmail: string }>({
+      query:
+        "mutation($input: SendMemberResetPasswordEmailInput!) { sendMemberResetPasswordEmail(input: $input) }",
+      variables: { input: { email: input.email } },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    printWarning(
+      `${input.email}: created, but the password reset email failed: ${message}`
+    );
+  }
+  return id;
+};
+
+/** Signs a member up for passwordless login and returns their ID. */
+export const signupPasswordless = async (
+  input: SignupInput
+): Promise<string> => {
+  const result = await graphqlRequest<{
+    signupMemberPasswordless: { member: { id: string } };
+  }>({
+    query: `mutation($input: SignupMemberPasswordlessInput!) {
+      signupMemberPasswordless(input: $input) { member { id } }
+    }`,
+    variables: { input },
+  });
+  return result.signupMemberPasswordless.member.id;
+};
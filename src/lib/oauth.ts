@@ -44,6 +44,8 @@ interface RevokeParams {
 }
 
 const TRAILING_EQUALS = /=+$/;
+const FRAGMENT = /#.*$/;
+const QUERY_START = /^(?:code|error)=/;
 
 const base64url = (buffer: Buffer): string =>
   buffer.toString("base64url").replace(TRAILING_EQUALS, "");
@@ -75,6 +77,45 @@ export const buildAuthorizationUrl = ({
   return url.toString();
 };
 
+/**
+ * Extracts the authorization code from a pasted redirect URL, query string,
+ * or bare code. The state is checked whenever it is pasted; a bare code is
+ * still bound to this login by the PKCE verifier.
+ */
+export const parseAuthorizationResponse = (
+  input: string,
+  expectedState: string
+): string => {
+  const value = input.trim().replace(FRAGMENT, "");
+  if (!value) {
+    throw new Error("No authorization code provided");
+  }
+
+  let query = value;
+  if (value.includes("?")) {
+    query = value.slice(value.indexOf("?") + 1);
+  } else if (!QUERY_START.test(value)) {
+    return value;
+  }
+
+  const params = new URLSearchParams(query);
+  const error = params.get("error");
+  if (error) {
+    const description = params.get("error_description") ?? error;
+    throw new Error(`Authorization failed: ${description}`);
+  }
+
+  const code = params.get("code");
+  const state = params.get("state");
+  if (!(code && state)) {
+    throw new Error("Missing code or state in redirect URL");
+  }
+  if (state !== expectedState) {
+    throw new Error("State mismatch in OAuth callback");
+  }
+  return code;
+};
+
 export const registerClient = async (redirectUri: string): Promise<string> => {
   const response = await fetch(OAUTH_REGISTRATION_ENDPOINT, {
     method: "POST",
@@ -0,0 +1,391 @@
+import { createReadStream } from "node:fs";
+import { type FileHandle, mkdtemp, open, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { extname, join } from "node:path";
+import { createInterface } from "node:readline";
+import ExcelJS from "exceljs";
+import {
+  type BasicType,
+  fileWriter,
+  ParquetWriter,
+  schemaFromColumnData,
+} from "hyparquet-writer";
+import Papa from "papaparse";
+import type { ExportFormat } from "./types.js";
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  "csv",
+  "json",
+  "jsonl",
+  "ndjson",
+  "xlsx",
+  "parquet",
+  "sql",
+];
+
+/** Rows read back from the spool per write for the tabular formats. */
+const SPOOL_BATCH_ROWS = 1000;
+
+/** Excel's sheet limit is 1,048,576 rows, one of which is the header. */
+const XLSX_MAX_ROWS = 1_048_575;
+
+const XLSX_SHEET_NAME_LENGTH = 31;
+const XLSX_SHEET_NAME_INVALID = /[[\]:*?/\\]/g;
+
+type Cell = boolean | number | string | null;
+type ColumnType = "boolean" | "number" | "string";
+
+interface Column {
+  name: string;
+  type: ColumnType;
+}
+
+export interface OutputWriter {
+  /**
+   * Gives up on the file after a failed export: deletes the partial output
+   * and any spool files. Safe to call after `close()` has failed.
+   */
+  abort: () => Promise<void>;
+  /** Finishes the file. Nothing is complete on disk until this resolves. */
+  close: () => Promise<void>;
+  write: (rows: Record<string, unknown>[]) => Promise<void>;
+}
+
+export interface OutputWriterOptions {
+  /** Sheet name for xlsx and table name for sql. */
+  name: string;
+}
+
+/** Matches an output path's extension to an export format, if any. */
+export const inferExportFormat = (
+  filePath?: string
+): ExportFormat | undefined => {
+  const extension = extname(filePath ?? "")
+    .slice(1)
+    .toLowerCase();
+  return EXPORT_FORMATS.find((format) => format === extension);
+};
+
+/** `--format` wins, then the `--output` extension, then JSON. */
+export const resolveExportFormat = (options: {
+  format?: ExportFormat;
+  output?: string;
+}): ExportFormat =>
+  options.format ?? inferExportFormat(options.output) ?? "json";
+
+/**
+ * Like flattenObject, but keeps numbers and booleans so typed formats can
+ * declare their columns. Arrays are joined the same way as in CSV exports.
+ */
+const flattenRow = (
+  obj: Record<string, unknown>,
+  prefix = ""
+): Record<string, Cell> => {
+  const result: Record<string, Cell> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      Object.assign(
+        result,
+        flattenRow(value as Record<string, unknown>, fullKey)
+      );
+    } else if (Array.isArray(value)) {
+      result[fullKey] = value.map(String).join(", ");
+    } else if (typeof value === "number" || typeof value === "boolean") {
+      result[fullKey] = value;
+    } else {
+      result[fullKey] =
+        value === null || value === undefined ? null : String(value);
+    }
+  }
+  return result;
+};
+
+const indent = (text: string): string => text.replace(/^/gm, "  ");
+
+/** Closes a handle that may already be closed and deletes its file. */
+const discardFile = async (
+  handle: FileHandle,
+  filePath: string
+): Promise<void> => {
+  await handle.close().catch(() => undefined);
+  await rm(filePath, { force: true });
+};
+
+const createJsonWriter = (
+  handle: FileHandle,
+  filePath: string
+): OutputWriter => {
+  let first = true;
+  return {
+    abort: () => discardFile(handle, filePath),
+    write: async (rows) => {
+      for (const row of rows) {
+        await handle.write(
+          `${first ? "[\n" : ",\n"}${indent(JSON.stringify(row, null, 2))}`
+        );
+        first = false;
+      }
+    },
+    close: async () => {
+      await handle.write(first ? "[]\n" : "\n]\n");
+      await handle.close();
+    },
+  };
+};
+
+const createJsonlWriter = (
+  handle: FileHandle,
+  filePath: string
+): OutputWriter => ({
+  abort: () => discardFile(handle, filePath),
+  write: async (rows) => {
+    await handle.write(rows.map((row) => `${JSON.stringify(row)}\n`).join(""));
+  },
+  close: () => handle.close(),
+});
+
+interface SpooledTable {
+  batches: () => AsyncGenerator<Cell[][]>;
+  columns: Column[];
+  rowCount: number;
+}
+
+type TableEmitter = (
+  table: SpooledTable,
+  filePath: string,
+  options: OutputWriterOptions
+) => Promise<void>;
+
+const stringCell = (cell: Cell): string => (cell === null ? "" : String(cell));
+
+const emitCsv: TableEmitter = async (table, filePath) => {
+  const handle = await open(filePath, "w");
+  try {
+    await handle.write(Papa.unparse([table.columns.map((c) => c.name)]));
+    for await (const batch of table.batches()) {
+      await handle.write(
+        `\r\n${Papa.unparse(batch.map((cells) => cells.map(stringCell)))}`
+      );
+    }
+    await handle.write("\n");
+  } finally {
+    await handle.close();
+  }
+};
+
+const sheetName = (name: string): string =>
+  name.replace(XLSX_SHEET_NAME_INVALID, "_").slice(0, XLSX_SHEET_NAME_LENGTH) ||
+  "Sheet1";
+
+const emitXlsx: TableEmitter = async (table, filePath, options) => {
+  if (table.rowCount > XLSX_MAX_ROWS) {
+    throw new Error(
+      `${table.rowCount} rows do not fit in an xlsx sheet (max ${XLSX_MAX_ROWS}); use csv, jsonl or parquet`
+    );
+  }
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    filename: filePath,
+    useSharedStrings: false,
+    useStyles: false,
+  });
+  const sheet = workbook.addWorksheet(sheetName(options.name));
+  sheet.addRow(table.columns.map((c) => c.name)).commit();
+  for await (const batch of table.batches()) {
+    for (const cells of batch) {
+      sheet.addRow(cells).commit();
+    }
+  }
+  sheet.commit();
+  await workbook.commit();
+};
+
+const PARQUET_TYPES: Record<ColumnType, BasicType> = {
+  boolean: "BOOLEAN",
+  number: "DOUBLE",
+  string: "STRING",
+};
+
+const emitParquet: TableEmitter = async (table, filePath) => {
+  const writer = new ParquetWriter({
+    writer: fileWriter(filePath),
+    schema: schemaFromColumnData({
+      columnData: table.columns.map((column) => ({
+        name: column.name,
+        data: [],
+        type: PARQUET_TYPES[column.type],
+        nullable: true,
+      })),
+    }),
+  });
+  // Each batch becomes one row group
+  for await (const batch of table.batches()) {
+    await writer.write({
+      columnData: table.columns.map((column, index) => ({
+        name: column.name,
+        data: batch.map((cells) => cells[index]),
+      })),
+      rowGroupSize: batch.length,
+    });
+  }
+  await writer.finish();
+};
+
+const SQL_TYPES: Record<ColumnType, string> = {
+  boolean: "BOOLEAN",
+  number: "NUMERIC",
+  string: "TEXT",
+};
+
+const sqlIdentifier = (name: string): string =>
+  `"${name.replaceAll('"', '""')}"`;
+
+const sqlLiteral = (cell: Cell): string => {
+  if (cell === null) {
+    return "NULL";
+  }
+  if (typeof cell === "boolean") {
+    return cell ? "TRUE" : "FALSE";
+  }
+  if (typeof cell === "number") {
+    return Number.isFinite(cell) ? String(cell) : "NULL";
+  }
+  return `'${cell.replaceAll("'", "''")}'`;
+};
+
+/** Postgres-flavoured CREATE TABLE plus one multi-row INSERT per batch. */
+const emitSql: TableEmitter = async (table, filePath, options) => {
+  const name = sqlIdentifier(options.name);
+  const columnList = table.columns.map((c) => sqlIdentifier(c.name)).join(", ");
+  const handle = await open(filePath, "w");
+  try {
+    const definitions = table.columns
+      .map((c) => `  ${sqlIdentifier(c.name)} ${SQL_TYPES[c.type]}`)
+      .join(",\n");
+    await handle.write(`CREATE TABLE ${name} (\n${definitions}\n);\n`);
+    for await (const batch of table.batches()) {
+      const values = batch
+        .map((cells) => `  (${cells.map(sqlLiteral).join(", ")})`)
+        .join(",\n");
+      await handle.write(
+        `\nINSERT INTO ${name} (${columnList}) VALUES\n${values};\n`
+      );
+    }
+  } finally {
+    await handle.close();
+  }
+};
+
+const resolveColumnType = (kinds: Set<string>): ColumnType => {
+  if (kinds.size === 1 && kinds.has("boolean")) {
+    return "boolean";
+  }
+  return kinds.size === 1 && kinds.has("number") ? "number" : "string";
+};
+
+/**
+ * Tabular formats need every column, and its type, before the first row is
+ * written, but later pages can add columns. Rows are spooled to a temporary
+ * JSONL file while the columns are collected, then handed to the emitter in
+ * batches on close.
+ */
+const createSpooledWriter = async (
+  filePath: string,
+  emit: TableEmitter,
+  options: OutputWriterOptions
+): Promise<OutputWriter> => {
+  const spoolDir = await mkdtemp(join(tmpdir(), "memberstack-"));
+  const spoolPath = join(spoolDir, "rows.jsonl");
+  const spool = await open(spoolPath, "w");
+  const kinds = new Map<string, Set<string>>();
+  let rowCount = 0;
+
+  const readBatches = async function* (columns: Column[]) {
+    const lines = createInterface({
+      input: createReadStream(spoolPath, "utf-8"),
+      crlfDelay: Number.POSITIVE_INFINITY,
+    });
+    let batch: Cell[][] = [];
+    for await (const line of lines) {
+      const row = JSON.parse(line) as Record<string, Cell>;
+      batch.push(
+        columns.map(({ name, type }) => {
+          const cell = row[name] ?? null;
+          return type === "string" && cell !== null ? String(cell) : cell;
+        })
+      );
+      if (batch.length >= SPOOL_BATCH_ROWS) {
+        yield batch;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      yield batch;
+    }
+  };
+
+  return {
+    abort: async () => {
+      await discardFile(spool, filePath);
+      await rm(spoolDir, { recursive: true, force: true });
+    },
+    write: async (rows) => {
+      const lines = rows.map((row) => {
+        const flat = flattenRow(row);
+        for (const [column, cell] of Object.entries(flat)) {
+          const seen = kinds.get(column) ?? new Set<string>();
+          if (cell !== null) {
+            seen.add(typeof cell);
+          }
+          kinds.set(column, seen);
+        }
+        return `${JSON.stringify(flat)}\n`;
+      });
+      rowCount += rows.length;
+      await spool.write(lines.join(""));
+    },
+    close: async () => {
+      await spool.close();
+      const columns = [...kinds].map(([name, seen]) => ({
+        name,
+        type: resolveColumnType(seen),
+      }));
+      try {
+        await emit(
+          { batches: () => readBatches(columns), columns, rowCount },
+          filePath,
+          options
+        );
+      } finally {
+        await rm(spoolDir, { recursive: true, force: true });
+      }
+    },
+  };
+};
+
+const TABLE_EMITTERS: Partial<Record<ExportFormat, TableEmitter>> = {
+  csv: emitCsv,
+  parquet: emitParquet,
+  sql: emitSql,
+  xlsx: emitXlsx,
+};
+
+/**
+ * Opens an output file that is written page by page, so exports never hold
+ * more than one page in memory. JSON keeps nested values; the tabular
+ * formats flatten them to dot-notation columns like CSV.
+ */
+export const createOutputWriter = async (
+  filePath: string,
+  format: ExportFormat,
+  options: OutputWriterOptions
+): Promise<OutputWriter> => {
+  const emit = TABLE_EMITTERS[format];
+  if (emit) {
+    return createSpooledWriter(filePath, emit, options);
+  }
+  const handle = await open(filePath, "w");
+  return format === "json"
+    ? createJsonWriter(handle, filePath)
+    : createJsonlWriter(handle, filePath);
+};
@@ -0,0 +1,114 @@
+import { graphqlRequest } from "./graphql-client.js";
+import type { RecordFilter } from "./record-query.js";
+import type { DataRecord, Member } from "./types.js";
+
+const MEMBERS_PAGE_SIZE = 200;
+const RECORDS_PAGE_SIZE = 100;
+
+export const MEMBER_FIELDS = `
+  id
+  createdAt
+  lastLogin
+  auth { email }
+  customFields
+  metaData
+  json
+  loginRedirect
+  permissions { all }
+  planConnections {
+    id
+    status
+    type
+    active
+    plan { id name }
+  }
+`;
+
+export const DATA_RECORD_FIELDS = `
+  id
+  tableKey
+  data
+  createdAt
+  updatedAt
+  internalOrder
+`;
+
+interface Connection<T> {
+  edges: { node: T }[];
+  pageInfo: { endCursor: string | null };
+}
+
+/**
+ * Follows a cursor connection until a short page, a missing cursor or
+ * `limit` nodes, one page per yield. The last page asks only for the nodes
+ * still needed.
+ */
+async function* paginate<T>(
+  pageSize: number,
+  fetchPage: (first: number, after?: string) => Promise<Connection<T>>,
+  limit = Number.POSITIVE_INFINITY
+): AsyncGenerator<T[]> {
+  let cursor: string | undefined;
+  let remaining = limit;
+
+  while (remaining > 0) {
+    const first = Math.min(pageSize, remaining);
+    const { edges, pageInfo } = await fetchPage(first, cursor);
+    yield edges.map((e) => e.node);
+
+    remaining -= edges.length;
+    if (edges.length < first || !pageInfo.endCursor) {
+      return;
+    }
+    cursor = pageInfo.endCursor;
+  }
+}
+
+/** Yields members a page at a time, so exports never hold them all. */
+export const fetchMemberPages = (
+  filters?: Record<string, unknown>
+): AsyncGenerator<Member[]> =>
+  paginate(MEMBERS_PAGE_SIZE, async (first, after) => {
+    const result = await graphqlRequest<{ getMembers: Connection<Member> }>({
+      query: `query($first: Int, $after: String, $filters: MemberFilter) {
+        getMembers(first: $first, after: $after, filters: $filters) {
+          edges { node { ${MEMBER_FIELDS} } }
+          pageInfo { endCursor }
+        }
+      }`,
+      variables: { first, after, filters },
+    });
+    return result.getMembers;
+  });
+
+/**
+ * Yields records a page at a time, so exports never hold them all. With a
+ * `limit`, stops once that many records have been fetched.
+ */
+export const fetchRecordPages = (
+  tableId: string,
+  filter?: RecordFilter,
+  limit?: number
+): AsyncGenerator<DataRecord[]> =>
+  paginate(
+    RECORDS_PAGE_SIZE,
+    async (first, after) => {
+      const result = await graphqlRequest<{
+        dataRecords: Connection<DataRecord>;
+      }>({
+        query: `query($tableId: ID!, $filter: DataRecordsFilterInput, $pagination: DataRecordsPaginationInput) {
+  dataRecords(tableId: $tableId, filter: $filter, pagination: $pagination) {
+    edges { node { ${DATA_RECORD_FIELDS} } }
+    pageInfo { endCursor }
+  }
+}`,
+        variables: {
+          tableId,
+          filter,
+          pagination: { first, after },
+        },
+      });
+      return result.dataRecords;
+    },
+    limit
+  );
@@ -1,8 +1,25 @@
-import { Command, Help, Option } from "commander";
+import { Command, Help, InvalidArgumentError, Option } from "commander";
+import { DEFAULT_MAX_RETRIES, DEFAULT_TIMEOUT_SECONDS } from "./constants.js";
 
 declare const __VERSION__: string | undefined;
 const version = typeof __VERSION__ !== "undefined" ? __VERSION__ : "dev";
 
+const parseRetryCount = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError("Must be a non-negative integer.");
+  }
+  return parsed;
+};
+
+const parseTimeout = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError("Must be a positive number of seconds.");
+  }
+  return parsed;
+};
+
 export const program = new Command();
 
 program
@@ -31,6 +48,30 @@ program
       .default("sandbox")
       .env("MEMBERSTACK_MODE")
   )
+  .addOption(
+    new Option("--profile <name>", "Use a named auth profile").env(
+      "MEMBERSTACK_PROFILE"
+    )
+  )
+  .option(
+    "--token-stdin",
+    "Read an access token or JSON credential from stdin instead of stored credentials"
+  )
+  .addOption(
+    new Option(
+      "--max-retries <count>",
+      "Retry network errors, 5xx and 429 responses up to this many times"
+    )
+      .argParser(parseRetryCount)
+      .default(DEFAULT_MAX_RETRIES)
+      .env("MEMBERSTACK_MAX_RETRIES")
+  )
+  .addOption(
+    new Option("--timeout <seconds>", "Per-request timeout in seconds")
+      .argParser(parseTimeout)
+      .default(DEFAULT_TIMEOUT_SECONDS)
+      .env("MEMBERSTACK_TIMEOUT")
+  )
   .addOption(
     new Option("--live", "Shorthand for --mode live").conflicts("sandbox")
   )
@@ -50,6 +91,7 @@ program
     `
 Examples:
   $ memberstack auth login
+  $ memberstack auth login --profile client-a
   $ memberstack members list --json
   $ memberstack plans create --name "Pro Plan"
   $ memberstack records find users --where "status equals active"
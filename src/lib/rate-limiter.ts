@@ -0,0 +1,64 @@
+import { RATE_LIMIT_DELAY_MS, RATE_LIMIT_MAX_DELAY_MS } from "./constants.js";
+import { delay } from "./utils.js";
+
+type ThrottleListener = (retryAfterMs?: number) => void;
+
+export interface RateLimiter {
+  acquire(): Promise<void>;
+  dispose(): void;
+  readonly intervalMs: number;
+  recover(): void;
+}
+
+const RECOVERY_FACTOR = 0.9;
+
+const throttleListeners = new Set<ThrottleListener>();
+
+/** Signals that the server asked clients to slow down (429 or 503). */
+export const reportThrottle = (retryAfterMs?: number): void => {
+  for (const listener of throttleListeners) {
+    listener(retryAfterMs);
+  }
+};
+
+/**
+ * Spaces out request starts across workers. The interval doubles whenever the
+ * server pushes back and decays towards RATE_LIMIT_DELAY_MS / concurrency as
+ * requests succeed again.
+ */
+export const createRateLimiter = (concurrency: number): RateLimiter => {
+  const minInterval = RATE_LIMIT_DELAY_MS / concurrency;
+  let interval = minInterval;
+  let nextStart = 0;
+
+  const onThrottle: ThrottleListener = (retryAfterMs) => {
+    interval = Math.min(
+      Math.max(interval * 2, RATE_LIMIT_DELAY_MS),
+      RATE_LIMIT_MAX_DELAY_MS
+    );
+    if (retryAfterMs) {
+      nextStart = Math.max(nextStart, Date.now() + retryAfterMs);
+    }
+  };
+  throttleListeners.add(onThrottle);
+
+  return {
+    get intervalMs() {
+      return interval;
+    },
+    acquire: async () => {
+      const now = Date.now();
+      const wait = Math.max(0, nextStart - now);
+      nextStart = Math.max(now, nextStart) + interval;
+      if (wait > 0) {
+        await delay(wait);
+      }
+    },
+    recover: () => {
+      interval = Math.max(minInterval, interval * RECOVERY_FACTOR);
+    },
+    dispose: () => {
+      throttleListeners.delete(onThrottle);
+    },
+  };
+};
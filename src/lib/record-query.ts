@@ -0,0 +1,531 @@
+import type { DataRecord } from "./types.js";
+
+type Operator =
+  | "contains"
+  | "endsWith"
+  | "equals"
+  | "gt"
+  | "gte"
+  | "in"
+  | "lt"
+  | "lte"
+  | "not"
+  | "notIn"
+  | "startsWith";
+
+export type WhereNode =
+  | { field: string; operator: Operator; type: "comparison"; value: unknown }
+  | { nodes: WhereNode[]; type: "and" | "or" }
+  | { node: WhereNode; type: "not" };
+
+/** The parts of DataRecordsFilterInput that `--where` compiles to. */
+export interface RecordFilter {
+  AND?: RecordFilter[];
+  fieldFilters?: Record<string, Record<string, unknown>>;
+  NOT?: RecordFilter;
+  OR?: RecordFilter[];
+}
+
+export interface RecordOrder {
+  descending: boolean;
+  field: string;
+}
+
+interface Token {
+  start: number;
+  type:
+    | "comma"
+    | "end"
+    | "lbracket"
+    | "lparen"
+    | "number"
+    | "operator"
+    | "rbracket"
+    | "rparen"
+    | "string"
+    | "word";
+  value: string;
+}
+
+type LexedToken = Token & { end: number };
+
+/** Tokens are read on demand, since unquoted values are not tokenized. */
+interface Cursor {
+  lookahead?: LexedToken;
+  position: number;
+  source: string;
+}
+
+const WHITESPACE = /\s+/y;
+const NUMBER = /-?\d+(?:\.\d+)?(?![\w.])/y;
+const WORD = /[A-Za-z_][\w.-]*/y;
+const SYMBOL_OPERATOR = /==|!=|<>|<=|>=|=|<|>/y;
+const IN_KEYWORD = /\s*in\b/iy;
+// An unquoted value runs to the next ")", "and" or "or"; in a list, to the
+// next space, comma or bracket
+const VALUE_END = /\)|(?:^|\s)(?:and|or)(?=[\s(]|$)/i;
+const LIST_VALUE = /[^\s,[\]()"']+/y;
+const DATA_PREFIX = /^data\./;
+const ORDER_DIRECTION = /^(.+?)(?::(asc|desc))?$/i;
+
+const PUNCTUATION: Record<string, Token["type"]> = {
+  "(": "lparen",
+  ")": "rparen",
+  "[": "lbracket",
+  "]": "rbracket",
+  ",": "comma",
+};
+
+const SYMBOL_OPERATORS: Record<string, Operator> = {
+  "=": "equals",
+  "==": "equals",
+  "!=": "not",
+  "<>": "not",
+  "<": "lt",
+  "<=": "lte",
+  ">": "gt",
+  ">=": "gte",
+};
+
+// Word operators are matched case-insensitively
+const WORD_OPERATORS: Record<string, Operator> = {
+  equals: "equals",
+  not: "not",
+  in: "in",
+  notin: "notIn",
+  lt: "lt",
+  lte: "lte",
+  gt: "gt",
+  gte: "gte",
+  contains: "contains",
+  startswith: "startsWith",
+  endswith: "endsWith",
+};
+
+const KEYWORDS = new Set(["and", "or", "not"]);
+const LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+};
+const TEXT_OPERATORS = new Set<Operator>([
+  "contains",
+  "startsWith",
+  "endsWith",
+]);
+
+/**
+ * Formats an error with the expression and a caret under the offending
+ * position.
+ */
+const syntaxError = (source: string, position: number, message: string) =>
+  new Error(
+    `Invalid --where expression: ${message} at position ${position + 1}\n  ${source}\n  ${" ".repeat(position)}^`
+  );
+
+const matchAt = (pattern: RegExp, source: string, position: number) => {
+  pattern.lastIndex = position;
+  return pattern.exec(source)?.[0];
+};
+
+/** Reads a quoted string starting at `start`; backslash escapes any character. */
+const readString = (source: string, start: number): LexedToken => {
+  const quote = source[start];
+  let value = "";
+  let position = start + 1;
+  while (position < source.length && source[position] !== quote) {
+    if (source[position] === "\\" && position + 1 < source.length) {
+      position++;
+    }
+    value += source[position];
+    position++;
+  }
+  if (position >= source.length) {
+    throw syntaxError(source, start, "unterminated string");
+  }
+  return { type: "string", value, start, end: position + 1 };
+};
+
+const readToken = (source: string, position: number): LexedToken => {
+  const char = source[position];
+  if (PUNCTUATION[char]) {
+    return {
+      type: PUNCTUATION[char],
+      value: char,
+      start: position,
+      end: position + 1,
+    };
+  }
+  if (char === '"' || char === "'") {
+    return readString(source, position);
+  }
+  for (const [type, pattern] of [
+    ["operator", SYMBOL_OPERATOR],
+    ["number", NUMBER],
+    ["word", WORD],
+  ] as const) {
+    const text = matchAt(pattern, source, position);
+    if (text) {
+      return {
+        type,
+        value: text,
+        start: position,
+        end: position + text.length,
+      };
+    }
+  }
+  throw syntaxError(source, position, `unexpected character "${char}"`);
+};
+
+const skipWhitespace = (cursor: Cursor): void => {
+  cursor.position +=
+    matchAt(WHITESPACE, cursor.source, cursor.position)?.length ?? 0;
+};
+
+const peek = (cursor: Cursor): LexedToken => {
+  if (!cursor.lookahead) {
+    skipWhitespace(cursor);
+    const { position, source } = cursor;
+    cursor.lookahead =
+      position < source.length
+        ? readToken(source, position)
+        : { type: "end", value: "", start: position, end: position };
+  }
+  return cursor.lookahead;
+};
+
+const advance = (cursor: Cursor): Token => {
+  const token = peek(cursor);
+  cursor.position = token.end;
+  cursor.lookahead = undefined;
+  return token;
+};
+
+/** The next non-space character, without lexing it. */
+const peekChar = (cursor: Cursor): string | undefined => {
+  if (cursor.lookahead) {
+    return cursor.source[cursor.lookahead.start];
+  }
+  skipWhitespace(cursor);
+  return cursor.source[cursor.position];
+};
+
+const isKeyword = (token: Token, keyword: string): boolean =>
+  token.type === "word" && token.value.toLowerCase() === keyword;
+
+const fail = (cursor: Cursor, message: string, token: Token = peek(cursor)) =>
+  syntaxError(
+    cursor.source,
+    token.start,
+    token.type === "end" ? `${message}, got end of expression` : message
+  );
+
+/** Reads true, false and null, then numbers; anything else stays text. */
+const toScalar = (text: string): unknown => {
+  const lower = text.toLowerCase();
+  if (lower in LITERALS) {
+    return LITERALS[lower];
+  }
+  const number = Number(text);
+  return Number.isFinite(number) ? number : text;
+};
+
+const readBareValue = (cursor: Cursor, inList: boolean): string => {
+  const { position, source } = cursor;
+  if (inList) {
+    return matchAt(LIST_VALUE, source, position) ?? "";
+  }
+  const rest = source.slice(position);
+  return rest.slice(0, VALUE_END.exec(rest)?.index).trimEnd();
+};
+
+/**
+ * Reads a quoted string or an unquoted value such as `John Doe`, `a@b.com`
+ * or `2024-01-01`. Unquoted values are read from the source rather than
+ * tokenized, so they may hold any character.
+ */
+const parseValue = (cursor: Cursor, inList = false): unknown => {
+  const char = peekChar(cursor);
+  if (char === '"' || char === "'") {
+    return advance(cursor).value;
+  }
+  if (char === "[") {
+    throw fail(cursor, "lists are only allowed after in or not in");
+  }
+  cursor.lookahead = undefined;
+  const text = readBareValue(cursor, inList);
+  if (!text) {
+    throw fail(cursor, "expected a value");
+  }
+  cursor.position += text.length;
+  return toScalar(text);
+};
+
+const parseList = (cursor: Cursor): unknown[] => {
+  if (peek(cursor).type !== "lbracket") {
+    throw fail(cursor, 'expected a list such as ["a", "b"]');
+  }
+  advance(cursor);
+  const values: unknown[] = [];
+  while (peekChar(cursor) !== "]") {
+    values.push(parseValue(cursor, true));
+    if (peek(cursor).type === "comma") {
+      advance(cursor);
+    } else if (peek(cursor).type !== "rbracket") {
+      throw fail(cursor, 'expected "," or "]"');
+    }
+  }
+  advance(cursor);
+  return values;
+};
+
+const parseOperator = (cursor: Cursor): Operator => {
+  const token = advance(cursor);
+  if (token.type === "operator") {
+    return SYMBOL_OPERATORS[token.value];
+  }
+  const operator =
+    token.type === "word"
+      ? WORD_OPERATORS[token.value.toLowerCase()]
+      : undefined;
+  if (!operator) {
+    throw fail(
+      cursor,
+      "expected an operator (=, !=, <, <=, >, >=, in, not in, contains, startsWith, endsWith)",
+      token
+    );
+  }
+  // "not in" is the negated list operator; a lone "not" means not equal
+  const notIn =
+    operator === "not" && matchAt(IN_KEYWORD, cursor.source, cursor.position);
+  if (notIn) {
+    cursor.position += notIn.length;
+    return "notIn";
+  }
+  return operator;
+};
+
+const parseComparison = (cursor: Cursor): WhereNode => {
+  const token = peek(cursor);
+  if (token.type !== "word" || KEYWORDS.has(token.value.toLowerCase())) {
+    throw fail(cursor, 'expected a field name or "("');
+  }
+  advance(cursor);
+  const field = token.value.replace(DATA_PREFIX, "");
+  const operator = parseOperator(cursor);
+  if (operator === "in" || operator === "notIn") {
+    return { type: "comparison", field, operator, value: parseList(cursor) };
+  }
+  const value = parseValue(cursor);
+  return {
+    type: "comparison",
+    field,
+    operator,
+    value: TEXT_OPERATORS.has(operator) ? String(value) : value,
+  };
+};
+
+const parseUnary = (cursor: Cursor): WhereNode => {
+  if (isKeyword(peek(cursor), "not")) {
+    advance(cursor);
+    return { type: "not", node: parseUnary(cursor) };
+  }
+  if (peek(cursor).type === "lparen") {
+    advance(cursor);
+    const node = parseOr(cursor);
+    if (peek(cursor).type !== "rparen") {
+      throw fail(cursor, 'expected ")"');
+    }
+    advance(cursor);
+    return node;
+  }
+  return parseComparison(cursor);
+};
+
+const parseBinary = (
+  cursor: Cursor,
+  keyword: "and" | "or",
+  parseOperand: (cursor: Cursor) => WhereNode
+): WhereNode => {
+  const nodes = [parseOperand(cursor)];
+  while (isKeyword(peek(cursor), keyword)) {
+    advance(cursor);
+    nodes.push(parseOperand(cursor));
+  }
+  return nodes.length === 1 ? nodes[0] : { type: keyword, nodes };
+};
+
+const parseAnd = (cursor: Cursor): WhereNode =>
+  parseBinary(cursor, "and", parseUnary);
+
+function parseOr(cursor: Cursor): WhereNode {
+  return parseBinary(cursor, "or", parseAnd);
+}
+
+/**
+ * Parses a `--where` expression such as
+ * `status = "on hold" and (priority > 3 or owner in ["a", "b"])`.
+ * `not` binds tighter than `and`, which binds tighter than `or`.
+ */
+export const parseWhereExpression = (source: string): WhereNode => {
+  const cursor: Cursor = { source, position: 0 };
+  if (peek(cursor).type === "end") {
+    throw fail(cursor, "expected a condition");
+  }
+  const node = parseOr(cursor);
+  if (peek(cursor).type !== "end") {
+    throw fail(cursor, 'expected "and", "or" or end of expression');
+  }
+  return node;
+};
+
+/**
+ * Conditions on distinct field/operator pairs merge into one `fieldFilters`
+ * object, the shape a single condition compiles to. Anything else is kept as
+ * one flat AND list.
+ */
+const mergeAnd = (parts: RecordFilter[]): RecordFilter => {
+  const filters = parts.flatMap((filter) =>
+    Object.keys(filter).length === 1 && filter.AND ? filter.AND : [filter]
+  );
+  if (filters.length === 1) {
+    return filters[0];
+  }
+  const merged: Record<string, Record<string, unknown>> = {};
+  for (const filter of filters) {
+    if (Object.keys(filter).length !== 1 || !filter.fieldFilters) {
+      return { AND: filters };
+    }
+    for (const [field, operators] of Object.entries(filter.fieldFilters)) {
+      const existing = merged[field] ?? {};
+      if (Object.keys(operators).some((operator) => operator in existing)) {
+        return { AND: filters };
+      }
+      merged[field] = { ...existing, ...operators };
+    }
+  }
+  return { fieldFilters: merged };
+};
+
+export const compileWhere = (node: WhereNode): RecordFilter => {
+  switch (node.type) {
+    case "comparison":
+      return {
+        fieldFilters: { [node.field]: { [node.operator]: node.value } },
+      };
+    case "and":
+      return mergeAnd(node.nodes.map(compileWhere));
+    case "or":
+      return { OR: node.nodes.map(compileWhere) };
+    default:
+      return { NOT: compileWhere(node.node) };
+  }
+};
+
+/**
+ * Parses every `--where` option and compiles them to one
+ * DataRecordsFilterInput. Repeated options must all match.
+ */
+export const parseRecordFilter = (
+  clauses: string[]
+): RecordFilter | undefined => {
+  if (clauses.length === 0) {
+    return;
+  }
+  return mergeAnd(
+    clauses.map((clause) => compileWhere(parseWhereExpression(clause)))
+  );
+};
+
+/** Parses `--order-by priority:desc,createdAt` (ascending by default). */
+export const parseOrderBy = (value: string): RecordOrder[] =>
+  value
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [, field, direction] = ORDER_DIRECTION.exec(part) ?? [];
+      return {
+        field: field.replace(DATA_PREFIX, ""),
+        descending: direction?.toLowerCase() === "desc",
+      };
+    });
+
+/** Parses `--select title,status` into field keys. */
+export const parseSelect = (value: string): string[] =>
+  value
+    .split(",")
+    .map((field) => field.trim().replace(DATA_PREFIX, ""))
+    .filter(Boolean);
+
+const RECORD_PROPERTIES = new Set(["id", "createdAt", "updatedAt"]);
+
+/** Reads `id`, `createdAt` and `updatedAt` from the record, anything else from its data. */
+export const getRecordValue = (record: DataRecord, field: string): unknown =>
+  RECORD_PROPERTIES.has(field)
+    ? record[field as keyof DataRecord]
+    : record.data?.[field];
+
+/**
+ * Flattens a record into a table row with `data.` columns. With `select`,
+ * only `id` and the selected fields are kept, in the order given.
+ */
+export const toRecordRow = (
+  record: DataRecord,
+  select?: string[]
+): Record<string, unknown> => {
+  if (!select) {
+    return {
+      id: record.id,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      ...Object.fromEntries(
+        Object.entries(record.data ?? {}).map(([k, v]) => [`data.${k}`, v])
+      ),
+    };
+  }
+  return Object.fromEntries([
+    ["id", record.id],
+    ...select
+      .filter((field) => field !== "id")
+      .map((field) => [
+        RECORD_PROPERTIES.has(field) ? field : `data.${field}`,
+        getRecordValue(record, field),
+      ]),
+  ]);
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const aMissing = a === null || a === undefined;
+  const bMissing = b === null || b === undefined;
+  if (aMissing || bMissing) {
+    return Number(aMissing) - Number(bMissing);
+  }
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+/** Sorts records by each order in turn. Missing values sort last either way. */
+export const sortRecords = (
+  records: DataRecord[],
+  orders: RecordOrder[]
+): DataRecord[] =>
+  [...records].sort((a, b) => {
+    for (const { field, descending } of orders) {
+      const aValue = getRecordValue(a, field);
+      const bValue = getRecordValue(b, field);
+      const missing = compareValues(aValue, bValue);
+      const bothPresent =
+        aValue !== null &&
+        aValue !== undefined &&
+        bValue !== null &&
+        bValue !== undefined;
+      const result = bothPresent && descending ? -missing : missing;
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return 0;
+  });
@@ -0,0 +1,181 @@
+import type { FieldType } from "./types.js";
+
+export const RECORD_REFERENCE_TYPES = new Set<FieldType>([
+  "REFERENCE",
+  "REFERENCE_MANY",
+]);
+export const MEMBER_REFERENCE_TYPES = new Set<FieldType>([
+  "MEMBER_REFERENCE",
+  "MEMBER_REFERENCE_MANY",
+]);
+
+/** The parts of a table schema that references depend on. */
+export interface ReferenceSchema {
+  fields: { key: string; referencedTable: string | null; type: FieldType }[];
+  key: string;
+}
+
+export interface ReferenceIds {
+  /** Old to new member IDs; member references are kept as-is without it. */
+  members?: Map<string, string>;
+  records: Map<string, string>;
+}
+
+export interface RemappedRecord {
+  data: Record<string, unknown>;
+  /** Record references to fill in once every record exists. */
+  deferred: Record<string, unknown>;
+  missing: number;
+}
+
+/**
+ * Orders tables so that every table comes after the tables its REFERENCE
+ * fields point at. Self references and cycles cannot be ordered; imports
+ * fill those in with a second pass.
+ */
+export const orderTablesByReferences = <T extends ReferenceSchema>(
+  tables: T[]
+): T[] => {
+  const byKey = new Map(tables.map((table) => [table.key, table]));
+  const visited = new Set<string>();
+  const ordered: T[] = [];
+
+  const visit = (table: T) => {
+    if (visited.has(table.key)) {
+      return;
+    }
+    visited.add(table.key);
+    for (const field of table.fields) {
+      const referenced = field.referencedTable
+        ? byKey.get(field.referencedTable)
+        : undefined;
+      if (referenced) {
+        visit(referenced);
+      }
+    }
+    ordered.push(table);
+  };
+
+  for (const table of tables) {
+    visit(table);
+  }
+  return ordered;
+};
+
+/**
+ * Returns the named tables plus every table they reach through REFERENCE
+ * fields, in reference order.
+ */
+export const collectReferencedTables = <T extends ReferenceSchema>(
+  keys: string[],
+  tables: T[]
+): T[] => {
+  const byKey = new Map(tables.map((table) => [table.key, table]));
+  const selected = new Map<string, T>();
+  const pending = [...keys];
+
+  while (pending.length > 0) {
+    const key = pending.pop() as string;
+    const table = byKey.get(key);
+    if (!table) {
+      throw new Error(`Table "${key}" not found`);
+    }
+    if (selected.has(key)) {
+      continue;
+    }
+    selected.set(key, table);
+    for (const field of table.fields) {
+      if (field.referencedTable) {
+        pending.push(field.referencedTable);
+      }
+    }
+  }
+  return orderTablesByReferences([...selected.values()]);
+};
+
+/** Maps IDs through `ids`, dropping the ones that have no match. */
+export const remapIds = (
+  value: unknown,
+  ids: Map<string, string>
+): { missing: number; value: unknown } => {
+  if (Array.isArray(value)) {
+    const mapped = value.map((id) => ids.get(String(id)));
+    const found = mapped.filter((id) => id !== undefined);
+    return { missing: mapped.length - found.length, value: found };
+  }
+  if (value === null || value === undefined || value === "") {
+    return { missing: 0, value };
+  }
+  const mapped = ids.get(String(value));
+  return { missing: mapped ? 0 : 1, value: mapped ?? null };
+};
+
+/**
+ * Rewrites member and record references to newly created IDs. A record
+ * reference whose target does not exist yet (a self reference, a cycle or a
+ * failed row) is deferred unless `final` is set, in which case unknown IDs
+ * are dropped and counted as missing.
+ */
+export const remapRecordData = (
+  data: Record<string, unknown>,
+  fieldTypes: Map<string, FieldType>,
+  ids: ReferenceIds,
+  final: boolean
+): RemappedRecord => {
+  const result: RemappedRecord = { data: {}, deferred: {}, missing: 0 };
+
+  for (const [key, value] of Object.entries(data)) {
+    const type = fieldTypes.get(key);
+    if (type && ids.members && MEMBER_REFERENCE_TYPES.has(type)) {
+      const mapped = remapIds(value, ids.members);
+      result.data[key] = mapped.value;
+      result.missing += mapped.missing;
+    } else if (type && RECORD_REFERENCE_TYPES.has(type)) {
+      const mapped = remapIds(value, ids.records);
+      if (mapped.missing > 0 && !final) {
+        result.deferred[key] = value;
+      } else {
+        result.data[key] = mapped.value;
+        result.missing += mapped.missing;
+      }
+    } else {
+      result.data[key] = value;
+    }
+  }
+  return result;
+};
+
+/**
+ * Applies `map` to every value in MEMBER_REFERENCE fields, so member IDs can
+ * be swapped for emails on export and back on import.
+ */
+export const mapMemberReferences = (
+  data: Record<string, unknown>,
+  fieldTypes: Map<string, FieldType>,
+  map: (value: string) => string
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(data).map(([key, value]) => {
+      const type = fieldTypes.get(key);
+      if (
+        !(type && MEMBER_REFERENCE_TYPES.has(type)) ||
+        value === null ||
+        value === undefined ||
+        value === ""
+      ) {
+        return [key, value];
+      }
+      return [
+        key,
+        Array.isArray(value)
+          ? value.map((item) => map(String(item)))
+          : map(String(value)),
+      ];
+    })
+  );
+
+export const getFieldTypes = (table: ReferenceSchema): Map<string, FieldType> =>
+  new Map(table.fields.map((field) => [field.key, field.type]));
+
+export const hasMemberReferences = (table: ReferenceSchema): boolean =>
+  table.fields.some((field) => MEMBER_REFERENCE_TYPES.has(field.type));
@@ -0,0 +1,279 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { parse, stringify } from "yaml";
+import { toTableConfig } from "./app-config.js";
+import { graphqlRequest } from "./graphql-client.js";
+import { RECORD_REFERENCE_TYPES } from "./references.js";
+import type {
+  AccessRule,
+  DataTable,
+  FieldType,
+  TableConfig,
+  TableField,
+  TableSchema,
+} from "./types.js";
+
+export const TABLE_SCHEMA_VERSION = 1;
+
+export const FIELD_TYPES: FieldType[] = [
+  "TEXT",
+  "TEXT_UNIQUE",
+  "NUMBER",
+  "DECIMAL",
+  "BOOLEAN",
+  "DATE",
+  "EMAIL",
+  "URL",
+  "REFERENCE",
+  "REFERENCE_MANY",
+  "MEMBER_REFERENCE",
+  "MEMBER_REFERENCE_MANY",
+];
+
+export const ACCESS_RULES: AccessRule[] = [
+  "PUBLIC",
+  "AUTHENTICATED",
+  "AUTHENTICATED_OWN",
+  "ADMIN_ONLY",
+];
+
+const RULE_KEYS = [
+  "createRule",
+  "readRule",
+  "updateRule",
+  "deleteRule",
+] as const;
+
+const YAML_EXTENSION = /\.ya?ml$/i;
+
+const TABLES_QUERY = `query {
+  dataTables {
+    id
+    key
+    name
+    createRule
+    readRule
+    updateRule
+    deleteRule
+    fields {
+      id
+      key
+      name
+      type
+      required
+      defaultValue
+      tableOrder
+      referencedTableId
+      referencedTable { id key name }
+    }
+  }
+}`;
+
+export const fetchTableConfigs = async (): Promise<TableConfig[]> => {
+  const result = await graphqlRequest<{ dataTables: DataTable[] }>({
+    query: TABLES_QUERY,
+  });
+  return result.dataTables.map(toTableConfig);
+};
+
+/** Drops IDs so a schema can be applied to any app. */
+export const toTableSchema = (table: TableConfig): TableSchema => ({
+  version: TABLE_SCHEMA_VERSION,
+  key: table.key,
+  name: table.name,
+  createRule: table.createRule,
+  readRule: table.readRule,
+  updateRule: table.updateRule,
+  deleteRule: table.deleteRule,
+  fields: table.fields.map(({ id: _id, ...field }) => field),
+});
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseSchemaField = (
+  raw: unknown,
+  index: number
+): TableSchema["fields"][number] => {
+  if (!isPlainObject(raw)) {
+    throw new Error(`fields[${index}] must be an object`);
+  }
+  const { key, name, type, required, defaultValue, referencedTable } = raw;
+  if (typeof key !== "string" || key === "") {
+    throw new Error(`fields[${index}].key must be a non-empty string`);
+  }
+  if (typeof name !== "string" || name === "") {
+    throw new Error(`Field "${key}": name must be a non-empty string`);
+  }
+  if (!FIELD_TYPES.includes(type as FieldType)) {
+    throw new Error(
+      `Field "${key}": type must be one of ${FIELD_TYPES.join(", ")}`
+    );
+  }
+  if (required !== undefined && typeof required !== "boolean") {
+    throw new Error(`Field "${key}": required must be true or false`);
+  }
+  const isReference = RECORD_REFERENCE_TYPES.has(type as FieldType);
+  if (isReference && typeof referencedTable !== "string") {
+    throw new Error(`Field "${key}": referencedTable is required for ${type}`);
+  }
+  if (
+    !isReference &&
+    referencedTable !== undefined &&
+    referencedTable !== null
+  ) {
+    throw new Error(
+      `Field "${key}": referencedTable only applies to REFERENCE and REFERENCE_MANY`
+    );
+  }
+  return {
+    key,
+    name,
+    type: type as FieldType,
+    required: required ?? false,
+    defaultValue: defaultValue ?? null,
+    referencedTable: isReference ? (referencedTable as string) : null,
+  };
+};
+
+/**
+ * Checks the shape of a parsed schema file so mistakes surface before any
+ * change is planned. Omitted `required`, `defaultValue` and
+ * `referencedTable` values are filled in.
+ */
+export const parseTableSchema = (raw: unknown): TableSchema => {
+  if (!isPlainObject(raw)) {
+    throw new Error("Schema must be an object");
+  }
+  if (raw.version !== TABLE_SCHEMA_VERSION) {
+    throw new Error(
+      `Unsupported schema version: ${String(raw.version)}. Expected ${TABLE_SCHEMA_VERSION}.`
+    );
+  }
+  const { key, name, fields } = raw;
+  if (typeof key !== "string" || key === "") {
+    throw new Error("key must be a non-empty string");
+  }
+  if (typeof name !== "string" || name === "") {
+    throw new Error("name must be a non-empty string");
+  }
+  for (const rule of RULE_KEYS) {
+    if (!ACCESS_RULES.includes(raw[rule] as AccessRule)) {
+      throw new Error(`${rule} must be one of ${ACCESS_RULES.join(", ")}`);
+    }
+  }
+  if (!Array.isArray(fields)) {
+    throw new Error("fields must be a list");
+  }
+
+  const parsed = fields.map(parseSchemaField);
+  const seen = new Set<string>();
+  for (const field of parsed) {
+    if (seen.has(field.key)) {
+      throw new Error(`Field "${field.key}" is listed more than once`);
+    }
+    seen.add(field.key);
+  }
+  return {
+    version: TABLE_SCHEMA_VERSION,
+    key,
+    name,
+    createRule: raw.createRule as AccessRule,
+    readRule: raw.readRule as AccessRule,
+    updateRule: raw.updateRule as AccessRule,
+    deleteRule: raw.deleteRule as AccessRule,
+    fields: parsed,
+  };
+};
+
+/** Reads a YAML or JSON schema file (JSON is valid YAML). */
+export const readTableSchema = async (
+  filePath: string
+): Promise<TableSchema> => {
+  try {
+    return parseTableSchema(parse(await readFile(filePath, "utf-8")));
+  } catch (error) {
+    throw new Error(
+      `Invalid schema file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
+/** Writes YAML for .yaml/.yml paths and JSON otherwise. */
+export const writeTableSchema = async (
+  filePath: string,
+  schema: TableSchema
+): Promise<void> => {
+  const content = YAML_EXTENSION.test(filePath)
+    ? stringify(schema)
+    : `${JSON.stringify(schema, null, 2)}\n`;
+  await writeFile(filePath, content);
+};
+
+/**
+ * Returns the schema's field order if applying its field changes would leave
+ * the table in a different order. Created fields are appended by the API, so
+ * the predicted order is the kept fields followed by the new ones.
+ */
+export const planFieldOrder = (
+  schema: TableSchema,
+  current: TableConfig | undefined
+): string[] | null => {
+  const desired = schema.fields.map((field) => field.key);
+  const wanted = new Set(desired);
+  const kept = (current?.fields ?? [])
+    .map((field) => field.key)
+    .filter((key) => wanted.has(key));
+  const predicted = [...kept, ...desired.filter((key) => !kept.includes(key))];
+  return predicted.every((key, index) => key === desired[index])
+    ? null
+    : desired;
+};
+
+/**
+ * Sets each field's tableOrder to its position in `ordered`, skipping fields
+ * that are already in place. Returns the number of fields moved.
+ */
+export const updateFieldOrder = async (
+  ordered: Pick<TableField, "id" | "tableOrder">[]
+): Promise<number> => {
+  let moved = 0;
+  for (const [tableOrder, field] of ordered.entries()) {
+    if (field.tableOrder !== tableOrder) {
+      await graphqlRequest<{ updateDataField: { id: string } }>({
+        query: `mutation($input: UpdateDataFieldInput!) {
+  updateDataField(input: $input) { id }
+}`,
+        variables: { input: { id: field.id, tableOrder } },
+      });
+      moved++;
+    }
+  }
+  return moved;
+};
+
+/**
+ * Moves a table's fields into `keys` order; fields not listed keep their
+ * relative order after them.
+ */
+export const applyFieldOrder = async (
+  tableKey: string,
+  keys: string[]
+): Promise<number> => {
+  const result = await graphqlRequest<{
+    dataTable: { fields: Pick<TableField, "id" | "key" | "tableOrder">[] };
+  }>({
+    query:
+      "query($key: String!) { dataTable(key: $key) { fields { id key tableOrder } } }",
+    variables: { key: tableKey },
+  });
+  const fields = [...result.dataTable.fields].sort(
+    (a, b) => a.tableOrder - b.tableOrder
+  );
+  const position = (key: string) => {
+    const index = keys.indexOf(key);
+    return index === -1 ? keys.length : index;
+  };
+  return await updateFieldOrder(
+    fields.sort((a, b) => position(a.key) - position(b.key))
+  );
+};
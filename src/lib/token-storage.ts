@@ -1,8 +1,30 @@
-import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
-import { homedir } from "node:os";
-import { join } from "node:path";
-import { TOKEN_STORAGE_DIR, TOKEN_STORAGE_FILE } from "./constants.js";
+import { text } from "node:stream/consumers";
+import {
+  clearCredentials,
+  readCredentials,
+  writeCredentials,
+} from "./credential-store.js";
 import { refreshAccessToken, type TokenResponse } from "./oauth.js";
+import { program } from "./program.js";
+
+export const DEFAULT_PROFILE = "default";
+
+const ACCESS_TOKEN_ENV = "MEMBERSTACK_ACCESS_TOKEN";
+const REFRESH_TOKEN_ENV = "MEMBERSTACK_REFRESH_TOKEN";
+const CLIENT_ID_ENV = "MEMBERSTACK_CLIENT_ID";
+const APP_ID_ENV = "MEMBERSTACK_APP_ID";
+const CREDENTIALS_ENV = "MEMBERSTACK_CREDENTIALS";
+
+/** Expiry used for external access tokens that do not carry an `exp` claim. */
+export const NO_EXPIRY = Number.MAX_SAFE_INTEGER;
+
+export type CredentialSource = "env" | "profile" | "stdin";
+
+export const CREDENTIAL_SOURCE_LABELS: Record<CredentialSource, string> = {
+  env: "Environment variables",
+  profile: "Stored profile",
+  stdin: "Standard input",
+};
 
 export interface StoredTokens {
   access_token: string;
@@ -12,69 +34,297 @@ export interface StoredTokens {
   refresh_token?: string;
 }
 
+export interface StoredProfile {
+  active: boolean;
+  name: string;
+  tokens: StoredTokens;
+}
+
+interface TokenStore {
+  current?: string;
+  profiles: Record<string, StoredTokens>;
+}
+
 interface JwtPayload {
   appId?: string;
+  exp?: number;
 }
 
-const parseAppIdFromToken = (accessToken: string): string | undefined => {
+const parseJwtPayload = (accessToken: string): JwtPayload => {
   const parts = accessToken.split(".");
   if (parts.length < 2) {
-    return undefined;
+    return {};
   }
   try {
-    const payload = JSON.parse(
+    return JSON.parse(
       Buffer.from(parts[1], "base64url").toString("utf-8")
     ) as JwtPayload;
-    return payload.appId;
   } catch {
-    return undefined;
+    return {};
+  }
+};
+
+const toStoredTokens = (
+  tokens: TokenResponse,
+  clientId: string
+): StoredTokens => ({
+  access_token: tokens.access_token,
+  refresh_token: tokens.refresh_token,
+  expires_at: Math.floor(Date.now() / 1000) + tokens.expires_in,
+  client_id: clientId,
+  app_id: parseJwtPayload(tokens.access_token).appId,
+});
+
+let stdinCredential: Promise<string> | undefined;
+let refreshedExternalTokens: StoredTokens | undefined;
+// The refresh of one expired token pair, shared by every caller that saw it
+let pendingRefresh:
+  | {
+      accessToken: Promise<string | null>;
+      expiredToken: string;
+      refreshToken: string;
+    }
+  | undefined;
+
+export const getCredentialSource = (): CredentialSource => {
+  if (program.opts().tokenStdin) {
+    return "stdin";
+  }
+  const env = process.env;
+  if (env[CREDENTIALS_ENV] || env[ACCESS_TOKEN_ENV] || env[REFRESH_TOKEN_ENV]) {
+    return "env";
+  }
+  return "profile";
+};
+
+const parseCredential = (value: string): Partial<StoredTokens> => {
+  if (!value.startsWith("{")) {
+    return { access_token: value };
+  }
+  try {
+    return JSON.parse(value) as Partial<StoredTokens>;
+  } catch {
+    throw new Error(
+      "Invalid credential: expected an access token or a JSON credential."
+    );
   }
 };
 
-const getTokenStorageDir = (): string => join(homedir(), TOKEN_STORAGE_DIR);
+const readEnvCredential = (): Partial<StoredTokens> => {
+  const env = process.env;
+  const base = env[CREDENTIALS_ENV]
+    ? parseCredential(env[CREDENTIALS_ENV])
+    : {};
+  return {
+    ...base,
+    access_token: env[ACCESS_TOKEN_ENV] ?? base.access_token,
+    refresh_token: env[REFRESH_TOKEN_ENV] ?? base.refresh_token,
+    client_id: env[CLIENT_ID_ENV] ?? base.client_id,
+  };
+};
+
+const readStdinCredential = async (): Promise<Partial<StoredTokens>> => {
+  stdinCredential ??= text(process.stdin);
+  return parseCredential((await stdinCredential).trim());
+};
+
+const buildExternalTokens = (
+  credential: Partial<StoredTokens>
+): StoredTokens => {
+  const accessToken = credential.access_token ?? "";
+  if (!(accessToken || credential.refresh_token)) {
+    throw new Error("No access token or refresh token was provided.");
+  }
+  if (credential.refresh_token && !credential.client_id) {
+    throw new Error(
+      `A refresh token requires a client ID. Set ${CLIENT_ID_ENV} or include client_id in the credential.`
+    );
+  }
+
+  const payload = parseJwtPayload(accessToken);
+  return {
+    access_token: accessToken,
+    refresh_token: credential.refresh_token,
+    client_id: credential.client_id ?? "",
+    expires_at:
+      credential.expires_at ?? payload.exp ?? (accessToken ? NO_EXPIRY : 0),
+    app_id: process.env[APP_ID_ENV] ?? credential.app_id ?? payload.appId,
+  };
+};
 
-const getTokenStoragePath = (): string =>
-  join(getTokenStorageDir(), TOKEN_STORAGE_FILE);
+const loadExternalTokens = async (): Promise<StoredTokens | null> => {
+  const source = getCredentialSource();
+  if (source === "profile") {
+    return null;
+  }
+  if (refreshedExternalTokens) {
+    return refreshedExternalTokens;
+  }
+  const credential =
+    source === "stdin" ? await readStdinCredential() : readEnvCredential();
+  return buildExternalTokens(credential);
+};
+
+const readStore = async (): Promise<TokenStore> => {
+  const content = await readCredentials();
+  if (!content) {
+    return { profiles: {} };
+  }
+  try {
+    const data = JSON.parse(content) as Partial<TokenStore & StoredTokens>;
+    // Files written before profiles existed hold a single set of tokens
+    if (data.access_token) {
+      return { profiles: { [DEFAULT_PROFILE]: data as StoredTokens } };
+    }
+    return { current: data.current, profiles: data.profiles ?? {} };
+  } catch {
+    return { profiles: {} };
+  }
+};
+
+const writeStore = async (store: TokenStore): Promise<void> => {
+  if (Object.keys(store.profiles).length === 0) {
+    await clearAllTokens();
+    return;
+  }
+
+  await writeCredentials(JSON.stringify(store, null, 2));
+};
+
+const resolveProfile = (store: TokenStore): string =>
+  program.opts().profile ?? store.current ?? DEFAULT_PROFILE;
+
+export const getActiveProfile = async (): Promise<string> =>
+  resolveProfile(await readStore());
 
 export const saveTokens = async (
   tokens: TokenResponse,
   clientId: string
 ): Promise<void> => {
-  const dir = getTokenStorageDir();
-  await mkdir(dir, { recursive: true, mode: 0o700 });
-
-  const data: StoredTokens = {
-    access_token: tokens.access_token,
-    refresh_token: tokens.refresh_token,
-    expires_at: Math.floor(Date.now() / 1000) + tokens.expires_in,
-    client_id: clientId,
-    app_id: parseAppIdFromToken(tokens.access_token),
-  };
+  const store = await readStore();
+  const profile = resolveProfile(store);
 
-  await writeFile(getTokenStoragePath(), JSON.stringify(data, null, 2), {
-    mode: 0o600,
-  });
+  store.profiles[profile] = toStoredTokens(tokens, clientId);
+  store.current ??= profile;
+
+  await writeStore(store);
 };
 
 export const loadTokens = async (): Promise<StoredTokens | null> => {
-  try {
-    const content = await readFile(getTokenStoragePath(), "utf-8");
-    return JSON.parse(content) as StoredTokens;
-  } catch {
-    return null;
+  const store = await readStore();
+  return store.profiles[resolveProfile(store)] ?? null;
+};
+
+const deleteProfile = (store: TokenStore, name: string): void => {
+  delete store.profiles[name];
+  if (store.current === name) {
+    store.current = undefined;
   }
 };
 
+/**
+ * Loads credentials from the environment or stdin when provided, otherwise
+ * from the active profile. External credentials are never written to disk.
+ */
+export const loadCredentials = async (): Promise<StoredTokens | null> =>
+  (await loadExternalTokens()) ?? loadTokens();
+
 export const clearTokens = async (): Promise<void> => {
-  try {
-    await rm(getTokenStoragePath());
-  } catch {
-    // File may not exist, that's fine
+  const store = await readStore();
+  deleteProfile(store, resolveProfile(store));
+  await writeStore(store);
+};
+
+export const clearAllTokens = (): Promise<void> => clearCredentials();
+
+export const listProfiles = async (): Promise<StoredProfile[]> => {
+  const store = await readStore();
+  const active = resolveProfile(store);
+  return Object.keys(store.profiles)
+    .sort()
+    .map((name) => ({
+      name,
+      active: name === active,
+      tokens: store.profiles[name],
+    }));
+};
+
+export const useProfile = async (name: string): Promise<void> => {
+  const store = await readStore();
+  if (!(name in store.profiles)) {
+    throw new Error(`Profile "${name}" not found.`);
   }
+  store.current = name;
+  await writeStore(store);
+};
+
+export const removeProfile = async (name: string): Promise<StoredTokens> => {
+  const store = await readStore();
+  const tokens = store.profiles[name];
+  if (!tokens) {
+    throw new Error(`Profile "${name}" not found.`);
+  }
+  deleteProfile(store, name);
+  await writeStore(store);
+  return tokens;
+};
+
+const refreshTokens = async (
+  tokens: StoredTokens,
+  external: boolean
+): Promise<string> => {
+  const refreshed = await refreshAccessToken({
+    clientId: tokens.client_id,
+    refreshToken: tokens.refresh_token ?? "",
+  });
+
+  if (!external) {
+    await saveTokens(refreshed, tokens.client_id);
+    return refreshed.access_token;
+  }
+
+  const stored = toStoredTokens(refreshed, tokens.client_id);
+  refreshedExternalTokens = {
+    ...stored,
+    app_id: tokens.app_id ?? stored.app_id,
+    refresh_token: stored.refresh_token ?? tokens.refresh_token,
+  };
+  return refreshed.access_token;
+};
+
+/**
+ * Refreshes at most once per expired token pair. Concurrent workers all see
+ * the same expired token, and servers that rotate refresh tokens reject every
+ * use after the first, so later callers wait for the first refresh instead.
+ * The access token is part of the key so that servers which keep the refresh
+ * token still get a new refresh when the refreshed token expires in turn.
+ */
+const refreshOnce = (
+  tokens: StoredTokens,
+  external: boolean
+): Promise<string | null> => {
+  const refreshToken = tokens.refresh_token ?? "";
+  const expiredToken = tokens.access_token;
+  if (
+    pendingRefresh?.refreshToken === refreshToken &&
+    pendingRefresh.expiredToken === expiredToken
+  ) {
+    return pendingRefresh.accessToken;
+  }
+  const accessToken = refreshTokens(tokens, external).catch(() => {
+    // Let a later call try again
+    if (pendingRefresh?.accessToken === accessToken) {
+      pendingRefresh = undefined;
+    }
+    return null;
+  });
+  pendingRefresh = { accessToken, expiredToken, refreshToken };
+  return accessToken;
 };
 
 export const getValidAccessToken = async (): Promise<string | null> => {
-  const tokens = await loadTokens();
+  const external = await loadExternalTokens();
+  const tokens = external ?? (await loadTokens());
   if (!tokens) {
     return null;
   }
@@ -90,20 +340,10 @@ export const getValidAccessToken = async (): Promise<string | null> => {
     return null;
   }
 
-  try {
-    const refreshed = await refreshAccessToken({
-      clientId: tokens.client_id,
-      refreshToken: tokens.refresh_token,
-    });
-
-    await saveTokens(refreshed, tokens.client_id);
-    return refreshed.access_token;
-  } catch {
-    return null;
-  }
+  return refreshOnce(tokens, external !== null);
 };
 
 export const getAppId = async (): Promise<string | null> => {
-  const tokens = await loadTokens();
+  const tokens = await loadCredentials();
   return tokens?.app_id ?? null;
 };
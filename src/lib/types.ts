@@ -58,6 +58,25 @@ export type AccessRule =
   | "AUTHENTICATED_OWN"
   | "ADMIN_ONLY";
 
+export interface TablesFieldAddOptions {
+  defaultValue?: string;
+  key: string;
+  name: string;
+  referencedTable?: string;
+  required?: boolean;
+  tableOrder?: number;
+  type: FieldType;
+}
+
+export interface TablesFieldUpdateOptions {
+  defaultValue?: string;
+  name?: string;
+  referencedTable?: string;
+  required?: boolean;
+  tableOrder?: number;
+  type?: FieldType;
+}
+
 export interface DataTable {
   createdAt: string;
   createRule: AccessRule;
@@ -171,12 +190,32 @@ export interface RecordQueryOptions {
 
 export interface MembersExportOptions {
   all?: boolean;
-  format: string;
-  output: string;
+  format?: ExportFormat;
+  output?: string;
 }
 
+export type ImportMode = "generate" | "password" | "passwordless";
+
+export type ExportFormat =
+  | "csv"
+  | "json"
+  | "jsonl"
+  | "ndjson"
+  | "xlsx"
+  | "parquet"
+  | "sql";
+
 export interface MembersImportOptions {
+  concurrency: number;
+  errorsOut?: string;
   file: string;
+  journal?: string;
+  map?: string;
+  match: string;
+  passwordMode: ImportMode;
+  resume?: string;
+  upsert?: boolean;
+  validateOnly?: boolean;
 }
 
 export interface MembersFindOptions {
@@ -185,38 +224,294 @@ export interface MembersFindOptions {
 }
 
 export interface MembersBulkUpdateOptions {
+  concurrency: number;
   dryRun?: boolean;
+  errorsOut?: string;
   file: string;
+  journal?: string;
+  map?: string;
+  resume?: string;
 }
 
 export interface MembersBulkAddPlanOptions {
+  concurrency: number;
   dryRun?: boolean;
+  errorsOut?: string;
   filter: string;
+  journal?: string;
   plan: string;
+  resume?: string;
 }
 
 export interface RecordsExportOptions {
-  format: string;
-  output: string;
+  format?: ExportFormat;
+  output?: string;
 }
 
 export interface RecordsImportOptions {
+  concurrency: number;
+  errorsOut?: string;
   file: string;
+  journal?: string;
+  map?: string;
+  resume?: string;
+  schema?: string;
+  validateOnly?: boolean;
+}
+
+export interface RecordsExportBundleOptions {
+  output: string;
 }
 
+export interface RecordsImportBundleOptions {
+  concurrency: number;
+  file: string;
+}
+
+/** A table schema line in a `records export-bundle` file. */
+export interface RecordBundleTable {
+  fields: Pick<TableFieldConfig, "key" | "referencedTable" | "type">[];
+  key: string;
+  type: "table";
+}
+
+/** A record line; MEMBER_REFERENCE values hold member emails. */
+export interface RecordBundleRecord {
+  data: Record<string, unknown>;
+  id: string;
+  table: string;
+  type: "record";
+}
+
+export type RecordBundleEntry = RecordBundleTable | RecordBundleRecord;
+
 export interface RecordsFindOptions {
-  skip?: string;
-  take?: string;
+  all?: boolean;
+  orderBy?: string;
+  select?: string;
+  skip?: number;
+  take?: number;
   where?: string[];
 }
 
 export interface RecordsBulkUpdateOptions {
+  concurrency: number;
   dryRun?: boolean;
+  errorsOut?: string;
   file: string;
+  journal?: string;
+  map?: string;
+  resume?: string;
   tableKey?: string;
 }
 
 export interface RecordsBulkDeleteOptions {
+  concurrency: number;
   dryRun?: boolean;
+  errorsOut?: string;
+  journal?: string;
+  resume?: string;
   where?: string[];
 }
+
+export interface PermissionConfig {
+  description: string | null;
+  id?: string;
+  name: string;
+}
+
+export interface PriceConfig {
+  active: boolean;
+  amount: number;
+  currency: string;
+  expiration: { count: number; interval: string } | null;
+  freeTrial: { days: number; enabled: boolean } | null;
+  id?: string;
+  interval: { count: number; type: string } | null;
+  name: string | null;
+  setupFee: { amount: number; enabled: boolean; name: string | null } | null;
+  type: string;
+}
+
+export interface PlanConfig {
+  allowedDomains: string[];
+  description: string | null;
+  icon: string | null;
+  id?: string;
+  isPaid: boolean;
+  limitMembers: boolean;
+  memberLimit: number | null;
+  name: string;
+  permissions: string[];
+  prices: PriceConfig[];
+  priority: number | null;
+  redirects: Record<string, string | null>;
+  restrictToAdmin: boolean;
+  status: "ACTIVE" | "INACTIVE";
+  teamAccountInviteSignupLink: string | null;
+  teamAccountsEnabled: boolean;
+  teamAccountUpgradeLink: string | null;
+}
+
+export interface CustomFieldConfig {
+  hidden: boolean;
+  id?: string;
+  key: string;
+  label: string;
+  restrictToAdmin: boolean;
+  tableHidden: boolean;
+  visibility: "PUBLIC" | "PRIVATE";
+}
+
+export interface TableFieldConfig {
+  defaultValue: unknown;
+  id?: string;
+  key: string;
+  name: string;
+  referencedTable: string | null;
+  required: boolean;
+  type: FieldType;
+}
+
+export interface TableConfig {
+  createRule: AccessRule;
+  deleteRule: AccessRule;
+  fields: TableFieldConfig[];
+  id?: string;
+  key: string;
+  name: string;
+  readRule: AccessRule;
+  updateRule: AccessRule;
+}
+
+/** A table schema file; fields are listed in column order. */
+export interface TableSchema {
+  createRule: AccessRule;
+  deleteRule: AccessRule;
+  fields: Omit<TableFieldConfig, "id">[];
+  key: string;
+  name: string;
+  readRule: AccessRule;
+  updateRule: AccessRule;
+  version: number;
+}
+
+export interface TablesSchemaExportOptions {
+  output?: string;
+}
+
+export interface TablesSchemaApplyOptions {
+  dryRun?: boolean;
+  force?: boolean;
+}
+
+export interface ProviderConfig {
+  clientId: string | null;
+  /** Only read from pushed files; snapshots never contain secrets. */
+  clientSecret?: string;
+  enabled: boolean;
+  id?: string;
+  name: string;
+  type: string;
+}
+
+export interface SsoAppConfig {
+  id?: string;
+  name: string;
+  redirectUris: string[];
+}
+
+export interface AppConfig {
+  app: { id: string; name: string };
+  customFields: CustomFieldConfig[];
+  permissions: PermissionConfig[];
+  plans: PlanConfig[];
+  providers: ProviderConfig[];
+  ssoApps: SsoAppConfig[];
+  tables: TableConfig[];
+  version: number;
+}
+
+export type ConfigResource =
+  | "permission"
+  | "plan"
+  | "price"
+  | "customField"
+  | "table"
+  | "tableField"
+  | "provider"
+  | "ssoApp";
+
+export interface ConfigChange {
+  action: "create" | "update" | "delete";
+  current?: { id?: string };
+  desired?: { id?: string };
+  fields: string[];
+  key: string;
+  parent?: string;
+  resource: ConfigResource;
+}
+
+export interface CodegenOptions {
+  output: string;
+}
+
+export interface ConfigPullOptions {
+  output: string;
+}
+
+export interface ConfigPushOptions {
+  dryRun?: boolean;
+  file: string;
+  force?: boolean;
+  prune?: boolean;
+}
+
+export interface PromoteOptions {
+  dryRun?: boolean;
+  force?: boolean;
+  prune?: boolean;
+}
+
+export interface DiffOptions {
+  exitCode?: boolean;
+}
+
+export interface AppSettings {
+  allowMemberSelfDelete: boolean | null;
+  captchaEnabled: boolean | null;
+  disableConcurrentLogins: boolean | null;
+  memberSessionDurationDays: number | null;
+  preventDisposableEmails: boolean | null;
+  requireUser2FA: boolean | null;
+}
+
+export interface BackupHeader {
+  app: { id: string; name: string };
+  createdAt: string;
+  type: "header";
+  version: number;
+}
+
+export type BackupEntry =
+  | BackupHeader
+  | { data: AppSettings; type: "settings" }
+  | { data: AppConfig; type: "config" }
+  | { data: Member; type: "member" }
+  | { data: DataRecord; table: string; type: "record" };
+
+export interface BackupOptions {
+  output?: string;
+}
+
+export type RestorePasswordMode = Extract<
+  ImportMode,
+  "generate" | "passwordless"
+>;
+
+export interface RestoreOptions {
+  concurrency: number;
+  dryRun?: boolean;
+  force?: boolean;
+  passwordMode: RestorePasswordMode;
+}
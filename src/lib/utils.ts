@@ -1,3 +1,5 @@
+import { createInterface } from "node:readline";
+import { Writable } from "node:stream";
 import Table from "cli-table3";
 import pc from "picocolors";
 import { program } from "./program.js";
@@ -61,6 +63,10 @@ export const printError = (message: string): void => {
   process.stderr.write(`${pc.red(message)}\n`);
 };
 
+export const printWarning = (message: string): void => {
+  process.stderr.write(`${pc.yellow(message)}\n`);
+};
+
 export const printSuccess = (message: string): void => {
   if (program.opts().quiet) {
     return;
@@ -94,59 +100,53 @@ export const parseJsonString = (value: string): unknown => {
   }
 };
 
-export const delay = (ms: number): Promise<void> =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+/** Drops undefined entries; explicit nulls stay so inputs can clear fields. */
+export const compact = (
+  input: Record<string, unknown>
+): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(input).filter(([, v]) => v !== undefined));
 
-const WHERE_OPERATORS = new Set([
-  "equals",
-  "not",
-  "in",
-  "notIn",
-  "lt",
-  "lte",
-  "gt",
-  "gte",
-  "contains",
-  "startsWith",
-  "endsWith",
-]);
+export const prompt = (message: string): Promise<string> =>
+  new Promise((resolve) => {
+    const rl = createInterface({
+      input: process.stdin,
+      output: process.stderr,
+    });
+    rl.question(message, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
 
-const coerceValue = (value: string): unknown => {
-  if (value === "true") {
-    return true;
-  }
-  if (value === "false") {
-    return false;
-  }
-  if (value === "null") {
-    return null;
-  }
-  const num = Number(value);
-  if (!Number.isNaN(num) && value.trim() !== "") {
-    return num;
-  }
-  return value;
-};
+/** Like prompt(), but does not echo the answer (for passphrases). */
+export const promptSecret = (message: string): Promise<string> =>
+  new Promise((resolve) => {
+    let muted = false;
+    const output = new Writable({
+      write(chunk, _encoding, callback) {
+        if (!muted) {
+          process.stderr.write(chunk);
+        }
+        callback();
+      },
+    });
+    const rl = createInterface({
+      input: process.stdin,
+      output,
+      terminal: true,
+    });
+    rl.question(message, (answer) => {
+      rl.close();
+      process.stderr.write("\n");
+      resolve(answer.trim());
+    });
+    muted = true;
+  });
 
-export const parseWhereClause = (
-  clauses: string[]
-): Record<string, Record<string, unknown>> => {
-  const where: Record<string, Record<string, unknown>> = {};
-  for (const clause of clauses) {
-    const parts = clause.split(" ");
-    if (parts.length < 3) {
-      throw new Error(
-        `Invalid where clause: "${clause}". Expected format: "field operator value"`
-      );
-    }
-    const [field, operator, ...valueParts] = parts;
-    const value = valueParts.join(" ");
-    if (!WHERE_OPERATORS.has(operator)) {
-      throw new Error(
-        `Unknown operator "${operator}" in where clause. Valid: ${[...WHERE_OPERATORS].join(", ")}`
-      );
-    }
-    where[field] = { [operator]: coerceValue(value) };
-  }
-  return where;
+export const confirm = async (message: string): Promise<boolean> => {
+  const normalized = (await prompt(message)).toLowerCase();
+  return normalized === "y" || normalized === "yes";
 };
+
+export const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
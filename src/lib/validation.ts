@@ -0,0 +1,220 @@
+import { coerceRecordFields, type FieldSchema } from "./coerce.js";
+import { type JsonSchema, validateJsonSchema } from "./json-schema.js";
+import type { ImportMode } from "./types.js";
+import { printError, printSuccess, printTable } from "./utils.js";
+
+type Row = Record<string, string>;
+/** Extracted record data: JSON input keeps its value types. */
+type DataRow = Record<string, unknown>;
+
+export interface ValidationIssue {
+  column: string;
+  message: string;
+  row: number;
+}
+
+export interface MemberValidationContext {
+  customFieldKeys: Set<string>;
+  defaultMode: ImportMode;
+  /** Rows that will update an existing member under --upsert. */
+  existingRows?: Set<number>;
+  planIds: Set<string>;
+}
+
+export const IMPORT_MODES: ImportMode[] = [
+  "password",
+  "generate",
+  "passwordless",
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CUSTOM_FIELD_PREFIX = "customFields.";
+
+/**
+ * Rows are 1-based data rows: a CSV header is not counted, so data row 1 is
+ * the line after it.
+ */
+const issue = (index: number, column: string, message: string) => ({
+  column,
+  message,
+  row: index + 1,
+});
+
+const checkCredentials = (
+  row: Row,
+  index: number,
+  mode: ImportMode
+): ValidationIssue[] => {
+  if (mode === "password" && !row.password) {
+    return [issue(index, "password", "required in password mode")];
+  }
+  return [];
+};
+
+const checkMemberRow = (
+  row: Row,
+  index: number,
+  context: MemberValidationContext
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const mode = (row.mode?.trim() || context.defaultMode) as ImportMode;
+
+  if (IMPORT_MODES.includes(mode)) {
+    if (!context.existingRows?.has(index)) {
+      issues.push(...checkCredentials(row, index, mode));
+    }
+  } else {
+    issues.push(issue(index, "mode", `unknown mode "${mode}"`));
+  }
+
+  if (!row.email) {
+    issues.push(issue(index, "email", "required"));
+  } else if (!EMAIL_PATTERN.test(row.email.trim())) {
+    issues.push(issue(index, "email", `invalid email "${row.email}"`));
+  }
+
+  for (const planId of (row.plans ?? "").split(",")) {
+    const trimmed = planId.trim();
+    if (trimmed && !context.planIds.has(trimmed)) {
+      issues.push(issue(index, "plans", `unknown plan "${trimmed}"`));
+    }
+  }
+
+  for (const column of Object.keys(row)) {
+    const key = column.slice(CUSTOM_FIELD_PREFIX.length);
+    if (
+      column.startsWith(CUSTOM_FIELD_PREFIX) &&
+      !context.customFieldKeys.has(key)
+    ) {
+      issues.push(issue(index, column, `unknown custom field "${key}"`));
+    }
+  }
+  return issues;
+};
+
+/**
+ * Returns a check for one members import row at a time, so a streamed file
+ * can be validated without holding it: modes and credentials, email format,
+ * duplicate emails within the file, plan IDs and custom field keys. Rows
+ * must be passed in file order.
+ */
+export const createMemberRowChecker = (context: MemberValidationContext) => {
+  const seenEmails = new Map<string, number>();
+
+  return (row: Row | Error, index: number): ValidationIssue[] => {
+    if (row instanceof Error) {
+      return [issue(index, "", row.message)];
+    }
+    const issues = checkMemberRow(row, index, context);
+
+    const email = row.email?.trim().toLowerCase();
+    const firstRow = email ? seenEmails.get(email) : undefined;
+    if (firstRow !== undefined) {
+      issues.push(
+        issue(
+          index,
+          "email",
+          `duplicate of data row ${firstRow + 1} (${email})`
+        )
+      );
+    } else if (email) {
+      seenEmails.set(email, index);
+    }
+    return issues;
+  };
+};
+
+const checkRecordRow = (
+  row: DataRow,
+  index: number,
+  fields: FieldSchema[],
+  schema?: JsonSchema
+): { data: Record<string, unknown>; issues: ValidationIssue[] } => {
+  // Without a schema there is nothing to coerce against; rows pass as-is
+  const { data, issues } =
+    fields.length > 0
+      ? coerceRecordFields(row, fields)
+      : { data: row, issues: [] };
+  const rowIssues = issues.map(({ column, message }) =>
+    issue(index, column, message)
+  );
+  for (const field of fields) {
+    if (field.required && !(field.key in row)) {
+      rowIssues.push(issue(index, field.key, "required"));
+    }
+  }
+  if (schema) {
+    // Columns already reported against the table are not repeated
+    const reported = new Set(rowIssues.map(({ column }) => column));
+    for (const { path, message } of validateJsonSchema(data, schema)) {
+      if (!reported.has(path)) {
+        rowIssues.push(issue(index, path, message));
+      }
+    }
+  }
+  return { data, issues: rowIssues };
+};
+
+/**
+ * Returns a check for one records import row at a time, so a streamed file
+ * can be validated without holding it: values that do not fit their field
+ * type, missing required fields, and TEXT_UNIQUE values that repeat within
+ * the file or already exist in the table. Rows hold extracted data fields.
+ * With a JSON Schema from `codegen json-schema`, coerced rows are checked
+ * against it as well.
+ */
+export const createRecordRowChecker = (
+  fields: FieldSchema[],
+  existingUnique: Map<string, Set<string>>,
+  schema?: JsonSchema
+) => {
+  const unique = fields.filter((field) => field.type === "TEXT_UNIQUE");
+  const seen = new Map<string, number>();
+
+  return (row: DataRow | Error, index: number): ValidationIssue[] => {
+    if (row instanceof Error) {
+      return [issue(index, "", row.message)];
+    }
+    const checked = checkRecordRow(row, index, fields, schema);
+    const issues = checked.issues;
+
+    for (const { key } of unique) {
+      const value = checked.data[key];
+      if (value === undefined) {
+        continue;
+      }
+      const text = String(value);
+      const firstRow = seen.get(`${key}\u0000${text}`);
+      if (firstRow !== undefined) {
+        issues.push(
+          issue(index, key, `"${text}" repeats data row ${firstRow + 1}`)
+        );
+      } else if (existingUnique.get(key)?.has(text)) {
+        issues.push(issue(index, key, `"${text}" already exists`));
+      } else {
+        seen.set(`${key}\u0000${text}`, index);
+      }
+    }
+    return issues;
+  };
+};
+
+/**
+ * Prints every issue as a table and a one-line verdict. Sets a failing exit
+ * code when anything was found.
+ */
+export const printValidationReport = (
+  issues: ValidationIssue[],
+  rowCount: number
+): void => {
+  if (issues.length === 0) {
+    printSuccess(`Validation passed: ${rowCount} data row(s) checked`);
+    return;
+  }
+  printTable(issues);
+  const badRows = new Set(issues.map((entry) => entry.row)).size;
+  printError(
+    `Validation failed: ${issues.length} issue(s) in ${badRows} of ${rowCount} data row(s)`
+  );
+  process.exitCode = 1;
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMockSpinner, runCommand } from "./helpers.js";
+
+vi.mock("yocto-spinner", () => ({ default: () => createMockSpinner() }));
+vi.mock("../../src/lib/program.js", () => ({
+  program: { opts: () => ({}) },
+}));
+
+const writeBackup = vi.fn();
+vi.mock("../../src/lib/backup.js", () => ({
+  writeBackup: (...args: unknown[]) => writeBackup(...args),
+}));
+
+const { backupCommand } = await import("../../src/commands/backup.js");
+
+describe("backup", () => {
+  it("writes the archive to --output and prints what it contains", async () => {
+    writeBackup.mockResolvedValueOnce({
+      counts: { members: 2, records: { posts: 3 } },
+      filePath: "/tmp/app.jsonl.gz",
+    });
+    const stderrSpy = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    await runCommand(backupCommand, ["--output", "app.jsonl.gz"]);
+
+    const output = stderrSpy.mock.calls.map((call) => call[0]).join("");
+    stderrSpy.mockRestore();
+    expect(writeBackup).toHaveBeenCalledWith(
+      "app.jsonl.gz",
+      expect.any(Function)
+    );
+    expect(output).toContain("Backup written to /tmp/app.jsonl.gz");
+    expect(output).toContain("records: posts");
+  });
+
+  it("handles errors", async () => {
+    writeBackup.mockRejectedValueOnce(new Error("Network down"));
+
+    const original = process.exitCode;
+    await runCommand(backupCommand, []);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMockSpinner, runCommand } from "./helpers.js";
+
+vi.mock("yocto-spinner", () => ({ default: () => createMockSpinner() }));
+vi.mock("../../src/lib/program.js", () => ({
+  program: { opts: () => ({}) },
+}));
+
+const mockWriteFile = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  writeFile: (...args: unknown[]) => mockWriteFile(...args),
+}));
+
+const fetchAppConfig = vi.fn();
+vi.mock("../../src/lib/app-config.js", () => ({
+  fetchAppConfig: () => fetchAppConfig(),
+}));
+
+const { codegenCommand } = await import("../../src/commands/codegen.js");
+
+const DEFAULT_PATH = /memberstack\.d\.ts$/;
+const SCHEMA_PATH = /memberstack\.schema\.json$/;
+const ZOD_PATH = /memberstack\.zod\.ts$/;
+
+const config = {
+  version: 1,
+  app: { id: "app_1", name: "Blog" },
+  permissions: [],
+  plans: [{ id: "pln_1", name: "Pro" }],
+  customFields: [],
+  tables: [],
+  providers: [],
+  ssoApps: [],
+};
+
+describe("codegen", () => {
+  it("types writes declarations to memberstack.d.ts by default", async () => {
+    fetchAppConfig.mockResolvedValueOnce(config);
+
+    await runCommand(codegenCommand, ["types"]);
+
+    const [path, content] = mockWriteFile.mock.calls[0];
+    expect(path).toMatch(DEFAULT_PATH);
+    expect(content).toContain('export type PlanId = "pln_1";');
+  });
+
+  it("types writes to --output", async () => {
+    fetchAppConfig.mockResolvedValueOnce(config);
+
+    await runCommand(codegenCommand, ["types", "--output", "/tmp/app.d.ts"]);
+
+    expect(mockWriteFile).toHaveBeenCalledWith(
+      "/tmp/app.d.ts",
+      expect.any(String)
+    );
+  });
+
+  it("json-schema and zod write their own default files", async () => {
+    fetchAppConfig.mockResolvedValue(config);
+
+    await runCommand(codegenCommand, ["json-schema"]);
+    await runCommand(codegenCommand, ["zod"]);
+
+    const [[schemaPath, schema], [zodPath, zod]] = mockWriteFile.mock.calls;
+    expect(schemaPath).toMatch(SCHEMA_PATH);
+    expect(JSON.parse(schema).$defs).toEqual({});
+    expect(zodPath).toMatch(ZOD_PATH);
+    expect(zod).toContain('import { z } from "zod";');
+  });
+
+  it("types handles errors gracefully", async () => {
+    fetchAppConfig.mockRejectedValueOnce(new Error("Network error"));
+
+    const original = process.exitCode;
+    await runCommand(codegenCommand, ["types"]);
+    expect(process.exitCode).toBe(1);
+    expect(mockWriteFile).not.toHaveBeenCalled();
+    process.exitCode = original;
+  });
+});
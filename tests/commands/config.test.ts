@@ -0,0 +1,342 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMockSpinner, runCommand } from "./helpers.js";
+
+vi.mock("yocto-spinner", () => ({ default: () => createMockSpinner() }));
+let jsonOutput = false;
+vi.mock("../../src/lib/program.js", () => ({
+  program: { opts: () => ({ json: jsonOutput }) },
+}));
+
+const readFile = vi.fn();
+const writeFile = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  readFile: (...args: unknown[]) => readFile(...args),
+  writeFile: (...args: unknown[]) => writeFile(...args),
+}));
+
+let mockAnswer = "y";
+vi.mock("node:readline", () => ({
+  createInterface: () => ({
+    question: (_msg: string, cb: (answer: string) => void) => {
+      cb(mockAnswer);
+    },
+    close: vi.fn(),
+  }),
+}));
+
+const graphqlRequest = vi.fn();
+vi.mock("../../src/lib/graphql-client.js", () => ({
+  graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
+}));
+
+const { configCommand } = await import("../../src/commands/config.js");
+
+const remoteConfig = {
+  currentApp: { id: "app_1", name: "My App" },
+  getPermissions: [{ id: "per_1", name: "view", description: null }],
+  getPlans: [
+    {
+      id: "pln_1",
+      name: "Pro",
+      description: "Pro plan",
+      icon: null,
+      status: "ACTIVE",
+      isPaid: true,
+      priority: 1,
+      limitMembers: false,
+      memberLimit: null,
+      restrictToAdmin: false,
+      teamAccountsEnabled: false,
+      teamAccountUpgradeLink: null,
+      teamAccountInviteSignupLink: null,
+      allowedDomains: [],
+      redirects: null,
+      permissions: [{ id: "per_1" }],
+      prices: [],
+    },
+  ],
+  getCustomFields: [
+    {
+      id: "cf_1",
+      key: "company",
+      label: "Company",
+      hidden: false,
+      visibility: "PUBLIC",
+      restrictToAdmin: false,
+      tableHidden: false,
+    },
+  ],
+  dataTables: [
+    {
+      id: "tbl_1",
+      key: "posts",
+      name: "Posts",
+      createRule: "AUTHENTICATED",
+      readRule: "PUBLIC",
+      updateRule: "AUTHENTICATED_OWN",
+      deleteRule: "ADMIN_ONLY",
+      fields: [
+        {
+          id: "fld_1",
+          key: "title",
+          name: "Title",
+          type: "TEXT",
+          required: true,
+          defaultValue: null,
+          tableOrder: 0,
+          referencedTableId: null,
+        },
+      ],
+    },
+  ],
+  getSSOClients: [],
+  getSSOApps: [],
+};
+
+describe("config", () => {
+  it("pull writes the app config to a file", async () => {
+    graphqlRequest.mockResolvedValueOnce(remoteConfig);
+
+    await runCommand(configCommand, ["pull", "--output", "app.json"]);
+
+    expect(writeFile).toHaveBeenCalledWith(
+      expect.stringContaining("app.json"),
+      expect.any(String)
+    );
+    const written = JSON.parse(writeFile.mock.calls[0][1]);
+    expect(written.version).toBe(1);
+    expect(written.plans[0].permissions).toEqual(["view"]);
+    expect(written.tables[0].fields[0]).toEqual(
+      expect.objectContaining({ key: "title", referencedTable: null })
+    );
+  });
+
+  it("push applies only changed resources", async () => {
+    graphqlRequest.mockResolvedValueOnce(remoteConfig);
+    await runCommand(configCommand, ["pull"]);
+    const config = JSON.parse(writeFile.mock.calls[0][1]);
+
+    config.permissions.push({ name: "edit", description: null });
+    config.plans[0].permissions = ["edit", "view"];
+    readFile.mockResolvedValueOnce(JSON.stringify(config));
+    graphqlRequest
+      .mockResolvedValueOnce(remoteConfig)
+      .mockResolvedValueOnce({ createPermission: { id: "per_2" } })
+      .mockResolvedValueOnce({ updatePlan: { id: "pln_1" } });
+
+    await runCommand(configCommand, ["push"]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(4);
+    expect(graphqlRequest.mock.calls[2][0].variables.input).toEqual({
+      name: "edit",
+      description: null,
+    });
+    expect(graphqlRequest.mock.calls[3][0].variables.input).toEqual(
+      expect.objectContaining({
+        planId: "pln_1",
+        permissionIds: ["per_2", "per_1"],
+      })
+    );
+  });
+
+  it("push --dry-run does not apply changes", async () => {
+    readFile.mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        permissions: [{ name: "edit", description: null }],
+      })
+    );
+    graphqlRequest.mockResolvedValueOnce(remoteConfig);
+
+    await runCommand(configCommand, ["push", "--dry-run"]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("push --dry-run --json shows values without provider secrets", async () => {
+    readFile.mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        permissions: [{ name: "view", description: "Can view" }],
+        providers: [
+          {
+            type: "GOOGLE",
+            name: "Google",
+            clientId: "client_1",
+            clientSecret: "secret",
+            enabled: true,
+          },
+        ],
+      })
+    );
+    graphqlRequest.mockResolvedValueOnce(remoteConfig);
+    const chunks: string[] = [];
+    vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+      chunks.push(String(chunk));
+      return true;
+    });
+
+    jsonOutput = true;
+    await runCommand(configCommand, ["push", "--dry-run"]);
+    jsonOutput = false;
+
+    expect(JSON.parse(chunks.join(""))).toEqual([
+      expect.objectContaining({
+        action: "update",
+        name: "view",
+        before: { description: null },
+        after: { description: "Can view" },
+      }),
+      expect.objectContaining({
+        action: "create",
+        name: "GOOGLE",
+        before: null,
+        after: {
+          type: "GOOGLE",
+          name: "Google",
+          clientId: "client_1",
+          enabled: true,
+        },
+      }),
+    ]);
+  });
+
+  it("push skips deletions unless --prune is set", async () => {
+    readFile.mockResolvedValue(
+      JSON.stringify({ version: 1, customFields: [] })
+    );
+    graphqlRequest.mockResolvedValueOnce(remoteConfig);
+
+    await runCommand(configCommand, ["push"]);
+    expect(graphqlRequest).toHaveBeenCalledTimes(1);
+
+    graphqlRequest
+      .mockResolvedValueOnce(remoteConfig)
+      .mockResolvedValueOnce({ deleteCustomField: "cf_1" });
+
+    await runCommand(configCommand, ["push", "--prune", "--force"]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(3);
+    expect(graphqlRequest.mock.calls[2][0].variables.input).toEqual({
+      customFieldId: "cf_1",
+    });
+  });
+
+  it("push --prune asks before deleting", async () => {
+    readFile.mockResolvedValue(
+      JSON.stringify({ version: 1, customFields: [] })
+    );
+    graphqlRequest.mockResolvedValueOnce(remoteConfig);
+    const stderrSpy = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    mockAnswer = "n";
+    await runCommand(configCommand, ["push", "--prune"]);
+    mockAnswer = "y";
+    const output = stderrSpy.mock.calls.map((call) => call[0]).join("");
+    stderrSpy.mockRestore();
+
+    expect(output).toContain("Aborted.");
+    expect(graphqlRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("push creates new tables before their fields", async () => {
+    readFile.mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        tables: [
+          {
+            key: "posts",
+            name: "Posts",
+            createRule: "AUTHENTICATED",
+            readRule: "PUBLIC",
+            updateRule: "AUTHENTICATED_OWN",
+            deleteRule: "ADMIN_ONLY",
+            fields: [
+              {
+                key: "title",
+                name: "Title",
+                type: "TEXT",
+                required: true,
+                defaultValue: null,
+                referencedTable: null,
+              },
+            ],
+          },
+          {
+            key: "comments",
+            name: "Comments",
+            createRule: "AUTHENTICATED",
+            readRule: "PUBLIC",
+            updateRule: "AUTHENTICATED_OWN",
+            deleteRule: "ADMIN_ONLY",
+            fields: [
+              {
+                key: "post",
+                name: "Post",
+                type: "REFERENCE",
+                required: false,
+                defaultValue: null,
+                referencedTable: "posts",
+              },
+            ],
+          },
+        ],
+      })
+    );
+    graphqlRequest
+      .mockResolvedValueOnce(remoteConfig)
+      .mockResolvedValueOnce({ createDataTable: { id: "tbl_2" } })
+      .mockResolvedValueOnce({ createDataField: { id: "fld_2" } });
+
+    await runCommand(configCommand, ["push"]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(3);
+    expect(graphqlRequest.mock.calls[2][0].variables.input).toEqual({
+      tableId: "tbl_2",
+      key: "post",
+      name: "Post",
+      type: "REFERENCE",
+      required: false,
+      defaultValue: null,
+      referencedTableId: "tbl_1",
+    });
+  });
+
+  it("push rejects unsupported config versions", async () => {
+    readFile.mockResolvedValueOnce(JSON.stringify({ version: 99 }));
+
+    const original = process.exitCode;
+    await runCommand(configCommand, ["push"]);
+    expect(process.exitCode).toBe(1);
+    expect(graphqlRequest).not.toHaveBeenCalled();
+    process.exitCode = original;
+  });
+
+  it("push sets exit code when a change fails", async () => {
+    readFile.mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        permissions: [{ name: "edit", description: null }],
+      })
+    );
+    graphqlRequest
+      .mockResolvedValueOnce(remoteConfig)
+      .mockRejectedValueOnce(new Error("Forbidden"));
+
+    const original = process.exitCode;
+    await runCommand(configCommand, ["push"]);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+
+  it("pull handles errors gracefully", async () => {
+    graphqlRequest.mockRejectedValueOnce(new Error("Network error"));
+
+    const original = process.exitCode;
+    await runCommand(configCommand, ["pull"]);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+});
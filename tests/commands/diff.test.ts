@@ -0,0 +1,173 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMockSpinner, runCommand } from "./helpers.js";
+
+vi.mock("yocto-spinner", () => ({ default: () => createMockSpinner() }));
+
+let jsonOutput = false;
+vi.mock("../../src/lib/program.js", () => ({
+  program: { opts: () => ({ json: jsonOutput }) },
+}));
+
+const readFile = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  readFile: (...args: unknown[]) => readFile(...args),
+}));
+
+const graphqlRequest = vi.fn();
+vi.mock("../../src/lib/graphql-client.js", () => ({
+  graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
+}));
+
+const { diffCommand } = await import("../../src/commands/diff.js");
+
+const buildRemoteConfig = (
+  overrides: Record<string, unknown> = {}
+): Record<string, unknown> => ({
+  currentApp: { id: "app_1", name: "My App" },
+  getPermissions: [],
+  getPlans: [],
+  getCustomFields: [],
+  dataTables: [],
+  getSSOClients: [],
+  getSSOApps: [],
+  ...overrides,
+});
+
+const table = (rule: string) => ({
+  id: "tbl_1",
+  key: "posts",
+  name: "Posts",
+  createRule: "AUTHENTICATED",
+  readRule: rule,
+  updateRule: "AUTHENTICATED_OWN",
+  deleteRule: "ADMIN_ONLY",
+  fields: [],
+});
+
+const captureStdout = () => {
+  const chunks: string[] = [];
+  vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+    chunks.push(String(chunk));
+    return true;
+  });
+  return () => JSON.parse(chunks.join(""));
+};
+
+describe("diff", () => {
+  it("compares sandbox to live by default", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce(buildRemoteConfig())
+      .mockResolvedValueOnce(buildRemoteConfig());
+
+    await runCommand(diffCommand, []);
+
+    expect(graphqlRequest.mock.calls[0][0].mode).toBe("sandbox");
+    expect(graphqlRequest.mock.calls[1][0].mode).toBe("live");
+  });
+
+  it("reports missing, changed and extra resources as JSON", async () => {
+    jsonOutput = true;
+    const readOutput = captureStdout();
+    graphqlRequest
+      .mockResolvedValueOnce(
+        buildRemoteConfig({
+          getPermissions: [{ id: "per_1", name: "view", description: null }],
+          dataTables: [table("PUBLIC")],
+        })
+      )
+      .mockResolvedValueOnce(
+        buildRemoteConfig({
+          getCustomFields: [
+            {
+              id: "cf_1",
+              key: "company",
+              label: "Company",
+              hidden: false,
+              visibility: "PUBLIC",
+              restrictToAdmin: false,
+              tableHidden: false,
+            },
+          ],
+          dataTables: [table("AUTHENTICATED")],
+        })
+      );
+
+    await runCommand(diffCommand, ["sandbox", "live"]);
+    jsonOutput = false;
+
+    expect(readOutput()).toEqual([
+      {
+        action: "missing",
+        resource: "permission",
+        name: "view",
+        fields: "",
+        before: null,
+        after: { id: "per_1", name: "view", description: null },
+      },
+      {
+        action: "changed",
+        resource: "table",
+        name: "posts",
+        fields: "readRule",
+        before: { readRule: "AUTHENTICATED" },
+        after: { readRule: "PUBLIC" },
+      },
+      {
+        action: "extra",
+        resource: "customField",
+        name: "company",
+        fields: "",
+        before: {
+          id: "cf_1",
+          key: "company",
+          label: "Company",
+          hidden: false,
+          visibility: "PUBLIC",
+          restrictToAdmin: false,
+          tableHidden: false,
+        },
+        after: null,
+      },
+    ]);
+  });
+
+  it("compares two config snapshots without calling the API", async () => {
+    readFile
+      .mockResolvedValueOnce(
+        JSON.stringify({
+          version: 1,
+          permissions: [{ name: "view", description: null }],
+        })
+      )
+      .mockResolvedValueOnce(JSON.stringify({ version: 1, permissions: [] }));
+
+    const original = process.exitCode;
+    await runCommand(diffCommand, ["a.json", "b.json", "--exit-code"]);
+
+    expect(graphqlRequest).not.toHaveBeenCalled();
+    expect(readFile).toHaveBeenCalledTimes(2);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+
+  it("--exit-code leaves exit code unset when there are no differences", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce(buildRemoteConfig())
+      .mockResolvedValueOnce(buildRemoteConfig());
+
+    const original = process.exitCode;
+    process.exitCode = undefined;
+    await runCommand(diffCommand, ["--exit-code"]);
+    expect(process.exitCode).toBeUndefined();
+    process.exitCode = original;
+  });
+
+  it("handles errors gracefully", async () => {
+    readFile.mockRejectedValueOnce(new Error("ENOENT"));
+
+    const original = process.exitCode;
+    await runCommand(diffCommand, ["missing.json"]);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+});
@@ -5,17 +5,45 @@ vi.mock("yocto-spinner", () => ({ default: () => createMockSpinner() }));
 vi.mock("../../src/lib/program.js", () => ({
   program: { opts: () => ({}) },
 }));
-const readInputFile = vi.fn();
+const inputRows = vi.fn();
 const writeOutputFile = vi.fn();
-vi.mock("../../src/lib/csv.js", () => ({
-  readInputFile: (...args: unknown[]) => readInputFile(...args),
+vi.mock("../../src/lib/csv.js", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  getFileFormat: (path: string) => (path.endsWith(".json") ? "json" : "csv"),
+  // Rows come from the inputRows fixture, read again on every pass
+  async *streamInputRows(...args: unknown[]) {
+    yield* await inputRows(...args);
+  },
   writeOutputFile: (...args: unknown[]) => writeOutputFile(...args),
 }));
+const createOutputWriter = vi.fn();
+const writeRows = vi.fn();
+const abortWriter = vi.fn();
+vi.mock("../../src/lib/output-writer.js", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  createOutputWriter: (...args: unknown[]) => {
+    createOutputWriter(...args);
+    return Promise.resolve({
+      abort: () => Promise.resolve(abortWriter()),
+      write: (rows: unknown[]) => Promise.resolve(writeRows(rows)),
+      close: () => Promise.resolve(),
+    });
+  },
+}));
+
+const mockReadFile = vi.fn();
 const mockWriteFile = vi.fn().mockResolvedValue(undefined);
 vi.mock("node:fs/promises", () => ({
+  readFile: (...args: unknown[]) => mockReadFile(...args),
   writeFile: (...args: unknown[]) => mockWriteFile(...args),
 }));
 
+const startJournal = vi.fn();
+vi.mock("../../src/lib/journal.js", () => ({
+  startJournal: async (...args: unknown[]) =>
+    (await startJournal(...args)) ?? {},
+}));
+
 const graphqlRequest = vi.fn();
 vi.mock("../../src/lib/graphql-client.js", () => ({
   graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
@@ -23,6 +51,8 @@ vi.mock("../../src/lib/graphql-client.js", () => ({
 
 const { membersCommand } = await import("../../src/commands/members.js");
 
+const GENERATED_PASSWORD = /^[\w-]{32}$/;
+
 const mockMember = {
   id: "mem_1",
   createdAt: "2024-01-01",
@@ -369,21 +399,49 @@ describe("members", () => {
         pageInfo: { endCursor: null },
       },
     });
-    writeOutputFile.mockResolvedValueOnce(undefined);
 
     await runCommand(membersCommand, ["export", "--format", "csv"]);
 
-    expect(writeOutputFile).toHaveBeenCalledWith(
+    expect(createOutputWriter).toHaveBeenCalledWith(
       expect.stringContaining("members.csv"),
-      expect.arrayContaining([
-        expect.objectContaining({ email: "test@example.com" }),
-      ]),
-      "csv"
+      "csv",
+      { name: "members" }
     );
+    expect(writeRows).toHaveBeenCalledWith([
+      expect.objectContaining({ email: "test@example.com" }),
+    ]);
+  });
+
+  it("export writes each page as it arrives", async () => {
+    const fullPage = Array.from({ length: 200 }, (_, index) => ({
+      node: { ...mockMember, id: `mem_${index}` },
+    }));
+    graphqlRequest
+      .mockResolvedValueOnce({
+        getMembers: { edges: fullPage, pageInfo: { endCursor: "cursor_1" } },
+      })
+      .mockResolvedValueOnce({
+        getMembers: {
+          edges: [{ node: mockMember }],
+          pageInfo: { endCursor: null },
+        },
+      });
+
+    await runCommand(membersCommand, ["export", "--format", "jsonl"]);
+
+    expect(createOutputWriter).toHaveBeenCalledWith(
+      expect.stringContaining("members.jsonl"),
+      "jsonl",
+      { name: "members" }
+    );
+    expect(graphqlRequest.mock.calls[1][0].variables.after).toBe("cursor_1");
+    expect(writeRows).toHaveBeenCalledTimes(2);
+    expect(writeRows.mock.calls[0][0]).toHaveLength(200);
+    expect(writeRows.mock.calls[1][0]).toHaveLength(1);
   });
 
   it("import creates members from file rows", async () => {
-    readInputFile.mockResolvedValueOnce([
+    inputRows.mockResolvedValueOnce([
       { email: "a@test.com", password: "pass1" },
       { email: "b@test.com", password: "pass2" },
     ]);
@@ -397,20 +455,40 @@ describe("members", () => {
 
     await runCommand(membersCommand, ["import", "--file", "members.csv"]);
 
-    expect(readInputFile).toHaveBeenCalledWith("members.csv");
+    expect(inputRows).toHaveBeenCalledWith("members.csv");
     expect(graphqlRequest).toHaveBeenCalledTimes(2);
   });
 
-  it("import skips rows missing email or password", async () => {
-    readInputFile.mockResolvedValueOnce([{ email: "a@test.com" }]);
+  it("import reads plan arrays and numbers from JSON files", async () => {
+    inputRows.mockResolvedValueOnce([
+      { email: "a@test.com", password: 12_345_678, plans: ["pln_1", "pln_2"] },
+    ]);
+    graphqlRequest.mockResolvedValueOnce({
+      signupMemberEmailPassword: { member: mockMember },
+    });
 
+    await runCommand(membersCommand, ["import", "--file", "members.json"]);
+
+    expect(graphqlRequest.mock.calls[0][0].variables.input).toMatchObject({
+      email: "a@test.com",
+      password: "12345678",
+      plans: [{ planId: "pln_1" }, { planId: "pln_2" }],
+    });
+  });
+
+  it("import skips rows missing a password in password mode", async () => {
+    inputRows.mockResolvedValueOnce([{ email: "a@test.com" }]);
+
+    const original = process.exitCode;
     await runCommand(membersCommand, ["import", "--file", "members.csv"]);
 
     expect(graphqlRequest).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
   });
 
   it("import continues on row failure", async () => {
-    readInputFile.mockResolvedValueOnce([
+    inputRows.mockResolvedValueOnce([
       { email: "a@test.com", password: "pass1" },
       { email: "b@test.com", password: "pass2" },
     ]);
@@ -420,13 +498,431 @@ describe("members", () => {
         signupMemberEmailPassword: { member: mockMember },
       });
 
+    const original = process.exitCode;
     await runCommand(membersCommand, ["import", "--file", "members.csv"]);
 
     expect(graphqlRequest).toHaveBeenCalledTimes(2);
+    expect(process.exitCode).toBe(2);
+    process.exitCode = original;
+  });
+
+  it("import --concurrency imports every row", async () => {
+    inputRows.mockResolvedValueOnce([
+      { email: "a@test.com", password: "pass1" },
+      { email: "b@test.com", password: "pass2" },
+      { email: "c@test.com", password: "pass3" },
+    ]);
+    graphqlRequest.mockResolvedValue({
+      signupMemberEmailPassword: { member: mockMember },
+    });
+
+    await runCommand(membersCommand, [
+      "import",
+      "--file",
+      "members.csv",
+      "--concurrency",
+      "3",
+    ]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(3);
+    const emails = graphqlRequest.mock.calls.map(
+      (call) => call[0].variables.input.email
+    );
+    expect(emails.sort()).toEqual(["a@test.com", "b@test.com", "c@test.com"]);
+  });
+
+  it("import --errors-out writes failures with row and error columns", async () => {
+    inputRows.mockResolvedValueOnce([
+      { email: "a@test.com", password: "pass1" },
+      { email: "b@test.com" },
+    ]);
+    graphqlRequest.mockRejectedValueOnce(new Error("Duplicate"));
+
+    const original = process.exitCode;
+    await runCommand(membersCommand, [
+      "import",
+      "--file",
+      "members.csv",
+      "--errors-out",
+      "failed.csv",
+    ]);
+
+    expect(writeOutputFile).toHaveBeenCalledWith(
+      expect.stringContaining("failed.csv"),
+      [
+        {
+          email: "a@test.com",
+          password: "pass1",
+          _row: 1,
+          _error: "Duplicate",
+        },
+        {
+          email: "b@test.com",
+          _row: 2,
+          _error: 'Missing required field "password"',
+        },
+      ],
+      "csv"
+    );
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+
+  it("import --upsert updates existing members and creates new ones", async () => {
+    const existing = {
+      ...mockMember,
+      auth: { email: "a@test.com" },
+      planConnections: [
+        {
+          id: "pc_1",
+          status: "ACTIVE",
+          type: "FREE",
+          active: true,
+          plan: { id: "pln_old", name: "Old" },
+        },
+        {
+          id: "pc_2",
+          status: "ACTIVE",
+          type: "PAID",
+          active: true,
+          plan: { id: "pln_paid", name: "Paid" },
+        },
+      ],
+    };
+    inputRows.mockResolvedValueOnce([
+      {
+        email: "A@test.com",
+        "customFields.company": "Acme",
+        plans: "pln_paid, pln_new",
+      },
+      { email: "b@test.com", password: "pass2" },
+    ]);
+    graphqlRequest
+      .mockResolvedValueOnce({
+        getMembers: { edges: [{ node: existing }], pageInfo: {} },
+      })
+      .mockResolvedValue({});
+
+    await runCommand(membersCommand, [
+      "import",
+      "--file",
+      "members.csv",
+      "--upsert",
+    ]);
+
+    const calls = graphqlRequest.mock.calls.map((call) => call[0]);
+    const mutation = (name: string) =>
+      calls.filter((call) => call.query.includes(name));
+    expect(mutation("updateMemberAuth")).toHaveLength(0);
+    expect(mutation("updateMember(")[0].variables.input).toEqual({
+      memberId: "mem_1",
+      customFields: { company: "Acme" },
+    });
+    expect(mutation("addFreePlan")[0].variables.input).toEqual({
+      planId: "pln_new",
+      memberId: "mem_1",
+    });
+    expect(mutation("removeFreePlan")).toHaveLength(1);
+    expect(mutation("removeFreePlan")[0].variables.input).toEqual({
+      planId: "pln_old",
+      memberId: "mem_1",
+    });
+    expect(mutation("signupMemberEmailPassword")).toHaveLength(1);
+    expect(mutation("signupMemberEmailPassword")[0].variables.input.email).toBe(
+      "b@test.com"
+    );
+  });
+
+  it("import --upsert leaves plans alone when the plans cell is blank", async () => {
+    const existing = {
+      ...mockMember,
+      auth: { email: "a@test.com" },
+      planConnections: [
+        {
+          id: "pc_1",
+          status: "ACTIVE",
+          type: "FREE",
+          active: true,
+          plan: { id: "pln_free", name: "Free" },
+        },
+      ],
+    };
+    inputRows.mockResolvedValueOnce([
+      { email: "a@test.com", "customFields.company": "Acme", plans: " " },
+    ]);
+    graphqlRequest
+      .mockResolvedValueOnce({
+        getMembers: { edges: [{ node: existing }], pageInfo: {} },
+      })
+      .mockResolvedValue({});
+
+    await runCommand(membersCommand, [
+      "import",
+      "--file",
+      "members.csv",
+      "--upsert",
+    ]);
+
+    const queries = graphqlRequest.mock.calls.map((call) => call[0].query);
+    expect(queries.some((query) => query.includes("updateMember("))).toBe(true);
+    expect(queries.some((query) => query.includes("FreePlan"))).toBe(false);
+  });
+
+  it("import --upsert --match uses a custom field and can change email", async () => {
+    inputRows.mockResolvedValueOnce([
+      { email: "new@test.com", "customFields.crmId": "42" },
+    ]);
+    graphqlRequest
+      .mockResolvedValueOnce({
+        getMembers: {
+          edges: [{ node: { ...mockMember, customFields: { crmId: "42" } } }],
+          pageInfo: {},
+        },
+      })
+      .mockResolvedValue({});
+
+    await runCommand(membersCommand, [
+      "import",
+      "--file",
+      "members.csv",
+      "--upsert",
+      "--match",
+      "crmId",
+    ]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(3);
+    expect(graphqlRequest.mock.calls[1][0].variables.input).toEqual({
+      memberId: "mem_1",
+      email: "new@test.com",
+    });
+    expect(graphqlRequest.mock.calls[2][0].variables.input).toEqual({
+      memberId: "mem_1",
+      customFields: { crmId: "42" },
+    });
+  });
+
+  it("import --upsert fails rows that match several members", async () => {
+    inputRows.mockResolvedValueOnce([{ "customFields.crmId": "42" }]);
+    graphqlRequest.mockResolvedValueOnce({
+      getMembers: {
+        edges: [
+          { node: { ...mockMember, customFields: { crmId: "42" } } },
+          {
+            node: { ...mockMember, id: "mem_2", customFields: { crmId: "42" } },
+          },
+        ],
+        pageInfo: {},
+      },
+    });
+
+    const original = process.exitCode;
+    await runCommand(membersCommand, [
+      "import",
+      "--file",
+      "members.csv",
+      "--upsert",
+      "--match",
+      "crmId",
+    ]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(1);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+
+  it("import --validate-only reports problems without importing", async () => {
+    inputRows.mockResolvedValueOnce([
+      { email: "a@test.com", password: "pass1", plans: "pln_gone" },
+      { email: "a@test.com", password: "pass2" },
+    ]);
+    graphqlRequest.mockResolvedValueOnce({
+      getPlans: [{ id: "pln_free" }],
+      getCustomFields: [{ key: "company" }],
+    });
+
+    const original = process.exitCode;
+    await runCommand(membersCommand, [
+      "import",
+      "--file",
+      "members.csv",
+      "--validate-only",
+    ]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(1);
+    expect(graphqlRequest.mock.calls[0][0].variables).toEqual({
+      input: { status: "ALL" },
+    });
+    expect(startJournal).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+
+  it("import --validate-only --upsert does not require passwords for existing members", async () => {
+    inputRows.mockResolvedValueOnce([{ email: "Test@Example.com" }]);
+    graphqlRequest
+      .mockResolvedValueOnce({ getPlans: [], getCustomFields: [] })
+      .mockResolvedValueOnce({
+        getMembers: {
+          edges: [{ node: mockMember }],
+          pageInfo: { hasNextPage: false, endCursor: null },
+          totalCount: 1,
+        },
+      });
+
+    const original = process.exitCode;
+    process.exitCode = undefined;
+    await runCommand(membersCommand, [
+      "import",
+      "--file",
+      "members.csv",
+      "--upsert",
+      "--validate-only",
+    ]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(2);
+    expect(process.exitCode).toBeUndefined();
+    process.exitCode = original;
+  });
+
+  it("import honours a per-row mode column", async () => {
+    inputRows.mockResolvedValueOnce([
+      { email: "a@test.com", mode: "password", password: "secret" },
+      { email: "b@test.com", mode: "generate" },
+      { email: "c@test.com", mode: "passwordless" },
+      { email: "d@test.com", mode: "hash", passwordHash: "plain" },
+    ]);
+    graphqlRequest
+      .mockResolvedValueOnce({
+        signupMemberEmailPassword: { member: mockMember },
+      })
+      .mockResolvedValueOnce({
+        signupMemberEmailPassword: { member: mockMember },
+      })
+      .mockResolvedValueOnce({ sendMemberResetPasswordEmail: "ok" })
+      .mockResolvedValueOnce({
+        signupMemberPasswordless: { member: mockMember },
+      });
+
+    const original = process.exitCode;
+    await runCommand(membersCommand, ["import", "--file", "members.csv"]);
+
+    const [withPassword, generated, reset, passwordless] =
+      graphqlRequest.mock.calls.map((call) => call[0]);
+    expect(withPassword.variables.input).toEqual({
+      email: "a@test.com",
+      password: "secret",
+    });
+    expect(generated.variables.input.password).toMatch(GENERATED_PASSWORD);
+    expect(reset.query).toContain("sendMemberResetPasswordEmail");
+    expect(reset.variables.input).toEqual({ email: "b@test.com" });
+    expect(passwordless.query).toContain("signupMemberPasswordless");
+    expect(passwordless.variables.input).toEqual({ email: "c@test.com" });
+    expect(graphqlRequest).toHaveBeenCalledTimes(4);
+    expect(process.exitCode).toBe(2);
+    process.exitCode = original;
+  });
+
+  it("import --password-mode generate keeps the row when the reset email fails", async () => {
+    inputRows.mockResolvedValueOnce([{ email: "a@test.com" }]);
+    graphqlRequest
+      .mockResolvedValueOnce({
+        signupMemberEmailPassword: { member: mockMember },
+      })
+      .mockRejectedValueOnce(new Error("Mail service down"));
+    const stderrSpy = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    const original = process.exitCode;
+    process.exitCode = undefined;
+    await runCommand(membersCommand, [
+      "import",
+      "--file",
+      "members.csv",
+      "--password-mode",
+      "generate",
+    ]);
+    const output = stderrSpy.mock.calls.map((call) => call[0]).join("");
+    stderrSpy.mockRestore();
+
+    expect(output).toContain(
+      "a@test.com: created, but the password reset email failed: Mail service down"
+    );
+    expect(output).toContain("Import complete:");
+    expect(output).toContain("0 failed");
+    expect(process.exitCode).toBeUndefined();
+    process.exitCode = original;
+  });
+
+  it("import --password-mode sets the default for rows without a mode", async () => {
+    inputRows.mockResolvedValueOnce([{ email: "a@test.com" }]);
+    graphqlRequest.mockResolvedValueOnce({
+      signupMemberPasswordless: { member: mockMember },
+    });
+
+    await runCommand(membersCommand, [
+      "import",
+      "--file",
+      "members.csv",
+      "--password-mode",
+      "passwordless",
+    ]);
+
+    expect(graphqlRequest.mock.calls[0][0].query).toContain(
+      "signupMemberPasswordless"
+    );
+  });
+
+  it("import --map reshapes rows before building the signup input", async () => {
+    mockReadFile.mockResolvedValueOnce(
+      [
+        "rename:",
+        "  Email Address: email",
+        "  Pass: password",
+        "  Company: customFields.company",
+        "  Plan IDs: plans",
+        "set:",
+        "  metaData.source: crm",
+        "transforms:",
+        "  email: [trim, lowercase]",
+        "  plans:",
+        "    - split: ';'",
+        "drop: [Notes]",
+      ].join("\n")
+    );
+    inputRows.mockResolvedValueOnce([
+      {
+        "Email Address": " A@Test.com ",
+        Pass: "pass1",
+        Company: "Acme",
+        "Plan IDs": "pln_1;pln_2",
+        Notes: "ignore me",
+      },
+    ]);
+    graphqlRequest.mockResolvedValueOnce({
+      signupMemberEmailPassword: { member: mockMember },
+    });
+
+    await runCommand(membersCommand, [
+      "import",
+      "--file",
+      "members.csv",
+      "--map",
+      "map.yaml",
+    ]);
+
+    expect(mockReadFile).toHaveBeenCalledWith("map.yaml", "utf-8");
+    expect(graphqlRequest.mock.calls[0][0].variables.input).toEqual({
+      email: "a@test.com",
+      password: "pass1",
+      plans: [{ planId: "pln_1" }, { planId: "pln_2" }],
+      customFields: { company: "Acme" },
+      metaData: { source: "crm" },
+    });
   });
 
   it("import passes plans, login redirect, and prefixed fields", async () => {
-    readInputFile.mockResolvedValueOnce([
+    inputRows.mockResolvedValueOnce([
       {
         email: "a@test.com",
         password: "pass1",
@@ -550,7 +1046,7 @@ describe("members", () => {
   });
 
   it("bulk-update processes rows and updates members", async () => {
-    readInputFile.mockResolvedValueOnce([
+    inputRows.mockResolvedValueOnce([
       { id: "mem_1", "customFields.company": "Acme" },
     ]);
     graphqlRequest.mockResolvedValueOnce({ updateMember: mockMember });
@@ -570,7 +1066,7 @@ describe("members", () => {
   });
 
   it("bulk-update --dry-run previews without calling API", async () => {
-    readInputFile.mockResolvedValueOnce([
+    inputRows.mockResolvedValueOnce([
       { id: "mem_1", "customFields.company": "Acme" },
     ]);
 
@@ -585,17 +1081,18 @@ describe("members", () => {
   });
 
   it("bulk-update skips rows missing id", async () => {
-    readInputFile.mockResolvedValueOnce([{ email: "a@test.com" }]);
+    inputRows.mockResolvedValueOnce([{ email: "a@test.com" }]);
 
+    const original = process.exitCode;
     await runCommand(membersCommand, ["bulk-update", "--file", "updates.csv"]);
 
     expect(graphqlRequest).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
   });
 
   it("bulk-update with email triggers updateMemberAuth", async () => {
-    readInputFile.mockResolvedValueOnce([
-      { id: "mem_1", email: "new@test.com" },
-    ]);
+    inputRows.mockResolvedValueOnce([{ id: "mem_1", email: "new@test.com" }]);
     graphqlRequest.mockResolvedValueOnce({ updateMemberAuth: mockMember });
 
     await runCommand(membersCommand, ["bulk-update", "--file", "updates.csv"]);
@@ -642,6 +1139,39 @@ describe("members", () => {
     expect(addCalls).toHaveLength(1);
   });
 
+  it("bulk-add-plan --resume skips members already updated", async () => {
+    startJournal.mockResolvedValueOnce({
+      resumed: { completedIds: new Set(["mem_1"]) },
+    });
+    graphqlRequest
+      .mockResolvedValueOnce({
+        getMembers: {
+          edges: [
+            { node: { ...mockMember, id: "mem_1" } },
+            { node: { ...mockMember, id: "mem_2" } },
+          ],
+          pageInfo: { endCursor: null },
+        },
+      })
+      .mockResolvedValueOnce({ addFreePlan: { id: "pln_1", name: "Free" } });
+
+    await runCommand(membersCommand, [
+      "bulk-add-plan",
+      "--plan",
+      "pln_1",
+      "--filter",
+      "all",
+      "--resume",
+      "run.jsonl",
+    ]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(2);
+    expect(graphqlRequest.mock.calls[1][0].variables.input).toEqual({
+      planId: "pln_1",
+      memberId: "mem_2",
+    });
+  });
+
   it("bulk-add-plan --dry-run previews without adding plans", async () => {
     graphqlRequest.mockResolvedValueOnce({
       getMembers: {
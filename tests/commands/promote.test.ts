@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMockSpinner, runCommand } from "./helpers.js";
+
+vi.mock("yocto-spinner", () => ({ default: () => createMockSpinner() }));
+vi.mock("../../src/lib/program.js", () => ({
+  program: { opts: () => ({}) },
+}));
+
+let mockAnswer = "y";
+vi.mock("node:readline", () => ({
+  createInterface: () => ({
+    question: (_msg: string, cb: (answer: string) => void) => {
+      cb(mockAnswer);
+    },
+    close: vi.fn(),
+  }),
+}));
+
+const graphqlRequest = vi.fn();
+vi.mock("../../src/lib/graphql-client.js", () => ({
+  graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
+}));
+
+const { promoteCommand } = await import("../../src/commands/promote.js");
+
+const buildRemoteConfig = (
+  overrides: Record<string, unknown> = {}
+): Record<string, unknown> => ({
+  currentApp: { id: "app_1", name: "My App" },
+  getPermissions: [],
+  getPlans: [],
+  getCustomFields: [],
+  dataTables: [],
+  getSSOClients: [],
+  getSSOApps: [],
+  ...overrides,
+});
+
+const sandboxPlan = {
+  id: "pln_sb_1",
+  name: "Pro",
+  description: "Pro plan",
+  icon: null,
+  status: "ACTIVE",
+  isPaid: false,
+  priority: null,
+  limitMembers: false,
+  memberLimit: null,
+  restrictToAdmin: false,
+  teamAccountsEnabled: false,
+  teamAccountUpgradeLink: null,
+  teamAccountInviteSignupLink: null,
+  allowedDomains: [],
+  redirects: null,
+  permissions: [{ id: "per_sb_1" }],
+  prices: [],
+};
+
+describe("promote", () => {
+  it("fetches sandbox and live configs with explicit modes", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce(buildRemoteConfig())
+      .mockResolvedValueOnce(buildRemoteConfig());
+
+    await runCommand(promoteCommand, []);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(2);
+    expect(graphqlRequest.mock.calls[0][0].mode).toBe("sandbox");
+    expect(graphqlRequest.mock.calls[1][0].mode).toBe("live");
+  });
+
+  it("creates missing permissions and plans in live with linked permissions", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce(
+        buildRemoteConfig({
+          getPermissions: [{ id: "per_sb_1", name: "view", description: null }],
+          getPlans: [sandboxPlan],
+        })
+      )
+      .mockResolvedValueOnce(buildRemoteConfig())
+      .mockResolvedValueOnce({ createPermission: { id: "per_live_1" } })
+      .mockResolvedValueOnce({ createPlan: { id: "pln_live_1" } })
+      .mockResolvedValueOnce({ updatePlan: { id: "pln_live_1" } });
+
+    await runCommand(promoteCommand, ["--force"]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(5);
+    for (const call of graphqlRequest.mock.calls.slice(2)) {
+      expect(call[0].mode).toBe("live");
+    }
+    expect(graphqlRequest.mock.calls[4][0].variables.input).toEqual(
+      expect.objectContaining({
+        planId: "pln_live_1",
+        permissionIds: ["per_live_1"],
+      })
+    );
+  });
+
+  it("does not promote providers or SSO apps", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce(
+        buildRemoteConfig({
+          getSSOApps: [{ id: "sso_1", name: "Portal", redirectUris: [] }],
+        })
+      )
+      .mockResolvedValueOnce(buildRemoteConfig());
+
+    await runCommand(promoteCommand, ["--force"]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it("--dry-run previews without applying", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce(
+        buildRemoteConfig({
+          getPermissions: [{ id: "per_sb_1", name: "view", description: null }],
+        })
+      )
+      .mockResolvedValueOnce(buildRemoteConfig());
+
+    await runCommand(promoteCommand, ["--dry-run"]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it("aborts when user answers no", async () => {
+    mockAnswer = "n";
+    graphqlRequest
+      .mockResolvedValueOnce(
+        buildRemoteConfig({
+          getPermissions: [{ id: "per_sb_1", name: "view", description: null }],
+        })
+      )
+      .mockResolvedValueOnce(buildRemoteConfig());
+
+    await runCommand(promoteCommand, []);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(2);
+    mockAnswer = "y";
+  });
+
+  it("handles errors gracefully", async () => {
+    graphqlRequest.mockRejectedValueOnce(new Error("Network error"));
+
+    const original = process.exitCode;
+    await runCommand(promoteCommand, []);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+});
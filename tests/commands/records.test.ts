@@ -5,18 +5,53 @@ vi.mock("yocto-spinner", () => ({ default: () => createMockSpinner() }));
 vi.mock("../../src/lib/program.js", () => ({
   program: { opts: () => ({}) },
 }));
-const readInputFile = vi.fn();
+const inputRows = vi.fn();
 const writeOutputFile = vi.fn();
-vi.mock("../../src/lib/csv.js", () => ({
-  readInputFile: (...args: unknown[]) => readInputFile(...args),
+const streamJsonlRows = vi.fn();
+vi.mock("../../src/lib/csv.js", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  getFileFormat: (path: string) => (path.endsWith(".json") ? "json" : "csv"),
+  // Rows come from the inputRows fixture, read again on every pass
+  async *streamInputRows(...args: unknown[]) {
+    yield* await inputRows(...args);
+  },
+  streamJsonlRows: (...args: unknown[]) => streamJsonlRows(...args),
   writeOutputFile: (...args: unknown[]) => writeOutputFile(...args),
 }));
 
+const createOutputWriter = vi.fn();
+const writeRows = vi.fn();
+const abortWriter = vi.fn();
+vi.mock("../../src/lib/output-writer.js", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  createOutputWriter: (...args: unknown[]) => {
+    createOutputWriter(...args);
+    return Promise.resolve({
+      abort: () => Promise.resolve(abortWriter()),
+      write: (rows: unknown[]) => Promise.resolve(writeRows(rows)),
+      close: () => Promise.resolve(),
+    });
+  },
+}));
+
+const mockReadFile = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  readFile: (...args: unknown[]) => mockReadFile(...args),
+}));
+
+const startJournal = vi.fn();
+vi.mock("../../src/lib/journal.js", () => ({
+  startJournal: async (...args: unknown[]) =>
+    (await startJournal(...args)) ?? {},
+}));
+
 const graphqlRequest = vi.fn();
 vi.mock("../../src/lib/graphql-client.js", () => ({
   graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
 }));
 
+const BUNDLE_PATH = /records-bundle\.jsonl$/;
+
 const { recordsCommand } = await import("../../src/commands/records.js");
 
 const mockRecord = {
@@ -113,6 +148,137 @@ describe("records", () => {
     ]);
 
     expect(graphqlRequest).toHaveBeenCalledTimes(2);
+    expect(graphqlRequest.mock.calls[1][0].variables.filter).toEqual({
+      fieldFilters: { name: { equals: "Alice" } },
+    });
+  });
+
+  it("find compiles where expressions and applies order, skip, take and select", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockResolvedValueOnce({
+        dataRecords: {
+          edges: [1, 5, 3, 4].map((priority) => ({
+            node: {
+              ...mockRecord,
+              id: `rec_${priority}`,
+              data: { name: "Alice", priority },
+            },
+          })),
+          pageInfo: { endCursor: null },
+        },
+      });
+    const stderrSpy = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    await runCommand(recordsCommand, [
+      "find",
+      "users",
+      "--where",
+      'status = "on hold" or priority > 3',
+      "--order-by",
+      "priority:desc",
+      "--skip",
+      "1",
+      "--take",
+      "2",
+      "--select",
+      "priority",
+    ]);
+    const output = stderrSpy.mock.calls.map((call) => call[0]).join("");
+    stderrSpy.mockRestore();
+
+    expect(graphqlRequest.mock.calls[1][0].variables.filter).toEqual({
+      OR: [
+        { fieldFilters: { status: { equals: "on hold" } } },
+        { fieldFilters: { priority: { gt: 3 } } },
+      ],
+    });
+    expect(output).toContain("Found 2 record(s)");
+    expect(output).toContain("rec_4");
+    expect(output).toContain("rec_3");
+    expect(output).not.toContain("rec_5");
+    expect(output).not.toContain("data.name");
+  });
+
+  it("find fetches one default page without --take or --all", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockResolvedValueOnce({
+        dataRecords: {
+          edges: [{ node: mockRecord }],
+          pageInfo: { endCursor: "cursor_1" },
+        },
+      });
+
+    await runCommand(recordsCommand, ["find", "users", "--skip", "5"]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(2);
+    expect(graphqlRequest.mock.calls[1][0].variables.pagination).toEqual({
+      first: 100,
+      after: undefined,
+    });
+  });
+
+  it("find refuses to sort more than the limit without --all", async () => {
+    const page = {
+      dataRecords: {
+        edges: Array.from({ length: 100 }, (_, i) => ({
+          node: { ...mockRecord, id: `rec_${i}` },
+        })),
+        pageInfo: { endCursor: "cursor" },
+      },
+    };
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockResolvedValue(page);
+    const stderrSpy = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    const original = process.exitCode;
+    await runCommand(recordsCommand, [
+      "find",
+      "users",
+      "--order-by",
+      "name",
+      "--take",
+      "5",
+    ]);
+    const output = stderrSpy.mock.calls.map((call) => call[0]).join("");
+    stderrSpy.mockRestore();
+
+    // 100 full pages plus a one-record page past the limit
+    expect(graphqlRequest).toHaveBeenCalledTimes(102);
+    expect(graphqlRequest.mock.calls[101][0].variables.pagination.first).toBe(
+      1
+    );
+    expect(output).toContain("More than 10000 records match");
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+
+  it("find reports where syntax errors before querying", async () => {
+    const stderrSpy = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    const original = process.exitCode;
+    await runCommand(recordsCommand, [
+      "find",
+      "users",
+      "--where",
+      "priority > and done = true",
+    ]);
+    const output = stderrSpy.mock.calls.map((call) => call[0]).join("");
+    stderrSpy.mockRestore();
+
+    expect(graphqlRequest).not.toHaveBeenCalled();
+    expect(output).toContain("expected a value at position 12");
+    expect(output).toContain("  priority > and done = true\n             ^");
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
   });
 
   it("handles errors gracefully", async () => {
@@ -158,15 +324,17 @@ describe("records", () => {
           pageInfo: { endCursor: null },
         },
       });
-    writeOutputFile.mockResolvedValueOnce(undefined);
 
     await runCommand(recordsCommand, ["export", "users", "--format", "csv"]);
 
-    expect(writeOutputFile).toHaveBeenCalledWith(
+    expect(createOutputWriter).toHaveBeenCalledWith(
       expect.stringContaining("records-users.csv"),
-      expect.arrayContaining([expect.objectContaining({ id: "rec_1" })]),
-      "csv"
+      "csv",
+      { name: "users" }
     );
+    expect(writeRows).toHaveBeenCalledWith([
+      expect.objectContaining({ id: "rec_1", "data.name": "Alice" }),
+    ]);
   });
 
   it("export with --output writes to custom path", async () => {
@@ -178,7 +346,6 @@ describe("records", () => {
           pageInfo: { endCursor: null },
         },
       });
-    writeOutputFile.mockResolvedValueOnce(undefined);
 
     await runCommand(recordsCommand, [
       "export",
@@ -187,19 +354,64 @@ describe("records", () => {
       "custom.json",
     ]);
 
-    expect(writeOutputFile).toHaveBeenCalledWith(
+    expect(createOutputWriter).toHaveBeenCalledWith(
       expect.stringContaining("custom.json"),
-      expect.any(Array),
-      "json"
+      "json",
+      { name: "users" }
     );
   });
 
+  it("export infers the format from the --output extension", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockResolvedValueOnce({
+        dataRecords: {
+          edges: [{ node: mockRecord }],
+          pageInfo: { endCursor: null },
+        },
+      });
+
+    await runCommand(recordsCommand, [
+      "export",
+      "users",
+      "--output",
+      "warehouse/users.parquet",
+    ]);
+
+    expect(createOutputWriter).toHaveBeenCalledWith(
+      expect.stringContaining("users.parquet"),
+      "parquet",
+      { name: "users" }
+    );
+  });
+
+  it("export deletes the partial file when writing fails", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockResolvedValueOnce({
+        dataRecords: {
+          edges: [{ node: mockRecord }],
+          pageInfo: { endCursor: null },
+        },
+      });
+    writeRows.mockImplementationOnce(() => {
+      throw new Error("ENOSPC: no space left on device");
+    });
+
+    const original = process.exitCode;
+    await runCommand(recordsCommand, ["export", "users", "--format", "csv"]);
+
+    expect(abortWriter).toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+
   it("import creates records from file rows", async () => {
     graphqlRequest
       .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
       .mockResolvedValueOnce({ createDataRecord: mockRecord })
       .mockResolvedValueOnce({ createDataRecord: mockRecord });
-    readInputFile.mockResolvedValueOnce([
+    inputRows.mockResolvedValueOnce([
       { name: "Alice", age: "30" },
       { name: "Bob", age: "25" },
     ]);
@@ -211,16 +423,15 @@ describe("records", () => {
       "records.csv",
     ]);
 
-    expect(readInputFile).toHaveBeenCalledWith("records.csv");
+    expect(inputRows).toHaveBeenCalledWith("records.csv");
     expect(graphqlRequest).toHaveBeenCalledTimes(3);
   });
 
   it("import skips rows with no data fields", async () => {
     graphqlRequest.mockResolvedValueOnce({ dataTable: { id: "tbl_1" } });
-    readInputFile.mockResolvedValueOnce([
-      { id: "rec_1", createdAt: "2024-01-01" },
-    ]);
+    inputRows.mockResolvedValueOnce([{ id: "rec_1", createdAt: "2024-01-01" }]);
 
+    const original = process.exitCode;
     await runCommand(recordsCommand, [
       "import",
       "users",
@@ -229,6 +440,8 @@ describe("records", () => {
     ]);
 
     expect(graphqlRequest).toHaveBeenCalledTimes(1);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
   });
 
   it("import continues on row failure", async () => {
@@ -236,8 +449,9 @@ describe("records", () => {
       .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
       .mockRejectedValueOnce(new Error("Validation error"))
       .mockResolvedValueOnce({ createDataRecord: mockRecord });
-    readInputFile.mockResolvedValueOnce([{ name: "Bad" }, { name: "Good" }]);
+    inputRows.mockResolvedValueOnce([{ name: "Bad" }, { name: "Good" }]);
 
+    const original = process.exitCode;
     await runCommand(recordsCommand, [
       "import",
       "users",
@@ -246,13 +460,320 @@ describe("records", () => {
     ]);
 
     expect(graphqlRequest).toHaveBeenCalledTimes(3);
+    expect(process.exitCode).toBe(2);
+    process.exitCode = original;
+  });
+
+  it("import --concurrency continues past failed rows", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockRejectedValueOnce(new Error("Validation error"))
+      .mockResolvedValue({ createDataRecord: mockRecord });
+    inputRows.mockResolvedValueOnce([
+      { name: "Bad" },
+      { name: "Good" },
+      { name: "Also good" },
+    ]);
+
+    const original = process.exitCode;
+    await runCommand(recordsCommand, [
+      "import",
+      "users",
+      "--file",
+      "records.csv",
+      "--concurrency",
+      "2",
+    ]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(4);
+    expect(process.exitCode).toBe(2);
+    process.exitCode = original;
+  });
+
+  it("import --errors-out writes failed rows with row and error columns", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockRejectedValueOnce(new Error("Validation error"))
+      .mockResolvedValueOnce({ createDataRecord: mockRecord });
+    inputRows.mockResolvedValueOnce([{ name: "Bad" }, { name: "Good" }]);
+
+    const original = process.exitCode;
+    await runCommand(recordsCommand, [
+      "import",
+      "users",
+      "--file",
+      "records.json",
+      "--errors-out",
+      "failed.json",
+    ]);
+
+    expect(writeOutputFile).toHaveBeenCalledWith(
+      expect.stringContaining("failed.json"),
+      [{ name: "Bad", _row: 1, _error: "Validation error" }],
+      "json"
+    );
+    expect(process.exitCode).toBe(2);
+    process.exitCode = original;
+  });
+
+  it("import keeps a table field called error as data", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockResolvedValueOnce({ createDataRecord: mockRecord });
+    inputRows.mockResolvedValueOnce([{ name: "Job", error: "timeout" }]);
+
+    await runCommand(recordsCommand, ["import", "users", "--file", "jobs.csv"]);
+
+    expect(graphqlRequest.mock.calls[1][0].variables.input.data).toEqual({
+      name: "Job",
+      error: "timeout",
+    });
+  });
+
+  it("import --map renames and drops columns before extracting data", async () => {
+    mockReadFile.mockResolvedValueOnce(
+      JSON.stringify({
+        rename: { Title: "title" },
+        drop: ["Internal"],
+        transforms: { title: ["trim"] },
+      })
+    );
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockResolvedValueOnce({ createDataRecord: mockRecord });
+    inputRows.mockResolvedValueOnce([{ Title: " Hello ", Internal: "x" }]);
+
+    await runCommand(recordsCommand, [
+      "import",
+      "posts",
+      "--file",
+      "posts.csv",
+      "--map",
+      "map.json",
+    ]);
+
+    expect(graphqlRequest.mock.calls[1][0].variables.input.data).toEqual({
+      title: "Hello",
+    });
+  });
+
+  it("import coerces values to the table's field types", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({
+        dataTable: {
+          id: "tbl_1",
+          fields: [
+            { key: "name", type: "TEXT" },
+            { key: "age", type: "NUMBER" },
+            { key: "active", type: "BOOLEAN" },
+            { key: "friends", type: "REFERENCE_MANY" },
+          ],
+        },
+      })
+      .mockResolvedValueOnce({ createDataRecord: mockRecord });
+    inputRows.mockResolvedValueOnce([
+      { name: "Alice", age: "30", active: "yes", friends: "rec_2,rec_3" },
+    ]);
+
+    await runCommand(recordsCommand, [
+      "import",
+      "users",
+      "--file",
+      "records.csv",
+    ]);
+
+    expect(graphqlRequest.mock.calls[0][0].query).toContain("fields");
+    expect(graphqlRequest.mock.calls[1][0].variables.input.data).toEqual({
+      name: "Alice",
+      age: 30,
+      active: true,
+      friends: ["rec_2", "rec_3"],
+    });
+  });
+
+  it("import accepts typed values from JSON files", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({
+        dataTable: {
+          id: "tbl_1",
+          fields: [
+            { key: "name", type: "TEXT" },
+            { key: "age", type: "NUMBER" },
+            { key: "active", type: "BOOLEAN" },
+            { key: "friends", type: "REFERENCE_MANY" },
+            { key: "joined", type: "DATE" },
+          ],
+        },
+      })
+      .mockResolvedValueOnce({ createDataRecord: mockRecord });
+    inputRows.mockResolvedValueOnce([
+      {
+        id: "rec_1",
+        "data.name": "Alice",
+        "data.age": 30,
+        "data.active": false,
+        "data.friends": ["rec_2", "rec_3"],
+        "data.joined": null,
+      },
+    ]);
+
+    await runCommand(recordsCommand, [
+      "import",
+      "users",
+      "--file",
+      "records.json",
+    ]);
+
+    expect(graphqlRequest.mock.calls[1][0].variables.input.data).toEqual({
+      name: "Alice",
+      age: 30,
+      active: false,
+      friends: ["rec_2", "rec_3"],
+      joined: null,
+    });
+  });
+
+  it("import rejects rows that do not fit the schema without sending them", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({
+        dataTable: { id: "tbl_1", fields: [{ key: "age", type: "NUMBER" }] },
+      })
+      .mockResolvedValueOnce({ createDataRecord: mockRecord });
+    inputRows.mockResolvedValueOnce([{ age: "abc" }, { age: "7" }]);
+
+    const original = process.exitCode;
+    await runCommand(recordsCommand, [
+      "import",
+      "users",
+      "--file",
+      "records.csv",
+      "--errors-out",
+      "failed.csv",
+    ]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(2);
+    expect(graphqlRequest.mock.calls[1][0].variables.input.data).toEqual({
+      age: 7,
+    });
+    expect(writeOutputFile).toHaveBeenCalledWith(
+      expect.stringContaining("failed.csv"),
+      [
+        {
+          age: "abc",
+          _row: 1,
+          _error: '"age": expected an integer, got "abc"',
+        },
+      ],
+      "csv"
+    );
+    expect(process.exitCode).toBe(2);
+    process.exitCode = original;
+  });
+
+  it("import --validate-only checks the schema and unique values without writing", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({
+        dataTable: {
+          id: "tbl_1",
+          fields: [
+            { key: "slug", type: "TEXT_UNIQUE", required: true },
+            { key: "age", type: "NUMBER", required: false },
+          ],
+        },
+      })
+      .mockResolvedValueOnce({
+        dataRecords: {
+          edges: [{ node: { ...mockRecord, data: { slug: "taken" } } }],
+          pageInfo: { endCursor: null },
+        },
+      });
+    inputRows.mockResolvedValueOnce([
+      { slug: "new", age: "30" },
+      { slug: "taken", age: "abc" },
+    ]);
+
+    const original = process.exitCode;
+    await runCommand(recordsCommand, [
+      "import",
+      "users",
+      "--file",
+      "records.csv",
+      "--validate-only",
+    ]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(2);
+    expect(graphqlRequest.mock.calls[1][0].query).toContain("dataRecords");
+    expect(startJournal).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+
+  it("import --validate-only --schema checks rows against a generated JSON Schema", async () => {
+    graphqlRequest.mockResolvedValueOnce({
+      dataTable: {
+        id: "tbl_1",
+        key: "users",
+        fields: [{ key: "website", type: "URL", required: false }],
+      },
+    });
+    mockReadFile.mockResolvedValueOnce(
+      JSON.stringify({
+        $defs: {
+          users: {
+            type: "object",
+            properties: {
+              website: { type: ["string", "null"], format: "uri" },
+            },
+            required: [],
+          },
+        },
+      })
+    );
+    inputRows.mockResolvedValueOnce([{ website: "not a url" }]);
+    const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+
+    const original = process.exitCode;
+    await runCommand(recordsCommand, [
+      "import",
+      "tbl_1",
+      "--file",
+      "records.csv",
+      "--validate-only",
+      "--schema",
+      "memberstack.schema.json",
+    ]);
+
+    expect(mockReadFile).toHaveBeenCalledWith(
+      "memberstack.schema.json",
+      "utf-8"
+    );
+    expect(stderr.mock.calls.join("")).toContain("expected uri format");
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+    stderr.mockRestore();
+  });
+
+  it("import rejects --schema without --validate-only", async () => {
+    const original = process.exitCode;
+    await runCommand(recordsCommand, [
+      "import",
+      "users",
+      "--file",
+      "records.csv",
+      "--schema",
+      "memberstack.schema.json",
+    ]);
+
+    expect(graphqlRequest).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
   });
 
   it("import strips data. prefix from field keys", async () => {
     graphqlRequest
       .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
       .mockResolvedValueOnce({ createDataRecord: mockRecord });
-    readInputFile.mockResolvedValueOnce([{ "data.name": "Alice" }]);
+    inputRows.mockResolvedValueOnce([{ "data.name": "Alice" }]);
 
     await runCommand(recordsCommand, [
       "import",
@@ -265,8 +786,43 @@ describe("records", () => {
     expect(createCall.variables.input.data).toEqual({ name: "Alice" });
   });
 
+  it("import --resume skips completed rows and journals the rest", async () => {
+    const journal = { close: vi.fn(), path: "run.jsonl", record: vi.fn() };
+    startJournal.mockResolvedValueOnce({
+      journal,
+      resumed: { completedRows: new Set([0]) },
+    });
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockResolvedValueOnce({ createDataRecord: { id: "rec_2" } });
+    inputRows.mockResolvedValueOnce([{ name: "Done" }, { name: "Retry" }]);
+
+    await runCommand(recordsCommand, [
+      "import",
+      "users",
+      "--file",
+      "records.csv",
+      "--resume",
+      "run.jsonl",
+    ]);
+
+    expect(startJournal).toHaveBeenCalledWith(
+      "records import",
+      expect.objectContaining({ resume: "run.jsonl" })
+    );
+    expect(graphqlRequest).toHaveBeenCalledTimes(2);
+    expect(graphqlRequest.mock.calls[1][0].variables.input.data).toEqual({
+      name: "Retry",
+    });
+    expect(journal.record).toHaveBeenCalledWith({
+      id: "rec_2",
+      row: 1,
+      status: "succeeded",
+    });
+  });
+
   it("bulk-update processes rows and updates records", async () => {
-    readInputFile.mockResolvedValueOnce([{ id: "rec_1", name: "Updated" }]);
+    inputRows.mockResolvedValue([{ id: "rec_1", name: "Updated" }]);
     graphqlRequest.mockResolvedValueOnce({ updateDataRecord: mockRecord });
 
     await runCommand(recordsCommand, ["bulk-update", "--file", "updates.csv"]);
@@ -280,8 +836,54 @@ describe("records", () => {
     );
   });
 
+  it("bulk-update coerces values using each row's tableKey schema", async () => {
+    inputRows.mockResolvedValue([
+      { id: "rec_1", tableKey: "users", age: "31" },
+      { id: "rec_2", tableKey: "users", age: "32" },
+    ]);
+    graphqlRequest
+      .mockResolvedValueOnce({
+        dataTable: { id: "tbl_1", fields: [{ key: "age", type: "NUMBER" }] },
+      })
+      .mockResolvedValue({ updateDataRecord: mockRecord });
+
+    await runCommand(recordsCommand, ["bulk-update", "--file", "updates.csv"]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(3);
+    expect(graphqlRequest.mock.calls[0][0].variables).toEqual({
+      key: "users",
+    });
+    expect(graphqlRequest.mock.calls[1][0].variables.input).toEqual({
+      data: { age: 31 },
+      id: "rec_1",
+    });
+  });
+
+  it("bulk-update --table-key overrides the row's table", async () => {
+    inputRows.mockResolvedValueOnce([{ id: "rec_1", done: "nope" }]);
+    graphqlRequest.mockResolvedValueOnce({
+      dataTable: { id: "tbl_2", fields: [{ key: "done", type: "BOOLEAN" }] },
+    });
+
+    const original = process.exitCode;
+    await runCommand(recordsCommand, [
+      "bulk-update",
+      "--file",
+      "updates.csv",
+      "--table-key",
+      "tasks",
+    ]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(1);
+    expect(graphqlRequest.mock.calls[0][0].variables).toEqual({
+      key: "tasks",
+    });
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+
   it("bulk-update --dry-run previews without calling API", async () => {
-    readInputFile.mockResolvedValueOnce([{ id: "rec_1", name: "Updated" }]);
+    inputRows.mockResolvedValueOnce([{ id: "rec_1", name: "Updated" }]);
 
     await runCommand(recordsCommand, [
       "bulk-update",
@@ -294,11 +896,14 @@ describe("records", () => {
   });
 
   it("bulk-update skips rows missing id", async () => {
-    readInputFile.mockResolvedValueOnce([{ name: "No ID" }]);
+    inputRows.mockResolvedValueOnce([{ name: "No ID" }]);
 
+    const original = process.exitCode;
     await runCommand(recordsCommand, ["bulk-update", "--file", "updates.csv"]);
 
     expect(graphqlRequest).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
   });
 
   it("bulk-delete deletes matching records", async () => {
@@ -324,6 +929,28 @@ describe("records", () => {
     expect(deleteCall.variables.input).toEqual({ id: "rec_1" });
   });
 
+  it("bulk-delete --where takes the same expressions as find", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockResolvedValueOnce({
+        dataRecords: { edges: [], pageInfo: { endCursor: null } },
+      });
+
+    await runCommand(recordsCommand, [
+      "bulk-delete",
+      "users",
+      "--where",
+      "email = old@example.com or created < 2023-01-01",
+    ]);
+
+    expect(graphqlRequest.mock.calls[1][0].variables.filter).toEqual({
+      OR: [
+        { fieldFilters: { email: { equals: "old@example.com" } } },
+        { fieldFilters: { created: { lt: "2023-01-01" } } },
+      ],
+    });
+  });
+
   it("bulk-delete --dry-run previews without deleting", async () => {
     graphqlRequest
       .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
@@ -359,4 +986,217 @@ describe("records", () => {
 
     expect(graphqlRequest).toHaveBeenCalledTimes(2);
   });
+
+  const bundleTables = [
+    {
+      id: "tbl_posts",
+      key: "posts",
+      fields: [
+        { key: "title", type: "TEXT", referencedTable: null },
+        { key: "author", type: "MEMBER_REFERENCE", referencedTable: null },
+        {
+          key: "category",
+          type: "REFERENCE",
+          referencedTable: { key: "categories" },
+        },
+        { key: "next", type: "REFERENCE", referencedTable: { key: "posts" } },
+      ],
+    },
+    {
+      id: "tbl_categories",
+      key: "categories",
+      fields: [{ key: "name", type: "TEXT", referencedTable: null }],
+    },
+    { id: "tbl_tags", key: "tags", fields: [] },
+  ];
+
+  const page = (nodes: unknown[]) => ({
+    edges: nodes.map((node) => ({ node })),
+    pageInfo: { endCursor: null },
+  });
+
+  it("export-bundle writes referenced tables first with member emails", async () => {
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTables: bundleTables })
+      .mockResolvedValueOnce({
+        getMembers: page([{ id: "mem_1", auth: { email: "ada@example.com" } }]),
+      })
+      .mockResolvedValueOnce({
+        dataRecords: page([
+          { ...mockRecord, id: "rec_c", data: { name: "News" } },
+        ]),
+      })
+      .mockResolvedValueOnce({
+        dataRecords: page([
+          {
+            ...mockRecord,
+            id: "rec_p",
+            data: { title: "Hi", author: "mem_1", category: "rec_c" },
+          },
+        ]),
+      });
+
+    await runCommand(recordsCommand, ["export-bundle", "posts"]);
+
+    expect(createOutputWriter.mock.calls[0][0]).toMatch(BUNDLE_PATH);
+    expect(createOutputWriter.mock.calls[0][1]).toBe("jsonl");
+    const [tableLines, categoryLines, postLines] = writeRows.mock.calls.map(
+      ([rows]) => rows
+    );
+    expect(tableLines.map((line: { key: string }) => line.key)).toEqual([
+      "categories",
+      "posts",
+    ]);
+    expect(tableLines[1].fields[2]).toEqual({
+      key: "category",
+      type: "REFERENCE",
+      referencedTable: "categories",
+    });
+    expect(categoryLines).toEqual([
+      {
+        type: "record",
+        table: "categories",
+        id: "rec_c",
+        data: { name: "News" },
+      },
+    ]);
+    expect(postLines[0].data).toEqual({
+      title: "Hi",
+      author: "ada@example.com",
+      category: "rec_c",
+    });
+  });
+
+  it("export-bundle fails for unknown tables", async () => {
+    graphqlRequest.mockResolvedValueOnce({ dataTables: bundleTables });
+
+    const original = process.exitCode;
+    await runCommand(recordsCommand, ["export-bundle", "missing"]);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+
+  it("import-bundle creates records in dependency order with new IDs", async () => {
+    const fields = bundleTables[0].fields.map((field) => ({
+      ...field,
+      referencedTable: field.referencedTable?.key ?? null,
+    }));
+    streamJsonlRows.mockImplementation(function* () {
+      yield { type: "table", key: "posts", fields };
+      yield {
+        type: "table",
+        key: "categories",
+        fields: bundleTables[1].fields,
+      };
+      yield {
+        type: "record",
+        table: "posts",
+        id: "rec_p1",
+        data: {
+          title: "One",
+          author: "ADA@example.com",
+          category: "rec_c",
+          next: "rec_p2",
+        },
+      };
+      yield {
+        type: "record",
+        table: "posts",
+        id: "rec_p2",
+        data: { title: "Two", author: null, next: "rec_gone" },
+      };
+      yield {
+        type: "record",
+        table: "categories",
+        id: "rec_c",
+        data: { name: "News" },
+      };
+    });
+    let created = 0;
+    graphqlRequest.mockImplementation(
+      ({ query, variables }: { query: string; variables: { key: string } }) => {
+        if (query.includes("dataTable(")) {
+          return Promise.resolve({
+            dataTable: { id: `tbl_new_${variables.key}` },
+          });
+        }
+        if (query.includes("getMembers")) {
+          return Promise.resolve({
+            getMembers: page([
+              { id: "mem_9", auth: { email: "ada@example.com" } },
+            ]),
+          });
+        }
+        if (query.includes("createDataRecord")) {
+          created++;
+          return Promise.resolve({
+            createDataRecord: { id: `rec_new_${created}` },
+          });
+        }
+        return Promise.resolve({ updateDataRecord: { id: "updated" } });
+      }
+    );
+
+    await runCommand(recordsCommand, [
+      "import-bundle",
+      "--file",
+      "bundle.jsonl",
+    ]);
+
+    const inputs = (name: string) =>
+      graphqlRequest.mock.calls
+        .filter(([request]) => request.query.includes(name))
+        .map(([request]) => request.variables.input);
+    expect(inputs("createDataRecord")).toEqual([
+      { tableId: "tbl_new_categories", data: { name: "News" } },
+      {
+        tableId: "tbl_new_posts",
+        data: { title: "One", author: "mem_9", category: "rec_new_1" },
+      },
+      { tableId: "tbl_new_posts", data: { title: "Two", author: null } },
+    ]);
+    expect(inputs("updateDataRecord")).toEqual([
+      { id: "rec_new_2", data: { next: "rec_new_3" } },
+      { id: "rec_new_3", data: { next: null } },
+    ]);
+  });
+
+  it("import-bundle fails rows whose member email is unknown", async () => {
+    streamJsonlRows.mockImplementation(function* () {
+      yield {
+        type: "table",
+        key: "posts",
+        fields: [
+          { key: "author", type: "MEMBER_REFERENCE", referencedTable: null },
+        ],
+      };
+      yield {
+        type: "record",
+        table: "posts",
+        id: "rec_1",
+        data: { author: "who@example.com" },
+      };
+    });
+    graphqlRequest
+      .mockResolvedValueOnce({ dataTable: { id: "tbl_1" } })
+      .mockResolvedValueOnce({ getMembers: page([]) });
+    const stderrSpy = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    const original = process.exitCode;
+    await runCommand(recordsCommand, [
+      "import-bundle",
+      "--file",
+      "bundle.jsonl",
+    ]);
+    const output = stderrSpy.mock.calls.map((call) => call[0]).join("");
+    stderrSpy.mockRestore();
+    expect(output).toContain('No member with email "who@example.com"');
+    expect(output).toContain(
+      "Import complete: 0 record(s) across 1 table(s), 1 failed"
+    );
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
 });
@@ -12,7 +12,7 @@ vi.mock("node:fs/promises", () => ({
 
 const mockClearTokens = vi.fn();
 vi.mock("../../src/lib/token-storage.js", () => ({
-  clearTokens: () => mockClearTokens(),
+  clearAllTokens: () => mockClearTokens(),
 }));
 
 let mockAnswer = "y";
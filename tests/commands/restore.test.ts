@@ -0,0 +1,202 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMockSpinner, runCommand } from "./helpers.js";
+
+vi.mock("yocto-spinner", () => ({ default: () => createMockSpinner() }));
+vi.mock("../../src/lib/program.js", () => ({
+  program: { opts: () => ({}) },
+}));
+
+let mockAnswer = "y";
+vi.mock("node:readline", () => ({
+  createInterface: () => ({
+    question: (_msg: string, cb: (answer: string) => void) => {
+      cb(mockAnswer);
+    },
+    close: vi.fn(),
+  }),
+}));
+
+const graphqlRequest = vi.fn();
+vi.mock("../../src/lib/graphql-client.js", () => ({
+  graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
+}));
+
+const readBackup = vi.fn();
+const restoreAppSettings = vi.fn();
+const restoreBackupData = vi.fn();
+vi.mock("../../src/lib/backup.js", () => ({
+  readBackup: (...args: unknown[]) => readBackup(...args),
+  restoreAppSettings: (...args: unknown[]) => restoreAppSettings(...args),
+  restoreBackupData: (...args: unknown[]) => restoreBackupData(...args),
+}));
+
+const ARCHIVE_PATH = /app\.jsonl\.gz$/;
+
+const { restoreCommand } = await import("../../src/commands/restore.js");
+
+const progress = (succeeded: number, failed = 0) => ({
+  completed: succeeded + failed,
+  failed,
+  skipped: 0,
+  succeeded,
+  total: succeeded + failed,
+});
+
+const backup = {
+  header: {
+    type: "header",
+    version: 1,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    app: { id: "app_old", name: "Old App" },
+  },
+  settings: { captchaEnabled: true },
+  config: {
+    version: 1,
+    app: { id: "app_old", name: "Old App" },
+    permissions: [{ id: "per_old", name: "view", description: null }],
+    plans: [],
+    customFields: [],
+    tables: [],
+    providers: [],
+    ssoApps: [],
+  },
+  counts: { members: 1, records: { posts: 2 } },
+};
+
+const emptyRemoteConfig = {
+  currentApp: { id: "app_new", name: "New App" },
+  getPermissions: [{ id: "per_extra", name: "extra", description: null }],
+  getPlans: [],
+  getCustomFields: [],
+  dataTables: [],
+  getSSOClients: [],
+  getSSOApps: [],
+};
+
+describe("restore", () => {
+  it("previews config changes and counts with --dry-run", async () => {
+    readBackup.mockResolvedValueOnce(backup);
+    graphqlRequest.mockResolvedValueOnce(emptyRemoteConfig);
+    const stderrSpy = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    await runCommand(restoreCommand, ["app.jsonl.gz", "--dry-run"]);
+
+    const output = stderrSpy.mock.calls.map((call) => call[0]).join("");
+    stderrSpy.mockRestore();
+    expect(output).toContain("view");
+    // Resources only in the target are never deleted
+    expect(output).not.toContain("extra");
+    expect(output).toContain("1 member(s) and 2 record(s) to restore");
+    expect(restoreBackupData).not.toHaveBeenCalled();
+  });
+
+  it("applies the config, then restores data with the new IDs", async () => {
+    readBackup.mockResolvedValueOnce(backup);
+    graphqlRequest
+      .mockResolvedValueOnce(emptyRemoteConfig)
+      .mockResolvedValueOnce({ createPermission: { id: "per_new" } });
+    restoreBackupData.mockResolvedValueOnce({
+      members: progress(1),
+      records: progress(2),
+      references: progress(0),
+      unresolved: 0,
+    });
+
+    await runCommand(restoreCommand, [
+      "app.jsonl.gz",
+      "--force",
+      "--password-mode",
+      "generate",
+    ]);
+
+    expect(restoreAppSettings).toHaveBeenCalledWith({ captchaEnabled: true });
+    const [filePath, config, target, options] = restoreBackupData.mock.calls[0];
+    expect(filePath).toMatch(ARCHIVE_PATH);
+    expect(config).toBe(backup.config);
+    expect(target.permissionIds.get("view")).toBe("per_new");
+    expect(options).toMatchObject({ concurrency: 1, passwordMode: "generate" });
+  });
+
+  it("skips new providers instead of failing on their missing secret", async () => {
+    readBackup.mockResolvedValueOnce({
+      ...backup,
+      config: {
+        ...backup.config,
+        permissions: [],
+        providers: [
+          {
+            clientId: "client_1",
+            enabled: true,
+            name: "Google",
+            type: "GOOGLE",
+          },
+        ],
+      },
+    });
+    graphqlRequest.mockResolvedValueOnce(emptyRemoteConfig);
+    restoreBackupData.mockResolvedValueOnce({
+      members: progress(1),
+      records: progress(2),
+      references: progress(0),
+      unresolved: 0,
+    });
+    const stderrSpy = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    const original = process.exitCode;
+    await runCommand(restoreCommand, ["app.jsonl.gz", "--force"]);
+
+    const output = stderrSpy.mock.calls.map((call) => call[0]).join("");
+    stderrSpy.mockRestore();
+    expect(output).toContain("Skipping provider(s) GOOGLE");
+    // Only the config fetch; no updateSSOClient mutation is sent
+    expect(graphqlRequest).toHaveBeenCalledTimes(1);
+    expect(process.exitCode).not.toBe(2);
+    process.exitCode = original;
+  });
+
+  it("aborts when the user answers no", async () => {
+    mockAnswer = "n";
+    readBackup.mockResolvedValueOnce(backup);
+    graphqlRequest.mockResolvedValueOnce(emptyRemoteConfig);
+
+    await runCommand(restoreCommand, ["app.jsonl.gz"]);
+
+    expect(graphqlRequest).toHaveBeenCalledTimes(1);
+    expect(restoreBackupData).not.toHaveBeenCalled();
+    mockAnswer = "y";
+  });
+
+  it("exits with the partial failure code when some rows fail", async () => {
+    readBackup.mockResolvedValueOnce({
+      ...backup,
+      config: { ...backup.config, permissions: [] },
+    });
+    graphqlRequest.mockResolvedValueOnce(emptyRemoteConfig);
+    restoreBackupData.mockResolvedValueOnce({
+      members: progress(1, 1),
+      records: progress(2),
+      references: progress(0),
+      unresolved: 0,
+    });
+
+    const original = process.exitCode;
+    await runCommand(restoreCommand, ["app.jsonl.gz", "--force"]);
+    expect(process.exitCode).toBe(2);
+    process.exitCode = original;
+  });
+
+  it("handles unreadable archives", async () => {
+    readBackup.mockRejectedValueOnce(
+      new Error("Invalid backup archive: app.json is not gzip-compressed")
+    );
+
+    const original = process.exitCode;
+    await runCommand(restoreCommand, ["app.json"]);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = original;
+  });
+});
@@ -6,6 +6,13 @@ vi.mock("../../src/lib/program.js", () => ({
   program: { opts: () => ({}) },
 }));
 
+const mockReadFile = vi.fn();
+const mockWriteFile = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  readFile: (...args: unknown[]) => mockReadFile(...args),
+  writeFile: (...args: unknown[]) => mockWriteFile(...args),
+}));
+
 const graphqlRequest = vi.fn();
 vi.mock("../../src/lib/graphql-client.js", () => ({
   graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
@@ -13,6 +20,8 @@ vi.mock("../../src/lib/graphql-client.js", () => ({
 
 const { tablesCommand } = await import("../../src/commands/tables.js");
 
+const SCHEMA_PATH = /users\.schema\.json$/;
+
 const mockTable = {
   id: "tbl_1",
   key: "users",
@@ -265,4 +274,426 @@ describe("tables", () => {
     expect(process.exitCode).toBe(1);
     process.exitCode = original;
   });
+  describe("fields", () => {
+    const fieldTable = {
+      ...mockTable,
+      fields: [
+        ...mockTable.fields,
+        {
+          id: "fld_2",
+          key: "age",
+          name: "Age",
+          type: "NUMBER",
+          required: false,
+          defaultValue: null,
+          tableOrder: 1,
+          referencedTableId: null,
+        },
+        {
+          id: "fld_3",
+          key: "team",
+          name: "Team",
+          type: "REFERENCE",
+          required: false,
+          defaultValue: null,
+          tableOrder: 2,
+          referencedTableId: "tbl_teams",
+        },
+      ],
+    };
+
+    const inputs = (name: string) =>
+      graphqlRequest.mock.calls
+        .map(([request]) => request)
+        .filter((request) => request.query.includes(name))
+        .map((request) => request.variables.input);
+
+    it("add creates a field with a typed default value", async () => {
+      graphqlRequest
+        .mockResolvedValueOnce({ dataTable: mockTable })
+        .mockResolvedValueOnce({ createDataField: { id: "fld_new" } });
+
+      await runCommand(tablesCommand, [
+        "fields",
+        "add",
+        "users",
+        "--key",
+        "score",
+        "--name",
+        "Score",
+        "--type",
+        "DECIMAL",
+        "--required",
+        "--default-value",
+        "1.5",
+        "--table-order",
+        "3",
+      ]);
+
+      expect(inputs("createDataField")).toEqual([
+        {
+          tableId: "tbl_1",
+          key: "score",
+          name: "Score",
+          type: "DECIMAL",
+          required: true,
+          defaultValue: 1.5,
+          tableOrder: 3,
+        },
+      ]);
+    });
+
+    it("add resolves the referenced table for REFERENCE fields", async () => {
+      graphqlRequest
+        .mockResolvedValueOnce({ dataTable: mockTable })
+        .mockResolvedValueOnce({ dataTable: { id: "tbl_teams" } })
+        .mockResolvedValueOnce({ createDataField: { id: "fld_new" } });
+
+      await runCommand(tablesCommand, [
+        "fields",
+        "add",
+        "users",
+        "--key",
+        "teams",
+        "--name",
+        "Teams",
+        "--type",
+        "REFERENCE_MANY",
+        "--referenced-table",
+        "teams",
+      ]);
+
+      expect(graphqlRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ variables: { key: "teams" } })
+      );
+      expect(inputs("createDataField")).toEqual([
+        {
+          tableId: "tbl_1",
+          key: "teams",
+          name: "Teams",
+          type: "REFERENCE_MANY",
+          referencedTableId: "tbl_teams",
+        },
+      ]);
+    });
+
+    it("add requires --referenced-table for REFERENCE fields", async () => {
+      graphqlRequest.mockResolvedValueOnce({ dataTable: mockTable });
+      const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+
+      const original = process.exitCode;
+      await runCommand(tablesCommand, [
+        "fields",
+        "add",
+        "users",
+        "--key",
+        "team",
+        "--name",
+        "Team",
+        "--type",
+        "REFERENCE",
+      ]);
+      expect(process.exitCode).toBe(1);
+      expect(stderr).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "--referenced-table is required for REFERENCE fields"
+        )
+      );
+      expect(inputs("createDataField")).toEqual([]);
+      process.exitCode = original;
+      stderr.mockRestore();
+    });
+
+    it("add rejects a default value that does not match the type", async () => {
+      graphqlRequest.mockResolvedValueOnce({ dataTable: mockTable });
+
+      const original = process.exitCode;
+      await runCommand(tablesCommand, [
+        "fields",
+        "add",
+        "users",
+        "--key",
+        "age",
+        "--name",
+        "Age",
+        "--type",
+        "NUMBER",
+        "--default-value",
+        "old",
+      ]);
+      expect(process.exitCode).toBe(1);
+      expect(inputs("createDataField")).toEqual([]);
+      process.exitCode = original;
+    });
+
+    it("update parses the default value with the current field type", async () => {
+      graphqlRequest
+        .mockResolvedValueOnce({ dataTable: fieldTable })
+        .mockResolvedValueOnce({ updateDataField: { id: "fld_2" } });
+
+      await runCommand(tablesCommand, [
+        "fields",
+        "update",
+        "users",
+        "age",
+        "--name",
+        "Age (years)",
+        "--no-required",
+        "--default-value",
+        "18",
+      ]);
+
+      expect(inputs("updateDataField")).toEqual([
+        { id: "fld_2", name: "Age (years)", required: false, defaultValue: 18 },
+      ]);
+    });
+
+    it("update keeps the referenced table when only the type changes", async () => {
+      graphqlRequest
+        .mockResolvedValueOnce({ dataTable: fieldTable })
+        .mockResolvedValueOnce({ updateDataField: { id: "fld_3" } });
+
+      await runCommand(tablesCommand, [
+        "fields",
+        "update",
+        "users",
+        "team",
+        "--type",
+        "REFERENCE_MANY",
+      ]);
+
+      expect(inputs("updateDataField")).toEqual([
+        { id: "fld_3", type: "REFERENCE_MANY" },
+      ]);
+    });
+
+    it("update clears the referenced table when the type stops being a reference", async () => {
+      graphqlRequest
+        .mockResolvedValueOnce({ dataTable: fieldTable })
+        .mockResolvedValueOnce({ updateDataField: { id: "fld_3" } });
+
+      await runCommand(tablesCommand, [
+        "fields",
+        "update",
+        "users",
+        "team",
+        "--type",
+        "TEXT",
+      ]);
+
+      expect(inputs("updateDataField")).toEqual([
+        { id: "fld_3", type: "TEXT", referencedTableId: null },
+      ]);
+    });
+
+    it("update with no options sets exit code 1", async () => {
+      graphqlRequest.mockResolvedValueOnce({ dataTable: fieldTable });
+
+      const original = process.exitCode;
+      await runCommand(tablesCommand, ["fields", "update", "users", "age"]);
+      expect(process.exitCode).toBe(1);
+      expect(inputs("updateDataField")).toEqual([]);
+      process.exitCode = original;
+    });
+
+    it("remove deletes the field by id", async () => {
+      graphqlRequest
+        .mockResolvedValueOnce({ dataTable: fieldTable })
+        .mockResolvedValueOnce({ deleteDataField: "fld_2" });
+
+      await runCommand(tablesCommand, ["fields", "remove", "users", "age"]);
+
+      expect(inputs("deleteDataField")).toEqual([{ id: "fld_2" }]);
+    });
+
+    it("remove fails for an unknown field", async () => {
+      graphqlRequest.mockResolvedValueOnce({ dataTable: fieldTable });
+      const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+
+      const original = process.exitCode;
+      await runCommand(tablesCommand, ["fields", "remove", "users", "nope"]);
+      expect(process.exitCode).toBe(1);
+      expect(stderr).toHaveBeenCalledWith(
+        expect.stringContaining('Field "nope" not found in table "users"')
+      );
+      process.exitCode = original;
+      stderr.mockRestore();
+    });
+
+    it("reorder moves listed fields first and updates only changed positions", async () => {
+      graphqlRequest.mockResolvedValue({ updateDataField: { id: "fld" } });
+      graphqlRequest.mockResolvedValueOnce({ dataTable: fieldTable });
+
+      await runCommand(tablesCommand, ["fields", "reorder", "users", "team"]);
+
+      expect(inputs("updateDataField")).toEqual([
+        { id: "fld_3", tableOrder: 0 },
+        { id: "fld_1", tableOrder: 1 },
+        { id: "fld_2", tableOrder: 2 },
+      ]);
+    });
+
+    it("reorder rejects duplicate fields", async () => {
+      graphqlRequest.mockResolvedValueOnce({ dataTable: fieldTable });
+
+      const original = process.exitCode;
+      await runCommand(tablesCommand, [
+        "fields",
+        "reorder",
+        "users",
+        "age",
+        "age",
+      ]);
+      expect(process.exitCode).toBe(1);
+      expect(inputs("updateDataField")).toEqual([]);
+      process.exitCode = original;
+    });
+  });
+  describe("schema", () => {
+    const schemaFile = {
+      version: 1,
+      key: "users",
+      name: "Users",
+      createRule: "AUTHENTICATED",
+      readRule: "PUBLIC",
+      updateRule: "AUTHENTICATED_OWN",
+      deleteRule: "ADMIN_ONLY",
+      fields: [
+        { key: "age", name: "Age", type: "NUMBER" },
+        { key: "name", name: "Name", type: "TEXT", required: true },
+      ],
+    };
+
+    const mutations = () =>
+      graphqlRequest.mock.calls
+        .map(([request]) => request)
+        .filter((request) => request.query.includes("mutation"));
+
+    it("export writes the table schema without IDs", async () => {
+      graphqlRequest.mockResolvedValueOnce({ dataTables: [mockTable] });
+
+      await runCommand(tablesCommand, ["schema", "export", "users"]);
+
+      const [path, content] = mockWriteFile.mock.calls[0];
+      expect(path).toMatch(SCHEMA_PATH);
+      expect(JSON.parse(content)).toEqual({
+        version: 1,
+        key: "users",
+        name: "Users",
+        createRule: "AUTHENTICATED",
+        readRule: "PUBLIC",
+        updateRule: "AUTHENTICATED_OWN",
+        deleteRule: "ADMIN_ONLY",
+        fields: [
+          {
+            key: "name",
+            name: "Name",
+            type: "TEXT",
+            required: true,
+            defaultValue: null,
+            referencedTable: null,
+          },
+        ],
+      });
+    });
+
+    it("export fails for an unknown table", async () => {
+      graphqlRequest.mockResolvedValueOnce({ dataTables: [] });
+
+      const original = process.exitCode;
+      await runCommand(tablesCommand, ["schema", "export", "nope"]);
+      expect(process.exitCode).toBe(1);
+      expect(mockWriteFile).not.toHaveBeenCalled();
+      process.exitCode = original;
+    });
+
+    it("apply --dry-run previews without changing anything", async () => {
+      mockReadFile.mockResolvedValueOnce(JSON.stringify(schemaFile));
+      graphqlRequest.mockResolvedValueOnce({ dataTables: [mockTable] });
+      const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+
+      await runCommand(tablesCommand, [
+        "schema",
+        "apply",
+        "users.schema.json",
+        "--dry-run",
+      ]);
+
+      expect(mutations()).toEqual([]);
+      expect(stderr).toHaveBeenCalledWith(
+        expect.stringContaining("Fields will be reordered: age, name")
+      );
+      stderr.mockRestore();
+    });
+
+    it("apply adds fields and moves them into schema order", async () => {
+      mockReadFile.mockResolvedValueOnce(JSON.stringify(schemaFile));
+      graphqlRequest.mockResolvedValue({});
+      graphqlRequest
+        .mockResolvedValueOnce({ dataTables: [mockTable] })
+        .mockResolvedValueOnce({ createDataField: { id: "fld_2" } })
+        .mockResolvedValueOnce({
+          dataTable: {
+            fields: [
+              { id: "fld_1", key: "name", tableOrder: 0 },
+              { id: "fld_2", key: "age", tableOrder: 1 },
+            ],
+          },
+        });
+
+      await runCommand(tablesCommand, [
+        "schema",
+        "apply",
+        "users.schema.json",
+        "--force",
+      ]);
+
+      expect(mutations().map((request) => request.variables.input)).toEqual([
+        {
+          tableId: "tbl_1",
+          key: "age",
+          name: "Age",
+          type: "NUMBER",
+          required: false,
+          defaultValue: null,
+        },
+        { id: "fld_2", tableOrder: 0 },
+        { id: "fld_1", tableOrder: 1 },
+      ]);
+    });
+
+    it("apply creates a missing table before its fields", async () => {
+      mockReadFile.mockResolvedValueOnce(JSON.stringify(schemaFile));
+      graphqlRequest.mockResolvedValue({ createDataField: { id: "fld" } });
+      graphqlRequest
+        .mockResolvedValueOnce({ dataTables: [] })
+        .mockResolvedValueOnce({ createDataTable: { id: "tbl_new" } });
+
+      await runCommand(tablesCommand, [
+        "schema",
+        "apply",
+        "users.schema.json",
+        "--force",
+      ]);
+
+      const inputs = mutations().map((request) => request.variables.input);
+      expect(inputs[0]).toMatchObject({ key: "users", name: "Users" });
+      expect(inputs.slice(1)).toEqual([
+        expect.objectContaining({ tableId: "tbl_new", key: "age" }),
+        expect.objectContaining({ tableId: "tbl_new", key: "name" }),
+      ]);
+    });
+
+    it("apply rejects an invalid schema file", async () => {
+      mockReadFile.mockResolvedValueOnce(
+        JSON.stringify({ ...schemaFile, fields: "none" })
+      );
+
+      const original = process.exitCode;
+      await runCommand(tablesCommand, ["schema", "apply", "bad.json"]);
+      expect(process.exitCode).toBe(1);
+      expect(graphqlRequest).not.toHaveBeenCalled();
+      process.exitCode = original;
+    });
+  });
 });
@@ -11,6 +11,18 @@ vi.mock("../../src/lib/graphql-client.js", () => ({
   graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
 }));
 
+const getActiveProfile = vi.fn();
+let credentialSource = "profile";
+vi.mock("../../src/lib/token-storage.js", () => ({
+  CREDENTIAL_SOURCE_LABELS: {
+    env: "Environment variables",
+    profile: "Stored profile",
+    stdin: "Standard input",
+  },
+  getActiveProfile: (...args: unknown[]) => getActiveProfile(...args),
+  getCredentialSource: () => credentialSource,
+}));
+
 const { whoamiCommand } = await import("../../src/commands/whoami.js");
 
 describe("whoami", () => {
@@ -34,6 +46,34 @@ describe("whoami", () => {
     );
   });
 
+  it("shows the active profile", async () => {
+    graphqlRequest.mockResolvedValueOnce({
+      currentApp: { id: "app_1", name: "My App", status: "ACTIVE" },
+      currentUser: { auth: { email: "test@example.com" } },
+    });
+    getActiveProfile.mockResolvedValueOnce("client-a");
+    const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+
+    await runCommand(whoamiCommand, []);
+
+    expect(stderr.mock.calls.join("")).toContain("client-a");
+  });
+
+  it("labels external credential sources like auth status", async () => {
+    graphqlRequest.mockResolvedValueOnce({
+      currentApp: { id: "app_1", name: "My App", status: "ACTIVE" },
+      currentUser: { auth: { email: "test@example.com" } },
+    });
+    credentialSource = "env";
+    const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+
+    await runCommand(whoamiCommand, []);
+
+    expect(stderr.mock.calls.join("")).toContain("Environment variables");
+    expect(getActiveProfile).not.toHaveBeenCalled();
+    credentialSource = "profile";
+  });
+
   it("handles errors gracefully", async () => {
     graphqlRequest.mockRejectedValueOnce(new Error("Unauthorized"));
 
@@ -0,0 +1,412 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../../src/lib/program.js", () => ({
+  program: { opts: () => ({}) },
+}));
+const graphqlRequest = vi.fn();
+vi.mock("../../src/lib/graphql-client.js", () => ({
+  graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
+}));
+
+const {
+  applyConfigChanges,
+  createApplyContext,
+  diffAppConfig,
+  diffTableSchema,
+  selectSchemaSections,
+} = await import("../../src/lib/app-config.js");
+
+import type {
+  AppConfig,
+  PlanConfig,
+  TableConfig,
+} from "../../src/lib/types.js";
+
+const emptyConfig = (): AppConfig => ({
+  version: 1,
+  app: { id: "app_1", name: "My App" },
+  permissions: [],
+  plans: [],
+  customFields: [],
+  tables: [],
+  providers: [],
+  ssoApps: [],
+});
+
+const plan = (overrides: Partial<PlanConfig> = {}): PlanConfig => ({
+  id: "pln_1",
+  name: "Pro",
+  description: null,
+  icon: null,
+  status: "ACTIVE",
+  isPaid: false,
+  priority: null,
+  limitMembers: false,
+  memberLimit: null,
+  restrictToAdmin: false,
+  teamAccountsEnabled: false,
+  teamAccountUpgradeLink: null,
+  teamAccountInviteSignupLink: null,
+  allowedDomains: [],
+  redirects: {},
+  permissions: [],
+  prices: [],
+  ...overrides,
+});
+
+const table = (overrides: Partial<TableConfig> = {}): TableConfig => ({
+  id: "tbl_1",
+  key: "posts",
+  name: "Posts",
+  createRule: "AUTHENTICATED",
+  readRule: "PUBLIC",
+  updateRule: "AUTHENTICATED_OWN",
+  deleteRule: "ADMIN_ONLY",
+  fields: [],
+  ...overrides,
+});
+
+describe("app-config", () => {
+  describe("diffAppConfig", () => {
+    it("returns no changes for identical configs", () => {
+      const current = { ...emptyConfig(), plans: [plan()] };
+      expect(diffAppConfig(current, current)).toEqual([]);
+    });
+
+    it("matches by ID before falling back to natural keys", () => {
+      const current = { ...emptyConfig(), plans: [plan()] };
+      const changes = diffAppConfig(
+        { plans: [plan({ name: "Premium" })] },
+        current
+      );
+      expect(changes).toEqual([
+        expect.objectContaining({
+          action: "update",
+          resource: "plan",
+          key: "Premium",
+          fields: ["name"],
+        }),
+      ]);
+    });
+
+    it("matches by name when IDs differ", () => {
+      const current = { ...emptyConfig(), plans: [plan()] };
+      const changes = diffAppConfig(
+        { plans: [plan({ id: "pln_other", description: "New" })] },
+        current
+      );
+      expect(changes).toEqual([
+        expect.objectContaining({ action: "update", fields: ["description"] }),
+      ]);
+    });
+
+    it("ignores object key order and null values when comparing", () => {
+      const current = {
+        ...emptyConfig(),
+        plans: [plan({ redirects: { afterLogin: "/a", afterLogout: null } })],
+      };
+      const changes = diffAppConfig(
+        { plans: [plan({ redirects: { afterLogin: "/a" } })] },
+        current
+      );
+      expect(changes).toEqual([]);
+    });
+
+    it("leaves props out of the desired config unchanged", () => {
+      const current = { ...emptyConfig(), plans: [plan({ icon: "star" })] };
+      const { icon: _icon, description: _description, ...partial } = plan();
+      expect(
+        diffAppConfig({ plans: [partial as PlanConfig] }, current)
+      ).toEqual([]);
+    });
+
+    it("still reports an explicit null as a change", () => {
+      const current = { ...emptyConfig(), plans: [plan({ icon: "star" })] };
+      const changes = diffAppConfig({ plans: [plan({ icon: null })] }, current);
+      expect(changes).toEqual([
+        expect.objectContaining({ action: "update", fields: ["icon"] }),
+      ]);
+    });
+
+    it("skips sections that are missing from the desired config", () => {
+      const current = { ...emptyConfig(), plans: [plan()] };
+      expect(diffAppConfig({ permissions: [] }, current)).toEqual([]);
+    });
+
+    it("creates children of new parents with the parent key", () => {
+      const changes = diffAppConfig(
+        {
+          tables: [
+            table({
+              id: undefined,
+              fields: [
+                {
+                  key: "title",
+                  name: "Title",
+                  type: "TEXT",
+                  required: true,
+                  defaultValue: null,
+                  referencedTable: null,
+                },
+              ],
+            }),
+          ],
+        },
+        emptyConfig()
+      );
+      expect(changes.map((c) => [c.action, c.resource, c.parent])).toEqual([
+        ["create", "table", undefined],
+        ["create", "tableField", "posts"],
+      ]);
+    });
+
+    it("orders deletes in reverse dependency order", () => {
+      const current = {
+        ...emptyConfig(),
+        permissions: [{ id: "per_1", name: "view", description: null }],
+        plans: [plan()],
+        tables: [
+          table({
+            fields: [
+              {
+                id: "fld_1",
+                key: "title",
+                name: "Title",
+                type: "TEXT",
+                required: true,
+                defaultValue: null,
+                referencedTable: null,
+              },
+            ],
+          }),
+          table({ id: "tbl_2", key: "comments", name: "Comments" }),
+        ],
+      };
+      const changes = diffAppConfig(
+        { permissions: [], plans: [], tables: [table()] },
+        current
+      );
+      expect(changes.map((c) => [c.resource, c.key])).toEqual([
+        ["tableField", "title"],
+        ["table", "comments"],
+        ["plan", "Pro"],
+        ["permission", "view"],
+      ]);
+    });
+
+    it("diffs prices within matched plans", () => {
+      const price = {
+        id: "prc_1",
+        name: "Monthly",
+        type: "SUBSCRIPTION",
+        amount: 10,
+        currency: "usd",
+        active: true,
+        interval: { type: "MONTHLY", count: 1 },
+        freeTrial: null,
+        setupFee: null,
+        expiration: null,
+      };
+      const current = { ...emptyConfig(), plans: [plan({ prices: [price] })] };
+      const changes = diffAppConfig(
+        { plans: [plan({ prices: [{ ...price, active: false }] })] },
+        current
+      );
+      expect(changes).toEqual([
+        expect.objectContaining({
+          action: "update",
+          resource: "price",
+          parent: "Pro",
+          fields: ["active"],
+        }),
+      ]);
+    });
+  });
+
+  describe("diffTableSchema", () => {
+    const field = (key: string, type: "TEXT" | "NUMBER") => ({
+      key,
+      name: key,
+      type,
+      required: false,
+      defaultValue: null,
+      referencedTable: null,
+    });
+
+    it("creates a missing table with its fields", () => {
+      const changes = diffTableSchema(
+        table({ id: undefined, fields: [field("title", "TEXT")] }),
+        undefined
+      );
+      expect(
+        changes.map((c) => [c.action, c.resource, c.key, c.parent])
+      ).toEqual([
+        ["create", "table", "posts", undefined],
+        ["create", "tableField", "title", "posts"],
+      ]);
+    });
+
+    it("plans field additions, removals and type changes", () => {
+      const current = table({
+        fields: [
+          { ...field("title", "TEXT"), id: "fld_1" },
+          { ...field("views", "TEXT"), id: "fld_2" },
+          { ...field("legacy", "TEXT"), id: "fld_3" },
+        ],
+      });
+      const changes = diffTableSchema(
+        table({
+          id: undefined,
+          fields: [
+            field("title", "TEXT"),
+            field("views", "NUMBER"),
+            field("slug", "TEXT"),
+          ],
+        }),
+        current
+      );
+      expect(changes.map((c) => [c.action, c.key, c.fields])).toEqual([
+        ["create", "slug", []],
+        ["update", "views", ["type"]],
+        ["delete", "legacy", []],
+      ]);
+    });
+  });
+
+  describe("selectSchemaSections", () => {
+    it("keeps only permissions, plans, custom fields and tables", () => {
+      const config = {
+        ...emptyConfig(),
+        ssoApps: [{ id: "sso_1", name: "Portal", redirectUris: [] }],
+      };
+      expect(Object.keys(selectSchemaSections(config))).toEqual([
+        "permissions",
+        "plans",
+        "customFields",
+        "tables",
+      ]);
+    });
+  });
+
+  describe("applyConfigChanges", () => {
+    it("keeps applying after a failed change and counts both", async () => {
+      graphqlRequest
+        .mockRejectedValueOnce(new Error("Boom"))
+        .mockResolvedValueOnce({ deletePermission: { id: "per_2" } });
+      const stderrSpy = vi
+        .spyOn(process.stderr, "write")
+        .mockImplementation(() => true);
+      const progress = vi.fn();
+
+      const result = await applyConfigChanges(
+        [
+          {
+            action: "delete",
+            resource: "permission",
+            key: "a",
+            fields: [],
+            current: { id: "per_1" },
+          },
+          {
+            action: "delete",
+            resource: "permission",
+            key: "b",
+            fields: [],
+            current: { id: "per_2" },
+          },
+        ],
+        createApplyContext(emptyConfig()),
+        progress
+      );
+      const output = stderrSpy.mock.calls.map((call) => call[0]).join("");
+      stderrSpy.mockRestore();
+
+      expect(result).toEqual({ applied: 1, failed: 1 });
+      expect(output).toContain("delete permission a: Boom");
+      expect(progress.mock.calls).toEqual([
+        [1, 2],
+        [2, 2],
+      ]);
+    });
+
+    it("sends explicit nulls so the file can clear a field", async () => {
+      graphqlRequest.mockResolvedValue({ updatePlan: { id: "pln_1" } });
+      const current = {
+        ...emptyConfig(),
+        plans: [plan({ description: "Old" })],
+      };
+      const changes = diffAppConfig({ plans: [plan()] }, current);
+
+      await applyConfigChanges(changes, createApplyContext(current), vi.fn());
+
+      expect(graphqlRequest.mock.calls[0][0].variables.input).toMatchObject({
+        planId: "pln_1",
+        description: null,
+      });
+    });
+
+    it("clears the referenced table when a field stops being a reference", async () => {
+      graphqlRequest.mockResolvedValue({ updateDataField: { id: "fld_1" } });
+      const field = {
+        id: "fld_1",
+        key: "author",
+        name: "Author",
+        type: "REFERENCE",
+        required: false,
+        defaultValue: null,
+        referencedTable: "authors",
+      };
+      const current = {
+        ...emptyConfig(),
+        tables: [table({ fields: [field] })],
+      };
+      const changes = diffAppConfig(
+        {
+          tables: [
+            table({
+              fields: [{ ...field, type: "TEXT", referencedTable: null }],
+            }),
+          ],
+        },
+        current
+      );
+
+      await applyConfigChanges(changes, createApplyContext(current), vi.fn());
+
+      expect(graphqlRequest.mock.calls[0][0].variables.input).toEqual({
+        id: "fld_1",
+        name: "Author",
+        type: "TEXT",
+        required: false,
+        defaultValue: null,
+        referencedTableId: null,
+      });
+    });
+
+    it("refuses to create a provider without a client secret", async () => {
+      const stderrSpy = vi
+        .spyOn(process.stderr, "write")
+        .mockImplementation(() => true);
+      const provider = {
+        name: "Google",
+        type: "GOOGLE",
+        clientId: "client_1",
+        enabled: true,
+      };
+
+      const result = await applyConfigChanges(
+        diffAppConfig({ providers: [provider] }, emptyConfig()),
+        createApplyContext(emptyConfig()),
+        vi.fn()
+      );
+      const output = stderrSpy.mock.calls.map((call) => call[0]).join("");
+      stderrSpy.mockRestore();
+
+      expect(graphqlRequest).not.toHaveBeenCalled();
+      expect(result).toEqual({ applied: 0, failed: 1 });
+      expect(output).toContain(
+        'Provider "GOOGLE" needs a clientSecret in the config file'
+      );
+    });
+  });
+});
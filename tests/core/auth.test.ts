@@ -5,26 +5,66 @@ const loadTokens = vi.fn();
 const clearTokens = vi.fn();
 const getValidAccessToken = vi.fn();
 const saveTokens = vi.fn();
+const getActiveProfile = vi.fn();
+const loadCredentials = vi.fn();
+let credentialSource = "profile";
+const listProfiles = vi.fn();
+const useProfile = vi.fn();
+const removeProfile = vi.fn();
 const revokeToken = vi.fn();
 const registerClient = vi.fn();
 const exchangeCodeForTokens = vi.fn();
+const parseAuthorizationResponse = vi.fn();
 
 vi.mock("../../src/lib/token-storage.js", () => ({
+  CREDENTIAL_SOURCE_LABELS: {
+    env: "Environment variables",
+    profile: "Stored profile",
+    stdin: "Standard input",
+  },
   loadTokens: (...args: unknown[]) => loadTokens(...args),
   clearTokens: (...args: unknown[]) => clearTokens(...args),
   saveTokens: (...args: unknown[]) => saveTokens(...args),
   getValidAccessToken: (...args: unknown[]) => getValidAccessToken(...args),
+  getActiveProfile: (...args: unknown[]) => getActiveProfile(...args),
+  getCredentialSource: () => credentialSource,
+  loadCredentials: (...args: unknown[]) => loadCredentials(...args),
+  NO_EXPIRY: Number.MAX_SAFE_INTEGER,
+  listProfiles: (...args: unknown[]) => listProfiles(...args),
+  useProfile: (...args: unknown[]) => useProfile(...args),
+  removeProfile: (...args: unknown[]) => removeProfile(...args),
 }));
 vi.mock("../../src/lib/oauth.js", () => ({
   registerClient: (...args: unknown[]) => registerClient(...args),
   generateCodeVerifier: () => "verifier",
   generateCodeChallenge: () => "challenge",
   generateState: () => "test_state",
+  parseAuthorizationResponse: (...args: unknown[]) =>
+    parseAuthorizationResponse(...args),
   buildAuthorizationUrl: () => "https://auth.example.com",
   exchangeCodeForTokens: (...args: unknown[]) => exchangeCodeForTokens(...args),
   revokeToken: (...args: unknown[]) => revokeToken(...args),
 }));
-vi.mock("open", () => ({ default: vi.fn() }));
+const getCredentialBackend = vi.fn();
+const migrateCredentials = vi.fn();
+vi.mock("../../src/lib/credential-store.js", () => ({
+  CREDENTIAL_BACKENDS: ["keychain", "encrypted-file", "file"],
+  getCredentialBackend: (...args: unknown[]) => getCredentialBackend(...args),
+  migrateCredentials: (...args: unknown[]) => migrateCredentials(...args),
+}));
+
+const mockOpen = vi.fn();
+vi.mock("open", () => ({ default: (...args: unknown[]) => mockOpen(...args) }));
+
+let mockAnswer = "";
+vi.mock("node:readline", () => ({
+  createInterface: () => ({
+    question: (_msg: string, cb: (answer: string) => void) => {
+      cb(mockAnswer);
+    },
+    close: vi.fn(),
+  }),
+}));
 vi.mock("yocto-spinner", () => {
   const spinner: Record<string, unknown> = { text: "" };
   spinner.start = vi.fn(() => spinner);
@@ -115,6 +155,46 @@ describe("auth", () => {
       });
     });
 
+    it("completes the flow from a pasted redirect URL with --no-browser", async () => {
+      registerClient.mockResolvedValueOnce("client_123");
+      parseAuthorizationResponse.mockReturnValueOnce("pasted_code");
+      exchangeCodeForTokens.mockResolvedValueOnce({
+        access_token: "at_abc",
+        expires_in: 3600,
+      });
+      mockAnswer =
+        "http://127.0.0.1:3456/callback?code=pasted_code&state=test_state";
+
+      await runCommand(authCommand, ["login", "--no-browser"]);
+
+      expect(mockOpen).not.toHaveBeenCalled();
+      expect(parseAuthorizationResponse).toHaveBeenCalledWith(
+        mockAnswer,
+        "test_state"
+      );
+      expect(exchangeCodeForTokens).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: "pasted_code",
+          codeVerifier: "verifier",
+        })
+      );
+      expect(saveTokens).toHaveBeenCalled();
+    });
+
+    it("fails --no-browser login when the pasted input is rejected", async () => {
+      registerClient.mockResolvedValueOnce("client_123");
+      parseAuthorizationResponse.mockImplementationOnce(() => {
+        throw new Error("State mismatch in OAuth callback");
+      });
+      mockAnswer = "/callback?code=abc&state=wrong";
+
+      const original = process.exitCode;
+      await runCommand(authCommand, ["login", "--no-browser"]);
+      expect(process.exitCode).toBe(1);
+      expect(exchangeCodeForTokens).not.toHaveBeenCalled();
+      process.exitCode = original;
+    });
+
     it("handles authorization error in callback", async () => {
       registerClient.mockResolvedValueOnce("client_123");
 
@@ -293,16 +373,16 @@ describe("auth", () => {
 
   describe("status", () => {
     it("shows not logged in when no tokens", async () => {
-      loadTokens.mockResolvedValueOnce(null);
+      loadCredentials.mockResolvedValueOnce(null);
 
       await runCommand(authCommand, ["status"]);
 
-      expect(loadTokens).toHaveBeenCalled();
+      expect(loadCredentials).toHaveBeenCalled();
     });
 
     it("shows logged in status with valid token", async () => {
       const futureExpiry = Math.floor(Date.now() / 1000) + 3600;
-      loadTokens.mockResolvedValueOnce({
+      loadCredentials.mockResolvedValueOnce({
         refresh_token: "rt_abc",
         client_id: "client_1",
         expires_at: futureExpiry,
@@ -312,13 +392,13 @@ describe("auth", () => {
 
       await runCommand(authCommand, ["status"]);
 
-      expect(loadTokens).toHaveBeenCalled();
+      expect(loadCredentials).toHaveBeenCalled();
       expect(getValidAccessToken).toHaveBeenCalled();
     });
 
     it("shows expired status", async () => {
       const pastExpiry = Math.floor(Date.now() / 1000) - 3600;
-      loadTokens.mockResolvedValueOnce({
+      loadCredentials.mockResolvedValueOnce({
         refresh_token: "rt_abc",
         client_id: "client_1",
         expires_at: pastExpiry,
@@ -327,7 +407,137 @@ describe("auth", () => {
 
       await runCommand(authCommand, ["status"]);
 
-      expect(loadTokens).toHaveBeenCalled();
+      expect(loadCredentials).toHaveBeenCalled();
+    });
+
+    it("shows the active profile", async () => {
+      loadCredentials.mockResolvedValueOnce(null);
+      getActiveProfile.mockResolvedValueOnce("client-a");
+      const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+
+      await runCommand(authCommand, ["status"]);
+
+      expect(stderr.mock.calls.join("")).toContain("client-a");
+    });
+
+    it("flags plaintext credential storage", async () => {
+      loadCredentials.mockResolvedValueOnce(null);
+      getCredentialBackend.mockResolvedValueOnce("file");
+      const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+
+      await runCommand(authCommand, ["status"]);
+
+      expect(stderr.mock.calls.join("")).toContain("auth migrate-storage");
+    });
+
+    it("reports environment credentials as the source", async () => {
+      credentialSource = "env";
+      loadCredentials.mockResolvedValueOnce({
+        access_token: "at_env",
+        client_id: "",
+        expires_at: Number.MAX_SAFE_INTEGER,
+      });
+      getValidAccessToken.mockResolvedValueOnce("at_env");
+      const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+
+      await runCommand(authCommand, ["status"]);
+
+      const output = stderr.mock.calls.join("");
+      expect(output).toContain("Environment variables");
+      expect(output).not.toContain("Profile:");
+      expect(getActiveProfile).not.toHaveBeenCalled();
+      credentialSource = "profile";
+    });
+  });
+
+  describe("migrate-storage", () => {
+    it("migrates to the default backend", async () => {
+      migrateCredentials.mockResolvedValueOnce({
+        from: "file",
+        to: "keychain",
+      });
+
+      await runCommand(authCommand, ["migrate-storage"]);
+
+      expect(migrateCredentials).toHaveBeenCalledWith(undefined);
+    });
+
+    it("migrates to the requested backend", async () => {
+      migrateCredentials.mockResolvedValueOnce({
+        from: "keychain",
+        to: "encrypted-file",
+      });
+
+      await runCommand(authCommand, [
+        "migrate-storage",
+        "--to",
+        "encrypted-file",
+      ]);
+
+      expect(migrateCredentials).toHaveBeenCalledWith("encrypted-file");
+    });
+
+    it("handles migration errors", async () => {
+      migrateCredentials.mockRejectedValueOnce(
+        new Error("Credentials are already stored in keychain.")
+      );
+
+      const original = process.exitCode;
+      await runCommand(authCommand, ["migrate-storage"]);
+      expect(process.exitCode).toBe(1);
+      process.exitCode = original;
+    });
+  });
+
+  describe("profiles", () => {
+    it("lists profiles", async () => {
+      listProfiles.mockResolvedValueOnce([
+        {
+          name: "client-a",
+          active: true,
+          tokens: { app_id: "app_a", expires_at: 9_999_999_999 },
+        },
+      ]);
+
+      await runCommand(authCommand, ["profiles", "list"]);
+
+      expect(listProfiles).toHaveBeenCalled();
+    });
+
+    it("switches the active profile", async () => {
+      useProfile.mockResolvedValueOnce(undefined);
+
+      await runCommand(authCommand, ["profiles", "use", "client-a"]);
+
+      expect(useProfile).toHaveBeenCalledWith("client-a");
+    });
+
+    it("handles unknown profiles", async () => {
+      useProfile.mockRejectedValueOnce(
+        new Error('Profile "missing" not found.')
+      );
+
+      const original = process.exitCode;
+      await runCommand(authCommand, ["profiles", "use", "missing"]);
+      expect(process.exitCode).toBe(1);
+      process.exitCode = original;
+    });
+
+    it("removes a profile and revokes its refresh token", async () => {
+      removeProfile.mockResolvedValueOnce({
+        refresh_token: "rt_a",
+        client_id: "client_a",
+        expires_at: 0,
+      });
+      revokeToken.mockResolvedValueOnce(undefined);
+
+      await runCommand(authCommand, ["profiles", "remove", "client-a"]);
+
+      expect(removeProfile).toHaveBeenCalledWith("client-a");
+      expect(revokeToken).toHaveBeenCalledWith({
+        clientId: "client_a",
+        token: "rt_a",
+      });
     });
   });
 
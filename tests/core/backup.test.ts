@@ -0,0 +1,369 @@
+import { Readable, Writable } from "node:stream";
+import { gzipSync } from "node:zlib";
+import { describe, expect, it, vi } from "vitest";
+
+// In-memory files shared by the stream mocks
+const files = new Map<string, Buffer>();
+
+vi.mock("node:fs", () => ({
+  createReadStream: (path: string) => Readable.from([files.get(path) ?? ""]),
+  createWriteStream: (path: string) => {
+    const chunks: Buffer[] = [];
+    return new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+      final(callback) {
+        files.set(path, Buffer.concat(chunks));
+        callback();
+      },
+    });
+  },
+}));
+
+const mockRm = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  rm: (...args: unknown[]) => mockRm(...args),
+}));
+
+vi.mock("../../src/lib/program.js", () => ({
+  program: { opts: () => ({}) },
+}));
+
+const fetchAppConfig = vi.fn();
+vi.mock("../../src/lib/app-config.js", () => ({
+  fetchAppConfig: () => fetchAppConfig(),
+}));
+
+const graphqlRequest = vi.fn();
+vi.mock("../../src/lib/graphql-client.js", () => ({
+  graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
+}));
+
+const {
+  defaultBackupPath,
+  readBackup,
+  readBackupEntries,
+  restoreBackupData,
+  writeBackup,
+} = await import("../../src/lib/backup.js");
+
+const field = (key: string, type: string, referencedTable?: string) => ({
+  key,
+  name: key,
+  type,
+  required: false,
+  defaultValue: null,
+  referencedTable: referencedTable ?? null,
+});
+
+const config = {
+  version: 1,
+  app: { id: "app_old", name: "Old App" },
+  permissions: [],
+  plans: [],
+  customFields: [],
+  tables: [
+    {
+      id: "tbl_posts",
+      key: "posts",
+      name: "Posts",
+      createRule: "AUTHENTICATED",
+      readRule: "PUBLIC",
+      updateRule: "AUTHENTICATED_OWN",
+      deleteRule: "AUTHENTICATED_OWN",
+      fields: [
+        field("title", "TEXT"),
+        field("author", "MEMBER_REFERENCE"),
+        field("category", "REFERENCE", "categories"),
+        field("related", "REFERENCE_MANY", "posts"),
+      ],
+    },
+    {
+      id: "tbl_categories",
+      key: "categories",
+      name: "Categories",
+      createRule: "ADMIN_ONLY",
+      readRule: "PUBLIC",
+      updateRule: "ADMIN_ONLY",
+      deleteRule: "ADMIN_ONLY",
+      fields: [field("name", "TEXT")],
+    },
+  ],
+  providers: [],
+  ssoApps: [],
+};
+
+const settings = {
+  captchaEnabled: true,
+  preventDisposableEmails: null,
+  requireUser2FA: false,
+  disableConcurrentLogins: false,
+  memberSessionDurationDays: 14,
+  allowMemberSelfDelete: null,
+};
+
+const member = {
+  id: "mem_old",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  auth: { email: "ada@example.com" },
+  customFields: { team: "core" },
+  metaData: {},
+  json: { theme: "dark" },
+  permissions: { all: [] },
+  planConnections: [
+    { id: "con_1", type: "FREE", plan: { id: "pln_old", name: "Free" } },
+    {
+      id: "con_2",
+      type: "SUBSCRIPTION",
+      plan: { id: "pln_paid", name: "Pro" },
+    },
+  ],
+};
+
+const record = (id: string, data: Record<string, unknown>) => ({
+  id,
+  data,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  internalOrder: 0,
+});
+
+const records: Record<string, unknown[]> = {
+  tbl_categories: [record("rec_cat", { name: "News" })],
+  tbl_posts: [
+    record("rec_p1", {
+      title: "First",
+      author: "mem_old",
+      category: "rec_cat",
+      related: ["rec_p2", "rec_gone"],
+    }),
+    record("rec_p2", { title: "Second", related: [] }),
+  ],
+};
+
+const connection = (nodes: unknown[]) => ({
+  edges: nodes.map((node) => ({ node })),
+  pageInfo: { endCursor: null },
+});
+
+const mockSourceApp = () => {
+  fetchAppConfig.mockResolvedValue(config);
+  graphqlRequest.mockImplementation(
+    ({
+      query,
+      variables,
+    }: {
+      query: string;
+      variables: { tableId: string };
+    }) => {
+      if (query.includes("currentApp")) {
+        return Promise.resolve({ currentApp: settings });
+      }
+      if (query.includes("getMembers")) {
+        return Promise.resolve({ getMembers: connection([member]) });
+      }
+      return Promise.resolve({
+        dataRecords: connection(records[variables.tableId] ?? []),
+      });
+    }
+  );
+};
+
+const collect = async (filePath: string) => {
+  const entries: unknown[] = [];
+  for await (const entry of readBackupEntries(filePath)) {
+    entries.push(entry);
+  }
+  return entries;
+};
+
+describe("backup", () => {
+  it("names archives after the app and time", () => {
+    expect(
+      defaultBackupPath("app_1", new Date("2024-05-06T07:08:09.123Z"))
+    ).toBe("memberstack-backup-app_1-2024-05-06T07-08-09-123Z.jsonl.gz");
+  });
+
+  it("writes a gzip JSONL archive with records in reference order", async () => {
+    mockSourceApp();
+    const progress = vi.fn();
+
+    const { counts, filePath } = await writeBackup(
+      "/backup.jsonl.gz",
+      progress
+    );
+
+    expect(filePath).toBe("/backup.jsonl.gz");
+    expect(counts).toEqual({
+      members: 1,
+      records: { categories: 1, posts: 2 },
+    });
+    const entries = (await collect(filePath)) as {
+      table?: string;
+      type: string;
+    }[];
+    expect(entries.map((e) => e.table ?? e.type)).toEqual([
+      "header",
+      "settings",
+      "config",
+      "member",
+      "categories",
+      "posts",
+      "posts",
+    ]);
+    expect(entries[0]).toMatchObject({
+      version: 1,
+      app: { id: "app_old", name: "Old App" },
+    });
+    expect(progress).toHaveBeenCalledWith("Backing up posts records (2)...");
+  });
+
+  it("removes a partial archive when the backup fails", async () => {
+    mockSourceApp();
+    graphqlRequest.mockImplementation(({ query }: { query: string }) =>
+      query.includes("currentApp")
+        ? Promise.resolve({ currentApp: settings })
+        : Promise.reject(new Error("Network down"))
+    );
+
+    await expect(writeBackup("/broken.jsonl.gz")).rejects.toThrow(
+      "Network down"
+    );
+    expect(mockRm).toHaveBeenCalledWith("/broken.jsonl.gz", { force: true });
+  });
+
+  it("reads the config and counts without keeping rows", async () => {
+    mockSourceApp();
+    await writeBackup("/backup.jsonl.gz");
+
+    const backup = await readBackup("/backup.jsonl.gz");
+
+    expect(backup.config.app.id).toBe("app_old");
+    expect(backup.settings).toEqual(settings);
+    expect(backup.counts).toEqual({
+      members: 1,
+      records: { categories: 1, posts: 2 },
+    });
+  });
+
+  it("rejects files that are not archives or have another version", async () => {
+    files.set("/plain.json", Buffer.from("{}\n"));
+    await expect(readBackup("/plain.json")).rejects.toThrow(
+      "Invalid backup archive: /plain.json is not gzip-compressed"
+    );
+
+    files.set(
+      "/future.jsonl.gz",
+      gzipSync(`${JSON.stringify({ type: "header", version: 9 })}\n`)
+    );
+    await expect(readBackup("/future.jsonl.gz")).rejects.toThrow(
+      "Unsupported backup version: 9. Expected 1."
+    );
+
+    files.set("/garbled.jsonl.gz", gzipSync("not json\n"));
+    await expect(readBackup("/garbled.jsonl.gz")).rejects.toThrow(
+      "Invalid backup archive: line 1 is not valid JSON"
+    );
+  });
+
+  it("restores members and records with remapped plan, member and record IDs", async () => {
+    mockSourceApp();
+    await writeBackup("/backup.jsonl.gz");
+
+    let created = 0;
+    graphqlRequest.mockImplementation(({ query }: { query: string }) => {
+      if (query.includes("signupMemberPasswordless")) {
+        return Promise.resolve({
+          signupMemberPasswordless: { member: { id: "mem_new" } },
+        });
+      }
+      if (query.includes("createDataRecord")) {
+        created++;
+        return Promise.resolve({
+          createDataRecord: { id: `rec_new_${created}` },
+        });
+      }
+      return Promise.resolve({});
+    });
+
+    const result = await restoreBackupData(
+      "/backup.jsonl.gz",
+      config as never,
+      {
+        planIds: new Map([["Free", "pln_new"]]),
+        tableIds: new Map([
+          ["categories", "tbl_new_categories"],
+          ["posts", "tbl_new_posts"],
+        ]),
+      },
+      { concurrency: 1, passwordMode: "passwordless" }
+    );
+
+    const calls = graphqlRequest.mock.calls.map(
+      ([request]) => request as { query: string; variables: { input: unknown } }
+    );
+    const inputs = (name: string) =>
+      calls.filter((c) => c.query.includes(name)).map((c) => c.variables.input);
+
+    expect(inputs("signupMemberPasswordless")).toEqual([
+      {
+        email: "ada@example.com",
+        customFields: { team: "core" },
+        plans: [{ planId: "pln_new" }],
+      },
+    ]);
+    expect(inputs("updateMember(")).toEqual([
+      { memberId: "mem_new", json: { theme: "dark" } },
+    ]);
+    expect(inputs("createDataRecord")).toEqual([
+      { tableId: "tbl_new_categories", data: { name: "News" } },
+      {
+        tableId: "tbl_new_posts",
+        data: { title: "First", author: "mem_new", category: "rec_new_1" },
+      },
+      { tableId: "tbl_new_posts", data: { title: "Second", related: [] } },
+    ]);
+    // rec_p2 did not exist yet when rec_p1 was created
+    expect(inputs("updateDataRecord")).toEqual([
+      { id: "rec_new_2", data: { related: ["rec_new_3"] } },
+    ]);
+    expect(result.members.succeeded).toBe(1);
+    expect(result.records.succeeded).toBe(3);
+    expect(result.references.succeeded).toBe(1);
+    expect(result.unresolved).toBe(1);
+  });
+
+  it("sends a reset email when generating passwords", async () => {
+    mockSourceApp();
+    await writeBackup("/backup.jsonl.gz");
+    graphqlRequest.mockImplementation(({ query }: { query: string }) =>
+      Promise.resolve(
+        query.includes("signupMemberEmailPassword")
+          ? { signupMemberEmailPassword: { member: { id: "mem_new" } } }
+          : { createDataRecord: { id: "rec_new" } }
+      )
+    );
+
+    const result = await restoreBackupData(
+      "/backup.jsonl.gz",
+      { ...config, tables: [] } as never,
+      { planIds: new Map(), tableIds: new Map() },
+      { concurrency: 1, passwordMode: "generate" }
+    );
+
+    const signup = graphqlRequest.mock.calls.find(([request]) =>
+      request.query.includes("signupMemberEmailPassword")
+    );
+    expect(signup?.[0].variables.input.password).toEqual(expect.any(String));
+    expect(graphqlRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: expect.stringContaining("sendMemberResetPasswordEmail"),
+        variables: { input: { email: "ada@example.com" } },
+      })
+    );
+    // Tables missing from the target fail their records
+    expect(result.records.failed).toBe(3);
+  });
+});
@@ -0,0 +1,300 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../../src/lib/program.js", () => ({
+  program: { opts: () => ({}) },
+}));
+
+const writeOutputFile = vi.fn();
+vi.mock("../../src/lib/csv.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/lib/csv.js")>()),
+  writeOutputFile: (...args: unknown[]) => writeOutputFile(...args),
+}));
+
+const printError = vi.fn();
+vi.mock("../../src/lib/utils.js", () => ({
+  delay: () => Promise.resolve(),
+  printError: (...args: unknown[]) => printError(...args),
+  printSuccess: vi.fn(),
+}));
+
+const {
+  formatBulkProgress,
+  parseConcurrency,
+  runBulk,
+  setBulkExitCode,
+  writeBulkErrors,
+} = await import("../../src/lib/bulk.js");
+
+describe("bulk", () => {
+  describe("runBulk", () => {
+    it("counts succeeded and failed tasks", async () => {
+      const result = await runBulk([1, 2, 3, 4], (item) =>
+        item % 2 === 0
+          ? Promise.resolve(`id_${item}`)
+          : Promise.reject(new Error("odd"))
+      );
+
+      expect(result).toEqual({
+        completed: 4,
+        failed: 2,
+        failures: [
+          { error: "odd", index: 0, item: 1 },
+          { error: "odd", index: 2, item: 3 },
+        ],
+        skipped: 0,
+        succeeded: 2,
+        total: 4,
+      });
+    });
+
+    it("prints failures with the row label", async () => {
+      await runBulk(
+        ["a", "b"],
+        (item) =>
+          item === "a"
+            ? Promise.reject(new Error("boom"))
+            : Promise.resolve(undefined),
+        { label: (item, index) => `Row ${index + 1} (${item})` }
+      );
+
+      expect(printError).toHaveBeenCalledWith("Row 1 (a): boom");
+    });
+
+    it("skips items and records results in the journal", async () => {
+      const journal = { close: vi.fn(), path: "run.jsonl", record: vi.fn() };
+      const task = vi.fn((item: string) =>
+        item === "c"
+          ? Promise.reject(new Error("boom"))
+          : Promise.resolve(`id_${item}`)
+      );
+
+      const result = await runBulk(["a", "b", "c"], task, {
+        journal,
+        skip: (_item, index) => index === 0,
+      });
+
+      expect(task).toHaveBeenCalledTimes(2);
+      expect(result).toEqual(
+        expect.objectContaining({ skipped: 1, succeeded: 1, total: 2 })
+      );
+      expect(journal.record).toHaveBeenCalledWith({
+        id: "id_b",
+        row: 1,
+        status: "succeeded",
+      });
+      expect(journal.record).toHaveBeenCalledWith({
+        error: "boom",
+        row: 2,
+        status: "failed",
+      });
+      expect(journal.close).toHaveBeenCalled();
+    });
+
+    it("stops starting rows when the journal cannot be written", async () => {
+      const journal = {
+        close: vi.fn(),
+        path: "run.jsonl",
+        record: vi
+          .fn()
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValue(new Error("Could not write journal run.jsonl")),
+      };
+      const task = vi.fn((item: number) => Promise.resolve(`id_${item}`));
+
+      await expect(
+        runBulk([1, 2, 3, 4, 5], task, { concurrency: 1, journal })
+      ).rejects.toThrow(
+        "Could not write journal run.jsonl. Stopped after 2 of 5 row(s) (2 succeeded, 0 failed)"
+      );
+      expect(task).toHaveBeenCalledTimes(2);
+      expect(journal.close).toHaveBeenCalled();
+    });
+
+    it("reads streamed rows only as workers free up", async () => {
+      const events: string[] = [];
+      async function* rows() {
+        for (const item of ["a", "b", "c"]) {
+          await Promise.resolve();
+          events.push(`read ${item}`);
+          yield item;
+        }
+      }
+
+      const result = await runBulk(
+        rows(),
+        (item) => {
+          events.push(`run ${item}`);
+          return Promise.resolve(`id_${item}`);
+        },
+        {
+          concurrency: 1,
+          rateLimit: false,
+          skip: (_item, index) => index === 1,
+          total: 3,
+        }
+      );
+
+      expect(events).toEqual(["read a", "run a", "read b", "read c", "run c"]);
+      expect(result).toEqual(
+        expect.objectContaining({ skipped: 1, succeeded: 2, total: 2 })
+      );
+    });
+
+    it("stops starting rows when the input cannot be read", async () => {
+      const journal = { close: vi.fn(), path: "run.jsonl", record: vi.fn() };
+      async function* rows() {
+        yield await Promise.resolve(1);
+        throw new Error("JSONL parse error on line 2: Unexpected token");
+      }
+
+      await expect(
+        runBulk(rows(), () => Promise.resolve("id_1"), {
+          concurrency: 1,
+          journal,
+          rateLimit: false,
+        })
+      ).rejects.toThrow(
+        "JSONL parse error on line 2: Unexpected token. Stopped after 1 of 1 row(s) (1 succeeded, 0 failed)"
+      );
+      expect(journal.close).toHaveBeenCalled();
+    });
+
+    it("never exceeds the concurrency limit", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      await runBulk(
+        Array.from({ length: 10 }, (_, i) => i),
+        async () => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          inFlight--;
+          return undefined;
+        },
+        { concurrency: 3, rateLimit: false }
+      );
+
+      expect(maxInFlight).toBe(3);
+    });
+
+    it("reports progress after every item", async () => {
+      const onProgress = vi.fn();
+
+      await runBulk(
+        [1, 2, 3],
+        (item) =>
+          item === 2
+            ? Promise.reject(new Error("boom"))
+            : Promise.resolve(undefined),
+        { concurrency: 2, onProgress }
+      );
+
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith({
+        completed: 3,
+        failed: 1,
+        skipped: 0,
+        succeeded: 2,
+        total: 3,
+      });
+    });
+
+    it("handles an empty item list", async () => {
+      const task = vi.fn();
+      const result = await runBulk([], task);
+
+      expect(task).not.toHaveBeenCalled();
+      expect(result.total).toBe(0);
+    });
+  });
+
+  describe("setBulkExitCode", () => {
+    const progress = {
+      completed: 0,
+      failed: 0,
+      skipped: 0,
+      succeeded: 0,
+      total: 0,
+    };
+
+    it("distinguishes partial from total failure", () => {
+      const original = process.exitCode;
+
+      process.exitCode = undefined;
+      setBulkExitCode({ ...progress, succeeded: 3 });
+      expect(process.exitCode).toBeUndefined();
+
+      setBulkExitCode({ ...progress, failed: 1, succeeded: 2 });
+      expect(process.exitCode).toBe(2);
+
+      setBulkExitCode({ ...progress, failed: 1, skipped: 2 });
+      expect(process.exitCode).toBe(2);
+
+      setBulkExitCode({ ...progress, failed: 3 });
+      expect(process.exitCode).toBe(1);
+
+      process.exitCode = original;
+    });
+  });
+
+  describe("writeBulkErrors", () => {
+    it("writes failed rows in input order with row and error columns", async () => {
+      await writeBulkErrors("failed.csv", [
+        { error: "Second", index: 4, item: { name: "b" } },
+        { error: "First", index: 1, item: { name: "a" } },
+      ]);
+
+      expect(writeOutputFile).toHaveBeenCalledWith(
+        expect.stringContaining("failed.csv"),
+        [
+          { name: "a", _row: 2, _error: "First" },
+          { name: "b", _row: 5, _error: "Second" },
+        ],
+        "csv"
+      );
+    });
+
+    it("takes the format from the report path", async () => {
+      await writeBulkErrors("failed.jsonl", [
+        { error: "Boom", index: 0, item: { name: "a" } },
+      ]);
+
+      expect(writeOutputFile).toHaveBeenCalledWith(
+        expect.stringContaining("failed.jsonl"),
+        [{ name: "a", _row: 1, _error: "Boom" }],
+        "jsonl"
+      );
+    });
+  });
+
+  describe("parseConcurrency", () => {
+    it("accepts integers within range", () => {
+      expect(parseConcurrency("8")).toBe(8);
+    });
+
+    it("rejects zero, fractions and values above the maximum", () => {
+      expect(() => parseConcurrency("0")).toThrow("Must be an integer");
+      expect(() => parseConcurrency("1.5")).toThrow("Must be an integer");
+      expect(() => parseConcurrency("500")).toThrow("Must be an integer");
+    });
+  });
+
+  describe("formatBulkProgress", () => {
+    it("includes failures only when present", () => {
+      const progress = {
+        completed: 2,
+        failed: 0,
+        skipped: 0,
+        succeeded: 2,
+        total: 5,
+      };
+      expect(formatBulkProgress("Importing", progress)).toBe(
+        "Importing 2/5..."
+      );
+      expect(formatBulkProgress("Importing", { ...progress, failed: 1 })).toBe(
+        "Importing 2/5 (1 failed)..."
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import {
+  generateJsonSchema,
+  generateTypes,
+  generateZod,
+  tableJsonSchema,
+  tableTypeNames,
+  toTypeName,
+} from "../../src/lib/codegen.js";
+import type { AppConfig, TableFieldConfig } from "../../src/lib/types.js";
+
+const field = (
+  key: string,
+  type: TableFieldConfig["type"],
+  overrides: Partial<TableFieldConfig> = {}
+): TableFieldConfig => ({
+  key,
+  name: key,
+  type,
+  required: false,
+  defaultValue: null,
+  referencedTable: null,
+  ...overrides,
+});
+
+const rules = {
+  createRule: "AUTHENTICATED",
+  readRule: "PUBLIC",
+  updateRule: "AUTHENTICATED_OWN",
+  deleteRule: "ADMIN_ONLY",
+} as const;
+
+const config: AppConfig = {
+  version: 1,
+  app: { id: "app_1", name: "Blog" },
+  permissions: [{ id: "per_1", name: "can:edit", description: null }],
+  plans: [
+    { id: "pln_free", name: "Free" },
+    { id: "pln_pro", name: "Pro" },
+  ] as AppConfig["plans"],
+  customFields: [
+    {
+      key: "first-name",
+      label: "First Name",
+      hidden: false,
+      visibility: "PUBLIC",
+      restrictToAdmin: false,
+      tableHidden: false,
+    },
+  ],
+  tables: [
+    {
+      key: "blog_posts",
+      name: "Blog Posts",
+      ...rules,
+      fields: [
+        field("title", "TEXT", { required: true }),
+        field("views", "NUMBER", { defaultValue: 0 }),
+        field("published", "BOOLEAN"),
+        field("category", "REFERENCE", { referencedTable: "categories" }),
+        field("related", "REFERENCE_MANY", { referencedTable: "blog_posts" }),
+        field("author", "MEMBER_REFERENCE"),
+        field("editors", "MEMBER_REFERENCE_MANY"),
+        field("published-at", "DATE"),
+      ],
+    },
+    { key: "categories", name: "Categories", ...rules, fields: [] },
+  ],
+  providers: [],
+  ssoApps: [],
+};
+
+describe("codegen", () => {
+  it("turns table keys into type names", () => {
+    expect(toTypeName("blog_posts")).toBe("BlogPosts");
+    expect(toTypeName("2024-events")).toBe("Table2024Events");
+    expect(
+      tableTypeNames([{ key: "blog-posts" }, { key: "blog_posts" }] as never)
+    ).toEqual(
+      new Map([
+        ["blog-posts", "BlogPosts"],
+        ["blog_posts", "BlogPosts2"],
+      ])
+    );
+  });
+
+  it("generates plan and permission ID unions", () => {
+    const output = generateTypes(config);
+
+    expect(output).toContain(
+      'export interface Plans {\n  "Free": "pln_free";\n  "Pro": "pln_pro";\n}'
+    );
+    expect(output).toContain('export type PlanId = "pln_free" | "pln_pro";');
+    expect(output).toContain('export type PermissionId = "per_1";');
+  });
+
+  it("generates member custom fields", () => {
+    expect(generateTypes(config)).toContain(
+      'export interface MemberCustomFields {\n  /** First Name */\n  "first-name"?: string;\n}'
+    );
+  });
+
+  it("maps field types and references to TypeScript types", () => {
+    const output = generateTypes(config);
+
+    expect(output).toContain("  title: string;");
+    expect(output).toContain(
+      "  /**\n   * views\n   * @default 0\n   */\n  views?: number | null;"
+    );
+    expect(output).toContain("  published?: boolean | null;");
+    expect(output).toContain(
+      'export type CategoriesRecordId = string & { readonly __table: "categories" };'
+    );
+    expect(output).toContain("  category?: CategoriesRecordId | null;");
+    expect(output).toContain("  related?: BlogPostsRecordId[] | null;");
+    expect(output).toContain("  author?: MemberId | null;");
+    expect(output).toContain("  editors?: MemberId[] | null;");
+    expect(output).toContain('  "published-at"?: string | null;');
+    expect(output).toContain("  data: BlogPostsData;");
+    expect(output).toContain(
+      "export interface Tables {\n  blog_posts: BlogPostsData;\n  categories: CategoriesData;\n}"
+    );
+  });
+
+  it("uses never for empty unions", () => {
+    const output = generateTypes({ ...config, plans: [], permissions: [] });
+    expect(output).toContain("export type PlanId = never;");
+    expect(output).toContain("export type PermissionId = never;");
+  });
+  it("generates a JSON Schema per table from field types", () => {
+    expect(tableJsonSchema(config.tables[0])).toEqual({
+      title: "Blog Posts",
+      type: "object",
+      properties: {
+        title: { title: "title", type: "string" },
+        views: { title: "views", type: ["integer", "null"], default: 0 },
+        published: { title: "published", type: ["boolean", "null"] },
+        category: {
+          title: "category",
+          description: "Record ID in the categories table",
+          type: ["string", "null"],
+        },
+        related: {
+          title: "related",
+          description: "Record ID in the blog_posts table",
+          type: ["array", "null"],
+          items: { type: "string" },
+        },
+        author: {
+          title: "author",
+          description: "Member ID",
+          type: ["string", "null"],
+        },
+        editors: {
+          title: "editors",
+          description: "Member ID",
+          type: ["array", "null"],
+          items: { type: "string" },
+        },
+        "published-at": {
+          title: "published-at",
+          type: ["string", "null"],
+          format: "date-time",
+        },
+      },
+      required: ["title"],
+      additionalProperties: false,
+    });
+    expect(Object.keys(JSON.parse(generateJsonSchema(config)).$defs)).toEqual([
+      "blog_posts",
+      "categories",
+    ]);
+  });
+
+  it("generates Zod schemas with optional fields and defaults", () => {
+    const output = generateZod(config);
+
+    expect(output).toContain("export const BlogPostsDataSchema = z");
+    expect(output).toContain("    title: z.string(),");
+    expect(output).toContain(
+      "    views: z.number().int().nullish().default(0),"
+    );
+    expect(output).toContain("    editors: z.array(z.string()).nullish(),");
+    expect(output).toContain(
+      '    "published-at": z.string().datetime().nullish(),'
+    );
+    expect(output).toContain(
+      "export type BlogPostsData = z.infer<typeof BlogPostsDataSchema>;"
+    );
+    expect(output).toContain(
+      "export const tableSchemas = {\n  blog_posts: BlogPostsDataSchema,\n  categories: CategoriesDataSchema,\n};"
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { coerceRecordData, coerceValue } from "../../src/lib/coerce.js";
+
+describe("coerce", () => {
+  describe("coerceValue", () => {
+    it("parses integers and decimals", () => {
+      expect(coerceValue(" 42 ", "NUMBER")).toBe(42);
+      expect(coerceValue("4.5", "DECIMAL")).toBe(4.5);
+      expect(() => coerceValue("4.5", "NUMBER")).toThrow(
+        'expected an integer, got "4.5"'
+      );
+      expect(() => coerceValue("abc", "DECIMAL")).toThrow(
+        'expected a number, got "abc"'
+      );
+    });
+
+    it("parses booleans case-insensitively", () => {
+      expect(coerceValue("TRUE", "BOOLEAN")).toBe(true);
+      expect(coerceValue("yes", "BOOLEAN")).toBe(true);
+      expect(coerceValue("0", "BOOLEAN")).toBe(false);
+      expect(() => coerceValue("maybe", "BOOLEAN")).toThrow(
+        'expected true or false, got "maybe"'
+      );
+    });
+
+    it("normalizes dates to ISO strings", () => {
+      expect(coerceValue("2024-03-01", "DATE")).toBe(
+        "2024-03-01T00:00:00.000Z"
+      );
+      expect(() => coerceValue("someday", "DATE")).toThrow(
+        'expected a date, got "someday"'
+      );
+    });
+
+    it("splits reference lists from commas or JSON arrays", () => {
+      expect(coerceValue("rec_1, rec_2", "REFERENCE_MANY")).toEqual([
+        "rec_1",
+        "rec_2",
+      ]);
+      expect(coerceValue('["mem_1"]', "MEMBER_REFERENCE_MANY")).toEqual([
+        "mem_1",
+      ]);
+      expect(() => coerceValue("[oops", "REFERENCE_MANY")).toThrow(
+        "expected a list of IDs"
+      );
+    });
+
+    it("leaves text-like fields unchanged", () => {
+      expect(coerceValue(" Hello ", "TEXT")).toBe(" Hello ");
+      expect(coerceValue("rec_1", "REFERENCE")).toBe("rec_1");
+    });
+
+    it("keeps JSON values that already have the field's type", () => {
+      expect(coerceValue(42, "NUMBER")).toBe(42);
+      expect(coerceValue(4.5, "DECIMAL")).toBe(4.5);
+      expect(coerceValue(false, "BOOLEAN")).toBe(false);
+      expect(coerceValue(["rec_1", 2], "REFERENCE_MANY")).toEqual([
+        "rec_1",
+        "2",
+      ]);
+      expect(coerceValue(7, "TEXT")).toBe("7");
+      expect(coerceValue(null, "DATE")).toBeNull();
+    });
+
+    it("rejects JSON values of the wrong type", () => {
+      expect(() => coerceValue(4.5, "NUMBER")).toThrow(
+        "expected an integer, got 4.5"
+      );
+      expect(() => coerceValue(1, "BOOLEAN")).toThrow(
+        "expected true or false, got 1"
+      );
+      expect(() => coerceValue("rec_1", "REFERENCE_MANY")).not.toThrow();
+      expect(() => coerceValue({ id: 1 }, "TEXT")).toThrow(
+        'expected text, got {"id":1}'
+      );
+    });
+  });
+
+  describe("coerceRecordData", () => {
+    const fields = [
+      { key: "title", type: "TEXT" as const },
+      { key: "views", type: "NUMBER" as const },
+      { key: "published", type: "BOOLEAN" as const },
+    ];
+
+    it("coerces every column to its field type", () => {
+      expect(
+        coerceRecordData(
+          { title: "Hi", views: "3", published: "false" },
+          fields
+        )
+      ).toEqual({ title: "Hi", views: 3, published: false });
+    });
+
+    it("reports every bad column in one error", () => {
+      expect(() =>
+        coerceRecordData(
+          { views: "abc", published: "maybe", author: "x" },
+          fields
+        )
+      ).toThrow(
+        '"views": expected an integer, got "abc"; "published": expected true or false, got "maybe"; "author": not a field of this table'
+      );
+    });
+  });
+});
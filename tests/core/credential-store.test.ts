@@ -0,0 +1,340 @@
+import { EventEmitter } from "node:events";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+const files = new Map<string, string>();
+const mockMkdir = vi.fn();
+const mockWriteFile = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  mkdir: (...args: unknown[]) => mockMkdir(...args),
+  readFile: (path: string) =>
+    files.has(path)
+      ? Promise.resolve(files.get(path))
+      : Promise.reject(new Error("ENOENT")),
+  rm: (path: string) =>
+    files.delete(path)
+      ? Promise.resolve()
+      : Promise.reject(new Error("ENOENT")),
+  writeFile: (path: string, content: string, options: unknown) => {
+    mockWriteFile(path, content, options);
+    files.set(path, content);
+    return Promise.resolve();
+  },
+}));
+
+vi.mock("node:os", () => ({
+  homedir: () => "/mock-home",
+}));
+
+vi.mock("../../src/lib/program.js", () => ({
+  program: { opts: () => ({}) },
+}));
+
+interface SecretToolResponse {
+  code: number;
+  stderr?: string;
+  stdout?: string;
+}
+
+let keychain: string | null = null;
+let secretToolInstalled = true;
+const secretToolCalls: { args: string[]; input?: string }[] = [];
+
+const handleSecretTool = (args: string[], input?: string) => {
+  secretToolCalls.push({ args, input });
+  const [action] = args;
+  if (action === "store") {
+    keychain = input ?? null;
+    return { code: 0 };
+  }
+  if (action === "clear") {
+    keychain = null;
+    return { code: 0 };
+  }
+  return keychain === null ? { code: 1 } : { code: 0, stdout: keychain };
+};
+
+vi.mock("node:child_process", () => ({
+  spawn: (_command: string, args: string[]) => {
+    const child = new EventEmitter() as EventEmitter & Record<string, unknown>;
+    const stdout = new EventEmitter();
+    const stderr = new EventEmitter();
+    child.stdout = stdout;
+    child.stderr = stderr;
+    child.stdin = {
+      end: (input?: string) => {
+        queueMicrotask(() => {
+          if (!secretToolInstalled) {
+            child.emit("error", new Error("spawn secret-tool ENOENT"));
+            return;
+          }
+          const result: SecretToolResponse = handleSecretTool(args, input);
+          if (result.stdout) {
+            stdout.emit("data", Buffer.from(result.stdout));
+          }
+          if (result.stderr) {
+            stderr.emit("data", Buffer.from(result.stderr));
+          }
+          child.emit("close", result.code);
+        });
+      },
+    };
+    return child;
+  },
+}));
+
+type CredentialStore = typeof import("../../src/lib/credential-store.js");
+
+// The store caches its backend and content per process, so each test loads
+// a fresh copy
+let store: CredentialStore;
+const { decryptCredentials, encryptCredentials } = await import(
+  "../../src/lib/credential-store.js"
+);
+const clearCredentials = () => store.clearCredentials();
+const getCredentialBackend = () => store.getCredentialBackend();
+const migrateCredentials: CredentialStore["migrateCredentials"] = (target) =>
+  store.migrateCredentials(target);
+const readCredentials = () => store.readCredentials();
+const writeCredentials = (content: string) => store.writeCredentials(content);
+
+const DIR = "/mock-home/.memberstack";
+const PLAIN_PATH = `${DIR}/auth.json`;
+const ENCRYPTED_PATH = `${DIR}/auth.enc`;
+const CONFIG_PATH = `${DIR}/storage.json`;
+
+const originalPlatform = process.platform;
+
+describe("credential-store", () => {
+  beforeAll(() => {
+    Object.defineProperty(process, "platform", { value: "linux" });
+  });
+
+  afterAll(() => {
+    Object.defineProperty(process, "platform", { value: originalPlatform });
+  });
+
+  beforeEach(async () => {
+    vi.resetModules();
+    store = await import("../../src/lib/credential-store.js");
+    files.clear();
+    keychain = null;
+    secretToolInstalled = true;
+    secretToolCalls.length = 0;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("encryption", () => {
+    it("round-trips content with the same passphrase", () => {
+      const encrypted = encryptCredentials('{"profiles":{}}', "secret");
+
+      expect(encrypted).not.toContain("profiles");
+      expect(decryptCredentials(encrypted, "secret")).toBe('{"profiles":{}}');
+    });
+
+    it("rejects the wrong passphrase", () => {
+      const encrypted = encryptCredentials("data", "secret");
+
+      expect(() => decryptCredentials(encrypted, "wrong")).toThrow(
+        "Could not decrypt credentials"
+      );
+    });
+  });
+
+  describe("getCredentialBackend", () => {
+    it("uses MEMBERSTACK_CREDENTIAL_STORE when set", async () => {
+      vi.stubEnv("MEMBERSTACK_CREDENTIAL_STORE", "encrypted-file");
+
+      await expect(getCredentialBackend()).resolves.toBe("encrypted-file");
+    });
+
+    it("rejects an unknown MEMBERSTACK_CREDENTIAL_STORE", async () => {
+      vi.stubEnv("MEMBERSTACK_CREDENTIAL_STORE", "vault");
+
+      await expect(getCredentialBackend()).rejects.toThrow(
+        "Invalid MEMBERSTACK_CREDENTIAL_STORE"
+      );
+    });
+
+    it("uses the recorded backend", async () => {
+      files.set(CONFIG_PATH, JSON.stringify({ backend: "encrypted-file" }));
+
+      await expect(getCredentialBackend()).resolves.toBe("encrypted-file");
+    });
+
+    it("keeps using a legacy plaintext auth.json", async () => {
+      files.set(PLAIN_PATH, "{}");
+
+      await expect(getCredentialBackend()).resolves.toBe("file");
+    });
+
+    it("defaults to the keychain when secret-tool is available", async () => {
+      await expect(getCredentialBackend()).resolves.toBe("keychain");
+    });
+
+    it("falls back to an encrypted file without secret-tool", async () => {
+      secretToolInstalled = false;
+
+      await expect(getCredentialBackend()).resolves.toBe("encrypted-file");
+    });
+  });
+
+  describe("file backend", () => {
+    it("writes with restricted directory and file permissions", async () => {
+      vi.stubEnv("MEMBERSTACK_CREDENTIAL_STORE", "file");
+
+      await writeCredentials("data");
+
+      expect(mockMkdir).toHaveBeenCalledWith(DIR, {
+        recursive: true,
+        mode: 0o700,
+      });
+      expect(mockWriteFile).toHaveBeenCalledWith(PLAIN_PATH, "data", {
+        mode: 0o600,
+      });
+    });
+  });
+
+  describe("encrypted-file backend", () => {
+    it("encrypts with MEMBERSTACK_PASSPHRASE", async () => {
+      vi.stubEnv("MEMBERSTACK_CREDENTIAL_STORE", "encrypted-file");
+      vi.stubEnv("MEMBERSTACK_PASSPHRASE", "secret");
+
+      await writeCredentials('{"access_token":"at_1"}');
+
+      expect(files.get(ENCRYPTED_PATH)).not.toContain("at_1");
+      await expect(readCredentials()).resolves.toBe('{"access_token":"at_1"}');
+    });
+
+    it("requires a passphrase in non-interactive sessions", async () => {
+      vi.stubEnv("MEMBERSTACK_CREDENTIAL_STORE", "encrypted-file");
+      files.set(ENCRYPTED_PATH, encryptCredentials("data", "secret"));
+
+      await expect(readCredentials()).rejects.toThrow(
+        "Set MEMBERSTACK_PASSPHRASE"
+      );
+    });
+  });
+
+  describe("keychain backend", () => {
+    it("stores credentials through secret-tool stdin", async () => {
+      await writeCredentials("data");
+
+      const store = secretToolCalls.find((call) => call.args[0] === "store");
+      expect(store?.input).toBe("data");
+      expect(store?.args).toEqual(
+        expect.arrayContaining(["service", "memberstack-cli"])
+      );
+      expect(JSON.parse(files.get(CONFIG_PATH) ?? "{}")).toEqual({
+        backend: "keychain",
+      });
+      await expect(readCredentials()).resolves.toBe("data");
+    });
+  });
+
+  describe("caching", () => {
+    it("probes and reads the keychain once for repeated reads", async () => {
+      keychain = "data";
+
+      await Promise.all([readCredentials(), readCredentials()]);
+      await readCredentials();
+
+      expect(secretToolCalls).toHaveLength(2);
+    });
+
+    it("serves writes and clears from memory afterwards", async () => {
+      vi.stubEnv("MEMBERSTACK_CREDENTIAL_STORE", "file");
+      files.set(PLAIN_PATH, "old");
+      await readCredentials();
+
+      await writeCredentials("new");
+      files.set(PLAIN_PATH, "changed elsewhere");
+      await expect(readCredentials()).resolves.toBe("new");
+
+      await clearCredentials();
+      await expect(readCredentials()).resolves.toBeNull();
+    });
+
+    it("does not keep a failed read", async () => {
+      vi.stubEnv("MEMBERSTACK_CREDENTIAL_STORE", "encrypted-file");
+      files.set(ENCRYPTED_PATH, encryptCredentials("data", "secret"));
+
+      await expect(readCredentials()).rejects.toThrow(
+        "Set MEMBERSTACK_PASSPHRASE"
+      );
+      vi.stubEnv("MEMBERSTACK_PASSPHRASE", "secret");
+      await expect(readCredentials()).resolves.toBe("data");
+    });
+  });
+
+  describe("clearCredentials", () => {
+    it("removes stored credentials and the recorded backend", async () => {
+      files.set(PLAIN_PATH, "{}");
+      files.set(CONFIG_PATH, JSON.stringify({ backend: "file" }));
+
+      await clearCredentials();
+
+      expect(files.size).toBe(0);
+    });
+
+    it("does not throw when nothing is stored", async () => {
+      secretToolInstalled = false;
+
+      await expect(clearCredentials()).resolves.toBeUndefined();
+    });
+  });
+
+  describe("migrateCredentials", () => {
+    it("moves plaintext credentials to the keychain", async () => {
+      files.set(PLAIN_PATH, "data");
+
+      const result = await migrateCredentials();
+
+      expect(result).toEqual({ from: "file", to: "keychain" });
+      expect(keychain).toBe("data");
+      expect(files.has(PLAIN_PATH)).toBe(false);
+      await expect(getCredentialBackend()).resolves.toBe("keychain");
+    });
+
+    it("moves plaintext credentials to an encrypted file", async () => {
+      vi.stubEnv("MEMBERSTACK_PASSPHRASE", "secret");
+      files.set(PLAIN_PATH, "data");
+
+      await migrateCredentials("encrypted-file");
+
+      expect(files.has(PLAIN_PATH)).toBe(false);
+      expect(
+        decryptCredentials(files.get(ENCRYPTED_PATH) ?? "", "secret")
+      ).toBe("data");
+    });
+
+    it("rejects migrating to the current backend", async () => {
+      files.set(PLAIN_PATH, "data");
+
+      await expect(migrateCredentials("file")).rejects.toThrow(
+        "already stored in file"
+      );
+    });
+
+    it("rejects an unavailable target backend", async () => {
+      files.set(PLAIN_PATH, "data");
+      secretToolInstalled = false;
+
+      await expect(migrateCredentials("keychain")).rejects.toThrow(
+        "not available"
+      );
+      expect(files.get(PLAIN_PATH)).toBe("data");
+    });
+  });
+});
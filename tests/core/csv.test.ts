@@ -1,5 +1,13 @@
+import { Readable } from "node:stream";
 import { describe, expect, it, vi } from "vitest";
 
+// In-memory files read through the createReadStream mock
+const files = new Map<string, string>();
+
+vi.mock("node:fs", () => ({
+  createReadStream: (path: string) => Readable.from([files.get(path) ?? ""]),
+}));
+
 const mockReadFile = vi.fn();
 const mockWriteFile = vi.fn();
 vi.mock("node:fs/promises", () => ({
@@ -8,6 +16,7 @@ vi.mock("node:fs/promises", () => ({
 }));
 
 const {
+  getFileFormat,
   readCsvFile,
   readInputFile,
   flattenObject,
@@ -87,18 +96,17 @@ describe("csv", () => {
 
   describe("readCsvFile", () => {
     it("parses a valid CSV file", async () => {
-      mockReadFile.mockResolvedValueOnce("name,age\nAlice,30\nBob,25\n");
+      files.set("/data.csv", "name,age\nAlice,30\nBob,25\n");
 
       const result = await readCsvFile("/data.csv");
       expect(result).toEqual([
         { name: "Alice", age: "30" },
         { name: "Bob", age: "25" },
       ]);
-      expect(mockReadFile).toHaveBeenCalledWith("/data.csv", "utf-8");
     });
 
     it("skips empty lines", async () => {
-      mockReadFile.mockResolvedValueOnce("name,age\nAlice,30\n\n\nBob,25\n");
+      files.set("/data.csv", "name,age\nAlice,30\n\n\nBob,25\n");
 
       const result = await readCsvFile("/data.csv");
       expect(result).toEqual([
@@ -108,10 +116,29 @@ describe("csv", () => {
     });
 
     it("throws on CSV parse errors", async () => {
-      mockReadFile.mockResolvedValueOnce('"unclosed quote');
+      files.set("/bad.csv", 'name\n"unclosed quote\n');
 
       await expect(readCsvFile("/bad.csv")).rejects.toThrow("CSV parse error:");
     });
+
+    it("reads files larger than the stream buffer", async () => {
+      const lines = Array.from({ length: 2500 }, (_, index) => `user${index}`);
+      files.set("/big.csv", `name\n${lines.join("\n")}\n`);
+
+      const result = await readCsvFile("/big.csv");
+      expect(result).toHaveLength(2500);
+      expect(result[2499]).toEqual({ name: "user2499" });
+    });
+  });
+
+  describe("getFileFormat", () => {
+    it("detects JSON by extension and defaults to CSV", () => {
+      expect(getFileFormat("/data.JSON")).toBe("json");
+      expect(getFileFormat("/data.jsonl")).toBe("jsonl");
+      expect(getFileFormat("/data.ndjson")).toBe("jsonl");
+      expect(getFileFormat("/data.csv")).toBe("csv");
+      expect(getFileFormat("/data.txt")).toBe("csv");
+    });
   });
 
   describe("readInputFile", () => {
@@ -131,12 +158,45 @@ describe("csv", () => {
       expect(result).toEqual(data);
     });
 
+    it("rejects a JSON file whose root is not an array", async () => {
+      mockReadFile.mockResolvedValueOnce(JSON.stringify({ name: "Alice" }));
+
+      await expect(readInputFile("/data.json")).rejects.toThrow(
+        "Invalid input file: expected a JSON array of rows in /data.json"
+      );
+    });
+
     it("falls back to CSV for non-JSON extensions", async () => {
-      mockReadFile.mockResolvedValueOnce("name,age\nAlice,30\n");
+      files.set("/data.csv", "name,age\nAlice,30\n");
 
       const result = await readInputFile("/data.csv");
       expect(result).toEqual([{ name: "Alice", age: "30" }]);
     });
+
+    it("reads one object per line from a JSONL file", async () => {
+      files.set("/data.jsonl", '{"name":"Alice"}\n\n{"name":"Bob"}\n');
+
+      const result = await readInputFile("/data.jsonl");
+      expect(result).toEqual([{ name: "Alice" }, { name: "Bob" }]);
+    });
+
+    it("reports the line number of invalid JSONL", async () => {
+      files.set("/data.jsonl", '{"name":"Alice"}\n{oops}\n');
+
+      await expect(readInputFile("/data.jsonl")).rejects.toThrow(
+        "JSONL parse error on line 2"
+      );
+    });
+
+    it("drops the columns of an --errors-out report", async () => {
+      files.set(
+        "/failed.csv",
+        "name,error,_row,_error\nFixed,kept,2,Validation error\n"
+      );
+
+      const result = await readInputFile("/failed.csv");
+      expect(result).toEqual([{ name: "Fixed", error: "kept" }]);
+    });
   });
 
   describe("writeOutputFile", () => {
@@ -166,6 +226,17 @@ describe("csv", () => {
       expect(written.endsWith("\n")).toBe(true);
     });
 
+    it("writes JSONL format with one object per line", async () => {
+      mockWriteFile.mockResolvedValueOnce(undefined);
+
+      await writeOutputFile("/out.jsonl", [{ a: 1 }, { b: 2 }], "jsonl");
+
+      expect(mockWriteFile).toHaveBeenCalledWith(
+        "/out.jsonl",
+        '{"a":1}\n{"b":2}\n'
+      );
+    });
+
     it("defaults to JSON for non-csv format values", async () => {
       mockWriteFile.mockResolvedValueOnce(undefined);
 
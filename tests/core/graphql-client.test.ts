@@ -1,11 +1,26 @@
 import { describe, expect, it, vi } from "vitest";
 
 vi.mock("../../src/lib/constants.js", () => ({
+  DEFAULT_MAX_RETRIES: 3,
+  DEFAULT_TIMEOUT_SECONDS: 30,
   GRAPHQL_BASE_URL: "https://api.test/graphql",
+  RETRY_BASE_DELAY_MS: 500,
+  RETRY_MAX_DELAY_MS: 30_000,
 }));
 
+let globalOpts: Record<string, unknown> = { mode: "sandbox" };
 vi.mock("../../src/lib/program.js", () => ({
-  program: { opts: () => ({ mode: "sandbox" }) },
+  program: { opts: () => globalOpts },
+}));
+
+const mockDelay = vi.fn();
+vi.mock("../../src/lib/utils.js", () => ({
+  delay: (...args: unknown[]) => mockDelay(...args),
+}));
+
+const reportThrottle = vi.fn();
+vi.mock("../../src/lib/rate-limiter.js", () => ({
+  reportThrottle: (...args: unknown[]) => reportThrottle(...args),
 }));
 
 const getValidAccessToken = vi.fn();
@@ -15,7 +30,20 @@ vi.mock("../../src/lib/token-storage.js", () => ({
   getAppId: () => getAppId(),
 }));
 
-const { graphqlRequest } = await import("../../src/lib/graphql-client.js");
+const { getRetryDelay, graphqlRequest } = await import(
+  "../../src/lib/graphql-client.js"
+);
+
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response => new Response(JSON.stringify(body), { status, headers });
+
+const authenticate = () => {
+  getValidAccessToken.mockResolvedValueOnce("at_123");
+  getAppId.mockResolvedValueOnce("app_1");
+};
 
 describe("graphqlRequest", () => {
   it("sends query with auth headers", async () => {
@@ -45,6 +73,29 @@ describe("graphqlRequest", () => {
     );
   });
 
+  it("uses the mode override when provided", async () => {
+    getValidAccessToken.mockResolvedValueOnce("at_123");
+    getAppId.mockResolvedValueOnce("app_1");
+
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+      new Response(JSON.stringify({ data: { currentApp: { id: "app_1" } } }), {
+        status: 200,
+      })
+    );
+
+    await graphqlRequest({
+      query: "query { currentApp { id } }",
+      mode: "live",
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://api.test/graphql?mode=live",
+      expect.objectContaining({
+        headers: expect.objectContaining({ "ms-mode": "live" }),
+      })
+    );
+  });
+
   it("passes variables in the request body", async () => {
     getValidAccessToken.mockResolvedValueOnce("at_123");
     getAppId.mockResolvedValueOnce("app_1");
@@ -123,13 +174,31 @@ describe("graphqlRequest", () => {
     getValidAccessToken.mockResolvedValueOnce("at_123");
     getAppId.mockResolvedValueOnce("app_1");
 
-    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
-      new Response(JSON.stringify({}), { status: 500 })
+    vi.spyOn(globalThis, "fetch").mockImplementation(() =>
+      Promise.resolve(new Response(JSON.stringify({}), { status: 500 }))
     );
 
     await expect(
       graphqlRequest({ query: "query { currentApp { id } }" })
     ).rejects.toThrow("GraphQL request failed with status 500");
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("reports the status for a non-JSON 5xx body after retrying", async () => {
+    authenticate();
+    vi.spyOn(globalThis, "fetch").mockImplementation(() =>
+      Promise.resolve(
+        new Response("<html><body>502 Bad Gateway</body></html>", {
+          status: 502,
+          headers: { "Content-Type": "text/html" },
+        })
+      )
+    );
+
+    await expect(
+      graphqlRequest({ query: "query { currentApp { id } }" })
+    ).rejects.toThrow("GraphQL request failed with status 502");
+    expect(fetch).toHaveBeenCalledTimes(4);
   });
 
   it("throws when response has no data", async () => {
@@ -144,4 +213,142 @@ describe("graphqlRequest", () => {
       graphqlRequest({ query: "query { currentApp { id } }" })
     ).rejects.toThrow("GraphQL response contained no data");
   });
+
+  describe("retries", () => {
+    it("retries 5xx responses and returns the eventual result", async () => {
+      authenticate();
+      vi.spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(jsonResponse({}, 502))
+        .mockResolvedValueOnce(jsonResponse({ data: { ok: true } }));
+
+      const result = await graphqlRequest({ query: "query { ok }" });
+
+      expect(result).toEqual({ ok: true });
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(mockDelay).toHaveBeenCalledTimes(1);
+    });
+
+    it("honours Retry-After on 429 responses", async () => {
+      authenticate();
+      vi.spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(jsonResponse({}, 429, { "Retry-After": "2" }))
+        .mockResolvedValueOnce(jsonResponse({ data: { ok: true } }));
+
+      await graphqlRequest({ query: "query { ok }" });
+
+      expect(mockDelay).toHaveBeenCalledWith(2000);
+      expect(reportThrottle).toHaveBeenCalledWith(2000);
+    });
+
+    it("retries network errors", async () => {
+      authenticate();
+      vi.spyOn(globalThis, "fetch")
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(jsonResponse({ data: { ok: true } }));
+
+      await expect(graphqlRequest({ query: "query { ok }" })).resolves.toEqual({
+        ok: true,
+      });
+    });
+
+    it("does not retry client errors", async () => {
+      authenticate();
+      vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+        jsonResponse({ errors: [{ message: "Bad input" }] }, 400)
+      );
+
+      await expect(graphqlRequest({ query: "query { ok }" })).rejects.toThrow(
+        "GraphQL error (400): Bad input"
+      );
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not retry mutations after 5xx responses or timeouts", async () => {
+      authenticate();
+      vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+        jsonResponse({}, 502)
+      );
+      await expect(
+        graphqlRequest({ query: "mutation { createThing { id } }" })
+      ).rejects.toThrow("GraphQL request failed with status 502");
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      authenticate();
+      const timeout = new Error("The operation was aborted due to timeout");
+      timeout.name = "TimeoutError";
+      vi.spyOn(globalThis, "fetch").mockRejectedValueOnce(timeout);
+      await expect(
+        graphqlRequest({ query: " mutation { createThing { id } }" })
+      ).rejects.toThrow("Request timed out (30s)");
+      expect(mockDelay).not.toHaveBeenCalled();
+    });
+
+    it("retries mutations on 429 and failed connections", async () => {
+      authenticate();
+      const refused = new TypeError("fetch failed", {
+        cause: Object.assign(new Error("connect ECONNREFUSED"), {
+          code: "ECONNREFUSED",
+        }),
+      });
+      vi.spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(jsonResponse({}, 429))
+        .mockRejectedValueOnce(refused)
+        .mockResolvedValueOnce(jsonResponse({ data: { ok: true } }));
+
+      await expect(
+        graphqlRequest({ query: "mutation { ok }" })
+      ).resolves.toEqual({ ok: true });
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("respects --max-retries", async () => {
+      globalOpts = { mode: "sandbox", maxRetries: 1 };
+      authenticate();
+      vi.spyOn(globalThis, "fetch").mockRejectedValue(
+        new TypeError("fetch failed")
+      );
+
+      await expect(graphqlRequest({ query: "query { ok }" })).rejects.toThrow(
+        "Network error after 2 attempts: fetch failed"
+      );
+      expect(fetch).toHaveBeenCalledTimes(2);
+      globalOpts = { mode: "sandbox" };
+    });
+
+    it("reports timeouts using --timeout", async () => {
+      globalOpts = { mode: "sandbox", maxRetries: 0, timeout: 5 };
+      authenticate();
+      const timeout = new Error("The operation was aborted due to timeout");
+      timeout.name = "TimeoutError";
+      vi.spyOn(globalThis, "fetch").mockRejectedValueOnce(timeout);
+
+      await expect(graphqlRequest({ query: "query { ok }" })).rejects.toThrow(
+        "Request timed out (5s)"
+      );
+      globalOpts = { mode: "sandbox" };
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("backs off exponentially with jitter", () => {
+      for (const attempt of [0, 1, 2]) {
+        const backoff = 500 * 2 ** attempt;
+        const delay = getRetryDelay(attempt);
+        expect(delay).toBeGreaterThanOrEqual(backoff / 2);
+        expect(delay).toBeLessThanOrEqual(backoff);
+      }
+    });
+
+    it("caps the delay", () => {
+      expect(getRetryDelay(20)).toBeLessThanOrEqual(30_000);
+      expect(getRetryDelay(0, "3600")).toBe(30_000);
+    });
+
+    it("accepts an HTTP date in Retry-After", () => {
+      const date = new Date(Date.now() + 5000).toUTCString();
+      const delay = getRetryDelay(0, date);
+      expect(delay).toBeGreaterThan(3000);
+      expect(delay).toBeLessThanOrEqual(5000);
+    });
+  });
 });
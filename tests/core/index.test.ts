@@ -19,9 +19,19 @@ vi.mock("../../src/lib/program.js", () => ({
 
 vi.mock("../../src/commands/apps.js", () => ({ appsCommand: "apps" }));
 vi.mock("../../src/commands/auth.js", () => ({ authCommand: "auth" }));
+vi.mock("../../src/commands/backup.js", () => ({
+  backupCommand: "backup",
+}));
+vi.mock("../../src/commands/codegen.js", () => ({
+  codegenCommand: "codegen",
+}));
+vi.mock("../../src/commands/config.js", () => ({
+  configCommand: "config",
+}));
 vi.mock("../../src/commands/custom-fields.js", () => ({
   customFieldsCommand: "custom-fields",
 }));
+vi.mock("../../src/commands/diff.js", () => ({ diffCommand: "diff" }));
 vi.mock("../../src/commands/members.js", () => ({
   membersCommand: "members",
 }));
@@ -30,6 +40,9 @@ vi.mock("../../src/commands/permissions.js", () => ({
 }));
 vi.mock("../../src/commands/plans.js", () => ({ plansCommand: "plans" }));
 vi.mock("../../src/commands/prices.js", () => ({ pricesCommand: "prices" }));
+vi.mock("../../src/commands/promote.js", () => ({
+  promoteCommand: "promote",
+}));
 vi.mock("../../src/commands/providers.js", () => ({
   providersCommand: "providers",
 }));
@@ -51,6 +64,9 @@ vi.mock("../../src/commands/whoami.js", () => ({
 vi.mock("../../src/commands/reset.js", () => ({
   resetCommand: "reset",
 }));
+vi.mock("../../src/commands/restore.js", () => ({
+  restoreCommand: "restore",
+}));
 
 describe("index", () => {
   let stderrSpy: ReturnType<typeof vi.spyOn>;
@@ -122,12 +138,12 @@ describe("index", () => {
     expect(process.env.NO_COLOR).toBe("1");
   });
 
-  it("registers all 16 commands", async () => {
+  it("registers all 22 commands", async () => {
     process.argv = ["node", "memberstack"];
 
     await import("../../src/index.js");
 
-    expect(mockAddCommand).toHaveBeenCalledTimes(16);
+    expect(mockAddCommand).toHaveBeenCalledTimes(22);
   });
 
   it("calls parseAsync", async () => {
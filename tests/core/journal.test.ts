@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from "vitest";
+
+const mockAppendFile = vi.fn();
+const mockMkdir = vi.fn();
+const mockReadFile = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  appendFile: (...args: unknown[]) => mockAppendFile(...args),
+  mkdir: (...args: unknown[]) => mockMkdir(...args),
+  readFile: (...args: unknown[]) => mockReadFile(...args),
+}));
+
+vi.mock("node:os", () => ({
+  homedir: () => "/home/test",
+}));
+
+const { openJournal, readJournal, startJournal } = await import(
+  "../../src/lib/journal.js"
+);
+
+const DEFAULT_JOURNAL_PATH =
+  /^\/home\/test\/\.memberstack\/journals\/members-import-.*\.jsonl$/;
+
+const journalFile = (...lines: unknown[]) =>
+  `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`;
+
+const header = {
+  command: "members import",
+  file: "/data/members.csv",
+  startedAt: "2024-01-01T00:00:00.000Z",
+};
+
+describe("journal", () => {
+  it("openJournal writes the header and entries in order", async () => {
+    const journal = await openJournal("/tmp/run.jsonl", header);
+    journal.record({ id: "mem_1", row: 0, status: "succeeded" });
+    journal.record({ error: "Duplicate", row: 1, status: "failed" });
+    await journal.close();
+
+    expect(mockMkdir).toHaveBeenCalledWith("/tmp", { recursive: true });
+    const lines = mockAppendFile.mock.calls.map((call) =>
+      JSON.parse(call[1] as string)
+    );
+    expect(lines).toEqual([
+      header,
+      { id: "mem_1", row: 0, status: "succeeded" },
+      { error: "Duplicate", row: 1, status: "failed" },
+    ]);
+  });
+
+  it("openJournal rejects every entry after a failed write", async () => {
+    const journal = await openJournal("/tmp/run.jsonl", header);
+    mockAppendFile.mockRejectedValueOnce(new Error("ENOSPC: no space left"));
+
+    await expect(
+      journal.record({ id: "mem_1", row: 0, status: "succeeded" })
+    ).rejects.toThrow("Could not write journal /tmp/run.jsonl: ENOSPC");
+    await expect(
+      journal.record({ id: "mem_2", row: 1, status: "succeeded" })
+    ).rejects.toThrow("ENOSPC");
+    await expect(journal.close()).resolves.toBeUndefined();
+    expect(mockAppendFile).toHaveBeenCalledTimes(2);
+  });
+
+  it("readJournal keeps the latest status for each row", async () => {
+    mockReadFile.mockResolvedValueOnce(
+      journalFile(
+        header,
+        { id: "mem_1", row: 0, status: "succeeded" },
+        { error: "Timeout", row: 1, status: "failed" },
+        { error: "Duplicate", row: 2, status: "failed" },
+        { id: "mem_2", row: 1, status: "succeeded" }
+      )
+    );
+
+    const state = await readJournal("run.jsonl");
+
+    expect(state.header).toEqual(header);
+    expect([...state.completedRows]).toEqual([0, 1]);
+    expect([...state.completedIds]).toEqual(["mem_1", "mem_2"]);
+    expect([...state.failedRows]).toEqual([2]);
+  });
+
+  it("readJournal tolerates a truncated final line", async () => {
+    mockReadFile.mockResolvedValueOnce(
+      `${journalFile(header, { id: "mem_1", row: 0, status: "succeeded" })}{"row":1,"sta`
+    );
+
+    const state = await readJournal("run.jsonl");
+
+    expect([...state.completedRows]).toEqual([0]);
+  });
+
+  it("readJournal rejects corrupt lines and missing headers", async () => {
+    mockReadFile.mockResolvedValueOnce(
+      `${journalFile(header)}not json\n${journalFile({ row: 0, status: "succeeded" })}`
+    );
+    await expect(readJournal("run.jsonl")).rejects.toThrow(
+      "Invalid journal run.jsonl: line 2"
+    );
+
+    mockReadFile.mockResolvedValueOnce("");
+    await expect(readJournal("run.jsonl")).rejects.toThrow("missing header");
+  });
+
+  it("startJournal creates a new journal under ~/.memberstack/journals", async () => {
+    const { journal, resumed } = await startJournal("members import", {
+      file: "/data/members.csv",
+    });
+
+    expect(resumed).toBeUndefined();
+    expect(journal?.path).toMatch(DEFAULT_JOURNAL_PATH);
+    await journal?.close();
+    expect(JSON.parse(mockAppendFile.mock.calls[0][1] as string)).toEqual(
+      expect.objectContaining({
+        command: "members import",
+        file: "/data/members.csv",
+      })
+    );
+  });
+
+  it("startJournal appends to the resumed journal without a new header", async () => {
+    mockReadFile.mockResolvedValueOnce(
+      journalFile(header, { id: "mem_1", row: 0, status: "succeeded" })
+    );
+
+    const { journal, resumed } = await startJournal("members import", {
+      file: "/data/members.csv",
+      resume: "run.jsonl",
+    });
+    await journal?.close();
+
+    expect(journal?.path).toBe("run.jsonl");
+    expect(resumed?.completedRows.has(0)).toBe(true);
+    expect(mockAppendFile).not.toHaveBeenCalled();
+  });
+
+  it("startJournal rejects journals from another command or file", async () => {
+    mockReadFile.mockResolvedValueOnce(journalFile(header));
+    await expect(
+      startJournal("records import", { resume: "run.jsonl" })
+    ).rejects.toThrow('was written by "members import"');
+
+    mockReadFile.mockResolvedValueOnce(journalFile(header));
+    await expect(
+      startJournal("members import", {
+        file: "/data/other.csv",
+        resume: "run.jsonl",
+      })
+    ).rejects.toThrow("was written for /data/members.csv");
+  });
+
+  it("startJournal does not write during a dry run", async () => {
+    const { journal } = await startJournal("members bulk-update", {
+      dryRun: true,
+      file: "/data/updates.csv",
+    });
+
+    expect(journal).toBeUndefined();
+    expect(mockMkdir).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+
+const mockReadFile = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  readFile: (...args: unknown[]) => mockReadFile(...args),
+}));
+
+const { loadTableJsonSchema, validateJsonSchema } = await import(
+  "../../src/lib/json-schema.js"
+);
+
+const schema = {
+  type: "object" as const,
+  properties: {
+    title: { type: "string" as const },
+    views: { type: ["integer" as const, "null" as const] },
+    website: { type: "string" as const, format: "uri" as const },
+    tags: {
+      type: "array" as const,
+      items: { type: "string" as const },
+    },
+  },
+  required: ["title"],
+  additionalProperties: false,
+};
+
+describe("json-schema", () => {
+  it("accepts matching values", () => {
+    expect(
+      validateJsonSchema(
+        {
+          title: "Hello",
+          views: null,
+          website: "https://example.com",
+          tags: ["a"],
+        },
+        schema
+      )
+    ).toEqual([]);
+  });
+
+  it("reports each property by name", () => {
+    expect(
+      validateJsonSchema(
+        { views: 1.5, website: "nope", tags: ["a", 2], extra: true },
+        schema
+      )
+    ).toEqual([
+      { path: "title", message: "required" },
+      { path: "views", message: "expected integer or null" },
+      { path: "website", message: "expected uri format" },
+      { path: "tags", message: "item 2: expected string" },
+      { path: "extra", message: "not allowed by the schema" },
+    ]);
+  });
+
+  it("checks email and date-time formats", () => {
+    expect(
+      validateJsonSchema("a@b.co", { type: "string", format: "email" })
+    ).toEqual([]);
+    expect(
+      validateJsonSchema("yesterday", { type: "string", format: "date-time" })
+    ).toEqual([{ path: "", message: "expected date-time format" }]);
+  });
+
+  it("loads a table's schema from $defs or a single-table file", async () => {
+    mockReadFile.mockResolvedValueOnce(
+      JSON.stringify({ $defs: { posts: schema } })
+    );
+    await expect(loadTableJsonSchema("all.json", "posts")).resolves.toEqual(
+      schema
+    );
+
+    mockReadFile.mockResolvedValueOnce(JSON.stringify(schema));
+    await expect(loadTableJsonSchema("posts.json", "posts")).resolves.toEqual(
+      schema
+    );
+  });
+
+  it("rejects files without the table or with invalid JSON", async () => {
+    mockReadFile.mockResolvedValueOnce(JSON.stringify({ $defs: {} }));
+    await expect(loadTableJsonSchema("all.json", "posts")).rejects.toThrow(
+      'Schema file all.json has no schema for "posts"'
+    );
+
+    mockReadFile.mockResolvedValueOnce("{");
+    await expect(loadTableJsonSchema("bad.json", "posts")).rejects.toThrow(
+      "Invalid schema file: bad.json is not valid JSON"
+    );
+  });
+
+  it("surfaces read errors instead of reporting invalid JSON", async () => {
+    mockReadFile.mockRejectedValueOnce(
+      new Error("ENOENT: no such file or directory, open 'missing.json'")
+    );
+    await expect(loadTableJsonSchema("missing.json", "posts")).rejects.toThrow(
+      "ENOENT"
+    );
+  });
+});
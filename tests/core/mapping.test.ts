@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from "vitest";
+
+const mockReadFile = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  readFile: (...args: unknown[]) => mockReadFile(...args),
+}));
+
+const { applyColumnMapping, loadColumnMapping, parseColumnMapping } =
+  await import("../../src/lib/mapping.js");
+
+describe("mapping", () => {
+  describe("applyColumnMapping", () => {
+    it("drops, renames and sets columns", () => {
+      const result = applyColumnMapping(
+        { "Email Address": "a@test.com", Company: "Acme", Notes: "secret" },
+        {
+          drop: ["Notes"],
+          rename: {
+            "Email Address": "email",
+            Company: "customFields.company",
+          },
+          set: { "metaData.source": "crm", "metaData.version": 2 },
+        }
+      );
+
+      expect(result).toEqual({
+        email: "a@test.com",
+        "customFields.company": "Acme",
+        "metaData.source": "crm",
+        "metaData.version": "2",
+      });
+    });
+
+    it("runs transforms in order on renamed columns", () => {
+      const result = applyColumnMapping(
+        { Email: "  Alice@Test.COM ", Plans: "pln_1; pln_2;", Joined: "" },
+        {
+          rename: { Email: "email", Plans: "plans", Joined: "joined" },
+          transforms: {
+            email: ["trim", "lowercase"],
+            plans: [{ split: ";" }],
+            joined: ["date"],
+          },
+        }
+      );
+
+      expect(result).toEqual({
+        email: "alice@test.com",
+        plans: "pln_1,pln_2",
+        joined: "",
+      });
+    });
+
+    it("parses dates to ISO strings and rejects invalid ones", () => {
+      const mapping = { transforms: { joined: ["date" as const] } };
+
+      expect(applyColumnMapping({ joined: "2024-03-01" }, mapping)).toEqual({
+        joined: "2024-03-01T00:00:00.000Z",
+      });
+      expect(() =>
+        applyColumnMapping({ joined: "not a date" }, mapping)
+      ).toThrow('Column "joined": invalid date "not a date"');
+    });
+
+    it("leaves non-string JSON values to the import", () => {
+      const result = applyColumnMapping(
+        { Age: 30, Tags: ["a", "b"], Active: true },
+        {
+          rename: { Age: "age" },
+          transforms: { age: ["trim"], Tags: [{ split: ";" }] },
+        }
+      );
+
+      expect(result).toEqual({ age: 30, Tags: ["a", "b"], Active: true });
+    });
+
+    it("joins split lists with a custom separator", () => {
+      const result = applyColumnMapping(
+        { tags: "a|b" },
+        { transforms: { tags: [{ split: "|", join: ", " }, "uppercase"] } }
+      );
+
+      expect(result).toEqual({ tags: "A, B" });
+    });
+  });
+
+  describe("parseColumnMapping", () => {
+    it("rejects unknown keys and transforms", () => {
+      expect(() => parseColumnMapping({ renames: {} })).toThrow(
+        'Unknown mapping key "renames"'
+      );
+      expect(() =>
+        parseColumnMapping({ transforms: { email: ["titlecase"] } })
+      ).toThrow('Invalid transform for "email"');
+      expect(() => parseColumnMapping({ drop: "Notes" })).toThrow(
+        '"drop" must be a list'
+      );
+    });
+  });
+
+  describe("loadColumnMapping", () => {
+    it("returns rows unchanged without a file", async () => {
+      const mapRow = await loadColumnMapping();
+      const row = { email: "a@test.com" };
+
+      expect(mapRow(row)).toBe(row);
+      expect(mockReadFile).not.toHaveBeenCalled();
+    });
+
+    it("reads YAML mapping files", async () => {
+      mockReadFile.mockResolvedValueOnce(
+        "rename:\n  E-mail: email\ntransforms:\n  email: [lowercase]\n"
+      );
+
+      const mapRow = await loadColumnMapping("map.yaml");
+
+      expect(mapRow({ "E-mail": "A@TEST.COM" })).toEqual({
+        email: "a@test.com",
+      });
+    });
+
+    it("reads JSON mapping files", async () => {
+      mockReadFile.mockResolvedValueOnce('{"drop": ["id"]}');
+
+      const mapRow = await loadColumnMapping("map.json");
+
+      expect(mapRow({ id: "1", name: "A" })).toEqual({ name: "A" });
+    });
+
+    it("names the file in validation errors", async () => {
+      mockReadFile.mockResolvedValueOnce("- not\n- an object\n");
+
+      await expect(loadColumnMapping("map.yaml")).rejects.toThrow(
+        "Invalid mapping file map.yaml: Mapping must be an object"
+      );
+    });
+  });
+});
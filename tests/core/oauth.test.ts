@@ -13,6 +13,7 @@ const {
   generateCodeChallenge,
   generateState,
   buildAuthorizationUrl,
+  parseAuthorizationResponse,
   registerClient,
   exchangeCodeForTokens,
   refreshAccessToken,
@@ -89,6 +90,58 @@ describe("oauth", () => {
     });
   });
 
+  describe("parseAuthorizationResponse", () => {
+    it("extracts the code from a pasted redirect URL", () => {
+      const code = parseAuthorizationResponse(
+        "http://127.0.0.1:3456/callback?code=abc&state=s1",
+        "s1"
+      );
+      expect(code).toBe("abc");
+    });
+
+    it("accepts a bare code, keeping its padding", () => {
+      expect(parseAuthorizationResponse("  abc123\n", "s1")).toBe("abc123");
+      expect(parseAuthorizationResponse("abc123==", "s1")).toBe("abc123==");
+    });
+
+    it("keeps padding in a code from a redirect URL", () => {
+      expect(
+        parseAuthorizationResponse("/callback?code=abc%3D%3D&state=s1", "s1")
+      ).toBe("abc==");
+    });
+
+    it("accepts a query string without a URL", () => {
+      expect(parseAuthorizationResponse("code=abc&state=s1", "s1")).toBe("abc");
+    });
+
+    it("rejects a redirect URL with a mismatched state", () => {
+      expect(() =>
+        parseAuthorizationResponse("/callback?code=abc&state=other", "s1")
+      ).toThrow("State mismatch");
+    });
+
+    it("rejects a redirect URL without a state", () => {
+      expect(() =>
+        parseAuthorizationResponse("/callback?code=abc", "s1")
+      ).toThrow("Missing code or state");
+    });
+
+    it("surfaces authorization errors", () => {
+      expect(() =>
+        parseAuthorizationResponse(
+          "/callback?error=access_denied&error_description=User+denied",
+          "s1"
+        )
+      ).toThrow("Authorization failed: User denied");
+    });
+
+    it("rejects empty input", () => {
+      expect(() => parseAuthorizationResponse("  ", "s1")).toThrow(
+        "No authorization code provided"
+      );
+    });
+  });
+
   describe("registerClient", () => {
     it("sends registration request and returns client_id", async () => {
       vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
@@ -0,0 +1,251 @@
+import { Readable } from "node:stream";
+import { describe, expect, it, vi } from "vitest";
+
+// In-memory files shared by the stream and file handle mocks
+const files = new Map<string, string>();
+
+vi.mock("node:fs", () => ({
+  createReadStream: (path: string) => Readable.from([files.get(path) ?? ""]),
+}));
+
+const mockRm = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  mkdtemp: (prefix: string) => Promise.resolve(`${prefix}spool`),
+  open: (path: string) => {
+    files.set(path, "");
+    return Promise.resolve({
+      write: (text: string) => {
+        files.set(path, `${files.get(path)}${text}`);
+        return Promise.resolve();
+      },
+      close: () => Promise.resolve(),
+    });
+  },
+  rm: (...args: unknown[]) => mockRm(...args),
+}));
+
+const addWorksheet = vi.fn();
+const sheetRows: unknown[][] = [];
+vi.mock("exceljs", () => ({
+  default: {
+    stream: {
+      xlsx: {
+        WorkbookWriter: class {
+          addWorksheet(name: string) {
+            addWorksheet(name);
+            return {
+              addRow: (cells: unknown[]) => {
+                sheetRows.push(cells);
+                return { commit: () => undefined };
+              },
+              commit: () => undefined,
+            };
+          }
+          commit() {
+            return Promise.resolve();
+          }
+        },
+      },
+    },
+  },
+}));
+
+const parquetSchema = vi.fn();
+const parquetWrite = vi.fn();
+const parquetFinish = vi.fn();
+vi.mock("hyparquet-writer", () => ({
+  fileWriter: (path: string) => ({ path }),
+  schemaFromColumnData: (options: unknown) => parquetSchema(options),
+  ParquetWriter: class {
+    write(options: unknown) {
+      parquetWrite(options);
+    }
+    finish() {
+      return parquetFinish();
+    }
+  },
+}));
+
+const { createOutputWriter, inferExportFormat, resolveExportFormat } =
+  await import("../../src/lib/output-writer.js");
+
+const options = { name: "users" };
+
+describe("output-writer", () => {
+  describe("resolveExportFormat", () => {
+    it("prefers --format, then the --output extension, then JSON", () => {
+      expect(resolveExportFormat({ format: "csv", output: "out.sql" })).toBe(
+        "csv"
+      );
+      expect(resolveExportFormat({ output: "out.PARQUET" })).toBe("parquet");
+      expect(resolveExportFormat({ output: "out.txt" })).toBe("json");
+      expect(resolveExportFormat({})).toBe("json");
+      expect(inferExportFormat("dump.ndjson")).toBe("ndjson");
+    });
+  });
+
+  describe("createOutputWriter", () => {
+    it("writes JSON page by page in the same layout as writeOutputFile", async () => {
+      const writer = await createOutputWriter("/out.json", "json", options);
+      await writer.write([{ name: "Alice" }]);
+      await writer.write([{ name: "Bob", meta: { role: "admin" } }]);
+      await writer.close();
+
+      expect(files.get("/out.json")).toBe(
+        `${JSON.stringify(
+          [{ name: "Alice" }, { name: "Bob", meta: { role: "admin" } }],
+          null,
+          2
+        )}\n`
+      );
+    });
+
+    it("writes an empty JSON array when nothing was exported", async () => {
+      const writer = await createOutputWriter("/out.json", "json", options);
+      await writer.close();
+
+      expect(files.get("/out.json")).toBe("[]\n");
+    });
+
+    it("writes one JSON object per line for JSONL and NDJSON", async () => {
+      for (const format of ["jsonl", "ndjson"] as const) {
+        const writer = await createOutputWriter(`/out.${format}`, format, {
+          name: "users",
+        });
+        await writer.write([{ a: 1 }, { b: { c: 2 } }]);
+        await writer.close();
+
+        expect(files.get(`/out.${format}`)).toBe('{"a":1}\n{"b":{"c":2}}\n');
+      }
+    });
+
+    it("includes CSV columns that first appear on later pages", async () => {
+      const writer = await createOutputWriter("/out.csv", "csv", options);
+      await writer.write([{ name: "Alice", meta: { role: "admin" } }]);
+      await writer.write([{ name: "Bob, Jr.", team: "core" }]);
+      await writer.close();
+
+      expect(files.get("/out.csv")).toBe(
+        'name,meta.role,team\r\nAlice,admin,\r\n"Bob, Jr.",,core\n'
+      );
+      expect(mockRm).toHaveBeenCalledWith(expect.stringContaining("spool"), {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it("writes a typed CREATE TABLE and escaped INSERT statements for SQL", async () => {
+      const writer = await createOutputWriter("/out.sql", "sql", options);
+      await writer.write([{ id: "rec_1", age: 30, active: true }]);
+      await writer.write([{ id: "O'Brien", age: 4.5, note: null }]);
+      await writer.close();
+
+      expect(files.get("/out.sql")).toBe(
+        [
+          'CREATE TABLE "users" (',
+          '  "id" TEXT,',
+          '  "age" NUMERIC,',
+          '  "active" BOOLEAN,',
+          '  "note" TEXT',
+          ");",
+          "",
+          'INSERT INTO "users" ("id", "age", "active", "note") VALUES',
+          "  ('rec_1', 30, TRUE, NULL),",
+          "  ('O''Brien', 4.5, NULL, NULL);",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("stringifies values in columns that mix types", async () => {
+      const writer = await createOutputWriter("/out.sql", "sql", options);
+      await writer.write([{ code: 7 }, { code: "A7" }]);
+      await writer.close();
+
+      expect(files.get("/out.sql")).toContain('"code" TEXT');
+      expect(files.get("/out.sql")).toContain("('7'),\n  ('A7');");
+    });
+
+    it("writes one xlsx sheet named after the table with a header row", async () => {
+      sheetRows.length = 0;
+      const writer = await createOutputWriter("/out.xlsx", "xlsx", {
+        name: "posts/2024",
+      });
+      await writer.write([{ id: "rec_1", data: { views: 3 } }]);
+      await writer.close();
+
+      expect(addWorksheet).toHaveBeenCalledWith("posts_2024");
+      expect(sheetRows).toEqual([
+        ["id", "data.views"],
+        ["rec_1", 3],
+      ]);
+    });
+
+    it("deletes the partial output and the spool when aborted", async () => {
+      const json = await createOutputWriter("/out.json", "json", options);
+      await json.write([{ name: "Alice" }]);
+      await json.abort();
+
+      const csv = await createOutputWriter("/out.csv", "csv", options);
+      await csv.write([{ name: "Alice" }]);
+      await csv.abort();
+
+      expect(mockRm).toHaveBeenCalledWith("/out.json", { force: true });
+      expect(mockRm).toHaveBeenCalledWith("/out.csv", { force: true });
+      expect(mockRm).toHaveBeenCalledWith(expect.stringContaining("spool"), {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it("declares Parquet column types and writes one row group per batch", async () => {
+      parquetSchema.mockReturnValue([]);
+      const writer = await createOutputWriter(
+        "/out.parquet",
+        "parquet",
+        options
+      );
+      await writer.write([{ id: "rec_1", score: 1.5, ok: true }]);
+      await writer.close();
+
+      expect(parquetSchema.mock.calls[0][0].columnData).toEqual([
+        { name: "id", data: [], type: "STRING", nullable: true },
+        { name: "score", data: [], type: "DOUBLE", nullable: true },
+        { name: "ok", data: [], type: "BOOLEAN", nullable: true },
+      ]);
+      expect(parquetWrite).toHaveBeenCalledWith({
+        columnData: [
+          { name: "id", data: ["rec_1"] },
+          { name: "score", data: [1.5] },
+          { name: "ok", data: [true] },
+        ],
+        rowGroupSize: 1,
+      });
+      expect(parquetFinish).toHaveBeenCalled();
+    });
+
+    it("finishes an empty Parquet file before removing the spool", async () => {
+      parquetSchema.mockReturnValue([]);
+      const events: string[] = [];
+      parquetFinish.mockImplementationOnce(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        events.push("finished");
+      });
+      mockRm.mockImplementationOnce(() => {
+        events.push("spool removed");
+        return Promise.resolve();
+      });
+
+      const writer = await createOutputWriter(
+        "/empty.parquet",
+        "parquet",
+        options
+      );
+      await writer.close();
+
+      expect(parquetSchema.mock.calls.at(-1)?.[0].columnData).toEqual([]);
+      expect(parquetWrite).not.toHaveBeenCalled();
+      expect(events).toEqual(["finished", "spool removed"]);
+    });
+  });
+});
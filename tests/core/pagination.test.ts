@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+
+const graphqlRequest = vi.fn();
+vi.mock("../../src/lib/graphql-client.js", () => ({
+  graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
+}));
+
+const { fetchMemberPages, fetchRecordPages } = await import(
+  "../../src/lib/pagination.js"
+);
+
+const collect = async <T>(pages: AsyncIterable<T[]>): Promise<T[][]> => {
+  const result: T[][] = [];
+  for await (const page of pages) {
+    result.push(page);
+  }
+  return result;
+};
+
+describe("pagination", () => {
+  it("follows member cursors until a short page", async () => {
+    const full = Array.from({ length: 200 }, (_, i) => ({ id: `mem_${i}` }));
+    graphqlRequest
+      .mockResolvedValueOnce({
+        getMembers: {
+          edges: full.map((node) => ({ node })),
+          pageInfo: { endCursor: "cursor_1" },
+        },
+      })
+      .mockResolvedValueOnce({
+        getMembers: {
+          edges: [{ node: { id: "mem_200" } }],
+          pageInfo: { endCursor: "cursor_2" },
+        },
+      });
+
+    const pages = await collect(fetchMemberPages({ planIds: ["pln_1"] }));
+
+    expect(pages.map((page) => page.length)).toEqual([200, 1]);
+    expect(graphqlRequest.mock.calls[1][0].variables).toEqual({
+      first: 200,
+      after: "cursor_1",
+      filters: { planIds: ["pln_1"] },
+    });
+  });
+
+  it("passes the record filter on every page and stops without a cursor", async () => {
+    const full = Array.from({ length: 100 }, (_, i) => ({ id: `rec_${i}` }));
+    graphqlRequest.mockResolvedValueOnce({
+      dataRecords: {
+        edges: full.map((node) => ({ node })),
+        pageInfo: { endCursor: null },
+      },
+    });
+    const filter = { fieldFilters: { status: { equals: "open" } } };
+
+    const pages = await collect(fetchRecordPages("tbl_1", filter));
+
+    expect(pages).toHaveLength(1);
+    expect(graphqlRequest).toHaveBeenCalledTimes(1);
+    expect(graphqlRequest.mock.calls[0][0].variables).toEqual({
+      tableId: "tbl_1",
+      filter,
+      pagination: { first: 100, after: undefined },
+    });
+  });
+
+  it("asks only for the records still needed up to a limit", async () => {
+    const page = (length: number, cursor: string) => ({
+      dataRecords: {
+        edges: Array.from({ length }, (_, i) => ({ node: { id: `rec_${i}` } })),
+        pageInfo: { endCursor: cursor },
+      },
+    });
+    graphqlRequest
+      .mockResolvedValueOnce(page(100, "cursor_1"))
+      .mockResolvedValueOnce(page(30, "cursor_2"));
+
+    const pages = await collect(fetchRecordPages("tbl_1", undefined, 130));
+
+    expect(pages.map((records) => records.length)).toEqual([100, 30]);
+    expect(graphqlRequest).toHaveBeenCalledTimes(2);
+    expect(graphqlRequest.mock.calls[1][0].variables.pagination).toEqual({
+      first: 30,
+      after: "cursor_1",
+    });
+  });
+});
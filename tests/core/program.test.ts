@@ -58,6 +58,49 @@ describe("program", () => {
     expect(sandbox).toBeDefined();
   });
 
+  it("registers --profile option", () => {
+    const opt = program.options.find(
+      (o: { long?: string }) => o.long === "--profile"
+    );
+    expect(opt).toBeDefined();
+    expect(opt?.envVar).toBe("MEMBERSTACK_PROFILE");
+  });
+
+  it("registers --token-stdin option", () => {
+    const opt = program.options.find(
+      (o: { long?: string }) => o.long === "--token-stdin"
+    );
+    expect(opt).toBeDefined();
+  });
+
+  it("registers --max-retries and --timeout with defaults", () => {
+    const retries = program.options.find(
+      (o: { long?: string }) => o.long === "--max-retries"
+    );
+    const timeout = program.options.find(
+      (o: { long?: string }) => o.long === "--timeout"
+    );
+    expect(retries?.defaultValue).toBe(3);
+    expect(retries?.envVar).toBe("MEMBERSTACK_MAX_RETRIES");
+    expect(timeout?.defaultValue).toBe(30);
+    expect(timeout?.envVar).toBe("MEMBERSTACK_TIMEOUT");
+  });
+
+  it("parses --max-retries and --timeout as numbers", () => {
+    const retries = program.options.find(
+      (o: { long?: string }) => o.long === "--max-retries"
+    );
+    const timeout = program.options.find(
+      (o: { long?: string }) => o.long === "--timeout"
+    );
+    expect(retries?.parseArg?.("5", undefined)).toBe(5);
+    expect(() => retries?.parseArg?.("-1", undefined)).toThrow(
+      "non-negative integer"
+    );
+    expect(timeout?.parseArg?.("2.5", undefined)).toBe(2.5);
+    expect(() => timeout?.parseArg?.("0", undefined)).toThrow("positive");
+  });
+
   it("configureHelp places --help first in visible options", () => {
     const help = program.createHelp();
     const opts = help.visibleOptions(program);
@@ -96,5 +139,17 @@ describe("program", () => {
       await program.parseAsync(["node", "test", "_test_hook"]);
       expect(program.opts().mode).toBe("sandbox");
     });
+
+    it("accepts --profile after the subcommand", async () => {
+      await program.parseAsync([
+        "node",
+        "test",
+        "_test_hook",
+        "--profile",
+        "a",
+      ]);
+      expect(program.opts().profile).toBe("a");
+      program.setOptionValue("profile", undefined);
+    });
   });
 });
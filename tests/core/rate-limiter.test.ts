@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+
+const mockDelay = vi.fn();
+vi.mock("../../src/lib/utils.js", () => ({
+  delay: (...args: unknown[]) => mockDelay(...args),
+}));
+
+vi.mock("../../src/lib/constants.js", () => ({
+  RATE_LIMIT_DELAY_MS: 100,
+  RATE_LIMIT_MAX_DELAY_MS: 1000,
+}));
+
+const { createRateLimiter, reportThrottle } = await import(
+  "../../src/lib/rate-limiter.js"
+);
+
+describe("rate-limiter", () => {
+  it("spreads the base delay across workers", () => {
+    const limiter = createRateLimiter(4);
+    expect(limiter.intervalMs).toBe(25);
+    limiter.dispose();
+  });
+
+  it("backs off on throttle and recovers on success", () => {
+    const limiter = createRateLimiter(4);
+
+    reportThrottle();
+    expect(limiter.intervalMs).toBe(100);
+    reportThrottle();
+    expect(limiter.intervalMs).toBe(200);
+
+    for (let i = 0; i < 50; i++) {
+      limiter.recover();
+    }
+    expect(limiter.intervalMs).toBe(25);
+    limiter.dispose();
+  });
+
+  it("caps the interval at the maximum delay", () => {
+    const limiter = createRateLimiter(1);
+    for (let i = 0; i < 10; i++) {
+      reportThrottle();
+    }
+    expect(limiter.intervalMs).toBe(1000);
+    limiter.dispose();
+  });
+
+  it("waits for Retry-After before the next request", async () => {
+    const limiter = createRateLimiter(1);
+    mockDelay.mockResolvedValue(undefined);
+
+    reportThrottle(5000);
+    await limiter.acquire();
+
+    expect(mockDelay).toHaveBeenCalledWith(expect.any(Number));
+    expect(mockDelay.mock.calls[0][0]).toBeGreaterThan(4000);
+    limiter.dispose();
+  });
+
+  it("stops listening after dispose", () => {
+    const limiter = createRateLimiter(1);
+    limiter.dispose();
+
+    reportThrottle();
+    expect(limiter.intervalMs).toBe(100);
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseOrderBy,
+  parseRecordFilter,
+  parseSelect,
+  parseWhereExpression,
+  sortRecords,
+  toRecordRow,
+} from "../../src/lib/record-query.js";
+import type { DataRecord } from "../../src/lib/types.js";
+
+const record = (
+  id: string,
+  data: Record<string, unknown>,
+  createdAt = "2024-01-01"
+): DataRecord => ({
+  id,
+  data,
+  createdAt,
+  updatedAt: createdAt,
+  internalOrder: 0,
+});
+
+describe("record-query", () => {
+  describe("parseRecordFilter", () => {
+    it("compiles the legacy field operator value form", () => {
+      expect(parseRecordFilter(["name equals Alice", "age gt 18"])).toEqual({
+        fieldFilters: { name: { equals: "Alice" }, age: { gt: 18 } },
+      });
+    });
+
+    it("returns undefined without clauses", () => {
+      expect(parseRecordFilter([])).toBeUndefined();
+    });
+
+    it("compiles nested and, or and in lists", () => {
+      expect(
+        parseRecordFilter([
+          'status = "on hold" and (priority > 3 or owner in ["a","b"])',
+        ])
+      ).toEqual({
+        AND: [
+          { fieldFilters: { status: { equals: "on hold" } } },
+          {
+            OR: [
+              { fieldFilters: { priority: { gt: 3 } } },
+              { fieldFilters: { owner: { in: ["a", "b"] } } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("maps symbol operators, not in and negation", () => {
+      expect(
+        parseRecordFilter([
+          "a != 1 and b <= 2.5 and c >= -1 and d not in [null, true]",
+          "not (e startsWith 'x' or f endsWith 10)",
+        ])
+      ).toEqual({
+        AND: [
+          {
+            fieldFilters: {
+              a: { not: 1 },
+              b: { lte: 2.5 },
+              c: { gte: -1 },
+              d: { notIn: [null, true] },
+            },
+          },
+          {
+            NOT: {
+              OR: [
+                { fieldFilters: { e: { startsWith: "x" } } },
+                { fieldFilters: { f: { endsWith: "10" } } },
+              ],
+            },
+          },
+        ],
+      });
+    });
+
+    it("keeps repeated field operators in an AND list", () => {
+      expect(
+        parseRecordFilter(["data.tag contains a and tag contains b"])
+      ).toEqual({
+        AND: [
+          { fieldFilters: { tag: { contains: "a" } } },
+          { fieldFilters: { tag: { contains: "b" } } },
+        ],
+      });
+    });
+
+    it("binds and tighter than or", () => {
+      expect(parseWhereExpression("a = 1 or b = 2 and c = 3")).toEqual({
+        type: "or",
+        nodes: [
+          { type: "comparison", field: "a", operator: "equals", value: 1 },
+          {
+            type: "and",
+            nodes: [
+              { type: "comparison", field: "b", operator: "equals", value: 2 },
+              { type: "comparison", field: "c", operator: "equals", value: 3 },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("reads unquoted values up to the next and, or or parenthesis", () => {
+      expect(
+        parseRecordFilter([
+          "name contains John Doe",
+          "email = a@b.com and (created > 2024-01-01 or x = 1e5)",
+        ])
+      ).toEqual({
+        AND: [
+          { fieldFilters: { name: { contains: "John Doe" } } },
+          { fieldFilters: { email: { equals: "a@b.com" } } },
+          {
+            OR: [
+              { fieldFilters: { created: { gt: "2024-01-01" } } },
+              { fieldFilters: { x: { equals: 100_000 } } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("reads literals and numbers from unquoted values", () => {
+      expect(
+        parseRecordFilter([
+          "active equals TRUE and owner = null and age gt 18 and code = 007x",
+          "tags in [a@b.com, 1e3, false]",
+        ])
+      ).toEqual({
+        fieldFilters: {
+          active: { equals: true },
+          owner: { equals: null },
+          age: { gt: 18 },
+          code: { equals: "007x" },
+          tags: { in: ["a@b.com", 1000, false] },
+        },
+      });
+    });
+
+    it("unescapes quoted strings", () => {
+      expect(parseRecordFilter([String.raw`title = "say \"hi\""`])).toEqual({
+        fieldFilters: { title: { equals: 'say "hi"' } },
+      });
+    });
+  });
+
+  describe("syntax errors", () => {
+    it("points a caret at the unexpected token", () => {
+      expect(() => parseWhereExpression("status = and x = 1")).toThrow(
+        "Invalid --where expression: expected a value at position 10\n  status = and x = 1\n           ^"
+      );
+    });
+
+    it("reports a missing closing parenthesis at the end", () => {
+      expect(() => parseWhereExpression("(a = 1 or b = 2")).toThrow(
+        'expected ")", got end of expression at position 16'
+      );
+    });
+
+    it("rejects unknown operators, trailing tokens and bad characters", () => {
+      expect(() => parseWhereExpression("a like 1")).toThrow(
+        "expected an operator"
+      );
+      expect(() => parseWhereExpression('a = "x" y')).toThrow(
+        'expected "and", "or" or end of expression at position 9'
+      );
+      expect(() => parseWhereExpression("a & b = 2")).toThrow(
+        'unexpected character "&"'
+      );
+      expect(() => parseWhereExpression('a = "open')).toThrow(
+        "unterminated string at position 5"
+      );
+    });
+
+    it("requires lists for in and scalars elsewhere", () => {
+      expect(() => parseWhereExpression("a in 1")).toThrow(
+        'expected a list such as ["a", "b"]'
+      );
+      expect(() => parseWhereExpression("a = [1]")).toThrow(
+        "lists are only allowed after in or not in"
+      );
+      expect(() => parseWhereExpression("a in [1 2]")).toThrow(
+        'expected "," or "]"'
+      );
+    });
+  });
+
+  describe("ordering and selection", () => {
+    it("parses order-by directions", () => {
+      expect(parseOrderBy("priority:desc, data.name,createdAt:ASC")).toEqual([
+        { field: "priority", descending: true },
+        { field: "name", descending: false },
+        { field: "createdAt", descending: false },
+      ]);
+    });
+
+    it("sorts by several fields with missing values last", () => {
+      const records = [
+        record("r1", { priority: 2, name: "b" }),
+        record("r2", { name: "z" }),
+        record("r3", { priority: 10, name: "a" }),
+        record("r4", { priority: 2, name: "a" }),
+      ];
+      const sorted = sortRecords(records, parseOrderBy("priority:desc,name"));
+      expect(sorted.map((r) => r.id)).toEqual(["r3", "r4", "r1", "r2"]);
+    });
+
+    it("selects id and the chosen columns", () => {
+      const row = toRecordRow(
+        record("r1", { name: "Alice", age: 30 }),
+        parseSelect("name, createdAt")
+      );
+      expect(row).toEqual({
+        id: "r1",
+        "data.name": "Alice",
+        createdAt: "2024-01-01",
+      });
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectReferencedTables,
+  getFieldTypes,
+  mapMemberReferences,
+  orderTablesByReferences,
+  remapRecordData,
+} from "../../src/lib/references.js";
+import type { FieldType } from "../../src/lib/types.js";
+
+const field = (key: string, type: FieldType, referencedTable?: string) => ({
+  key,
+  type,
+  referencedTable: referencedTable ?? null,
+});
+
+const posts = {
+  key: "posts",
+  fields: [
+    field("author", "MEMBER_REFERENCE"),
+    field("category", "REFERENCE", "categories"),
+    field("related", "REFERENCE_MANY", "posts"),
+  ],
+};
+const categories = {
+  key: "categories",
+  fields: [field("parent", "REFERENCE", "sections")],
+};
+const sections = { key: "sections", fields: [field("name", "TEXT")] };
+const tags = { key: "tags", fields: [field("name", "TEXT")] };
+
+describe("references", () => {
+  it("orders tables after the tables they reference and tolerates cycles", () => {
+    const tables = [
+      { key: "a", fields: [field("b", "REFERENCE", "b")] },
+      { key: "b", fields: [field("a", "REFERENCE", "a")] },
+      { key: "c", fields: [field("a", "REFERENCE_MANY", "a")] },
+    ];
+
+    expect(orderTablesByReferences(tables).map((t) => t.key)).toEqual([
+      "b",
+      "a",
+      "c",
+    ]);
+  });
+
+  it("collects every table reachable through references", () => {
+    const tables = [tags, posts, categories, sections];
+
+    expect(
+      collectReferencedTables(["posts"], tables).map((t) => t.key)
+    ).toEqual(["sections", "categories", "posts"]);
+    expect(() => collectReferencedTables(["nope"], tables)).toThrow(
+      'Table "nope" not found'
+    );
+  });
+
+  it("rewrites resolvable references and defers the rest until the final pass", () => {
+    const types = getFieldTypes(posts);
+    const ids = {
+      members: new Map([["mem_old", "mem_new"]]),
+      records: new Map([["rec_cat", "rec_cat_new"]]),
+    };
+    const data = {
+      author: "mem_old",
+      category: "rec_cat",
+      related: ["rec_cat", "rec_later"],
+      title: "Hi",
+    };
+
+    expect(remapRecordData(data, types, ids, false)).toEqual({
+      data: { author: "mem_new", category: "rec_cat_new", title: "Hi" },
+      deferred: { related: ["rec_cat", "rec_later"] },
+      missing: 0,
+    });
+    expect(remapRecordData(data, types, ids, true)).toEqual({
+      data: {
+        author: "mem_new",
+        category: "rec_cat_new",
+        related: ["rec_cat_new"],
+        title: "Hi",
+      },
+      deferred: {},
+      missing: 1,
+    });
+  });
+
+  it("keeps member references when no member IDs are given", () => {
+    const result = remapRecordData(
+      { author: "mem_1" },
+      getFieldTypes(posts),
+      { records: new Map() },
+      false
+    );
+
+    expect(result.data).toEqual({ author: "mem_1" });
+  });
+
+  it("maps only member reference values", () => {
+    const types = new Map<string, FieldType>([
+      ["owner", "MEMBER_REFERENCE"],
+      ["watchers", "MEMBER_REFERENCE_MANY"],
+      ["title", "TEXT"],
+    ]);
+
+    expect(
+      mapMemberReferences(
+        {
+          owner: "mem_1",
+          watchers: ["mem_1", "mem_2"],
+          title: "mem_1",
+          empty: "",
+        },
+        types,
+        (id) => `${id}@example.com`
+      )
+    ).toEqual({
+      owner: "mem_1@example.com",
+      watchers: ["mem_1@example.com", "mem_2@example.com"],
+      title: "mem_1",
+      empty: "",
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, expect, it, vi } from "vitest";
+
+const mockReadFile = vi.fn();
+const mockWriteFile = vi.fn();
+vi.mock("node:fs/promises", () => ({
+  readFile: (...args: unknown[]) => mockReadFile(...args),
+  writeFile: (...args: unknown[]) => mockWriteFile(...args),
+}));
+
+vi.mock("../../src/lib/program.js", () => ({
+  program: { opts: () => ({}) },
+}));
+
+const graphqlRequest = vi.fn();
+vi.mock("../../src/lib/graphql-client.js", () => ({
+  graphqlRequest: (...args: unknown[]) => graphqlRequest(...args),
+}));
+
+const {
+  applyFieldOrder,
+  fetchTableConfigs,
+  parseTableSchema,
+  planFieldOrder,
+  readTableSchema,
+  toTableSchema,
+  writeTableSchema,
+} = await import("../../src/lib/table-schema.js");
+
+const field = (key: string, type = "TEXT", referencedTable?: string) => ({
+  key,
+  name: key,
+  type,
+  required: false,
+  defaultValue: null,
+  referencedTable: referencedTable ?? null,
+});
+
+const schema = {
+  version: 1,
+  key: "posts",
+  name: "Posts",
+  createRule: "AUTHENTICATED",
+  readRule: "PUBLIC",
+  updateRule: "AUTHENTICATED_OWN",
+  deleteRule: "ADMIN_ONLY",
+  fields: [field("title"), field("category", "REFERENCE", "categories")],
+};
+
+const tableConfig = (keys: string[]) => ({
+  ...schema,
+  id: "tbl_1",
+  fields: keys.map((key, index) => ({ ...field(key), id: `fld_${index}` })),
+});
+
+describe("table-schema", () => {
+  it("fetches tables with fields in column order", async () => {
+    graphqlRequest.mockResolvedValueOnce({
+      dataTables: [
+        {
+          ...schema,
+          id: "tbl_1",
+          fields: [
+            {
+              ...field("category", "REFERENCE"),
+              id: "fld_2",
+              tableOrder: 1,
+              referencedTable: { id: "tbl_2", key: "categories", name: "C" },
+            },
+            { ...field("title"), id: "fld_1", tableOrder: 0 },
+          ],
+        },
+      ],
+    });
+
+    const [table] = await fetchTableConfigs();
+
+    expect(table.fields.map((f) => [f.key, f.referencedTable])).toEqual([
+      ["title", null],
+      ["category", "categories"],
+    ]);
+    expect(toTableSchema(table)).toEqual(schema);
+  });
+
+  it("fills in optional field settings", () => {
+    const parsed = parseTableSchema({
+      ...schema,
+      fields: [{ key: "title", name: "Title", type: "TEXT" }],
+    });
+    expect(parsed.fields).toEqual([
+      {
+        key: "title",
+        name: "Title",
+        type: "TEXT",
+        required: false,
+        defaultValue: null,
+        referencedTable: null,
+      },
+    ]);
+  });
+
+  it("rejects invalid schemas", () => {
+    expect(() => parseTableSchema({ ...schema, version: 2 })).toThrow(
+      "Unsupported schema version: 2. Expected 1."
+    );
+    expect(() => parseTableSchema({ ...schema, readRule: "EVERYONE" })).toThrow(
+      "readRule must be one of PUBLIC, AUTHENTICATED, AUTHENTICATED_OWN, ADMIN_ONLY"
+    );
+    expect(() =>
+      parseTableSchema({ ...schema, fields: [field("a", "STRING")] })
+    ).toThrow('Field "a": type must be one of');
+    expect(() =>
+      parseTableSchema({ ...schema, fields: [field("a", "REFERENCE")] })
+    ).toThrow('Field "a": referencedTable is required for REFERENCE');
+    expect(() =>
+      parseTableSchema({ ...schema, fields: [field("a"), field("a")] })
+    ).toThrow('Field "a" is listed more than once');
+  });
+
+  it("reads YAML schema files", async () => {
+    mockReadFile.mockResolvedValueOnce(
+      [
+        "version: 1",
+        "key: posts",
+        "name: Posts",
+        "createRule: AUTHENTICATED",
+        "readRule: PUBLIC",
+        "updateRule: AUTHENTICATED_OWN",
+        "deleteRule: ADMIN_ONLY",
+        "fields:",
+        "  - { key: title, name: title, type: TEXT }",
+        "  - { key: category, name: category, type: REFERENCE, referencedTable: categories }",
+      ].join("\n")
+    );
+
+    await expect(readTableSchema("posts.yaml")).resolves.toEqual(schema);
+  });
+
+  it("names the file in read errors", async () => {
+    mockReadFile.mockResolvedValueOnce("[]");
+    await expect(readTableSchema("posts.json")).rejects.toThrow(
+      "Invalid schema file posts.json: Schema must be an object"
+    );
+  });
+
+  it("writes YAML or JSON by extension", async () => {
+    await writeTableSchema("posts.yml", schema as never);
+    await writeTableSchema("posts.json", schema as never);
+
+    expect(mockWriteFile.mock.calls[0][1]).toContain("key: posts\n");
+    expect(JSON.parse(mockWriteFile.mock.calls[1][1])).toEqual(schema);
+  });
+
+  it("plans a reorder only when the result would differ", () => {
+    const parsed = parseTableSchema(schema);
+    // New fields are appended after the kept ones
+    expect(planFieldOrder(parsed, undefined)).toBeNull();
+    expect(planFieldOrder(parsed, tableConfig(["title"]) as never)).toBeNull();
+    expect(
+      planFieldOrder(parsed, tableConfig(["old", "title", "category"]) as never)
+    ).toBeNull();
+    expect(
+      planFieldOrder(parsed, tableConfig(["category", "title"]) as never)
+    ).toEqual(["title", "category"]);
+  });
+
+  it("moves fields into order and leaves unlisted ones after them", async () => {
+    graphqlRequest.mockResolvedValue({});
+    graphqlRequest.mockResolvedValueOnce({
+      dataTable: {
+        fields: [
+          { id: "fld_a", key: "a", tableOrder: 0 },
+          { id: "fld_c", key: "c", tableOrder: 2 },
+          { id: "fld_b", key: "b", tableOrder: 1 },
+        ],
+      },
+    });
+
+    const moved = await applyFieldOrder("posts", ["c", "a"]);
+
+    expect(moved).toBe(3);
+    expect(
+      graphqlRequest.mock.calls.slice(1).map(([request]) => request.variables)
+    ).toEqual([
+      { input: { id: "fld_c", tableOrder: 0 } },
+      { input: { id: "fld_a", tableOrder: 1 } },
+      { input: { id: "fld_b", tableOrder: 2 } },
+    ]);
+  });
+});
@@ -1,23 +1,25 @@
-import { describe, expect, it, vi } from "vitest";
-
-const mockMkdir = vi.fn();
-const mockReadFile = vi.fn();
-const mockRm = vi.fn();
-const mockWriteFile = vi.fn();
-vi.mock("node:fs/promises", () => ({
-  mkdir: (...args: unknown[]) => mockMkdir(...args),
-  readFile: (...args: unknown[]) => mockReadFile(...args),
-  rm: (...args: unknown[]) => mockRm(...args),
-  writeFile: (...args: unknown[]) => mockWriteFile(...args),
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockReadCredentials = vi.fn();
+const mockWriteCredentials = vi.fn();
+const mockClearCredentials = vi.fn();
+vi.mock("../../src/lib/credential-store.js", () => ({
+  readCredentials: (...args: unknown[]) => mockReadCredentials(...args),
+  writeCredentials: (...args: unknown[]) => mockWriteCredentials(...args),
+  clearCredentials: (...args: unknown[]) => mockClearCredentials(...args),
 }));
 
-vi.mock("node:os", () => ({
-  homedir: () => "/mock-home",
+let mockProfile: string | undefined;
+let mockTokenStdin = false;
+vi.mock("../../src/lib/program.js", () => ({
+  program: {
+    opts: () => ({ profile: mockProfile, tokenStdin: mockTokenStdin }),
+  },
 }));
 
-vi.mock("../../src/lib/constants.js", () => ({
-  TOKEN_STORAGE_DIR: ".memberstack",
-  TOKEN_STORAGE_FILE: "auth.json",
+const mockStdinText = vi.fn();
+vi.mock("node:stream/consumers", () => ({
+  text: (...args: unknown[]) => mockStdinText(...args),
 }));
 
 const mockRefreshAccessToken = vi.fn();
@@ -25,11 +27,20 @@ vi.mock("../../src/lib/oauth.js", () => ({
   refreshAccessToken: (...args: unknown[]) => mockRefreshAccessToken(...args),
 }));
 
-const { saveTokens, loadTokens, clearTokens, getValidAccessToken, getAppId } =
-  await import("../../src/lib/token-storage.js");
-
-const TOKEN_PATH = "/mock-home/.memberstack/auth.json";
-const TOKEN_DIR = "/mock-home/.memberstack";
+const {
+  saveTokens,
+  loadTokens,
+  clearTokens,
+  clearAllTokens,
+  getActiveProfile,
+  getCredentialSource,
+  getValidAccessToken,
+  loadCredentials,
+  getAppId,
+  listProfiles,
+  useProfile,
+  removeProfile,
+} = await import("../../src/lib/token-storage.js");
 
 /** Build a base64url-encoded JWT with the given payload. */
 const buildJwt = (payload: Record<string, unknown>): string => {
@@ -40,42 +51,48 @@ const buildJwt = (payload: Record<string, unknown>): string => {
   return `${header}.${body}.signature`;
 };
 
-describe("token-storage", () => {
-  describe("saveTokens", () => {
-    it("creates the storage directory with restricted permissions", async () => {
-      mockMkdir.mockResolvedValueOnce(undefined);
-      mockWriteFile.mockResolvedValueOnce(undefined);
+/** Parse a profile from the last written token store. */
+const writtenProfile = (name = "default") =>
+  JSON.parse(mockWriteCredentials.mock.calls.at(-1)?.[0] as string).profiles[
+    name
+  ];
+
+const storeWith = (
+  profiles: Record<string, Record<string, unknown>>,
+  current?: string
+): string => JSON.stringify({ current, profiles });
+
+const tokens = (overrides: Record<string, unknown> = {}) => ({
+  access_token: "at_1",
+  expires_at: 9_999_999_999,
+  client_id: "client_1",
+  ...overrides,
+});
 
-      await saveTokens(
-        { access_token: "at_1", expires_in: 3600, token_type: "Bearer" },
-        "client_1"
-      );
+describe("token-storage", () => {
+  beforeEach(() => {
+    mockProfile = undefined;
+    mockTokenStdin = false;
+  });
 
-      expect(mockMkdir).toHaveBeenCalledWith(TOKEN_DIR, {
-        recursive: true,
-        mode: 0o700,
-      });
-    });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
 
-    it("writes token data with restricted file permissions", async () => {
-      mockMkdir.mockResolvedValueOnce(undefined);
-      mockWriteFile.mockResolvedValueOnce(undefined);
+  describe("saveTokens", () => {
+    it("writes the token store through the credential backend", async () => {
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
 
       await saveTokens(
         { access_token: "at_1", expires_in: 3600, token_type: "Bearer" },
         "client_1"
       );
 
-      expect(mockWriteFile).toHaveBeenCalledWith(
-        TOKEN_PATH,
-        expect.any(String),
-        { mode: 0o600 }
-      );
+      expect(mockWriteCredentials).toHaveBeenCalledWith(expect.any(String));
     });
 
     it("stores the correct fields including computed expires_at", async () => {
-      mockMkdir.mockResolvedValueOnce(undefined);
-      mockWriteFile.mockResolvedValueOnce(undefined);
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
 
       const now = Math.floor(Date.now() / 1000);
 
@@ -89,7 +106,7 @@ describe("token-storage", () => {
         "client_1"
       );
 
-      const written = JSON.parse(mockWriteFile.mock.calls[0][1] as string);
+      const written = writtenProfile();
       expect(written.access_token).toBe("at_1");
       expect(written.refresh_token).toBe("rt_1");
       expect(written.client_id).toBe("client_1");
@@ -98,8 +115,7 @@ describe("token-storage", () => {
     });
 
     it("parses app_id from a valid JWT access token", async () => {
-      mockMkdir.mockResolvedValueOnce(undefined);
-      mockWriteFile.mockResolvedValueOnce(undefined);
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
 
       const jwt = buildJwt({ appId: "app_123" });
 
@@ -108,26 +124,24 @@ describe("token-storage", () => {
         "client_1"
       );
 
-      const written = JSON.parse(mockWriteFile.mock.calls[0][1] as string);
+      const written = writtenProfile();
       expect(written.app_id).toBe("app_123");
     });
 
     it("sets app_id to undefined for a non-JWT access token", async () => {
-      mockMkdir.mockResolvedValueOnce(undefined);
-      mockWriteFile.mockResolvedValueOnce(undefined);
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
 
       await saveTokens(
         { access_token: "plain-token", expires_in: 3600, token_type: "Bearer" },
         "client_1"
       );
 
-      const written = JSON.parse(mockWriteFile.mock.calls[0][1] as string);
+      const written = writtenProfile();
       expect(written.app_id).toBeUndefined();
     });
 
     it("sets app_id to undefined when JWT payload has no appId", async () => {
-      mockMkdir.mockResolvedValueOnce(undefined);
-      mockWriteFile.mockResolvedValueOnce(undefined);
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
 
       const jwt = buildJwt({ sub: "user_1" });
 
@@ -136,13 +150,12 @@ describe("token-storage", () => {
         "client_1"
       );
 
-      const written = JSON.parse(mockWriteFile.mock.calls[0][1] as string);
+      const written = writtenProfile();
       expect(written.app_id).toBeUndefined();
     });
 
     it("sets app_id to undefined when JWT payload is invalid base64", async () => {
-      mockMkdir.mockResolvedValueOnce(undefined);
-      mockWriteFile.mockResolvedValueOnce(undefined);
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
 
       await saveTokens(
         {
@@ -153,7 +166,7 @@ describe("token-storage", () => {
         "client_1"
       );
 
-      const written = JSON.parse(mockWriteFile.mock.calls[0][1] as string);
+      const written = writtenProfile();
       expect(written.app_id).toBeUndefined();
     });
   });
@@ -167,39 +180,181 @@ describe("token-storage", () => {
         client_id: "client_1",
         app_id: "app_1",
       };
-      mockReadFile.mockResolvedValueOnce(JSON.stringify(stored));
+      mockReadCredentials.mockResolvedValueOnce(JSON.stringify(stored));
 
       const result = await loadTokens();
       expect(result).toEqual(stored);
-      expect(mockReadFile).toHaveBeenCalledWith(TOKEN_PATH, "utf-8");
+      expect(mockReadCredentials).toHaveBeenCalled();
+    });
+
+    it("surfaces credential backend errors", async () => {
+      mockReadCredentials.mockRejectedValueOnce(
+        new Error("Could not decrypt credentials. Check your passphrase.")
+      );
+
+      await expect(loadTokens()).rejects.toThrow("Could not decrypt");
     });
 
     it("returns null when token file does not exist", async () => {
-      mockReadFile.mockRejectedValueOnce(new Error("ENOENT"));
+      mockReadCredentials.mockResolvedValueOnce(null);
 
       const result = await loadTokens();
       expect(result).toBeNull();
     });
   });
 
+  describe("profiles", () => {
+    it("defaults to the default profile", async () => {
+      mockReadCredentials.mockResolvedValueOnce(null);
+
+      await expect(getActiveProfile()).resolves.toBe("default");
+    });
+
+    it("uses the stored current profile", async () => {
+      mockReadCredentials.mockResolvedValueOnce(
+        storeWith({ a: tokens(), b: tokens() }, "b")
+      );
+
+      await expect(getActiveProfile()).resolves.toBe("b");
+    });
+
+    it("prefers the --profile option over the stored current profile", async () => {
+      mockProfile = "a";
+      mockReadCredentials.mockResolvedValueOnce(
+        storeWith(
+          { a: tokens({ app_id: "app_a" }), b: tokens({ app_id: "app_b" }) },
+          "b"
+        )
+      );
+
+      await expect(getAppId()).resolves.toBe("app_a");
+    });
+
+    it("saves tokens to the selected profile without touching others", async () => {
+      mockProfile = "client-a";
+      mockReadCredentials.mockResolvedValueOnce(
+        storeWith({ default: tokens() }, "default")
+      );
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
+
+      await saveTokens(
+        { access_token: "at_a", expires_in: 3600, token_type: "Bearer" },
+        "client_a"
+      );
+
+      const store = JSON.parse(mockWriteCredentials.mock.calls[0][0] as string);
+      expect(store.current).toBe("default");
+      expect(store.profiles.default.access_token).toBe("at_1");
+      expect(store.profiles["client-a"].access_token).toBe("at_a");
+    });
+
+    it("makes the first saved profile current", async () => {
+      mockProfile = "client-a";
+      mockReadCredentials.mockResolvedValueOnce(null);
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
+
+      await saveTokens(
+        { access_token: "at_a", expires_in: 3600, token_type: "Bearer" },
+        "client_a"
+      );
+
+      const store = JSON.parse(mockWriteCredentials.mock.calls[0][0] as string);
+      expect(store.current).toBe("client-a");
+    });
+
+    it("lists profiles sorted by name with the active one marked", async () => {
+      mockReadCredentials.mockResolvedValueOnce(
+        storeWith({ b: tokens(), a: tokens() }, "b")
+      );
+
+      const profiles = await listProfiles();
+      expect(profiles.map(({ name, active }) => [name, active])).toEqual([
+        ["a", false],
+        ["b", true],
+      ]);
+    });
+
+    it("switches the current profile", async () => {
+      mockReadCredentials.mockResolvedValueOnce(
+        storeWith({ a: tokens(), b: tokens() })
+      );
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
+
+      await useProfile("b");
+
+      const store = JSON.parse(mockWriteCredentials.mock.calls[0][0] as string);
+      expect(store.current).toBe("b");
+    });
+
+    it("rejects switching to an unknown profile", async () => {
+      mockReadCredentials.mockResolvedValueOnce(storeWith({ a: tokens() }));
+
+      await expect(useProfile("missing")).rejects.toThrow(
+        'Profile "missing" not found.'
+      );
+      expect(mockWriteCredentials).not.toHaveBeenCalled();
+    });
+
+    it("removes a profile and unsets it as current", async () => {
+      mockReadCredentials.mockResolvedValueOnce(
+        storeWith({ a: tokens(), b: tokens({ access_token: "at_b" }) }, "b")
+      );
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
+
+      const removed = await removeProfile("b");
+
+      expect(removed.access_token).toBe("at_b");
+      const store = JSON.parse(mockWriteCredentials.mock.calls[0][0] as string);
+      expect(store.current).toBeUndefined();
+      expect(Object.keys(store.profiles)).toEqual(["a"]);
+    });
+  });
+
   describe("clearTokens", () => {
-    it("removes the token file", async () => {
-      mockRm.mockResolvedValueOnce(undefined);
+    it("removes only the active profile", async () => {
+      mockReadCredentials.mockResolvedValue(
+        storeWith({ a: tokens(), b: tokens() }, "a")
+      );
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
+
+      await clearTokens();
+
+      expect(mockClearCredentials).not.toHaveBeenCalled();
+      expect(writtenProfile("a")).toBeUndefined();
+      expect(writtenProfile("b")).toBeDefined();
+    });
+
+    it("clears the backend when the last profile is cleared", async () => {
+      mockReadCredentials.mockResolvedValue(storeWith({ default: tokens() }));
+      mockClearCredentials.mockResolvedValueOnce(undefined);
 
       await clearTokens();
-      expect(mockRm).toHaveBeenCalledWith(TOKEN_PATH);
+      expect(mockClearCredentials).toHaveBeenCalled();
+      expect(mockWriteCredentials).not.toHaveBeenCalled();
     });
 
-    it("does not throw when file does not exist", async () => {
-      mockRm.mockRejectedValueOnce(new Error("ENOENT"));
+    it("clears the backend when nothing is stored", async () => {
+      mockReadCredentials.mockResolvedValueOnce(null);
+      mockClearCredentials.mockResolvedValueOnce(undefined);
 
       await expect(clearTokens()).resolves.toBeUndefined();
+      expect(mockClearCredentials).toHaveBeenCalled();
+    });
+  });
+
+  describe("clearAllTokens", () => {
+    it("clears stored credentials for all profiles", async () => {
+      mockClearCredentials.mockResolvedValueOnce(undefined);
+
+      await clearAllTokens();
+      expect(mockClearCredentials).toHaveBeenCalled();
+      expect(mockReadCredentials).not.toHaveBeenCalled();
     });
   });
 
   describe("getValidAccessToken", () => {
     it("returns null when no tokens are stored", async () => {
-      mockReadFile.mockRejectedValueOnce(new Error("ENOENT"));
+      mockReadCredentials.mockResolvedValueOnce(null);
 
       const result = await getValidAccessToken();
       expect(result).toBeNull();
@@ -212,7 +367,7 @@ describe("token-storage", () => {
         expires_at: Math.floor(Date.now() / 1000) + 3600,
         client_id: "client_1",
       };
-      mockReadFile.mockResolvedValueOnce(JSON.stringify(stored));
+      mockReadCredentials.mockResolvedValueOnce(JSON.stringify(stored));
 
       const result = await getValidAccessToken();
       expect(result).toBe("at_valid");
@@ -224,7 +379,7 @@ describe("token-storage", () => {
         expires_at: 0,
         client_id: "client_1",
       };
-      mockReadFile.mockResolvedValueOnce(JSON.stringify(stored));
+      mockReadCredentials.mockResolvedValueOnce(JSON.stringify(stored));
 
       const result = await getValidAccessToken();
       expect(result).toBeNull();
@@ -237,9 +392,8 @@ describe("token-storage", () => {
         expires_at: 0,
         client_id: "client_1",
       };
-      mockReadFile.mockResolvedValueOnce(JSON.stringify(stored));
-      mockMkdir.mockResolvedValueOnce(undefined);
-      mockWriteFile.mockResolvedValueOnce(undefined);
+      mockReadCredentials.mockResolvedValueOnce(JSON.stringify(stored));
+      mockWriteCredentials.mockResolvedValueOnce(undefined);
 
       mockRefreshAccessToken.mockResolvedValueOnce({
         access_token: "at_refreshed",
@@ -262,20 +416,92 @@ describe("token-storage", () => {
         expires_at: 0,
         client_id: "client_1",
       };
-      mockReadFile.mockResolvedValueOnce(JSON.stringify(stored));
+      mockReadCredentials.mockResolvedValueOnce(JSON.stringify(stored));
       mockRefreshAccessToken.mockRejectedValueOnce(new Error("refresh failed"));
 
       const result = await getValidAccessToken();
       expect(result).toBeNull();
     });
 
+    it("refreshes once for concurrent requests with an expired token", async () => {
+      mockReadCredentials.mockResolvedValue(
+        JSON.stringify(
+          tokens({
+            access_token: "at_expired",
+            refresh_token: "rt_rotating",
+            expires_at: 0,
+          })
+        )
+      );
+      mockWriteCredentials.mockResolvedValue(undefined);
+      // A rotating server rejects the refresh token after its first use
+      mockRefreshAccessToken
+        .mockImplementationOnce(async () => {
+          await Promise.resolve();
+          return {
+            access_token: "at_refreshed",
+            refresh_token: "rt_next",
+            expires_in: 3600,
+            token_type: "Bearer",
+          };
+        })
+        .mockRejectedValue(new Error("invalid_grant"));
+
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => getValidAccessToken())
+      );
+
+      expect(new Set(results)).toEqual(new Set(["at_refreshed"]));
+      expect(mockRefreshAccessToken).toHaveBeenCalledTimes(1);
+    });
+
+    it("refreshes again when a non-rotating refresh token is reused", async () => {
+      mockWriteCredentials.mockResolvedValue(undefined);
+      mockReadCredentials.mockResolvedValueOnce(
+        JSON.stringify(
+          tokens({
+            access_token: "at_first",
+            refresh_token: "rt_static",
+            expires_at: 0,
+          })
+        )
+      );
+      mockRefreshAccessToken.mockResolvedValueOnce({
+        access_token: "at_second",
+        refresh_token: "rt_static",
+        expires_in: 3600,
+        token_type: "Bearer",
+      });
+      expect(await getValidAccessToken()).toBe("at_second");
+
+      // The refreshed token has expired too, and the server kept the same
+      // refresh token
+      mockReadCredentials.mockResolvedValueOnce(
+        JSON.stringify(
+          tokens({
+            access_token: "at_second",
+            refresh_token: "rt_static",
+            expires_at: 0,
+          })
+        )
+      );
+      mockRefreshAccessToken.mockResolvedValueOnce({
+        access_token: "at_third",
+        refresh_token: "rt_static",
+        expires_in: 3600,
+        token_type: "Bearer",
+      });
+      expect(await getValidAccessToken()).toBe("at_third");
+      expect(mockRefreshAccessToken).toHaveBeenCalledTimes(2);
+    });
+
     it("treats tokens within the 60-second buffer as expired", async () => {
       const stored = {
         access_token: "at_almost_expired",
         expires_at: Math.floor(Date.now() / 1000) + 30,
         client_id: "client_1",
       };
-      mockReadFile.mockResolvedValueOnce(JSON.stringify(stored));
+      mockReadCredentials.mockResolvedValueOnce(JSON.stringify(stored));
 
       const result = await getValidAccessToken();
       expect(result).toBeNull();
@@ -290,14 +516,14 @@ describe("token-storage", () => {
         client_id: "client_1",
         app_id: "app_42",
       };
-      mockReadFile.mockResolvedValueOnce(JSON.stringify(stored));
+      mockReadCredentials.mockResolvedValueOnce(JSON.stringify(stored));
 
       const result = await getAppId();
       expect(result).toBe("app_42");
     });
 
     it("returns null when no tokens are stored", async () => {
-      mockReadFile.mockRejectedValueOnce(new Error("ENOENT"));
+      mockReadCredentials.mockResolvedValueOnce(null);
 
       const result = await getAppId();
       expect(result).toBeNull();
@@ -309,10 +535,98 @@ describe("token-storage", () => {
         expires_at: 9_999_999_999,
         client_id: "client_1",
       };
-      mockReadFile.mockResolvedValueOnce(JSON.stringify(stored));
+      mockReadCredentials.mockResolvedValueOnce(JSON.stringify(stored));
 
       const result = await getAppId();
       expect(result).toBeNull();
     });
   });
+
+  describe("external credentials", () => {
+    it("uses the stored profile when no credentials are supplied", () => {
+      expect(getCredentialSource()).toBe("profile");
+    });
+
+    it("prefers stdin over environment variables", () => {
+      vi.stubEnv("MEMBERSTACK_ACCESS_TOKEN", "at_env");
+      expect(getCredentialSource()).toBe("env");
+
+      mockTokenStdin = true;
+      expect(getCredentialSource()).toBe("stdin");
+    });
+
+    it("reads an access token from the environment without reading stored credentials", async () => {
+      const jwt = buildJwt({ appId: "app_env", exp: 2_000_000_000 });
+      vi.stubEnv("MEMBERSTACK_ACCESS_TOKEN", jwt);
+
+      const result = await loadCredentials();
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          access_token: jwt,
+          app_id: "app_env",
+          expires_at: 2_000_000_000,
+        })
+      );
+      expect(mockReadCredentials).not.toHaveBeenCalled();
+    });
+
+    it("lets MEMBERSTACK_APP_ID override the token app ID", async () => {
+      vi.stubEnv("MEMBERSTACK_ACCESS_TOKEN", buildJwt({ appId: "app_env" }));
+      vi.stubEnv("MEMBERSTACK_APP_ID", "app_override");
+
+      await expect(getAppId()).resolves.toBe("app_override");
+    });
+
+    it("treats tokens without an exp claim as non-expiring", async () => {
+      vi.stubEnv("MEMBERSTACK_ACCESS_TOKEN", "plain-token");
+
+      await expect(getValidAccessToken()).resolves.toBe("plain-token");
+    });
+
+    it("reads a JSON credential from MEMBERSTACK_CREDENTIALS", async () => {
+      vi.stubEnv(
+        "MEMBERSTACK_CREDENTIALS",
+        JSON.stringify(tokens({ app_id: "app_json" }))
+      );
+
+      await expect(getAppId()).resolves.toBe("app_json");
+    });
+
+    it("requires a client ID alongside a refresh token", async () => {
+      vi.stubEnv("MEMBERSTACK_REFRESH_TOKEN", "rt_env");
+
+      await expect(getValidAccessToken()).rejects.toThrow(
+        "A refresh token requires a client ID"
+      );
+    });
+
+    it("reads an access token from stdin", async () => {
+      mockTokenStdin = true;
+      mockStdinText.mockResolvedValueOnce("at_stdin\n");
+
+      await expect(getValidAccessToken()).resolves.toBe("at_stdin");
+      expect(mockReadCredentials).not.toHaveBeenCalled();
+    });
+
+    it("refreshes environment credentials in memory only", async () => {
+      vi.stubEnv("MEMBERSTACK_REFRESH_TOKEN", "rt_env");
+      vi.stubEnv("MEMBERSTACK_CLIENT_ID", "client_env");
+      mockRefreshAccessToken.mockResolvedValueOnce({
+        access_token: buildJwt({ appId: "app_env" }),
+        expires_in: 3600,
+        token_type: "Bearer",
+      });
+
+      const result = await getValidAccessToken();
+
+      expect(result).toBe(buildJwt({ appId: "app_env" }));
+      expect(mockRefreshAccessToken).toHaveBeenCalledWith({
+        clientId: "client_env",
+        refreshToken: "rt_env",
+      });
+      expect(mockWriteCredentials).not.toHaveBeenCalled();
+      await expect(getAppId()).resolves.toBe("app_env");
+    });
+  });
 });
@@ -4,8 +4,9 @@ vi.mock("../../src/lib/program.js", () => ({
   program: { opts: () => ({}) },
 }));
 
-const { parseKeyValuePairs, parseJsonString, parseWhereClause, delay } =
-  await import("../../src/lib/utils.js");
+const { parseKeyValuePairs, parseJsonString, delay } = await import(
+  "../../src/lib/utils.js"
+);
 
 describe("utils", () => {
   describe("parseKeyValuePairs", () => {
@@ -37,43 +38,6 @@ describe("utils", () => {
     });
   });
 
-  describe("parseWhereClause", () => {
-    it("parses field operator value clauses", () => {
-      const result = parseWhereClause(["name equals Alice"]);
-      expect(result).toEqual({ name: { equals: "Alice" } });
-    });
-
-    it("coerces boolean and number values", () => {
-      const result = parseWhereClause(["active equals true", "age gt 18"]);
-      expect(result).toEqual({
-        active: { equals: true },
-        age: { gt: 18 },
-      });
-    });
-
-    it("coerces null values", () => {
-      const result = parseWhereClause(["field equals null"]);
-      expect(result).toEqual({ field: { equals: null } });
-    });
-
-    it("handles multi-word values", () => {
-      const result = parseWhereClause(["name contains John Doe"]);
-      expect(result).toEqual({ name: { contains: "John Doe" } });
-    });
-
-    it("throws on too few parts", () => {
-      expect(() => parseWhereClause(["invalid"])).toThrow(
-        'Invalid where clause: "invalid"'
-      );
-    });
-
-    it("throws on unknown operator", () => {
-      expect(() => parseWhereClause(["name LIKE Alice"])).toThrow(
-        'Unknown operator "LIKE"'
-      );
-    });
-  });
-
   describe("delay", () => {
     it("resolves after specified ms", async () => {
       vi.useFakeTimers();
@@ -0,0 +1,196 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createMemberRowChecker,
+  createRecordRowChecker,
+  printValidationReport,
+} from "../../src/lib/validation.js";
+
+type MemberRow = Parameters<ReturnType<typeof createMemberRowChecker>>[0];
+type RecordRow = Parameters<ReturnType<typeof createRecordRowChecker>>[0];
+
+const context = {
+  customFieldKeys: new Set(["company"]),
+  defaultMode: "password" as const,
+  planIds: new Set(["pln_free"]),
+};
+
+/** Feeds rows to one member checker in file order, as the import does. */
+const validateMemberRows = (
+  rows: MemberRow[],
+  memberContext: Parameters<typeof createMemberRowChecker>[0]
+) => {
+  const check = createMemberRowChecker(memberContext);
+  return rows.flatMap((row, index) => check(row, index));
+};
+
+/** Feeds rows to one record checker in file order, as the import does. */
+const validateRecordRows = (
+  rows: RecordRow[],
+  ...args: Parameters<typeof createRecordRowChecker>
+) => {
+  const check = createRecordRowChecker(...args);
+  return rows.flatMap((row, index) => check(row, index));
+};
+
+describe("validation", () => {
+  describe("createMemberRowChecker", () => {
+    it("passes well-formed rows", () => {
+      expect(
+        validateMemberRows(
+          [
+            {
+              email: "a@test.com",
+              password: "secret",
+              plans: "pln_free",
+              "customFields.company": "Acme",
+            },
+            { email: "b@test.com", mode: "generate" },
+            { email: "c@test.com", mode: "passwordless" },
+          ],
+          context
+        )
+      ).toEqual([]);
+    });
+
+    it("reports credentials, emails, plans and custom fields per column", () => {
+      expect(
+        validateMemberRows(
+          [
+            { email: "not-an-email", plans: "pln_free, pln_gone" },
+            { email: "b@test.com", mode: "hash", passwordHash: "plain" },
+            { email: "c@test.com", mode: "magic", "customFields.team": "x" },
+          ],
+          context
+        )
+      ).toEqual([
+        { row: 1, column: "password", message: "required in password mode" },
+        { row: 1, column: "email", message: 'invalid email "not-an-email"' },
+        { row: 1, column: "plans", message: 'unknown plan "pln_gone"' },
+        { row: 2, column: "mode", message: 'unknown mode "hash"' },
+        { row: 3, column: "mode", message: 'unknown mode "magic"' },
+        {
+          row: 3,
+          column: "customFields.team",
+          message: 'unknown custom field "team"',
+        },
+      ]);
+    });
+
+    it("flags duplicate emails case-insensitively", () => {
+      const issues = validateMemberRows(
+        [
+          { email: "a@test.com", mode: "passwordless" },
+          { email: "A@Test.com", mode: "passwordless" },
+        ],
+        context
+      );
+
+      expect(issues).toEqual([
+        {
+          row: 2,
+          column: "email",
+          message: "duplicate of data row 1 (a@test.com)",
+        },
+      ]);
+    });
+
+    it("skips credential checks for rows that update existing members", () => {
+      expect(
+        validateMemberRows([{ email: "a@test.com" }], {
+          ...context,
+          existingRows: new Set([0]),
+        })
+      ).toEqual([]);
+    });
+
+    it("reports rows that failed to map", () => {
+      expect(
+        validateMemberRows([new Error("Cannot parse date")], context)
+      ).toEqual([{ row: 1, column: "", message: "Cannot parse date" }]);
+    });
+  });
+
+  describe("createRecordRowChecker", () => {
+    const fields = [
+      { key: "slug", type: "TEXT_UNIQUE", required: true },
+      { key: "age", type: "NUMBER", required: false },
+    ];
+
+    it("reports type errors, unknown columns and missing required fields", () => {
+      expect(
+        validateRecordRows([{ age: "abc", colour: "red" }], fields, new Map())
+      ).toEqual([
+        { row: 1, column: "age", message: 'expected an integer, got "abc"' },
+        { row: 1, column: "colour", message: "not a field of this table" },
+        { row: 1, column: "slug", message: "required" },
+      ]);
+    });
+
+    it("flags unique values repeated in the file or already in the table", () => {
+      const issues = validateRecordRows(
+        [{ slug: "one" }, { slug: "one" }, { slug: "taken" }],
+        fields,
+        new Map([["slug", new Set(["taken"])]])
+      );
+
+      expect(issues).toEqual([
+        { row: 2, column: "slug", message: '"one" repeats data row 1' },
+        { row: 3, column: "slug", message: '"taken" already exists' },
+      ]);
+    });
+
+    it("also checks coerced rows against a JSON Schema", () => {
+      const schema = {
+        type: "object" as const,
+        properties: {
+          slug: { type: "string" as const, format: "email" as const },
+          age: { type: ["integer" as const, "null" as const] },
+        },
+        required: ["slug", "age"],
+      };
+
+      expect(
+        validateRecordRows(
+          [{ slug: "not-an-email", age: "30" }, { age: "abc" }],
+          fields,
+          new Map(),
+          schema
+        )
+      ).toEqual([
+        { row: 1, column: "slug", message: "expected email format" },
+        { row: 2, column: "age", message: 'expected an integer, got "abc"' },
+        { row: 2, column: "slug", message: "required" },
+      ]);
+    });
+
+    it("only checks row errors when the table has no schema", () => {
+      expect(
+        validateRecordRows(
+          [{ anything: "x" }, new Error("No data fields found")],
+          [],
+          new Map()
+        )
+      ).toEqual([{ row: 2, column: "", message: "No data fields found" }]);
+    });
+  });
+
+  describe("printValidationReport", () => {
+    it("sets a failing exit code only when issues were found", () => {
+      const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+      const original = process.exitCode;
+
+      printValidationReport([], 3);
+      expect(process.exitCode).toBe(original);
+      expect(stderr.mock.calls.join("")).toContain("3 data row(s) checked");
+
+      printValidationReport(
+        [{ row: 1, column: "email", message: "required" }],
+        3
+      );
+      expect(process.exitCode).toBe(1);
+      expect(stderr.mock.calls.join("")).toContain("1 issue(s) in 1 of 3");
+      process.exitCode = original;
+      stderr.mockRestore();
+    });
+  });
+});